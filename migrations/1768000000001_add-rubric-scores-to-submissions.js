@@ -0,0 +1,43 @@
+/**
+ * Migration: Add rubric_scores column to submissions table
+ *
+ * Stores the per-criterion breakdown of a grade when the assignment defines
+ * grading_criteria. Format structure:
+ * [
+ *   { criterion_index, title, points, score, comment }
+ * ]
+ * The submission score is the sum of the criterion scores.
+ *
+ * @type {import('node-pg-migrate').ColumnDefinitions | undefined}
+ */
+const shorthands = undefined;
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const up = (pgm) => {
+  pgm.addColumn('submissions', {
+    rubric_scores: {
+      type: 'jsonb',
+      notNull: false,
+      comment: 'Per-criterion scores and comments against assignment grading_criteria'
+    }
+  });
+};
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const down = (pgm) => {
+  pgm.dropColumn('submissions', 'rubric_scores');
+};
+
+module.exports = {
+  shorthands,
+  up,
+  down,
+};
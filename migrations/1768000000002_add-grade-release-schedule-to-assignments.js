@@ -0,0 +1,47 @@
+/**
+ * Migration: Add grade_release_at column to assignments table
+ *
+ * Lets teachers keep draft grades (status under_review) hidden and release
+ * them together at a scheduled time. The grade release cron job picks up
+ * assignments whose grade_release_at has passed and clears the column.
+ *
+ * @type {import('node-pg-migrate').ColumnDefinitions | undefined}
+ */
+const shorthands = undefined;
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const up = (pgm) => {
+  pgm.addColumn('assignments', {
+    grade_release_at: {
+      type: 'timestamp',
+      notNull: false,
+      comment: 'Scheduled time to release all draft grades for this assignment'
+    }
+  });
+
+  // Partial index - the cron only looks at assignments with a pending release
+  pgm.createIndex('assignments', 'grade_release_at', {
+    name: 'assignments_grade_release_at_idx',
+    where: 'grade_release_at IS NOT NULL'
+  });
+};
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const down = (pgm) => {
+  pgm.dropIndex('assignments', 'grade_release_at', { name: 'assignments_grade_release_at_idx' });
+  pgm.dropColumn('assignments', 'grade_release_at');
+};
+
+module.exports = {
+  shorthands,
+  up,
+  down,
+};
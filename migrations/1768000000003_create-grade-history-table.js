@@ -0,0 +1,104 @@
+/**
+ * Migration: Create grade_history table
+ *
+ * Audit trail for grade amendments. Once a grade is finalized it can only be
+ * changed through the amendment endpoint, which records the previous and new
+ * score/feedback/rubric values together with the required reason.
+ *
+ * @type {import('node-pg-migrate').ColumnDefinitions | undefined}
+ */
+const shorthands = undefined;
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const up = (pgm) => {
+  pgm.createTable('grade_history', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('gen_random_uuid()')
+    },
+    school_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'schools',
+      onDelete: 'CASCADE',
+      comment: 'School for multi-tenancy - must match submission school'
+    },
+    submission_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'submissions',
+      onDelete: 'CASCADE',
+      comment: 'Submission whose grade was amended'
+    },
+    previous_score: {
+      type: 'numeric(5, 2)',
+      notNull: false,
+      comment: 'Score before the amendment'
+    },
+    previous_feedback: {
+      type: 'text',
+      notNull: false,
+      comment: 'Feedback before the amendment'
+    },
+    previous_rubric_scores: {
+      type: 'jsonb',
+      notNull: false,
+      comment: 'Rubric breakdown before the amendment'
+    },
+    new_score: {
+      type: 'numeric(5, 2)',
+      notNull: false,
+      comment: 'Score after the amendment'
+    },
+    new_feedback: {
+      type: 'text',
+      notNull: false,
+      comment: 'Feedback after the amendment'
+    },
+    new_rubric_scores: {
+      type: 'jsonb',
+      notNull: false,
+      comment: 'Rubric breakdown after the amendment'
+    },
+    reason: {
+      type: 'text',
+      notNull: true,
+      comment: 'Why the finalized grade was amended (visible to the student)'
+    },
+    amended_by: {
+      type: 'uuid',
+      notNull: false,
+      references: 'users',
+      onDelete: 'SET NULL',
+      comment: 'Teacher or school admin who amended the grade'
+    },
+    created_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func('current_timestamp')
+    }
+  });
+
+  pgm.createIndex('grade_history', 'school_id');
+  pgm.createIndex('grade_history', ['submission_id', 'created_at']);
+};
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const down = (pgm) => {
+  pgm.dropTable('grade_history', { ifExists: true });
+};
+
+module.exports = {
+  shorthands,
+  up,
+  down,
+};
@@ -0,0 +1,79 @@
+/**
+ * Migration: Add late submission policy columns
+ *
+ * assignments.late_policy format structure:
+ * {
+ *   "grace_period_minutes": 15,
+ *   "deduction_percent": 10,
+ *   "deduction_interval": "day" | "hour",
+ *   "max_penalty_percent": 50,
+ *   "cutoff_hours": 72
+ * }
+ *
+ * Submissions record how late they were and the penalty charged. The raw
+ * teacher score stays in score; final_score is the score after the penalty.
+ *
+ * @type {import('node-pg-migrate').ColumnDefinitions | undefined}
+ */
+const shorthands = undefined;
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const up = (pgm) => {
+  pgm.addColumn('assignments', {
+    late_policy: {
+      type: 'jsonb',
+      notNull: false,
+      comment: 'Late policy: grace period, deduction per hour/day, max penalty and hard cutoff'
+    }
+  });
+
+  pgm.addColumns('submissions', {
+    minutes_late: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+      comment: 'Minutes past the due date (in school timezone) when submitted'
+    },
+    late_penalty_percent: {
+      type: 'numeric(5, 2)',
+      notNull: true,
+      default: 0,
+      comment: 'Penalty percentage from the assignment late policy'
+    },
+    late_penalty_points: {
+      type: 'numeric(5, 2)',
+      notNull: false,
+      comment: 'Points deducted from the raw score for lateness'
+    },
+    final_score: {
+      type: 'numeric(5, 2)',
+      notNull: false,
+      comment: 'Score after the late penalty is applied'
+    }
+  });
+};
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const down = (pgm) => {
+  pgm.dropColumns('submissions', [
+    'minutes_late',
+    'late_penalty_percent',
+    'late_penalty_points',
+    'final_score'
+  ]);
+  pgm.dropColumn('assignments', 'late_policy');
+};
+
+module.exports = {
+  shorthands,
+  up,
+  down,
+};
@@ -0,0 +1,106 @@
+/**
+ * Migration: Create assignment_extensions table
+ *
+ * Per-student or per-group due date overrides for an assignment
+ * (accommodations, illness, ...). A group extension is a single row
+ * covering several students, optionally labelled with group_name.
+ * When a student is covered by several extensions the latest due date wins.
+ *
+ * @type {import('node-pg-migrate').ColumnDefinitions | undefined}
+ */
+const shorthands = undefined;
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const up = (pgm) => {
+  pgm.createTable('assignment_extensions', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('gen_random_uuid()')
+    },
+    school_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'schools',
+      onDelete: 'CASCADE',
+      comment: 'School for multi-tenancy - must match assignment school'
+    },
+    assignment_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'assignments',
+      onDelete: 'CASCADE'
+    },
+    student_ids: {
+      type: 'uuid[]',
+      notNull: true,
+      comment: 'Students covered by this extension (one for a per-student extension)'
+    },
+    group_name: {
+      type: 'varchar(255)',
+      notNull: false,
+      comment: 'Optional label for a group extension'
+    },
+    due_date: {
+      type: 'timestamp',
+      notNull: true,
+      comment: 'Extended deadline (wall-clock time in school timezone)'
+    },
+    allow_late_submission: {
+      type: 'boolean',
+      notNull: false,
+      comment: 'Overrides assignment allow_late_submission when set'
+    },
+    late_policy: {
+      type: 'jsonb',
+      notNull: false,
+      comment: 'Overrides assignment late_policy when set'
+    },
+    reason: {
+      type: 'text',
+      notNull: false,
+      comment: 'Why the extension was granted'
+    },
+    granted_by: {
+      type: 'uuid',
+      notNull: false,
+      references: 'users',
+      onDelete: 'SET NULL'
+    },
+    created_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func('current_timestamp')
+    },
+    updated_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func('current_timestamp')
+    }
+  });
+
+  pgm.createIndex('assignment_extensions', 'school_id');
+  pgm.createIndex('assignment_extensions', 'assignment_id');
+  pgm.createIndex('assignment_extensions', 'student_ids', {
+    method: 'gin'
+  });
+};
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const down = (pgm) => {
+  pgm.dropTable('assignment_extensions', { ifExists: true });
+};
+
+module.exports = {
+  shorthands,
+  up,
+  down,
+};
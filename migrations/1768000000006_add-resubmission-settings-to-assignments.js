@@ -0,0 +1,56 @@
+/**
+ * Migration: Add resubmission settings to assignments table
+ *
+ * max_attempts limits how many versions a student can submit
+ * (null = unlimited). attempt_scoring picks which graded attempt
+ * counts towards the student's grade: latest, highest or average.
+ *
+ * @type {import('node-pg-migrate').ColumnDefinitions | undefined}
+ */
+const shorthands = undefined;
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const up = (pgm) => {
+  pgm.addColumns('assignments', {
+    max_attempts: {
+      type: 'integer',
+      notNull: false,
+      comment: 'Maximum number of submission versions per student (null = unlimited)'
+    },
+    attempt_scoring: {
+      type: 'text',
+      notNull: true,
+      default: 'latest',
+      comment: 'Which graded attempt counts: latest, highest or average'
+    }
+  });
+
+  pgm.addConstraint('assignments', 'assignments_max_attempts_check', {
+    check: 'max_attempts IS NULL OR max_attempts >= 1'
+  });
+
+  pgm.addConstraint('assignments', 'assignments_attempt_scoring_check', {
+    check: "attempt_scoring IN ('latest', 'highest', 'average')"
+  });
+};
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const down = (pgm) => {
+  pgm.dropConstraint('assignments', 'assignments_attempt_scoring_check', { ifExists: true });
+  pgm.dropConstraint('assignments', 'assignments_max_attempts_check', { ifExists: true });
+  pgm.dropColumns('assignments', ['max_attempts', 'attempt_scoring']);
+};
+
+module.exports = {
+  shorthands,
+  up,
+  down,
+};
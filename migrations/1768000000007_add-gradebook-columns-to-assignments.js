@@ -0,0 +1,51 @@
+/**
+ * Migration: Add gradebook category and weight columns to assignments table
+ *
+ * grade_category groups assignments in the class gradebook (e.g. essays,
+ * quizzes) and grade_weight sets how much an assignment counts towards the
+ * student's running average.
+ *
+ * @type {import('node-pg-migrate').ColumnDefinitions | undefined}
+ */
+const shorthands = undefined;
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const up = (pgm) => {
+  pgm.addColumns('assignments', {
+    grade_category: {
+      type: 'text',
+      notNull: false,
+      comment: 'Gradebook category like essay, quiz, project'
+    },
+    grade_weight: {
+      type: 'numeric(6, 2)',
+      notNull: true,
+      default: 1,
+      comment: 'Weight of this assignment in the gradebook running average'
+    }
+  });
+
+  pgm.addConstraint('assignments', 'assignments_grade_weight_check', {
+    check: 'grade_weight >= 0'
+  });
+};
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const down = (pgm) => {
+  pgm.dropConstraint('assignments', 'assignments_grade_weight_check', { ifExists: true });
+  pgm.dropColumns('assignments', ['grade_category', 'grade_weight']);
+};
+
+module.exports = {
+  shorthands,
+  up,
+  down,
+};
@@ -0,0 +1,47 @@
+/**
+ * Migration: Add length requirement enforcement to assignments table
+ *
+ * length_enforcement controls what happens at submit time when the server
+ * computed word/page count of a submission is outside the assignment
+ * min_word_count / max_word_count / page_count requirements:
+ * off (ignore), warn (accept with warnings) or block (reject).
+ *
+ * @type {import('node-pg-migrate').ColumnDefinitions | undefined}
+ */
+const shorthands = undefined;
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const up = (pgm) => {
+  pgm.addColumns('assignments', {
+    length_enforcement: {
+      type: 'varchar(10)',
+      notNull: true,
+      default: 'warn',
+      comment: 'Length requirement strictness at submit: off, warn, block'
+    }
+  });
+
+  pgm.addConstraint('assignments', 'assignments_length_enforcement_check', {
+    check: "length_enforcement IN ('off', 'warn', 'block')"
+  });
+};
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const down = (pgm) => {
+  pgm.dropConstraint('assignments', 'assignments_length_enforcement_check', { ifExists: true });
+  pgm.dropColumns('assignments', ['length_enforcement']);
+};
+
+module.exports = {
+  shorthands,
+  up,
+  down,
+};
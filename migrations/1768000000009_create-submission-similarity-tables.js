@@ -0,0 +1,144 @@
+/**
+ * Migration: Create submission similarity tables
+ *
+ * submission_fingerprints keeps the MinHash signature, LSH band hashes and a
+ * text snapshot of every turned-in submission so new work can be compared
+ * with the same assignment and past cohorts in the school without an
+ * external service. submission_similarity_matches stores the matched
+ * submissions with their overlap percentage and the shared passages.
+ *
+ * @type {import('node-pg-migrate').ColumnDefinitions | undefined}
+ */
+const shorthands = undefined;
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const up = (pgm) => {
+  pgm.createTable('submission_fingerprints', {
+    submission_id: {
+      type: 'uuid',
+      primaryKey: true,
+      references: 'submissions',
+      onDelete: 'CASCADE'
+    },
+    school_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'schools',
+      onDelete: 'CASCADE',
+      comment: 'School for multi-tenancy - comparisons never leave the school'
+    },
+    student_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'users',
+      onDelete: 'CASCADE',
+      comment: 'Author - a student is never matched against their own work'
+    },
+    shingle_count: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+      comment: 'Number of distinct word shingles in the submission'
+    },
+    signature: {
+      type: 'integer[]',
+      notNull: true,
+      comment: 'MinHash signature of the word shingles'
+    },
+    lsh_bands: {
+      type: 'integer[]',
+      notNull: true,
+      comment: 'Locality sensitive hashing band hashes used to find candidates'
+    },
+    content_text: {
+      type: 'text',
+      notNull: true,
+      comment: 'Plain text snapshot at the time it was turned in'
+    },
+    created_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func('current_timestamp')
+    }
+  });
+
+  pgm.createIndex('submission_fingerprints', 'school_id');
+  pgm.createIndex('submission_fingerprints', 'lsh_bands', { method: 'gin' });
+
+  pgm.createTable('submission_similarity_matches', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('gen_random_uuid()')
+    },
+    submission_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'submissions',
+      onDelete: 'CASCADE',
+      comment: 'Submission that was checked'
+    },
+    matched_submission_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'submissions',
+      onDelete: 'CASCADE',
+      comment: 'Earlier submission that shares text with it'
+    },
+    similarity_percent: {
+      type: 'numeric(5, 2)',
+      notNull: true,
+      comment: 'Share of the checked submission found in the matched one'
+    },
+    passages: {
+      type: 'jsonb',
+      notNull: true,
+      default: '[]',
+      comment: 'Matching passages with their text and offsets'
+    },
+    created_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func('current_timestamp')
+    }
+  });
+
+  pgm.addConstraint('submission_similarity_matches', 'submission_similarity_matches_pair_unique', {
+    unique: ['submission_id', 'matched_submission_id']
+  });
+  pgm.createIndex('submission_similarity_matches', 'matched_submission_id');
+
+  pgm.addColumns('submissions', {
+    similarity_percent: {
+      type: 'numeric(5, 2)',
+      notNull: false,
+      comment: 'Share of the submission found in other submissions of the school'
+    },
+    similarity_checked_at: {
+      type: 'timestamp',
+      notNull: false,
+      comment: 'When the originality check last ran'
+    }
+  });
+};
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const down = (pgm) => {
+  pgm.dropColumns('submissions', ['similarity_percent', 'similarity_checked_at']);
+  pgm.dropTable('submission_similarity_matches', { ifExists: true });
+  pgm.dropTable('submission_fingerprints', { ifExists: true });
+};
+
+module.exports = {
+  shorthands,
+  up,
+  down,
+};
@@ -0,0 +1,107 @@
+/**
+ * Migration: Add status and threaded replies to teacher feedbacks
+ *
+ * Each feedback item gets a status (open, addressed, resolved) so teachers
+ * can track which comments the student has dealt with. Students and teachers
+ * can answer a feedback item in teacher_feedback_replies.
+ *
+ * @type {import('node-pg-migrate').ColumnDefinitions | undefined}
+ */
+const shorthands = undefined;
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const up = (pgm) => {
+  pgm.addColumns('teacher_feedbacks', {
+    status: {
+      type: 'varchar(20)',
+      notNull: true,
+      default: 'open',
+      comment: 'Feedback status: open, addressed (by the student), resolved'
+    },
+    status_changed_by: {
+      type: 'uuid',
+      notNull: false,
+      references: 'users',
+      onDelete: 'SET NULL',
+      comment: 'User who last changed the status'
+    },
+    status_changed_at: {
+      type: 'timestamp',
+      notNull: false,
+      comment: 'When the status was last changed'
+    }
+  });
+
+  pgm.addConstraint('teacher_feedbacks', 'teacher_feedbacks_status_check', {
+    check: "status IN ('open', 'addressed', 'resolved')"
+  });
+  pgm.createIndex('teacher_feedbacks', ['submission_id', 'status']);
+
+  pgm.createTable('teacher_feedback_replies', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('gen_random_uuid()')
+    },
+    school_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'schools',
+      onDelete: 'CASCADE',
+      comment: 'School for multi-tenancy - must match feedback school'
+    },
+    feedback_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'teacher_feedbacks',
+      onDelete: 'CASCADE',
+      comment: 'Feedback item the reply belongs to'
+    },
+    author_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'users',
+      onDelete: 'CASCADE',
+      comment: 'Teacher, student or admin who wrote the reply'
+    },
+    body: {
+      type: 'text',
+      notNull: true
+    },
+    created_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func('current_timestamp')
+    },
+    updated_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func('current_timestamp')
+    }
+  });
+
+  pgm.createIndex('teacher_feedback_replies', ['feedback_id', 'created_at']);
+  pgm.createIndex('teacher_feedback_replies', 'school_id');
+};
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const down = (pgm) => {
+  pgm.dropTable('teacher_feedback_replies', { ifExists: true });
+  pgm.dropIndex('teacher_feedbacks', ['submission_id', 'status'], { ifExists: true });
+  pgm.dropConstraint('teacher_feedbacks', 'teacher_feedbacks_status_check', { ifExists: true });
+  pgm.dropColumns('teacher_feedbacks', ['status', 'status_changed_by', 'status_changed_at']);
+};
+
+module.exports = {
+  shorthands,
+  up,
+  down,
+};
@@ -0,0 +1,78 @@
+/**
+ * Migration: Track accept/reject outcomes of feedback suggestions
+ *
+ * delete, insert and move feedback describe concrete edits that the student
+ * can accept (applied to the linked document) or reject. The decision, who
+ * made it and the document version it produced are kept on the feedback row.
+ *
+ * @type {import('node-pg-migrate').ColumnDefinitions | undefined}
+ */
+const shorthands = undefined;
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const up = (pgm) => {
+  pgm.addColumns('teacher_feedbacks', {
+    suggestion_status: {
+      type: 'varchar(20)',
+      notNull: false,
+      comment: 'Suggestion outcome for delete/insert/move feedback: pending, accepted, rejected'
+    },
+    suggestion_decided_by: {
+      type: 'uuid',
+      notNull: false,
+      references: 'users',
+      onDelete: 'SET NULL',
+      comment: 'User who accepted or rejected the suggestion'
+    },
+    suggestion_decided_at: {
+      type: 'timestamp',
+      notNull: false
+    },
+    suggestion_note: {
+      type: 'text',
+      notNull: false,
+      comment: 'Optional reason given when rejecting'
+    },
+    applied_document_version: {
+      type: 'integer',
+      notNull: false,
+      comment: 'Document version produced by accepting the suggestion'
+    }
+  });
+
+  pgm.sql(`
+    UPDATE teacher_feedbacks
+    SET suggestion_status = 'pending'
+    WHERE feedback_type IN ('delete', 'insert', 'move')
+  `);
+
+  pgm.addConstraint('teacher_feedbacks', 'teacher_feedbacks_suggestion_status_check', {
+    check: "suggestion_status IS NULL OR suggestion_status IN ('pending', 'accepted', 'rejected')"
+  });
+};
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const down = (pgm) => {
+  pgm.dropConstraint('teacher_feedbacks', 'teacher_feedbacks_suggestion_status_check', { ifExists: true });
+  pgm.dropColumns('teacher_feedbacks', [
+    'suggestion_status',
+    'suggestion_decided_by',
+    'suggestion_decided_at',
+    'suggestion_note',
+    'applied_document_version'
+  ]);
+};
+
+module.exports = {
+  shorthands,
+  up,
+  down,
+};
@@ -0,0 +1,112 @@
+/**
+ * Migration: Create comment_bank_entries table
+ *
+ * Reusable feedback comments. An entry belongs to the teacher who saved it
+ * and is visible to them only (private), to the teachers of its department
+ * (department) or to every teacher in the school (school). Titles and bodies
+ * may contain placeholders such as {{student_first_name}} that are filled in
+ * when the comment is inserted into feedback.
+ *
+ * @type {import('node-pg-migrate').ColumnDefinitions | undefined}
+ */
+const shorthands = undefined;
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const up = (pgm) => {
+  pgm.createTable('comment_bank_entries', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('gen_random_uuid()')
+    },
+    school_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'schools',
+      onDelete: 'CASCADE',
+      comment: 'School for multi-tenancy - entries are never shared across schools'
+    },
+    owner_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'users',
+      onDelete: 'CASCADE',
+      comment: 'Teacher who saved the comment'
+    },
+    department_id: {
+      type: 'uuid',
+      notNull: false,
+      references: 'departments',
+      onDelete: 'SET NULL',
+      comment: 'Department the comment is shared with when visibility is department'
+    },
+    visibility: {
+      type: 'varchar(20)',
+      notNull: true,
+      default: 'private',
+      comment: 'Who can use the comment: private, department, school'
+    },
+    title: {
+      type: 'varchar(255)',
+      notNull: true,
+      comment: 'Short title, used as feedback title'
+    },
+    body: {
+      type: 'text',
+      notNull: true,
+      comment: 'Comment text, used as feedback description or grade feedback'
+    },
+    tags: {
+      type: 'text[]',
+      notNull: true,
+      default: '{}'
+    },
+    usage_count: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+      comment: 'How many times the comment was inserted into feedback'
+    },
+    last_used_at: {
+      type: 'timestamp',
+      notNull: false
+    },
+    created_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func('current_timestamp')
+    },
+    updated_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func('current_timestamp')
+    }
+  });
+
+  pgm.addConstraint('comment_bank_entries', 'comment_bank_entries_visibility_check', {
+    check: "visibility IN ('private', 'department', 'school')"
+  });
+
+  pgm.createIndex('comment_bank_entries', ['school_id', 'owner_id']);
+  pgm.createIndex('comment_bank_entries', ['school_id', 'department_id']);
+  pgm.createIndex('comment_bank_entries', 'tags', { method: 'gin' });
+};
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const down = (pgm) => {
+  pgm.dropTable('comment_bank_entries', { ifExists: true });
+};
+
+module.exports = {
+  shorthands,
+  up,
+  down,
+};
@@ -0,0 +1,118 @@
+/**
+ * Migration: Create document_revisions table
+ *
+ * Snapshots of a document's title, content and formatting, recorded when a
+ * saved version changes them. Consecutive saves by the same user within a
+ * short window are coalesced into one revision to keep storage down.
+ * Existing documents get their current state as a first revision.
+ *
+ * @type {import('node-pg-migrate').ColumnDefinitions | undefined}
+ */
+const shorthands = undefined;
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const up = (pgm) => {
+  pgm.createTable('document_revisions', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('gen_random_uuid()')
+    },
+    document_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'documents',
+      onDelete: 'CASCADE'
+    },
+    version: {
+      type: 'integer',
+      notNull: true,
+      comment: 'Latest document version captured by this revision'
+    },
+    title: {
+      type: 'varchar(255)',
+      notNull: true
+    },
+    content: {
+      type: 'text',
+      notNull: true,
+      default: ''
+    },
+    content_format: {
+      type: 'varchar(20)',
+      notNull: true,
+      default: 'plain'
+    },
+    formatting: {
+      type: 'jsonb',
+      notNull: true,
+      default: '{"ranges": [], "paragraphs": {}}'
+    },
+    word_count: {
+      type: 'integer',
+      notNull: true,
+      default: 0
+    },
+    created_by: {
+      type: 'uuid',
+      notNull: false,
+      references: 'users',
+      onDelete: 'SET NULL'
+    },
+    restored_from_version: {
+      type: 'integer',
+      notNull: false,
+      comment: 'Set when the revision was produced by restoring an older one'
+    },
+    created_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func('current_timestamp')
+    },
+    updated_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+      comment: 'Last save coalesced into this revision'
+    }
+  });
+
+  pgm.addConstraint('document_revisions', 'document_revisions_document_version_unique', {
+    unique: ['document_id', 'version']
+  });
+
+  pgm.createIndex('document_revisions', ['document_id', { name: 'created_at', sort: 'DESC' }]);
+
+  pgm.sql(`
+    INSERT INTO document_revisions (
+      document_id, version, title, content, content_format, formatting,
+      word_count, created_by, created_at, updated_at
+    )
+    SELECT
+      id, version, title, COALESCE(content, ''), content_format,
+      COALESCE(formatting, '{"ranges": [], "paragraphs": {}}'::jsonb),
+      CASE WHEN trim(COALESCE(content, '')) = '' THEN 0
+           ELSE array_length(regexp_split_to_array(trim(content), '\\s+'), 1) END,
+      COALESCE(last_modified_by, owner_id), last_modified_at, last_modified_at
+    FROM documents
+  `);
+};
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const down = (pgm) => {
+  pgm.dropTable('document_revisions', { ifExists: true });
+};
+
+module.exports = {
+  shorthands,
+  up,
+  down,
+};
@@ -0,0 +1,59 @@
+/**
+ * Migration: Create scrape_cache table
+ *
+ * Metadata scraped from web pages, keyed by the normalized URL that was
+ * requested. Entries are served until expires_at and purged by a cron job.
+ *
+ * @type {import('node-pg-migrate').ColumnDefinitions | undefined}
+ */
+const shorthands = undefined;
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const up = (pgm) => {
+  pgm.createTable('scrape_cache', {
+    url_key: {
+      type: 'text',
+      primaryKey: true,
+      comment: 'Normalized requested URL'
+    },
+    final_url: {
+      type: 'text',
+      notNull: true,
+      comment: 'URL the page was served from after redirects'
+    },
+    metadata: {
+      type: 'jsonb',
+      notNull: true
+    },
+    fetched_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func('current_timestamp')
+    },
+    expires_at: {
+      type: 'timestamp',
+      notNull: true
+    }
+  });
+
+  pgm.createIndex('scrape_cache', 'expires_at');
+};
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const down = (pgm) => {
+  pgm.dropTable('scrape_cache', { ifExists: true });
+};
+
+module.exports = {
+  shorthands,
+  up,
+  down,
+};
@@ -0,0 +1,92 @@
+/**
+ * Migration: Add soft delete to documents and folders
+ *
+ * Deleting a document or folder moves it to the owner's trash instead of
+ * removing the row. Trashing a folder also trashes everything under it;
+ * those rows point at the folder through deleted_with so they come back
+ * (or are purged) together with it. trashed_path keeps the names of the
+ * folders an item sat in so it can be restored even after they are gone.
+ *
+ * Folder names only have to be unique among live folders, so a student
+ * can reuse the name of a folder that is in the trash.
+ *
+ * @type {import('node-pg-migrate').ColumnDefinitions | undefined}
+ */
+const shorthands = undefined;
+
+const trashColumns = () => ({
+  deleted_at: {
+    type: 'timestamp',
+    notNull: false,
+    comment: 'When the row was moved to the trash (NULL while live)'
+  },
+  deleted_with: {
+    type: 'uuid',
+    notNull: false,
+    comment: 'Trashed folder this row was trashed along with (NULL when trashed on its own)'
+  },
+  trashed_path: {
+    type: 'text[]',
+    notNull: false,
+    comment: 'Folder names from the root down to the parent at the time of trashing'
+  }
+});
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const up = (pgm) => {
+  pgm.addColumns('documents', trashColumns());
+  pgm.addColumns('folders', trashColumns());
+
+  pgm.createIndex('documents', ['owner_id', 'deleted_at'], {
+    name: 'documents_trash_idx',
+    where: 'deleted_at IS NOT NULL'
+  });
+  pgm.createIndex('documents', 'deleted_with', {
+    where: 'deleted_with IS NOT NULL'
+  });
+  pgm.createIndex('folders', ['owner_id', 'deleted_at'], {
+    name: 'folders_trash_idx',
+    where: 'deleted_at IS NOT NULL'
+  });
+  pgm.createIndex('folders', 'deleted_with', {
+    where: 'deleted_with IS NOT NULL'
+  });
+
+  pgm.dropConstraint('folders', 'folders_name_parent_owner_unique');
+  pgm.createIndex('folders', ['name', 'parent_id', 'owner_id'], {
+    name: 'folders_name_parent_owner_unique',
+    unique: true,
+    where: 'deleted_at IS NULL'
+  });
+};
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const down = (pgm) => {
+  // Trashed rows have no place in the old schema
+  pgm.sql('DELETE FROM documents WHERE deleted_at IS NOT NULL');
+  pgm.sql('DELETE FROM folders WHERE deleted_at IS NOT NULL');
+
+  pgm.dropIndex('folders', ['name', 'parent_id', 'owner_id'], {
+    name: 'folders_name_parent_owner_unique'
+  });
+  pgm.addConstraint('folders', 'folders_name_parent_owner_unique', {
+    unique: ['name', 'parent_id', 'owner_id']
+  });
+
+  pgm.dropColumns('folders', ['deleted_at', 'deleted_with', 'trashed_path']);
+  pgm.dropColumns('documents', ['deleted_at', 'deleted_with', 'trashed_path']);
+};
+
+module.exports = {
+  shorthands,
+  up,
+  down,
+};
@@ -0,0 +1,123 @@
+/**
+ * Migration: Create share_grants table
+ *
+ * A grant gives a user (a classmate or a teacher) or every member of a
+ * class view, comment or edit access to a document or a folder. Grants on
+ * a folder apply to everything below it. Only the owner manages grants;
+ * there is at most one grant per item and grantee.
+ *
+ * @type {import('node-pg-migrate').ColumnDefinitions | undefined}
+ */
+const shorthands = undefined;
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const up = (pgm) => {
+  pgm.createTable('share_grants', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('gen_random_uuid()')
+    },
+    document_id: {
+      type: 'uuid',
+      notNull: false,
+      references: 'documents',
+      onDelete: 'CASCADE'
+    },
+    folder_id: {
+      type: 'uuid',
+      notNull: false,
+      references: 'folders',
+      onDelete: 'CASCADE'
+    },
+    grantee_user_id: {
+      type: 'uuid',
+      notNull: false,
+      references: 'users',
+      onDelete: 'CASCADE'
+    },
+    grantee_class_id: {
+      type: 'uuid',
+      notNull: false,
+      references: 'classes',
+      onDelete: 'CASCADE'
+    },
+    permission: {
+      type: 'varchar(20)',
+      notNull: true,
+      comment: 'view, comment or edit'
+    },
+    granted_by: {
+      type: 'uuid',
+      notNull: true,
+      references: 'users',
+      onDelete: 'CASCADE'
+    },
+    created_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func('current_timestamp')
+    },
+    updated_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func('current_timestamp')
+    }
+  });
+
+  pgm.addConstraint('share_grants', 'share_grants_permission_check', {
+    check: "permission IN ('view', 'comment', 'edit')"
+  });
+  pgm.addConstraint('share_grants', 'share_grants_target_check', {
+    check: '(document_id IS NULL) <> (folder_id IS NULL)'
+  });
+  pgm.addConstraint('share_grants', 'share_grants_grantee_check', {
+    check: '(grantee_user_id IS NULL) <> (grantee_class_id IS NULL)'
+  });
+
+  pgm.createIndex('share_grants', 'document_id');
+  pgm.createIndex('share_grants', 'folder_id');
+  pgm.createIndex('share_grants', 'grantee_user_id');
+  pgm.createIndex('share_grants', 'grantee_class_id');
+
+  // One grant per item and grantee; granting again changes the permission
+  pgm.createIndex('share_grants', ['document_id', 'grantee_user_id'], {
+    name: 'share_grants_document_user_unique',
+    unique: true,
+    where: 'document_id IS NOT NULL AND grantee_user_id IS NOT NULL'
+  });
+  pgm.createIndex('share_grants', ['document_id', 'grantee_class_id'], {
+    name: 'share_grants_document_class_unique',
+    unique: true,
+    where: 'document_id IS NOT NULL AND grantee_class_id IS NOT NULL'
+  });
+  pgm.createIndex('share_grants', ['folder_id', 'grantee_user_id'], {
+    name: 'share_grants_folder_user_unique',
+    unique: true,
+    where: 'folder_id IS NOT NULL AND grantee_user_id IS NOT NULL'
+  });
+  pgm.createIndex('share_grants', ['folder_id', 'grantee_class_id'], {
+    name: 'share_grants_folder_class_unique',
+    unique: true,
+    where: 'folder_id IS NOT NULL AND grantee_class_id IS NOT NULL'
+  });
+};
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const down = (pgm) => {
+  pgm.dropTable('share_grants', { ifExists: true });
+};
+
+module.exports = {
+  shorthands,
+  up,
+  down,
+};
@@ -0,0 +1,58 @@
+/**
+ * Migration: Add full-text search vectors
+ *
+ * Documents (title, content and the text in research_notes), folder names
+ * and assignments (title and description) get a generated tsvector column
+ * with a GIN index. Titles weigh more than body text so they rank first.
+ *
+ * @type {import('node-pg-migrate').ColumnDefinitions | undefined}
+ */
+const shorthands = undefined;
+
+const searchVector = (expression) => ({
+  search_vector: {
+    type: 'tsvector',
+    expressionGenerated: expression
+  }
+});
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const up = (pgm) => {
+  pgm.addColumns('documents', searchVector(`
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(content, '')), 'B') ||
+    setweight(jsonb_to_tsvector('english', coalesce(research_notes, '[]'::jsonb), '["string"]'), 'C')
+  `));
+  pgm.addColumns('folders', searchVector(`
+    setweight(to_tsvector('english', coalesce(name, '')), 'A')
+  `));
+  pgm.addColumns('assignments', searchVector(`
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B')
+  `));
+
+  pgm.createIndex('documents', 'search_vector', { method: 'gin' });
+  pgm.createIndex('folders', 'search_vector', { method: 'gin' });
+  pgm.createIndex('assignments', 'search_vector', { method: 'gin' });
+};
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const down = (pgm) => {
+  pgm.dropColumns('assignments', ['search_vector']);
+  pgm.dropColumns('folders', ['search_vector']);
+  pgm.dropColumns('documents', ['search_vector']);
+};
+
+module.exports = {
+  shorthands,
+  up,
+  down,
+};
@@ -0,0 +1,90 @@
+/**
+ * Migration: Create document_comments table
+ *
+ * Comments left on a document by its owner or by users it is shared with
+ * for commenting or editing. A comment may point at a passage of the text
+ * (selection offsets plus the quoted text at the time) and can be marked
+ * resolved.
+ *
+ * @type {import('node-pg-migrate').ColumnDefinitions | undefined}
+ */
+const shorthands = undefined;
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const up = (pgm) => {
+  pgm.createTable('document_comments', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('gen_random_uuid()')
+    },
+    document_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'documents',
+      onDelete: 'CASCADE'
+    },
+    author_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'users',
+      onDelete: 'CASCADE'
+    },
+    body: {
+      type: 'text',
+      notNull: true
+    },
+    selection: {
+      type: 'jsonb',
+      notNull: false,
+      comment: 'Commented passage as { startOffset, endOffset } in the content (NULL for the whole document)'
+    },
+    quoted_text: {
+      type: 'text',
+      notNull: false,
+      comment: 'Text of the selection when the comment was made'
+    },
+    resolved_at: {
+      type: 'timestamp',
+      notNull: false
+    },
+    resolved_by: {
+      type: 'uuid',
+      notNull: false,
+      references: 'users',
+      onDelete: 'SET NULL'
+    },
+    created_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func('current_timestamp')
+    },
+    updated_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func('current_timestamp')
+    }
+  });
+
+  pgm.createIndex('document_comments', ['document_id', 'created_at']);
+  pgm.createIndex('document_comments', 'author_id');
+};
+
+/**
+ * @param pgm {import('node-pg-migrate').MigrationBuilder}
+ * @param run {() => void | undefined}
+ * @returns {Promise<void> | void}
+ */
+const down = (pgm) => {
+  pgm.dropTable('document_comments', { ifExists: true });
+};
+
+module.exports = {
+  shorthands,
+  up,
+  down,
+};
@@ -4,8 +4,15 @@ import {
   CreateAssignmentDTO,
   UpdateAssignmentDTO,
 } from "../models/assignment.model.js";
+import { SubmissionModel } from "../models/submission.model.js";
+import { AssignmentExtensionModel } from "../models/assignment-extension.model.js";
 import { pool } from "../config/postgres.db.js";
 import { validateSubscriptionBySchoolId } from "../utils/subscription.utils.js";
+import { sendGradeReleasedEmail } from "../utils/gradeReleasedEmail.js";
+import { validateLatePolicy } from "../utils/late-policy.utils.js";
+import { getAssignmentAnalytics } from "../services/assignment-analytics.service.js";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 function validateCreatePayload(body: any): {
   valid: boolean;
@@ -65,6 +72,48 @@ function validateGradingCriteria(gradingCriteria: any[], maxScore: number): {
   return { valid: true };
 }
 
+function validateGradingSettings(body: any): {
+  valid: boolean;
+  message?: string;
+} {
+  if (
+    body.max_attempts !== undefined &&
+    body.max_attempts !== null &&
+    (!Number.isInteger(body.max_attempts) || body.max_attempts < 1)
+  ) {
+    return { valid: false, message: "max_attempts must be a positive integer" };
+  }
+
+  if (
+    body.attempt_scoring !== undefined &&
+    !["latest", "highest", "average"].includes(body.attempt_scoring)
+  ) {
+    return {
+      valid: false,
+      message: "attempt_scoring must be one of latest, highest, average",
+    };
+  }
+
+  if (
+    body.grade_weight !== undefined &&
+    (typeof body.grade_weight !== "number" || body.grade_weight < 0)
+  ) {
+    return { valid: false, message: "grade_weight must be a non-negative number" };
+  }
+
+  if (
+    body.length_enforcement !== undefined &&
+    !["off", "warn", "block"].includes(body.length_enforcement)
+  ) {
+    return {
+      valid: false,
+      message: "length_enforcement must be one of off, warn, block",
+    };
+  }
+
+  return { valid: true };
+}
+
 export class AssignmentController {
   static async create(req: Request, res: Response): Promise<void> {
     const payload = req.body;
@@ -109,6 +158,24 @@ export class AssignmentController {
         }
       }
 
+      const latePolicyValidation = validateLatePolicy(payload.late_policy);
+      if (!latePolicyValidation.valid) {
+        res.status(400).json({
+          success: false,
+          message: latePolicyValidation.message,
+        });
+        return;
+      }
+
+      const settingsValidation = validateGradingSettings(payload);
+      if (!settingsValidation.valid) {
+        res.status(400).json({
+          success: false,
+          message: settingsValidation.message,
+        });
+        return;
+      }
+
       const dto: CreateAssignmentDTO = {
         title: String(payload.title),
         description: payload.description ?? null,
@@ -127,6 +194,12 @@ export class AssignmentController {
         allow_late_submission: payload.allow_late_submission ?? false,
         status: payload.status ?? "active",
         grading_criteria: payload.grading_criteria ?? null,
+        late_policy: payload.late_policy ?? null,
+        max_attempts: payload.max_attempts ?? null,
+        attempt_scoring: payload.attempt_scoring ?? "latest",
+        grade_category: payload.grade_category ?? null,
+        grade_weight: payload.grade_weight ?? 1,
+        length_enforcement: payload.length_enforcement ?? "warn",
       };
 
       const assignment = await AssignmentModel.create(dto, client);
@@ -174,6 +247,41 @@ export class AssignmentController {
     }
   }
 
+  /**
+   * Score distribution, submission timing, word count and rubric statistics
+   * GET /api/v1/assignments/:id/analytics
+   */
+  static async getAnalytics(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (req.user?.user_type === "student") {
+        res.status(403).json({
+          success: false,
+          message: "Only teachers and admins can view assignment analytics",
+        });
+        return;
+      }
+
+      const assignment = await AssignmentModel.findById(id as string);
+      if (!assignment || (req.schoolId && assignment.school_id !== req.schoolId)) {
+        res.status(404).json({ success: false, message: "Assignment not found" });
+        return;
+      }
+
+      const analytics = await getAssignmentAnalytics(assignment);
+
+      res.status(200).json({ success: true, data: analytics });
+    } catch (error) {
+      console.error("Error fetching assignment analytics:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to fetch assignment analytics",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
   static async list(req: Request, res: Response): Promise<void> {
     try {
       const limit = Math.min(Number(req.query.limit ?? 20), 100);
@@ -239,6 +347,24 @@ export class AssignmentController {
         }
       }
 
+      const latePolicyValidation = validateLatePolicy(body.late_policy);
+      if (!latePolicyValidation.valid) {
+        res.status(400).json({
+          success: false,
+          message: latePolicyValidation.message,
+        });
+        return;
+      }
+
+      const settingsValidation = validateGradingSettings(body);
+      if (!settingsValidation.valid) {
+        res.status(400).json({
+          success: false,
+          message: settingsValidation.message,
+        });
+        return;
+      }
+
       const updated = await AssignmentModel.update(id as string, body);
       res.status(200).json({ success: true, data: updated });
     } catch (error) {
@@ -369,6 +495,7 @@ export class AssignmentController {
   /**
   * Get assignments for the authenticated student
   * Fetches active assignments from classes the student is enrolled in
+  * due_date is the student's effective due date (extension if granted)
   */
   static async listForStudent(req: Request, res: Response): Promise<void> {
     const client = await pool.connect();
@@ -431,7 +558,9 @@ export class AssignmentController {
           a.title,
           a.description,
           a.class_id,
-          a.due_date,
+          COALESCE(ext.due_date, a.due_date) AS due_date,
+          a.due_date AS original_due_date,
+          (ext.id IS NOT NULL) AS has_extension,
           a.assign_date,
           a.max_score,
           a.min_word_count,
@@ -442,6 +571,14 @@ export class AssignmentController {
           a.created_at
         FROM assignments a
         INNER JOIN class_members cm ON a.class_id = cm.class_id
+        LEFT JOIN LATERAL (
+          SELECT ae.id, ae.due_date
+          FROM assignment_extensions ae
+          WHERE ae.assignment_id = a.id
+            AND $1 = ANY(ae.student_ids)
+          ORDER BY ae.due_date DESC
+          LIMIT 1
+        ) ext ON true
         WHERE cm.user_id = $1
           AND a.school_id = $2
           AND a.status = 'active'
@@ -476,4 +613,323 @@ export class AssignmentController {
       client.release();
     }
   }
+  /**
+   * Release all draft grades (status under_review) for an assignment
+   * POST /api/v1/assignments/:id/grades/release
+   * Body: { release_at? } - a future time schedules the release for the cron job,
+   * otherwise the grades are released immediately
+   */
+  static async releaseGrades(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    const { release_at } = req.body ?? {};
+
+    if (req.user?.user_type === "student") {
+      res.status(403).json({
+        success: false,
+        message: "Only teachers and admins can release grades",
+      });
+      return;
+    }
+
+    let releaseAt: Date | null = null;
+    if (release_at) {
+      releaseAt = new Date(release_at);
+      if (Number.isNaN(releaseAt.getTime())) {
+        res.status(400).json({
+          success: false,
+          message: "release_at must be a valid date",
+        });
+        return;
+      }
+    }
+
+    const client = await pool.connect();
+    try {
+      const existing = await AssignmentModel.findById(id as string);
+      if (!existing || (req.schoolId && existing.school_id !== req.schoolId)) {
+        res.status(404).json({ success: false, message: "Assignment not found" });
+        return;
+      }
+
+      // Scheduled release - the grade release cron picks it up
+      if (releaseAt && releaseAt.getTime() > Date.now()) {
+        const updated = await AssignmentModel.setGradeReleaseAt(
+          id as string,
+          releaseAt,
+          client
+        );
+        res.status(200).json({
+          success: true,
+          message: "Grade release scheduled",
+          data: { grade_release_at: updated?.grade_release_at ?? releaseAt },
+        });
+        return;
+      }
+
+      await client.query("BEGIN");
+      const released = await SubmissionModel.releaseDraftGrades(
+        id as string,
+        client
+      );
+      await AssignmentModel.setGradeReleaseAt(id as string, null, client);
+      await client.query("COMMIT");
+
+      for (const grade of released) {
+        await sendGradeReleasedEmail(grade);
+      }
+
+      res.status(200).json({
+        success: true,
+        message: `${released.length} grade(s) released`,
+        data: {
+          released_count: released.length,
+          submission_ids: released.map((grade) => grade.submission_id),
+        },
+      });
+    } catch (error) {
+      await client.query("ROLLBACK");
+      console.error("Error releasing grades:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to release grades",
+      });
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Cancel a scheduled grade release
+   * DELETE /api/v1/assignments/:id/grades/release
+   */
+  static async cancelGradeRelease(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (req.user?.user_type === "student") {
+        res.status(403).json({
+          success: false,
+          message: "Only teachers and admins can manage grade releases",
+        });
+        return;
+      }
+
+      const existing = await AssignmentModel.findById(id as string);
+      if (!existing || (req.schoolId && existing.school_id !== req.schoolId)) {
+        res.status(404).json({ success: false, message: "Assignment not found" });
+        return;
+      }
+
+      if (!existing.grade_release_at) {
+        res.status(400).json({
+          success: false,
+          message: "No grade release is scheduled for this assignment",
+        });
+        return;
+      }
+
+      await AssignmentModel.setGradeReleaseAt(id as string, null);
+      res.status(200).json({
+        success: true,
+        message: "Scheduled grade release cancelled",
+      });
+    } catch (error) {
+      console.error("Error cancelling grade release:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to cancel grade release",
+      });
+    }
+  }
+  /**
+   * Grant a due date extension to one student or a group of students
+   * POST /api/v1/assignments/:id/extensions
+   * Body: { student_id | student_ids, due_date, group_name?, allow_late_submission?, late_policy?, reason? }
+   */
+  static async createExtension(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const {
+        student_id,
+        student_ids,
+        group_name,
+        due_date,
+        allow_late_submission,
+        late_policy,
+        reason,
+      } = req.body ?? {};
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({ success: false, message: "Authentication required" });
+        return;
+      }
+
+      if (req.user?.user_type === "student") {
+        res.status(403).json({
+          success: false,
+          message: "Only teachers and admins can grant extensions",
+        });
+        return;
+      }
+
+      const existing = await AssignmentModel.findById(id as string);
+      if (!existing || (req.schoolId && existing.school_id !== req.schoolId)) {
+        res.status(404).json({ success: false, message: "Assignment not found" });
+        return;
+      }
+
+      const requested: unknown[] = Array.isArray(student_ids)
+        ? student_ids
+        : student_id
+        ? [student_id]
+        : [];
+      if (requested.length === 0) {
+        res.status(400).json({
+          success: false,
+          message: "student_id or student_ids is required",
+        });
+        return;
+      }
+      if (requested.some((s) => typeof s !== "string" || !UUID_PATTERN.test(s))) {
+        res.status(400).json({
+          success: false,
+          message: "student_id and student_ids must be valid ids",
+        });
+        return;
+      }
+      // Postgres returns ids in lower case
+      const students = (requested as string[]).map((s) => s.toLowerCase());
+
+      if (!due_date || Number.isNaN(new Date(due_date).getTime())) {
+        res.status(400).json({
+          success: false,
+          message: "due_date must be a valid date",
+        });
+        return;
+      }
+
+      const latePolicyValidation = validateLatePolicy(late_policy);
+      if (!latePolicyValidation.valid) {
+        res.status(400).json({
+          success: false,
+          message: latePolicyValidation.message,
+        });
+        return;
+      }
+
+      // Only active students of the assignment's class can be covered
+      const membersResult = await pool.query(
+        `SELECT user_id FROM class_members
+         WHERE class_id = $1 AND user_id = ANY($2::uuid[])
+           AND role = 'student' AND status = 'active'`,
+        [existing.class_id, students]
+      );
+      const enrolled = new Set(membersResult.rows.map((row) => row.user_id));
+      const notEnrolled = students.filter((s) => !enrolled.has(s));
+      if (notEnrolled.length > 0) {
+        res.status(400).json({
+          success: false,
+          message: "Some students are not active students of this class",
+          student_ids: notEnrolled,
+        });
+        return;
+      }
+
+      const extension = await AssignmentExtensionModel.create({
+        school_id: existing.school_id,
+        assignment_id: existing.id,
+        student_ids: Array.from(new Set(students)),
+        group_name: group_name ?? null,
+        due_date,
+        allow_late_submission:
+          typeof allow_late_submission === "boolean" ? allow_late_submission : null,
+        late_policy: late_policy ?? null,
+        reason: reason ?? null,
+        granted_by: userId,
+      });
+
+      res.status(201).json({ success: true, data: extension });
+    } catch (error) {
+      console.error("Error creating assignment extension:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to create assignment extension",
+      });
+    }
+  }
+
+  /**
+   * List due date extensions for an assignment
+   * GET /api/v1/assignments/:id/extensions
+   */
+  static async listExtensions(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const existing = await AssignmentModel.findById(id as string);
+      if (!existing || (req.schoolId && existing.school_id !== req.schoolId)) {
+        res.status(404).json({ success: false, message: "Assignment not found" });
+        return;
+      }
+
+      // Students only see extensions that cover them
+      const extensions = await AssignmentExtensionModel.findByAssignmentId(
+        existing.id
+      );
+      const data =
+        req.user?.user_type === "student"
+          ? extensions.filter((ext) => ext.student_ids.includes(req.user!.id))
+          : extensions;
+
+      res.status(200).json({ success: true, data });
+    } catch (error) {
+      console.error("Error listing assignment extensions:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to list assignment extensions",
+      });
+    }
+  }
+
+  /**
+   * Revoke a due date extension
+   * DELETE /api/v1/assignments/:id/extensions/:extensionId
+   */
+  static async deleteExtension(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, extensionId } = req.params;
+
+      if (req.user?.user_type === "student") {
+        res.status(403).json({
+          success: false,
+          message: "Only teachers and admins can revoke extensions",
+        });
+        return;
+      }
+
+      const existing = await AssignmentModel.findById(id as string);
+      if (!existing || (req.schoolId && existing.school_id !== req.schoolId)) {
+        res.status(404).json({ success: false, message: "Assignment not found" });
+        return;
+      }
+
+      const deleted = await AssignmentExtensionModel.delete(
+        extensionId as string,
+        existing.id
+      );
+      if (!deleted) {
+        res.status(404).json({ success: false, message: "Extension not found" });
+        return;
+      }
+
+      res.status(200).json({ success: true, message: "Extension revoked" });
+    } catch (error) {
+      console.error("Error deleting assignment extension:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to revoke assignment extension",
+      });
+    }
+  }
 }
@@ -0,0 +1,506 @@
+import { Request, Response } from 'express';
+import { pool } from '../config/postgres.db.js';
+import { CommentBankModel } from '../models/comment-bank.model.js';
+import { renderBankComment } from '../services/comment-bank.service.js';
+import {
+  CommentBankResponse,
+  CommentBankRow,
+  CommentVisibility,
+  CreateCommentDTO,
+  UpdateCommentDTO,
+} from '../types/comment-bank.types.js';
+import { COMMENT_PLACEHOLDERS, normalizeTags } from '../utils/comment-bank.utils.js';
+
+const VALID_VISIBILITIES: CommentVisibility[] = ['private', 'department', 'school'];
+
+const isAdminUser = (userType?: string): boolean => userType === 'admin';
+
+const transformCommentForResponse = (row: CommentBankRow, userId: string): CommentBankResponse => ({
+  id: row.id,
+  ownerId: row.owner_id,
+  departmentId: row.department_id,
+  visibility: row.visibility,
+  title: row.title,
+  body: row.body,
+  tags: row.tags || [],
+  usageCount: row.usage_count,
+  lastUsedAt: row.last_used_at,
+  isOwner: row.owner_id === userId,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+/**
+ * Resolve the department a department-visible entry is shared with: the
+ * given one when it belongs to the school, otherwise the department the
+ * teacher belongs to
+ */
+const resolveDepartmentId = async (
+  schoolId: string,
+  userId: string,
+  departmentId?: string | null
+): Promise<string | null> => {
+  if (departmentId) {
+    const result = await pool.query(
+      'SELECT id FROM departments WHERE id = $1 AND school_id = $2',
+      [departmentId, schoolId]
+    );
+    return result.rows[0]?.id ?? null;
+  }
+
+  const result = await pool.query(
+    'SELECT department_id FROM teacher_profiles WHERE user_id = $1 AND school_id = $2 LIMIT 1',
+    [userId, schoolId]
+  );
+  return result.rows[0]?.department_id ?? null;
+};
+
+const parseTagsQuery = (value: unknown): string[] =>
+  normalizeTags(typeof value === 'string' ? value.split(',') : value);
+
+export class CommentBankController {
+  /**
+   * GET /api/v1/comment-bank
+   * Search the comments visible to the teacher: their own, their
+   * department's and school-wide ones
+   */
+  static async list(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const schoolId = req.schoolId;
+
+      if (!userId || !schoolId) {
+        res.status(403).json({
+          success: false,
+          message: 'School context is required'
+        });
+        return;
+      }
+
+      if (req.user?.user_type === 'student') {
+        res.status(403).json({
+          success: false,
+          message: 'Only teachers and admins can use the comment bank'
+        });
+        return;
+      }
+
+      const visibility = req.query.visibility as CommentVisibility | undefined;
+      if (visibility && !VALID_VISIBILITIES.includes(visibility)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid visibility',
+          validVisibilities: VALID_VISIBILITIES
+        });
+        return;
+      }
+
+      const limit = Math.min(Number(req.query.limit ?? 20), 100);
+      const page = Math.max(Number(req.query.page ?? 1), 1);
+      const offset = (page - 1) * limit;
+
+      const { entries, total } = await CommentBankModel.search(schoolId, userId, {
+        search: (req.query.search as string | undefined)?.trim() || undefined,
+        tags: parseTagsQuery(req.query.tags),
+        visibility,
+        ownerId: req.query.mine === 'true' ? userId : undefined,
+        limit,
+        offset
+      });
+
+      res.status(200).json({
+        success: true,
+        data: entries.map((entry) => transformCommentForResponse(entry, userId)),
+        meta: {
+          total,
+          page,
+          limit,
+          pages: Math.ceil(total / limit),
+          placeholders: COMMENT_PLACEHOLDERS
+        }
+      });
+    } catch (error) {
+      console.error('Error listing comment bank:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to list comments',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * GET /api/v1/comment-bank/tags
+   * Tags in use across the visible comments, with counts
+   */
+  static async listTags(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const schoolId = req.schoolId;
+
+      if (!userId || !schoolId) {
+        res.status(403).json({
+          success: false,
+          message: 'School context is required'
+        });
+        return;
+      }
+
+      if (req.user?.user_type === 'student') {
+        res.status(403).json({
+          success: false,
+          message: 'Only teachers and admins can use the comment bank'
+        });
+        return;
+      }
+
+      const tags = await CommentBankModel.listTags(schoolId, userId);
+
+      res.status(200).json({
+        success: true,
+        data: tags
+      });
+    } catch (error) {
+      console.error('Error listing comment bank tags:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to list tags',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * GET /api/v1/comment-bank/:id
+   */
+  static async getById(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const schoolId = req.schoolId;
+
+      if (!userId || !schoolId) {
+        res.status(403).json({
+          success: false,
+          message: 'School context is required'
+        });
+        return;
+      }
+
+      if (req.user?.user_type === 'student') {
+        res.status(403).json({
+          success: false,
+          message: 'Only teachers and admins can use the comment bank'
+        });
+        return;
+      }
+
+      const entry = await CommentBankModel.findVisibleById(id as string, schoolId, userId);
+      if (!entry) {
+        res.status(404).json({
+          success: false,
+          message: 'Comment not found'
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: transformCommentForResponse(entry, userId)
+      });
+    } catch (error) {
+      console.error('Error fetching comment:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch comment',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * POST /api/v1/comment-bank
+   * Save a comment to the teacher's bank
+   */
+  static async create(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      const schoolId = req.schoolId;
+      const { title, body, tags, visibility = 'private', departmentId } = req.body as CreateCommentDTO;
+
+      if (!userId || !schoolId) {
+        res.status(403).json({
+          success: false,
+          message: 'School context is required'
+        });
+        return;
+      }
+
+      if (req.user?.user_type === 'student') {
+        res.status(403).json({
+          success: false,
+          message: 'Only teachers and admins can use the comment bank'
+        });
+        return;
+      }
+
+      if (!title?.trim() || !body?.trim()) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required fields',
+          required: ['title', 'body']
+        });
+        return;
+      }
+
+      if (!VALID_VISIBILITIES.includes(visibility)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid visibility',
+          validVisibilities: VALID_VISIBILITIES
+        });
+        return;
+      }
+
+      let resolvedDepartmentId: string | null = null;
+      if (visibility === 'department' || departmentId) {
+        resolvedDepartmentId = await resolveDepartmentId(schoolId, userId, departmentId);
+        if (!resolvedDepartmentId) {
+          res.status(400).json({
+            success: false,
+            message: departmentId
+              ? 'Department not found'
+              : 'You are not assigned to a department; pass departmentId to share with one'
+          });
+          return;
+        }
+      }
+
+      const entry = await CommentBankModel.create({
+        school_id: schoolId,
+        owner_id: userId,
+        department_id: resolvedDepartmentId,
+        visibility,
+        title: title.trim(),
+        body: body.trim(),
+        tags: normalizeTags(tags)
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Comment saved successfully',
+        data: transformCommentForResponse(entry, userId)
+      });
+    } catch (error) {
+      console.error('Error creating comment:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to save comment',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * PUT /api/v1/comment-bank/:id
+   * Only the owner (or a school admin) can edit a comment
+   */
+  static async update(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const schoolId = req.schoolId;
+      const { title, body, tags, visibility, departmentId } = req.body as UpdateCommentDTO;
+
+      if (!userId || !schoolId) {
+        res.status(403).json({
+          success: false,
+          message: 'School context is required'
+        });
+        return;
+      }
+
+      const existing = await CommentBankModel.findById(id as string, schoolId);
+      if (!existing) {
+        res.status(404).json({
+          success: false,
+          message: 'Comment not found'
+        });
+        return;
+      }
+
+      if (existing.owner_id !== userId && !isAdminUser(req.user?.user_type)) {
+        res.status(403).json({
+          success: false,
+          message: 'Only the owner can edit this comment'
+        });
+        return;
+      }
+
+      if (visibility !== undefined && !VALID_VISIBILITIES.includes(visibility)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid visibility',
+          validVisibilities: VALID_VISIBILITIES
+        });
+        return;
+      }
+
+      if ((title !== undefined && !title.trim()) || (body !== undefined && !body.trim())) {
+        res.status(400).json({
+          success: false,
+          message: 'Title and body cannot be empty'
+        });
+        return;
+      }
+
+      const nextVisibility = visibility ?? existing.visibility;
+      let nextDepartmentId = departmentId !== undefined ? departmentId : existing.department_id;
+      if (nextDepartmentId || (nextVisibility === 'department' && departmentId === undefined)) {
+        nextDepartmentId = await resolveDepartmentId(schoolId, existing.owner_id, nextDepartmentId);
+      }
+      if (nextVisibility === 'department' && !nextDepartmentId) {
+        res.status(400).json({
+          success: false,
+          message: 'Department not found'
+        });
+        return;
+      }
+
+      const entry = await CommentBankModel.update(id as string, schoolId, {
+        title: title?.trim(),
+        body: body?.trim(),
+        tags: tags !== undefined ? normalizeTags(tags) : undefined,
+        visibility,
+        department_id: nextDepartmentId
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Comment updated successfully',
+        data: transformCommentForResponse(entry!, userId)
+      });
+    } catch (error) {
+      console.error('Error updating comment:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to update comment',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/v1/comment-bank/:id
+   */
+  static async delete(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const schoolId = req.schoolId;
+
+      if (!userId || !schoolId) {
+        res.status(403).json({
+          success: false,
+          message: 'School context is required'
+        });
+        return;
+      }
+
+      const existing = await CommentBankModel.findById(id as string, schoolId);
+      if (!existing) {
+        res.status(404).json({
+          success: false,
+          message: 'Comment not found'
+        });
+        return;
+      }
+
+      if (existing.owner_id !== userId && !isAdminUser(req.user?.user_type)) {
+        res.status(403).json({
+          success: false,
+          message: 'Only the owner can delete this comment'
+        });
+        return;
+      }
+
+      await CommentBankModel.delete(id as string, schoolId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Comment deleted successfully'
+      });
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to delete comment',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * POST /api/v1/comment-bank/:id/render
+   * Fill the comment's placeholders for a submission (or a student and
+   * assignment). Pass recordUsage: true when the text is actually inserted
+   * so the usage count reflects it; previews leave it off.
+   */
+  static async render(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const schoolId = req.schoolId;
+      const { submissionId, studentId, assignmentId, recordUsage } = req.body || {};
+
+      if (!userId || !schoolId) {
+        res.status(403).json({
+          success: false,
+          message: 'School context is required'
+        });
+        return;
+      }
+
+      if (req.user?.user_type === 'student') {
+        res.status(403).json({
+          success: false,
+          message: 'Only teachers and admins can use the comment bank'
+        });
+        return;
+      }
+
+      const rendered = await renderBankComment(
+        id as string,
+        schoolId,
+        userId,
+        { submissionId, studentId, assignmentId },
+        { recordUsage: recordUsage === true }
+      );
+
+      if (!rendered) {
+        res.status(404).json({
+          success: false,
+          message: 'Comment not found'
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          id: rendered.entry.id,
+          title: rendered.title,
+          body: rendered.body,
+          missingPlaceholders: rendered.missing
+        }
+      });
+    } catch (error) {
+      console.error('Error rendering comment:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to render comment',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
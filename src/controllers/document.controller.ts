@@ -1,12 +1,56 @@
 import { Request, Response } from "express";
+import multer from "multer";
+import { randomUUID } from "crypto";
 import { DocumentModel } from "../models/document.model.js";
 import { FolderModel } from "../models/folder.model.js";
+import { ClassModel } from "../models/class.model.js";
+import { DocumentRevisionModel } from "../models/document-revision.model.js";
+import { extractPlainText } from "../utils/document-metrics.utils.js";
+import { diffWords } from "../utils/word-diff.utils.js";
+import { flushLiveDocument, syncLiveDocument } from "../services/collaboration.service.js";
+import { EXPORT_FORMATS, exportDocument } from "../services/document-export.service.js";
+import { ImportError, importDocument } from "../services/document-import.service.js";
+import {
+  CommentError,
+  addComment,
+  deleteComment,
+  listComments,
+  updateComment,
+} from "../services/document-comment.service.js";
+import {
+  SourceError,
+  describeSources,
+  formatSource,
+  updateDocumentSources,
+} from "../services/document-source.service.js";
+import {
+  ShareError,
+  changeSharePermission,
+  getFolderAccess,
+  getShares,
+  listSharedDocuments,
+  requireDocumentAccess,
+  revokeShare,
+  shareWith,
+} from "../services/sharing.service.js";
+import { TrashError, trashDocument } from "../services/trash.service.js";
+import { mergeSource, validateSourceInput } from "../utils/source.utils.js";
+
+// Uploads for document import are parsed in memory
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB
+  },
+});
+
+export const uploadImportMiddleware = upload.single("file");
 
 /**
  * Transform document from database format to API format
  * Maps snake_case DB fields to camelCase API fields expected by frontend
  */
-function transformDocument(doc: any): any {
+export function transformDocument(doc: any): any {
   if (!doc) return null;
   
   const { folder_id, owner_id, last_modified_by, ...rest } = doc;
@@ -18,6 +62,46 @@ function transformDocument(doc: any): any {
   };
 }
 
+/**
+ * Text compared by revision diffs: plain and markdown content as written,
+ * html and json content as their visible text
+ */
+function diffableText(content: string, content_format: string): string {
+  return content_format === "html" || content_format === "json"
+    ? extractPlainText(content, content_format)
+    : content;
+}
+
+/**
+ * Response for a sources change: the formatted sources and bibliography,
+ * or the usual 409 when the document moved on since client_version
+ */
+async function sendSourcesResult(
+  res: Response,
+  documentId: string,
+  result: { document: any; conflict: boolean },
+  client_version: number | undefined,
+  status = 200,
+  sourceId?: string
+) {
+  if (result.conflict) {
+    const latestDoc = await DocumentModel.findById(documentId);
+    return res.status(409).json({
+      error: "Conflict: Document has been modified since you last fetched it",
+      client_version,
+      current_version: latestDoc?.version,
+      latest_document: transformDocument(latestDoc),
+    });
+  }
+
+  const described = describeSources(result.document);
+  return res.status(status).json({
+    ...(sourceId ? { source: described.sources.find((source) => source.id === sourceId) } : {}),
+    ...described,
+    version: result.document.version,
+  });
+}
+
 export class DocumentController {
   /**
    * List user's documents
@@ -26,7 +110,8 @@ export class DocumentController {
    * MIGRATED FROM press-backend: DocumentListCreateView (GET)
    * CHANGES:
    * - Added school_id filter from query params for multi-tenancy
-   * - Added folder_id filter to get documents in specific folder
+   * - Added folder_id filter to get documents in specific folder (own or
+   *   shared with the user)
    * - Returns DocumentListSerializer fields (lightweight version)
    */
   static async list(req: Request, res: Response) {
@@ -36,12 +121,14 @@ export class DocumentController {
 
       let documents;
 
-      if (folder_id !== undefined) {
-        // Get documents in specific folder
-        documents = await DocumentModel.findByFolder(
-          folder_id === "null" ? null : (folder_id as string),
-          userId
-        );
+      if (folder_id !== undefined && folder_id !== "null") {
+        // Get documents in specific folder, which may be shared with the user
+        const shared = await getFolderAccess(folder_id as string, userId);
+        documents = shared
+          ? await DocumentModel.findByFolder(shared.folder.id, shared.folder.owner_id)
+          : [];
+      } else if (folder_id !== undefined) {
+        documents = await DocumentModel.findByFolder(null, userId);
       } else {
         // Get all user's documents with optional school filter
         documents = await DocumentModel.findByOwner(
@@ -118,7 +205,8 @@ export class DocumentController {
    * MIGRATED FROM press-backend: DocumentDetailView (GET)
    * CHANGES:
    * - Returns full DocumentSerializer with all fields
-   * - Only document owner can view (authorization check)
+   * - Owner and users it is shared with can view; permission is the
+   *   caller's access (owner, edit, comment or view)
    */
   static async getById(req: Request, res: Response) {
     try {
@@ -129,14 +217,18 @@ export class DocumentController {
         return res.status(400).json({ error: "Document ID is required" });
       }
 
-      const document = await DocumentModel.getDocumentWithPath(id, userId);
+      const { document: found, access } = await requireDocumentAccess(id, userId, "view");
+      const document = await DocumentModel.getDocumentWithPath(id, found.owner_id);
 
       if (!document) {
         return res.status(404).json({ error: "Document not found" });
       }
 
-      return res.json(transformDocument(document));
+      return res.json({ ...transformDocument(document), permission: access });
     } catch (error: any) {
+      if (error instanceof ShareError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       console.error("Error getting document:", error);
       return res.status(500).json({ error: error.message });
     }
@@ -150,7 +242,8 @@ export class DocumentController {
    * CHANGES:
    * - Implements optimistic concurrency control with version check
    * - Returns 409 Conflict if version mismatch
-   * - Multi-tenancy: only owner can update
+   * - Owner and users with edit access can update; only the owner can
+   *   change folder_id
    * - Uses atomic database operation for version check
    *
    * IMPORTANT: This is critical for preventing data loss when
@@ -187,12 +280,14 @@ export class DocumentController {
         });
       }
 
-      // Check document ownership
-      const exists = await DocumentModel.isOwner(id, userId);
-      if (!exists) {
-        return res.status(404).json({ error: "Document not found" });
+      const { access } = await requireDocumentAccess(id, userId, "edit");
+      if (folder_id !== undefined && access !== "owner") {
+        return res.status(403).json({ error: "Only the owner can move this document" });
       }
 
+      // Save any live editing session first so the version check sees it
+      await flushLiveDocument(id);
+
       // Attempt update with version check
       const { document, conflict } = await DocumentModel.updateWithVersion(
         id,
@@ -226,21 +321,28 @@ export class DocumentController {
         });
       }
 
+      syncLiveDocument(document!);
+
       return res.json(transformDocument(document));
     } catch (error: any) {
+      if (error instanceof ShareError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       console.error("Error updating document:", error);
       return res.status(500).json({ error: error.message });
     }
   }
 
   /**
-   * Delete document
+   * Delete document (moves it to the trash)
    * DELETE /api/documents/:id
    *
    * MIGRATED FROM press-backend: DocumentDetailView (DELETE)
    * CHANGES:
    * - Only owner can delete document
    * - Multi-tenancy enforced by ownership check
+   * - Soft delete: the document can be restored from /api/trash until
+   *   the purge job removes it
    */
   static async delete(req: Request, res: Response) {
     try {
@@ -252,15 +354,19 @@ export class DocumentController {
         return 
       }
 
-      const deleted = await DocumentModel.delete(id, userId);
-
-      if (!deleted) {
-        res.status(404).json({ error: "Document not found" });
-        return 
-      }
+      await requireDocumentAccess(id, userId, "owner");
+      await trashDocument(id, userId);
 
       res.status(204).send();
     } catch (error: any) {
+      if (error instanceof ShareError) {
+        res.status(error.status).json({ error: error.message });
+        return
+      }
+      if (error instanceof TrashError) {
+        res.status(404).json({ error: error.message });
+        return
+      }
       console.error("Error deleting document:", error);
       res.status(500).json({ error: error.message });
     }
@@ -287,11 +393,8 @@ export class DocumentController {
         return res.status(400).json({ error: "Document ID is required" });
       }
 
-      // Check document ownership
-      const exists = await DocumentModel.isOwner(id, userId);
-      if (!exists) {
-        return res.status(404).json({ error: "Document not found" });
-      }
+      // Only the owner files the document into folders
+      await requireDocumentAccess(id, userId, "owner");
 
       // If folder_id provided, validate it belongs to user
       if (folder_id) {
@@ -313,8 +416,763 @@ export class DocumentController {
 
       return res.json(transformDocument(document));
     } catch (error: any) {
+      if (error instanceof ShareError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       console.error("Error moving document:", error);
       return res.status(500).json({ error: error.message });
     }
   }
+
+  /**
+   * List document revisions, newest first
+   * GET /api/documents/:id/revisions
+   *
+   * Revisions are snapshots of title, content and formatting taken when a
+   * version is saved; quick successive saves by one user share a revision.
+   * Content is left out - fetch a single revision for it.
+   */
+  static async listRevisions(req: Request, res: Response) {
+    try {
+      const userId = req.user!.id;
+      const { id } = req.params;
+
+      if (!id) {
+        return res.status(400).json({ error: "Document ID is required" });
+      }
+
+      await requireDocumentAccess(id, userId, "view");
+
+      const limit = Math.min(Number(req.query.limit ?? 50), 200);
+      const page = Math.max(Number(req.query.page ?? 1), 1);
+      const { revisions, total } = await DocumentRevisionModel.findByDocument(
+        id,
+        limit,
+        (page - 1) * limit
+      );
+
+      return res.json({
+        results: revisions,
+        count: total,
+        page,
+        limit,
+      });
+    } catch (error: any) {
+      if (error instanceof ShareError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error listing document revisions:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
+
+  /**
+   * Get a single revision with its content and formatting
+   * GET /api/documents/:id/revisions/:revisionId
+   */
+  static async getRevision(req: Request, res: Response) {
+    try {
+      const userId = req.user!.id;
+      const { id, revisionId } = req.params;
+
+      if (!id || !revisionId) {
+        return res.status(400).json({ error: "Document ID and revision ID are required" });
+      }
+
+      await requireDocumentAccess(id, userId, "view");
+
+      const revision = await DocumentRevisionModel.findById(id, revisionId);
+      if (!revision) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+
+      return res.json(revision);
+    } catch (error: any) {
+      if (error instanceof ShareError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error getting document revision:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
+
+  /**
+   * Word-level diff between two revisions
+   * GET /api/documents/:id/revisions/diff?from=<revisionId>&to=<revisionId>
+   *
+   * "to" defaults to the latest revision. Changes are equal/insert/delete
+   * chunks; html and json documents are compared on their visible text.
+   */
+  static async diffRevisions(req: Request, res: Response) {
+    try {
+      const userId = req.user!.id;
+      const { id } = req.params;
+      const { from, to } = req.query;
+
+      if (!id) {
+        return res.status(400).json({ error: "Document ID is required" });
+      }
+
+      if (!from) {
+        return res.status(400).json({ error: "from revision ID is required" });
+      }
+
+      await requireDocumentAccess(id, userId, "view");
+
+      const fromRevision = await DocumentRevisionModel.findById(id, from as string);
+      const toRevision = to
+        ? await DocumentRevisionModel.findById(id, to as string)
+        : await DocumentRevisionModel.findLatest(id);
+
+      if (!fromRevision || !toRevision) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+
+      const diff = diffWords(
+        diffableText(fromRevision.content, fromRevision.content_format),
+        diffableText(toRevision.content, toRevision.content_format)
+      );
+
+      return res.json({
+        from: { id: fromRevision.id, version: fromRevision.version, title: fromRevision.title },
+        to: { id: toRevision.id, version: toRevision.version, title: toRevision.title },
+        title_changed: fromRevision.title !== toRevision.title,
+        changes: diff.changes,
+        stats: diff.stats,
+      });
+    } catch (error: any) {
+      if (error instanceof ShareError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error diffing document revisions:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
+
+  /**
+   * Restore an old revision as a new document version
+   * POST /api/documents/:id/revisions/:revisionId/restore
+   *
+   * Uses the same optimistic locking as updates: client_version must match
+   * the current document version or 409 is returned. The restore is recorded
+   * as its own revision pointing at the restored version.
+   */
+  static async restoreRevision(req: Request, res: Response) {
+    try {
+      const userId = req.user!.id;
+      const { id, revisionId } = req.params;
+      const { client_version } = req.body;
+
+      if (!id || !revisionId) {
+        return res.status(400).json({ error: "Document ID and revision ID are required" });
+      }
+
+      if (client_version === undefined || client_version === null) {
+        return res.status(400).json({
+          error: "client_version is required for updates",
+        });
+      }
+
+      await requireDocumentAccess(id, userId, "edit");
+
+      const revision = await DocumentRevisionModel.findById(id, revisionId);
+      if (!revision) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+
+      await flushLiveDocument(id);
+
+      const { document, conflict } = await DocumentModel.updateWithVersion(
+        id,
+        userId,
+        {
+          client_version,
+          title: revision.title,
+          content: revision.content,
+          content_format: revision.content_format,
+          formatting: revision.formatting,
+        },
+        undefined,
+        { restored_from_version: revision.version }
+      );
+
+      if (conflict) {
+        const latestDoc = await DocumentModel.findById(id);
+
+        return res.status(409).json({
+          error: "Conflict: Document has been modified since you last fetched it",
+          client_version,
+          current_version: latestDoc?.version,
+          latest_document: transformDocument(latestDoc),
+        });
+      }
+
+      syncLiveDocument(document!);
+
+      return res.json(transformDocument(document));
+    } catch (error: any) {
+      if (error instanceof ShareError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error restoring document revision:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
+
+  /**
+   * Export a document as a file
+   * GET /api/documents/:id/export?format=docx|pdf|md|html
+   *
+   * Formatting ranges and paragraph attributes are carried over, and the
+   * sources are appended as a bibliography in the document's citation style.
+   */
+  static async export(req: Request, res: Response) {
+    try {
+      const userId = req.user!.id;
+      const { id } = req.params;
+
+      if (!id) {
+        return res.status(400).json({ error: "Document ID is required" });
+      }
+
+      const format = EXPORT_FORMATS[String(req.query.format || "").toLowerCase()];
+      if (!format) {
+        return res.status(400).json({
+          error: `format must be one of: ${Object.keys(EXPORT_FORMATS).join(", ")}`,
+        });
+      }
+
+      await requireDocumentAccess(id, userId, "view");
+
+      // Export what collaborators currently see, not the last flush
+      await flushLiveDocument(id);
+
+      const document = await DocumentModel.findById(id);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      const file = await exportDocument(document, format);
+      const filename =
+        document.title.replace(/[^\w\s.-]+/g, "").replace(/\s+/g, " ").trim().slice(0, 100) || "document";
+
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${filename}.${file.extension}"; filename*=UTF-8''${encodeURIComponent(
+          `${document.title.trim() || "document"}.${file.extension}`
+        )}`
+      );
+      return res.send(file.buffer);
+    } catch (error: any) {
+      if (error instanceof ShareError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error exporting document:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
+
+  /**
+   * Import an uploaded file as a new document
+   * POST /api/documents/import (multipart: file, parent?, title?, class_id?, assignment_id?)
+   *
+   * Accepts .docx, .html, .md and .txt. The document is created in the
+   * user's school; the response lists formatting that could not be kept.
+   */
+  static async import(req: Request, res: Response) {
+    try {
+      const userId = req.user!.id;
+      const { title, parent, folder_id, school_id, class_id, assignment_id } = req.body || {};
+      const targetFolder = parent || folder_id || undefined;
+
+      if (!req.file) {
+        return res.status(400).json({ error: "A file is required" });
+      }
+
+      if (school_id && school_id !== req.schoolId) {
+        return res.status(403).json({ error: "Cannot import into another school" });
+      }
+
+      if (targetFolder) {
+        const folder = await FolderModel.findById(targetFolder);
+        if (
+          !folder ||
+          folder.owner_id !== userId ||
+          (folder.school_id && req.schoolId && folder.school_id !== req.schoolId)
+        ) {
+          return res.status(404).json({ error: "Folder not found" });
+        }
+      }
+
+      if (class_id) {
+        const classRecord = await ClassModel.findById(class_id);
+        if (!classRecord || classRecord.school_id !== req.schoolId) {
+          return res.status(404).json({ error: "Class not found" });
+        }
+      }
+
+      let imported;
+      try {
+        imported = await importDocument({
+          buffer: req.file.buffer,
+          originalname: req.file.originalname,
+        });
+      } catch (error) {
+        if (error instanceof ImportError) {
+          return res.status(400).json({ error: error.message, code: error.code });
+        }
+        throw error;
+      }
+
+      const document = await DocumentModel.create(userId, {
+        title: (typeof title === "string" && title.trim()) || imported.title,
+        content: imported.content,
+        content_format: imported.content_format,
+        formatting: imported.formatting,
+        folder_id: targetFolder,
+        school_id: req.schoolId || undefined,
+        class_id,
+        assignment_id,
+      });
+
+      return res.status(201).json({
+        document: transformDocument(document),
+        warnings: imported.warnings,
+      });
+    } catch (error: any) {
+      console.error("Error importing document:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
+
+  /**
+   * List a document's sources with their citations
+   * GET /api/documents/:id/sources
+   *
+   * Sources keep the student's order; entries is the bibliography sorted
+   * as the document's citation style requires. Each source lists the
+   * required fields it is still missing.
+   */
+  static async listSources(req: Request, res: Response) {
+    try {
+      const userId = req.user!.id;
+      const { id } = req.params;
+
+      if (!id) {
+        return res.status(400).json({ error: "Document ID is required" });
+      }
+
+      const { document } = await requireDocumentAccess(id, userId, "view");
+
+      return res.json({ ...describeSources(document), version: document.version });
+    } catch (error: any) {
+      if (error instanceof ShareError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error listing document sources:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
+
+  /**
+   * Add a source
+   * POST /api/documents/:id/sources
+   *
+   * Body is the source (type, title, authors, ...) with an optional
+   * client_version and position (index to insert at, default the end).
+   */
+  static async addSource(req: Request, res: Response) {
+    try {
+      const userId = req.user!.id;
+      const { id } = req.params;
+      const { client_version, position } = req.body || {};
+
+      if (!id) {
+        return res.status(400).json({ error: "Document ID is required" });
+      }
+
+      const { source: input, errors } = validateSourceInput(req.body);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: "Invalid source", errors });
+      }
+
+      const sourceId = randomUUID();
+      const result = await updateDocumentSources(id, userId, client_version, (sources) => {
+        const source = mergeSource({ id: sourceId, type: input.type!, title: input.title!, authors: [] }, input);
+        const index = Number.isInteger(position) ? Math.max(0, Math.min(position, sources.length)) : sources.length;
+        sources.splice(index, 0, source);
+        return sources;
+      });
+
+      return sendSourcesResult(res, id, result, client_version, 201, sourceId);
+    } catch (error: any) {
+      if (error instanceof ShareError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      if (error instanceof SourceError) {
+        return res.status(404).json({ error: error.message });
+      }
+      console.error("Error adding document source:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
+
+  /**
+   * Edit a source; only the fields sent change, null clears a field
+   * PUT /api/documents/:id/sources/:sourceId
+   */
+  static async updateSource(req: Request, res: Response) {
+    try {
+      const userId = req.user!.id;
+      const { id, sourceId } = req.params;
+      const { client_version } = req.body || {};
+
+      if (!id || !sourceId) {
+        return res.status(400).json({ error: "Document ID and source ID are required" });
+      }
+
+      const { source: changes, errors } = validateSourceInput(req.body, { partial: true });
+      if (errors.length > 0) {
+        return res.status(400).json({ error: "Invalid source", errors });
+      }
+
+      const result = await updateDocumentSources(id, userId, client_version, (sources) => {
+        const index = sources.findIndex((source) => source.id === sourceId);
+        if (index === -1) throw new SourceError("source_not_found", "Source not found");
+        sources[index] = mergeSource(sources[index]!, changes);
+        return sources;
+      });
+
+      return sendSourcesResult(res, id, result, client_version, 200, sourceId);
+    } catch (error: any) {
+      if (error instanceof ShareError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      if (error instanceof SourceError) {
+        return res.status(404).json({ error: error.message });
+      }
+      console.error("Error updating document source:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
+
+  /**
+   * Remove a source
+   * DELETE /api/documents/:id/sources/:sourceId
+   */
+  static async deleteSource(req: Request, res: Response) {
+    try {
+      const userId = req.user!.id;
+      const { id, sourceId } = req.params;
+      const { client_version } = req.body || {};
+
+      if (!id || !sourceId) {
+        return res.status(400).json({ error: "Document ID and source ID are required" });
+      }
+
+      const result = await updateDocumentSources(id, userId, client_version, (sources) => {
+        const remaining = sources.filter((source) => source.id !== sourceId);
+        if (remaining.length === sources.length) {
+          throw new SourceError("source_not_found", "Source not found");
+        }
+        return remaining;
+      });
+
+      return sendSourcesResult(res, id, result, client_version);
+    } catch (error: any) {
+      if (error instanceof ShareError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      if (error instanceof SourceError) {
+        return res.status(404).json({ error: error.message });
+      }
+      console.error("Error deleting document source:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
+
+  /**
+   * Reorder sources
+   * PUT /api/documents/:id/sources/order
+   *
+   * Body: { source_ids: [...] } listing every source ID once, in the new order
+   */
+  static async reorderSources(req: Request, res: Response) {
+    try {
+      const userId = req.user!.id;
+      const { id } = req.params;
+      const { client_version, source_ids } = req.body || {};
+
+      if (!id) {
+        return res.status(400).json({ error: "Document ID is required" });
+      }
+
+      if (!Array.isArray(source_ids) || source_ids.some((sourceId) => typeof sourceId !== "string")) {
+        return res.status(400).json({ error: "source_ids must be an array of source IDs" });
+      }
+
+      const result = await updateDocumentSources(id, userId, client_version, (sources) => {
+        const byId = new Map(sources.map((source) => [source.id, source]));
+        const complete =
+          source_ids.length === sources.length &&
+          new Set(source_ids).size === sources.length &&
+          source_ids.every((sourceId: string) => byId.has(sourceId));
+        if (!complete) {
+          throw new SourceError("invalid_order", "source_ids must list every source of the document exactly once");
+        }
+        return source_ids.map((sourceId: string) => byId.get(sourceId)!);
+      });
+
+      return sendSourcesResult(res, id, result, client_version);
+    } catch (error: any) {
+      if (error instanceof ShareError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      if (error instanceof SourceError) {
+        return res.status(error.code === "invalid_order" ? 400 : 404).json({ error: error.message });
+      }
+      console.error("Error reordering document sources:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
+
+  /**
+   * Documents shared with the user
+   * GET /api/documents/shared
+   *
+   * Documents shared directly and those inside shared folders (at any
+   * depth), newest first, each with the caller's permission
+   */
+  static async sharedWithMe(req: Request, res: Response) {
+    try {
+      const shared = await listSharedDocuments(req.user!.id);
+
+      return res.json(
+        shared.map(({ document, permission }) => ({
+          ...transformDocument(document),
+          permission,
+        }))
+      );
+    } catch (error: any) {
+      console.error("Error listing shared documents:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
+
+  /**
+   * List a document's comments, oldest first
+   * GET /api/documents/:id/comments
+   *
+   * Anyone who can view the document. Each comment has its author, body,
+   * selection and quoted_text (when it is about a passage) and resolved.
+   */
+  static async listComments(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        return res.status(400).json({ error: "Document ID is required" });
+      }
+
+      return res.json(await listComments(id, req.user!.id));
+    } catch (error: any) {
+      if (error instanceof ShareError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error listing document comments:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
+
+  /**
+   * Comment on a document
+   * POST /api/documents/:id/comments
+   *
+   * Body: { body, selection?: { startOffset, endOffset } }. Needs comment
+   * (or edit) access; viewers cannot comment.
+   */
+  static async addComment(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        return res.status(400).json({ error: "Document ID is required" });
+      }
+
+      return res.status(201).json(await addComment(id, req.user!.id, req.body));
+    } catch (error: any) {
+      if (error instanceof ShareError || error instanceof CommentError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error adding document comment:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
+
+  /**
+   * Edit a comment or mark it resolved
+   * PUT /api/documents/:id/comments/:commentId
+   *
+   * Body: { body?, resolved? }. Only the author changes the body; the
+   * author or anyone who can edit the document resolves it.
+   */
+  static async updateComment(req: Request, res: Response) {
+    try {
+      const { id, commentId } = req.params;
+
+      if (!id || !commentId) {
+        return res.status(400).json({ error: "Document ID and comment ID are required" });
+      }
+
+      return res.json(await updateComment(id, commentId, req.user!.id, req.body));
+    } catch (error: any) {
+      if (error instanceof ShareError || error instanceof CommentError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error updating document comment:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
+
+  /**
+   * Delete a comment (its author or the document's owner)
+   * DELETE /api/documents/:id/comments/:commentId
+   */
+  static async deleteComment(req: Request, res: Response) {
+    try {
+      const { id, commentId } = req.params;
+
+      if (!id || !commentId) {
+        return res.status(400).json({ error: "Document ID and comment ID are required" });
+      }
+
+      await deleteComment(id, commentId, req.user!.id);
+      return res.status(204).send();
+    } catch (error: any) {
+      if (error instanceof ShareError || error instanceof CommentError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error deleting document comment:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
+
+  /**
+   * List who a document is shared with
+   * GET /api/documents/:id/shares
+   *
+   * Owner only. Grants on folders above the document are not included.
+   */
+  static async listShares(req: Request, res: Response) {
+    try {
+      const userId = req.user!.id;
+      const { id } = req.params;
+
+      if (!id) {
+        return res.status(400).json({ error: "Document ID is required" });
+      }
+
+      await requireDocumentAccess(id, userId, "owner");
+
+      return res.json(await getShares({ document_id: id }));
+    } catch (error: any) {
+      if (error instanceof ShareError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error listing document shares:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
+
+  /**
+   * Share a document
+   * POST /api/documents/:id/shares
+   *
+   * Body: { user_id | class_id, permission: view|comment|edit }. Users
+   * (classmates or teachers) and classes must be in the document's school.
+   * Sharing again with the same user or class changes the permission.
+   */
+  static async addShare(req: Request, res: Response) {
+    try {
+      const userId = req.user!.id;
+      const { id } = req.params;
+
+      if (!id) {
+        return res.status(400).json({ error: "Document ID is required" });
+      }
+
+      const { document } = await requireDocumentAccess(id, userId, "owner");
+      const share = await shareWith(
+        { document_id: id },
+        req.body,
+        userId,
+        document.school_id || req.schoolId
+      );
+
+      return res.status(201).json(share);
+    } catch (error: any) {
+      if (error instanceof ShareError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error sharing document:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
+
+  /**
+   * Change a share's permission
+   * PUT /api/documents/:id/shares/:shareId
+   *
+   * Body: { permission: view|comment|edit }
+   */
+  static async updateShare(req: Request, res: Response) {
+    try {
+      const userId = req.user!.id;
+      const { id, shareId } = req.params;
+
+      if (!id || !shareId) {
+        return res.status(400).json({ error: "Document ID and share ID are required" });
+      }
+
+      await requireDocumentAccess(id, userId, "owner");
+
+      return res.json(await changeSharePermission({ document_id: id }, shareId, req.body?.permission));
+    } catch (error: any) {
+      if (error instanceof ShareError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error updating document share:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
+
+  /**
+   * Stop sharing with a user or class
+   * DELETE /api/documents/:id/shares/:shareId
+   *
+   * Live editing participants who lose access are disconnected; those
+   * left with view access can no longer edit.
+   */
+  static async removeShare(req: Request, res: Response) {
+    try {
+      const userId = req.user!.id;
+      const { id, shareId } = req.params;
+
+      if (!id || !shareId) {
+        return res.status(400).json({ error: "Document ID and share ID are required" });
+      }
+
+      await requireDocumentAccess(id, userId, "owner");
+      await revokeShare({ document_id: id }, shareId);
+
+      return res.status(204).send();
+    } catch (error: any) {
+      if (error instanceof ShareError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error removing document share:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
 }
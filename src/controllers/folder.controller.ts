@@ -1,11 +1,21 @@
 import { Request, Response } from "express";
 import { FolderModel } from "../models/folder.model.js";
+import {
+  ShareError,
+  changeSharePermission,
+  getShares,
+  listSharedFolders,
+  requireFolderAccess,
+  revokeShare,
+  shareWith,
+} from "../services/sharing.service.js";
+import { TrashError, trashFolder } from "../services/trash.service.js";
 
 /**
  * Transform folder from database format to API format
  * Maps snake_case DB fields to camelCase API fields expected by frontend
  */
-function transformFolder(folder: any): any {
+export function transformFolder(folder: any): any {
   if (!folder) return null;
   
   const { parent_id, owner_id, ...rest } = folder;
@@ -110,7 +120,8 @@ export class FolderController {
    * MIGRATED FROM press-backend: FolderDetailView (GET)
    * CHANGES:
    * - Returns folder with children_count and documents_count
-   * - Validates folder ownership for security
+   * - Owner and users it is shared with can view; permission is the
+   *   caller's access (owner, edit, comment or view)
    */
   static async getById(req: Request, res: Response) {
     try {
@@ -121,14 +132,18 @@ export class FolderController {
         return res.status(400).json({ error: "Folder ID is required" });
       }
 
-      const folder = await FolderModel.getFolderWithCounts(id, userId);
+      const { folder: found, access } = await requireFolderAccess(id, userId, "view");
+      const folder = await FolderModel.getFolderWithCounts(id, found.owner_id);
 
       if (!folder) {
         return res.status(404).json({ error: "Folder not found" });
       }
 
-      return res.json(transformFolder(folder));
+      return res.json({ ...transformFolder(folder), permission: access });
     } catch (error: any) {
+      if (error instanceof ShareError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       console.error("Error getting folder:", error);
       return res.status(500).json({ error: error.message });
     }
@@ -141,7 +156,8 @@ export class FolderController {
    * MIGRATED FROM press-backend: FolderDetailView (PUT/PATCH)
    * CHANGES:
    * - Validates circular reference before allowing parent_id change
-   * - Only owner can update folder (authorization check)
+   * - Owner and users with edit access can rename; only the owner can
+   *   move the folder
    */
   static async update(req: Request, res: Response) {
     try {
@@ -153,10 +169,9 @@ export class FolderController {
         return res.status(400).json({ error: "Folder ID is required" });
       }
 
-      // Check ownership
-      const exists = await FolderModel.isOwner(id, userId);
-      if (!exists) {
-        return res.status(404).json({ error: "Folder not found" });
+      const { folder: found, access } = await requireFolderAccess(id, userId, "edit");
+      if (parent_id !== undefined && access !== "owner") {
+        return res.status(403).json({ error: "Only the owner can move this folder" });
       }
 
       // If moving folder, validate it can be moved to new parent
@@ -177,7 +192,7 @@ export class FolderController {
         }
       }
 
-      const folder = await FolderModel.update(id, userId, { name, parent_id });
+      const folder = await FolderModel.update(id, found.owner_id, { name, parent_id });
 
       if (!folder) {
         return res.status(404).json({ error: "Folder not found" });
@@ -185,6 +200,9 @@ export class FolderController {
 
       return res.json(transformFolder(folder));
     } catch (error: any) {
+      if (error instanceof ShareError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       // Handle unique constraint violation
       if (error.code === "23505") {
         return res.status(400).json({
@@ -198,13 +216,13 @@ export class FolderController {
   }
 
   /**
-   * Delete folder
+   * Delete folder (moves it to the trash)
    * DELETE /api/folders/:id
    *
    * MIGRATED FROM press-backend: FolderDetailView (DELETE)
    * CHANGES:
-   * - Cascade deletes child folders (per migration FK constraint)
-   * - Documents in folder have folder_id set to NULL (per migration)
+   * - Soft delete: child folders and documents go to the trash with the
+   *   folder and are restored (or purged) together with it
    * - Only owner can delete folder
    */
   static async delete(req: Request, res: Response) {
@@ -216,14 +234,17 @@ export class FolderController {
         return res.status(400).json({ error: "Folder ID is required" });
       }
 
-      const deleted = await FolderModel.delete(id, userId);
-
-      if (!deleted) {
-        return res.status(404).json({ error: "Folder not found" });
-      }
+      await requireFolderAccess(id, userId, "owner");
+      await trashFolder(id, userId);
 
       return res.status(204).send();
     } catch (error: any) {
+      if (error instanceof ShareError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      if (error instanceof TrashError) {
+        return res.status(404).json({ error: error.message });
+      }
       console.error("Error deleting folder:", error);
       return res.status(500).json({ error: error.message });
     }
@@ -251,11 +272,8 @@ export class FolderController {
         return res.status(400).json({ error: "Folder ID is required" });
       }
 
-      // Check ownership
-      const exists = await FolderModel.isOwner(id, userId);
-      if (!exists) {
-        return res.status(404).json({ error: "Folder not found" });
-      }
+      // Only the owner moves the folder
+      await requireFolderAccess(id, userId, "owner");
 
       // Validate can move to new parent
       const canMove = await FolderModel.canMoveTo(id, parent_id || null);
@@ -281,8 +299,151 @@ export class FolderController {
 
       return res.json(transformFolder(folder));
     } catch (error: any) {
+      if (error instanceof ShareError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       console.error("Error moving folder:", error);
       return res.status(500).json({ error: error.message });
     }
   }
+
+  /**
+   * Folders shared with the user
+   * GET /api/folders/shared
+   *
+   * Each shared folder and every folder below it, with the caller's
+   * permission. Their documents are listed by GET /api/documents/shared.
+   */
+  static async sharedWithMe(req: Request, res: Response) {
+    try {
+      const shared = await listSharedFolders(req.user!.id);
+
+      return res.json(
+        shared.map(({ folder, permission }) => ({
+          ...transformFolder(folder),
+          permission,
+        }))
+      );
+    } catch (error: any) {
+      console.error("Error listing shared folders:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
+
+  /**
+   * List who a folder is shared with
+   * GET /api/folders/:id/shares
+   *
+   * Owner only. Grants on folders above this one are not included.
+   */
+  static async listShares(req: Request, res: Response) {
+    try {
+      const userId = req.user!.id;
+      const { id } = req.params;
+
+      if (!id) {
+        return res.status(400).json({ error: "Folder ID is required" });
+      }
+
+      await requireFolderAccess(id, userId, "owner");
+
+      return res.json(await getShares({ folder_id: id }));
+    } catch (error: any) {
+      if (error instanceof ShareError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error listing folder shares:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
+
+  /**
+   * Share a folder and everything in it
+   * POST /api/folders/:id/shares
+   *
+   * Body: { user_id | class_id, permission: view|comment|edit }, as for
+   * documents. The permission applies to all subfolders and documents.
+   */
+  static async addShare(req: Request, res: Response) {
+    try {
+      const userId = req.user!.id;
+      const { id } = req.params;
+
+      if (!id) {
+        return res.status(400).json({ error: "Folder ID is required" });
+      }
+
+      const { folder } = await requireFolderAccess(id, userId, "owner");
+      const share = await shareWith(
+        { folder_id: id },
+        req.body,
+        userId,
+        folder.school_id || req.schoolId
+      );
+
+      return res.status(201).json(share);
+    } catch (error: any) {
+      if (error instanceof ShareError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error sharing folder:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
+
+  /**
+   * Change a share's permission
+   * PUT /api/folders/:id/shares/:shareId
+   *
+   * Body: { permission: view|comment|edit }
+   */
+  static async updateShare(req: Request, res: Response) {
+    try {
+      const userId = req.user!.id;
+      const { id, shareId } = req.params;
+
+      if (!id || !shareId) {
+        return res.status(400).json({ error: "Folder ID and share ID are required" });
+      }
+
+      await requireFolderAccess(id, userId, "owner");
+
+      return res.json(await changeSharePermission({ folder_id: id }, shareId, req.body?.permission));
+    } catch (error: any) {
+      if (error instanceof ShareError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error updating folder share:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
+
+  /**
+   * Stop sharing with a user or class
+   * DELETE /api/folders/:id/shares/:shareId
+   *
+   * Live editing participants who lose access are disconnected; those
+   * left with view access can no longer edit.
+   */
+  static async removeShare(req: Request, res: Response) {
+    try {
+      const userId = req.user!.id;
+      const { id, shareId } = req.params;
+
+      if (!id || !shareId) {
+        return res.status(400).json({ error: "Folder ID and share ID are required" });
+      }
+
+      await requireFolderAccess(id, userId, "owner");
+      await revokeShare({ folder_id: id }, shareId);
+
+      return res.status(204).send();
+    } catch (error: any) {
+      if (error instanceof ShareError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error removing folder share:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
 }
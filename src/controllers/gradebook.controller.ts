@@ -0,0 +1,113 @@
+import { Request, Response } from "express";
+import { ClassModel } from "../models/class.model.js";
+import { buildGradebook, gradebookToTable } from "../services/gradebook.service.js";
+import { stringifyCSV } from "../utils/csv.utils.js";
+import { buildXLSX } from "../utils/xlsx.utils.js";
+
+const XLSX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+export class GradebookController {
+  /**
+   * Get the student x assignment gradebook for a class
+   * Query params: classId, missing_as_zero (default true)
+   */
+  static async getGradebook(req: Request, res: Response): Promise<void> {
+    try {
+      const { classId, missing_as_zero } = req.query;
+      const schoolId = req.schoolId;
+
+      if (!schoolId) {
+        res.status(403).json({
+          success: false,
+          message: "School context is required",
+        });
+        return;
+      }
+
+      const classData = await ClassModel.findById(classId as string);
+      if (!classData || classData.school_id !== schoolId) {
+        res.status(404).json({ success: false, message: "Class not found" });
+        return;
+      }
+
+      const gradebook = await buildGradebook(classId as string, schoolId, {
+        missingAsZero: missing_as_zero !== "false",
+      });
+
+      res.status(200).json({ success: true, data: gradebook });
+    } catch (error) {
+      console.error("Error building gradebook:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to build gradebook",
+      });
+    }
+  }
+
+  /**
+   * Export the class gradebook for report cards / SIS upload
+   * Query params: classId, format (csv | xlsx, default csv), missing_as_zero
+   */
+  static async exportGradebook(req: Request, res: Response): Promise<void> {
+    try {
+      const { classId, missing_as_zero } = req.query;
+      const format = String(req.query.format ?? "csv").toLowerCase();
+      const schoolId = req.schoolId;
+
+      if (!schoolId) {
+        res.status(403).json({
+          success: false,
+          message: "School context is required",
+        });
+        return;
+      }
+
+      if (format !== "csv" && format !== "xlsx") {
+        res.status(400).json({
+          success: false,
+          message: "format must be csv or xlsx",
+        });
+        return;
+      }
+
+      const classData = await ClassModel.findById(classId as string);
+      if (!classData || classData.school_id !== schoolId) {
+        res.status(404).json({ success: false, message: "Class not found" });
+        return;
+      }
+
+      const gradebook = await buildGradebook(classId as string, schoolId, {
+        missingAsZero: missing_as_zero !== "false",
+      });
+      const { headers, rows } = gradebookToTable(gradebook);
+      const baseName = `gradebook-${classData.class_name || classId}`
+        .replace(/[^a-zA-Z0-9-_]+/g, "-")
+        .toLowerCase();
+
+      if (format === "xlsx") {
+        const buffer = await buildXLSX(classData.class_name || "Gradebook", headers, rows);
+        res.setHeader("Content-Type", XLSX_MIME_TYPE);
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="${baseName}.xlsx"`
+        );
+        res.status(200).send(buffer);
+        return;
+      }
+
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${baseName}.csv"`
+      );
+      res.status(200).send(stringifyCSV(headers, rows));
+    } catch (error) {
+      console.error("Error exporting gradebook:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to export gradebook",
+      });
+    }
+  }
+}
@@ -1,30 +1,121 @@
 import { Request, Response } from "express";
-import axios from "axios";
-import metascraper from "metascraper";
-import metascraperAuthor from "metascraper-author";
-import metascraperDate from "metascraper-date";
-import metascraperDescription from "metascraper-description";
-import metascraperImage from "metascraper-image";
-import metascraperLogo from "metascraper-logo";
-import metascraperClearbit from "metascraper-clearbit";
-import metascraperPublisher from "metascraper-publisher";
-import metascraperTitle from "metascraper-title";
-import metascraperUrl from "metascraper-url";
-import metascraperReadability from "metascraper-readability";
-
-const metascraperInstance = metascraper([
-  metascraperAuthor(),
-  metascraperDate(),
-  metascraperDescription(),
-  metascraperImage(),
-  metascraperLogo(),
-  metascraperClearbit(),
-  metascraperPublisher(),
-  metascraperTitle(),
-  metascraperUrl(),
-  metascraperReadability(),
-]);
+import { randomUUID } from "crypto";
+import { CitationStyle } from "../models/document.model.js";
+import {
+  SourceError,
+  formatSource,
+  updateDocumentSources,
+} from "../services/document-source.service.js";
+import { lookupIdentifier } from "../services/identifier.service.js";
+import { ScrapeError, scrapeUrl } from "../services/scrape.service.js";
+import { ShareError, requireDocumentAccess } from "../services/sharing.service.js";
+import type { IdentifierType, ScrapeMetadata } from "../types/source.types.js";
+import { mergeSource, sourceFromMetadata } from "../utils/source.utils.js";
+import { getTimezoneFromRequest } from "../utils/timezone.utils.js";
 
+const CITATION_STYLES: CitationStyle[] = ["mla", "apa", "chicago"];
+const IDENTIFIER_TYPES: IdentifierType[] = ["doi", "isbn", "pmid"];
+
+// Today's date where the student is, as YYYY-MM-DD
+const accessDate = (req: Request): string =>
+  new Intl.DateTimeFormat("en-CA", {
+    timeZone: getTimezoneFromRequest(req),
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(new Date());
+
+type CitationRequest = {
+  citationMode: boolean;
+  style: CitationStyle;
+  document_id?: string;
+};
+
+// Validates the shared mode/citation_style options and, in citation mode
+// with a document_id, checks the document before any lookup is spent on it
+const readCitationRequest = async (
+  req: Request,
+  res: Response
+): Promise<CitationRequest | null> => {
+  const { mode, document_id, citation_style } = req.body;
+
+  if (mode !== undefined && mode !== "metadata" && mode !== "citation") {
+    res.status(400).send({ message: "mode must be metadata or citation" });
+    return null;
+  }
+
+  if (citation_style !== undefined && !CITATION_STYLES.includes(citation_style)) {
+    res.status(400).send({ message: "citation_style must be mla, apa or chicago" });
+    return null;
+  }
+
+  const citationMode = mode === "citation";
+  let style: CitationStyle = citation_style || "mla";
+
+  if (citationMode && document_id) {
+    // Throws ShareError unless the user may edit the document
+    const { document } = await requireDocumentAccess(document_id, req.user!.id, "edit");
+    style = document.citation_style || style;
+  }
+
+  return { citationMode, style, document_id: citationMode ? document_id : undefined };
+};
+
+// Answers with the metadata, or in citation mode turns it into a source
+// (added to the document when one was given)
+const sendMetadata = async (
+  req: Request,
+  res: Response,
+  metadata: ScrapeMetadata,
+  citation: CitationRequest,
+  extra: Record<string, unknown> = {}
+) => {
+  const { citationMode, style, document_id } = citation;
+
+  if (!citationMode) {
+    return res.status(200).send({ ...metadata, ...extra });
+  }
+
+  const input = sourceFromMetadata(metadata, accessDate(req));
+  const source = mergeSource(
+    { id: randomUUID(), type: input.type || "website", title: input.title || "", authors: [] },
+    input
+  );
+
+  if (!document_id) {
+    return res.status(200).send({ ...extra, metadata, source: formatSource(source, style) });
+  }
+
+  const result = await updateDocumentSources(document_id, req.user!.id, undefined, (sources) => [
+    ...sources,
+    source,
+  ]);
+  if (result.conflict || !result.document) {
+    return res.status(409).send({ message: "Document was modified while adding the source; try again" });
+  }
+
+  return res.status(201).send({
+    ...extra,
+    metadata,
+    source: formatSource(source, result.document.citation_style || style),
+    document_id,
+    version: result.document.version,
+  });
+};
+
+/**
+ * POST /api/v1/scrape
+ * Body: { url, mode?, document_id?, citation_style? }
+ *
+ * Returns the page's metadata (cached for a day per normalized URL).
+ * Failures answer { message, code } with code one of invalid_url,
+ * blocked, timeout, not_html, too_large, too_many_redirects,
+ * fetch_failed. With mode "citation" the metadata is also
+ * turned into a typed source, dated with today's access date and
+ * formatted in the document's citation style (or citation_style, default
+ * MLA). Given a document_id the source is added to that document's
+ * sources. missing_fields lists what the student still has to fill in.
+ */
 export const scrapeWebsite = async (req: Request, res: Response) => {
   const { url: targetUrl } = req.body;
 
@@ -33,20 +124,74 @@ export const scrapeWebsite = async (req: Request, res: Response) => {
   }
 
   try {
-    const response = await axios.get(targetUrl, {
-      headers: {
-        "User-Agent":
-          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/58.0.3029.110 Safari/537.36",
-      },
-    });
+    const citation = await readCitationRequest(req, res);
+    if (!citation) return;
 
-    const metadata = await metascraperInstance({
-      html: response.data,
-      url: response.request?.responseURL || response.config.url,
-    });
-    return res.status(200).send(metadata);
+    const { metadata, cached } = await scrapeUrl(targetUrl);
+    res.setHeader("X-Scrape-Cache", cached ? "HIT" : "MISS");
+
+    return await sendMetadata(req, res, metadata, citation);
   } catch (error) {
+    if (error instanceof ScrapeError) {
+      return res.status(error.status).send({ message: error.message, code: error.code });
+    }
+    if (error instanceof ShareError) {
+      return res.status(error.status).send({ message: error.message });
+    }
+    if (error instanceof SourceError) {
+      return res.status(404).send({ message: error.message });
+    }
     console.error("Scraping error:", error);
     return res.status(500).send({ message: "Failed to scrape the website" });
   }
 };
+
+/**
+ * POST /api/v1/scrape/identifier
+ * Body: { identifier, type?, mode?, document_id?, citation_style? }
+ *
+ * Looks up a DOI, ISBN or PMID (type is detected unless given as doi,
+ * isbn or pmid) and returns its metadata in the same shape as a URL
+ * scrape, plus authors, journal, volume, issue, pages and the
+ * identifiers, with identifier_type and identifier (normalized) added.
+ * Records are cached for a week. Failures answer { message, code } with
+ * code one of invalid_identifier, not_found, timeout, fetch_failed.
+ * mode, document_id and citation_style work as for URLs; the source gets
+ * the type the registry reports (book, journal article, ...).
+ */
+export const scrapeIdentifier = async (req: Request, res: Response) => {
+  const { identifier, type } = req.body;
+
+  if (!identifier) {
+    return res.status(400).send({ message: "identifier is required" });
+  }
+
+  if (type !== undefined && !IDENTIFIER_TYPES.includes(type)) {
+    return res.status(400).send({ message: "type must be doi, isbn or pmid" });
+  }
+
+  try {
+    const citation = await readCitationRequest(req, res);
+    if (!citation) return;
+
+    const result = await lookupIdentifier(identifier, type);
+    res.setHeader("X-Scrape-Cache", result.cached ? "HIT" : "MISS");
+
+    return await sendMetadata(req, res, result.metadata, citation, {
+      identifier_type: result.type,
+      identifier: result.identifier,
+    });
+  } catch (error) {
+    if (error instanceof ScrapeError) {
+      return res.status(error.status).send({ message: error.message, code: error.code });
+    }
+    if (error instanceof ShareError) {
+      return res.status(error.status).send({ message: error.message });
+    }
+    if (error instanceof SourceError) {
+      return res.status(404).send({ message: error.message });
+    }
+    console.error("Identifier lookup error:", error);
+    return res.status(500).send({ message: "Failed to look up the identifier" });
+  }
+};
@@ -0,0 +1,40 @@
+import { Request, Response } from "express";
+import { SearchError, search } from "../services/search.service.js";
+
+export class SearchController {
+  /**
+   * Search documents, folders and assignments
+   * GET /api/search?q=...
+   *
+   * q uses web search syntax ("quoted phrases", or, -excluded). Optional
+   * filters: types (comma separated document, folder, assignment),
+   * folder_id (that folder and below), class_id, assignment_id, and
+   * from / to on the last modified date. Folders are left out when
+   * filtering by class or assignment, assignments when filtering by folder.
+   *
+   * Returns { query, results, counts, page, limit }, best match first. Each
+   * result has a snippet of HTML-escaped text with the matches in <mark>.
+   * Only items of the user's school they own, were shared, or (for
+   * assignments) teach or take are returned.
+   */
+  static async search(req: Request, res: Response) {
+    try {
+      const results = await search(
+        {
+          user_id: req.user!.id,
+          school_id: req.schoolId ?? null,
+          is_admin: req.user!.user_type === "admin",
+        },
+        req.query
+      );
+
+      return res.json(results);
+    } catch (error: any) {
+      if (error instanceof SearchError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error searching:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { Request, Response } from 'express';
+import { PoolClient } from 'pg';
 import { pool } from '../config/postgres.db.js';
 import type {
   SubmissionRow,
@@ -6,7 +7,26 @@ import type {
   UpdateSubmissionDTO,
   SubmissionResponse,
   SubmissionStatus,
+  RubricScore,
 } from '../types/submission.types.js';
+import type { GradingCriterion } from '../models/assignment.model.js';
+import { SubmissionModel } from '../models/submission.model.js';
+import { SubmissionSimilarityModel } from '../models/submission-similarity.model.js';
+import { GradeHistoryModel } from '../models/grade-history.model.js';
+import { AssignmentExtensionModel } from '../models/assignment-extension.model.js';
+import { sendGradeReleasedEmail } from '../utils/gradeReleasedEmail.js';
+import { evaluateLateness, applyLatePenalty, LateEvaluation } from '../utils/late-policy.utils.js';
+import { computeCountedScore } from '../utils/attempt-scoring.utils.js';
+import {
+  computeDocumentMetrics,
+  checkLengthRequirements,
+  DocumentMetrics,
+  LengthCheck,
+  LengthViolation,
+} from '../utils/document-metrics.utils.js';
+import { checkSubmissionSimilarity, queueSimilarityCheck } from '../services/similarity.service.js';
+import { renderBankComment } from '../services/comment-bank.service.js';
+import { CommentBankModel } from '../models/comment-bank.model.js';
 
 /**
  * Transform database row to API response format
@@ -30,13 +50,337 @@ const transformSubmissionForResponse = (row: SubmissionRow): SubmissionResponse
     pageCount: row.page_count,
     submissionMetadata: row.submission_metadata,
     isLate: row.is_late,
+    minutesLate: row.minutes_late,
+    latePenaltyPercent: row.late_penalty_percent,
+    latePenaltyPoints: row.late_penalty_points,
+    finalScore: row.final_score,
     version: row.version,
     previousSubmissionId: row.previous_submission_id,
+    rubricScores: row.rubric_scores,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
 };
 
+// Statuses whose grade has been released to the student
+const RELEASED_STATUSES: SubmissionStatus[] = ['graded', 'returned'];
+
+/**
+ * Blank the grade of a submission for a student until it is released, so
+ * under_review drafts stay hidden
+ */
+const withholdUnreleasedGrade = <T extends Partial<SubmissionRow>>(row: T, userType?: string): T => {
+  if (userType !== 'student' || RELEASED_STATUSES.includes(row.status as SubmissionStatus)) {
+    return row;
+  }
+  return {
+    ...row,
+    score: null,
+    feedback: null,
+    rubric_scores: null,
+    late_penalty_points: null,
+    final_score: null,
+  };
+};
+
+/**
+ * Judge a submission against the student's effective due date and late policy,
+ * using the school's timezone for the due date.
+ * A student extension overrides the assignment due date and late settings.
+ */
+const evaluateSubmissionLateness = async (
+  client: PoolClient,
+  assignmentId: string,
+  schoolId: string,
+  studentId: string,
+  submittedAt: Date
+): Promise<LateEvaluation | null> => {
+  const result = await client.query(
+    `SELECT a.due_date, a.allow_late_submission, a.late_policy, sc.timezone
+     FROM assignments a
+     INNER JOIN schools sc ON a.school_id = sc.id
+     WHERE a.id = $1 AND a.school_id = $2`,
+    [assignmentId, schoolId]
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const assignment = result.rows[0];
+  const extension = await AssignmentExtensionModel.findEffectiveForStudent(assignmentId, studentId, client);
+
+  return evaluateLateness(
+    {
+      dueDate: extension ? extension.due_date : assignment.due_date,
+      allowLateSubmission: extension?.allow_late_submission ?? assignment.allow_late_submission,
+      latePolicy: extension?.late_policy ?? assignment.late_policy,
+      timezone: assignment.timezone || 'UTC',
+    },
+    submittedAt
+  );
+};
+
+/**
+ * Compute word/page counts on the server from the linked document, falling
+ * back to the inline submission content, and check them against the
+ * assignment length requirements. Client supplied counts are never trusted.
+ * The linked document must be the student's own live document in the
+ * school; documentFound is false when it is not.
+ */
+const evaluateSubmissionLength = async (
+  client: PoolClient,
+  assignmentId: string,
+  schoolId: string,
+  studentId: string,
+  documentId: string | null | undefined,
+  content: string | null | undefined
+): Promise<{ metrics: DocumentMetrics | null; check: LengthCheck | null; documentFound: boolean }> => {
+  let metrics: DocumentMetrics | null = null;
+
+  if (documentId) {
+    const documentResult = await client.query(
+      `SELECT content, content_format FROM documents
+       WHERE id = $1 AND owner_id = $2 AND school_id = $3 AND deleted_at IS NULL`,
+      [documentId, studentId, schoolId]
+    );
+    const document = documentResult.rows[0];
+    if (!document) {
+      return { metrics: null, check: null, documentFound: false };
+    }
+    metrics = computeDocumentMetrics(document.content, document.content_format);
+  }
+
+  if (!metrics && content) {
+    metrics = computeDocumentMetrics(content, 'plain');
+  }
+
+  if (!metrics) {
+    return { metrics: null, check: null, documentFound: true };
+  }
+
+  const assignmentResult = await client.query(
+    `SELECT min_word_count, max_word_count, page_count, length_enforcement
+     FROM assignments
+     WHERE id = $1 AND school_id = $2`,
+    [assignmentId, schoolId]
+  );
+  const assignment = assignmentResult.rows[0];
+
+  return {
+    metrics,
+    check: assignment ? checkLengthRequirements(metrics, assignment) : null,
+    documentFound: true,
+  };
+};
+
+/**
+ * Validate per-criterion rubric scores against the assignment grading_criteria
+ * and compute the submission total from them.
+ * When requireAll is set (final grades) every criterion must be scored.
+ */
+const computeRubricGrade = (
+  criteria: GradingCriterion[],
+  maxScore: number,
+  rubricScores: any,
+  requireAll: boolean
+): {
+  valid: boolean;
+  message?: string;
+  total?: number;
+  breakdown?: RubricScore[];
+} => {
+  if (criteria.length === 0) {
+    return { valid: false, message: 'Assignment has no grading criteria to score against' };
+  }
+
+  if (!Array.isArray(rubricScores)) {
+    return { valid: false, message: 'rubric_scores must be an array' };
+  }
+
+  const breakdown: RubricScore[] = [];
+  const seen = new Set<number>();
+
+  for (let i = 0; i < rubricScores.length; i++) {
+    const entry = rubricScores[i];
+    const index = entry?.criterion_index;
+
+    if (!Number.isInteger(index) || index < 0 || index >= criteria.length) {
+      return {
+        valid: false,
+        message: `Rubric score at index ${i} must reference a valid criterion_index`,
+      };
+    }
+
+    if (seen.has(index)) {
+      return {
+        valid: false,
+        message: `Criterion ${index} is scored more than once`,
+      };
+    }
+    seen.add(index);
+
+    const criterion = criteria[index] as GradingCriterion;
+    const score = Number(entry.score);
+
+    if (entry.score === null || entry.score === undefined || Number.isNaN(score)) {
+      return {
+        valid: false,
+        message: `Rubric score for "${criterion.title}" must be a number`,
+      };
+    }
+
+    if (score < 0 || score > criterion.points) {
+      return {
+        valid: false,
+        message: `Score for "${criterion.title}" must be between 0 and ${criterion.points}`,
+      };
+    }
+
+    breakdown.push({
+      criterion_index: index,
+      title: criterion.title,
+      points: criterion.points,
+      score,
+      comment: entry.comment ? String(entry.comment) : null,
+    });
+  }
+
+  if (requireAll && seen.size !== criteria.length) {
+    const missing = criteria
+      .filter((_, index) => !seen.has(index))
+      .map((criterion) => criterion.title);
+    return {
+      valid: false,
+      message: `All grading criteria must be scored. Missing: ${missing.join(', ')}`,
+    };
+  }
+
+  breakdown.sort((a, b) => a.criterion_index - b.criterion_index);
+
+  // numeric(5, 2) column - keep the total at two decimals
+  const total = Math.round(breakdown.reduce((sum, item) => sum + item.score, 0) * 100) / 100;
+
+  if (total > maxScore) {
+    return {
+      valid: false,
+      message: `Total rubric score (${total}) cannot exceed max_score (${maxScore})`,
+    };
+  }
+
+  return { valid: true, total, breakdown };
+};
+
+/**
+ * Resolve the score to store for a grade request.
+ * Uses the rubric breakdown when rubric_scores is sent, otherwise the plain score.
+ * The submission's late penalty is applied on top of the raw score.
+ */
+const resolveGradeScore = async (
+  client: PoolClient,
+  submission: SubmissionRow,
+  score: any,
+  rubricScores: any,
+  requireAll: boolean
+): Promise<{
+  valid: boolean;
+  message?: string;
+  score?: number | null;
+  breakdown?: RubricScore[] | null;
+  penaltyPoints?: number | null;
+  finalScore?: number | null;
+}> => {
+  const assignmentResult = await client.query(
+    'SELECT max_score, grading_criteria FROM assignments WHERE id = $1 AND school_id = $2',
+    [submission.assignment_id, submission.school_id]
+  );
+
+  if (assignmentResult.rows.length === 0) {
+    return { valid: false, message: 'Assignment not found for this submission' };
+  }
+
+  const { max_score: maxScore, grading_criteria: criteria } = assignmentResult.rows[0];
+
+  if (rubricScores !== undefined && rubricScores !== null) {
+    const rubric = computeRubricGrade(criteria || [], maxScore, rubricScores, requireAll);
+    if (!rubric.valid) {
+      return { valid: false, message: rubric.message };
+    }
+    const penalty = applyLatePenalty(rubric.total as number, submission.late_penalty_percent);
+    return {
+      valid: true,
+      score: rubric.total,
+      breakdown: rubric.breakdown,
+      penaltyPoints: penalty.penaltyPoints,
+      finalScore: penalty.finalScore,
+    };
+  }
+
+  if (score === undefined || score === null) {
+    return { valid: true, score: null, breakdown: null, penaltyPoints: null, finalScore: null };
+  }
+
+  const numericScore = Number(score);
+  if (Number.isNaN(numericScore) || numericScore < 0 || numericScore > maxScore) {
+    return {
+      valid: false,
+      message: `Score must be between 0 and max_score (${maxScore})`,
+    };
+  }
+
+  const penalty = applyLatePenalty(numericScore, submission.late_penalty_percent);
+  return {
+    valid: true,
+    score: numericScore,
+    breakdown: null,
+    penaltyPoints: penalty.penaltyPoints,
+    finalScore: penalty.finalScore,
+  };
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Build the general feedback text for a grade request: the typed feedback
+ * followed by any comment bank entries, rendered for the submission's
+ * student, each separated by a blank line
+ */
+const composeGradeFeedback = async (
+  client: PoolClient,
+  submission: SubmissionRow,
+  teacherId: string,
+  feedback: any,
+  commentBankIds: any
+): Promise<{ valid: boolean; message?: string; feedback?: string | null; usedIds?: string[] }> => {
+  if (commentBankIds === undefined || commentBankIds === null) {
+    return { valid: true, feedback: feedback || null, usedIds: [] };
+  }
+  if (!Array.isArray(commentBankIds)) {
+    return { valid: false, message: 'comment_bank_ids must be an array' };
+  }
+  if (commentBankIds.some((entryId) => typeof entryId !== 'string' || !UUID_PATTERN.test(entryId))) {
+    return { valid: false, message: 'comment_bank_ids must be valid ids' };
+  }
+
+  const parts: string[] = feedback ? [feedback] : [];
+  for (const entryId of commentBankIds) {
+    const rendered = await renderBankComment(
+      entryId,
+      submission.school_id,
+      teacherId,
+      { submissionId: submission.id },
+      {},
+      client
+    );
+    if (!rendered) {
+      return { valid: false, message: `Comment bank entry ${entryId} not found` };
+    }
+    parts.push(rendered.body);
+  }
+
+  return { valid: true, feedback: parts.join('\n\n') || null, usedIds: commentBankIds };
+};
+
 export class SubmissionController {
   /**
    * CREATE /api/v1/submissions
@@ -53,8 +397,6 @@ export class SubmissionController {
         document_id,
         content,
         status,
-        word_count,
-        page_count,
         submission_metadata,
         is_late,
       } = req.body as Partial<CreateSubmissionDTO>;
@@ -79,18 +421,55 @@ export class SubmissionController {
         return;
       }
 
-      // Begin transaction
-      await client.query('BEGIN');
-
       // Determine final status and submitted_at
       const finalStatus = status || 'draft';
       let submittedAt = null;
+      let lateness: LateEvaluation | null = null;
 
       // If status is NOT draft, set submitted_at to current timestamp
       if (finalStatus !== 'draft') {
         submittedAt = new Date();
+        lateness = await evaluateSubmissionLateness(client, assignment_id, schoolId, student_id, submittedAt);
+
+        if (lateness?.pastCutoff) {
+          res.status(403).json({
+            success: false,
+            message: 'The deadline for this assignment has passed. Late submissions are no longer accepted.',
+          });
+          return;
+        }
+      }
+
+      const length = await evaluateSubmissionLength(
+        client,
+        assignment_id,
+        schoolId,
+        student_id,
+        document_id,
+        content
+      );
+
+      if (!length.documentFound) {
+        res.status(404).json({
+          success: false,
+          message: 'Document not found',
+        });
+        return;
+      }
+
+      // Length requirements are only enforced when the work is turned in
+      if (finalStatus !== 'draft' && length.check?.blocked) {
+        res.status(422).json({
+          success: false,
+          message: 'Submission does not meet the assignment length requirements',
+          violations: length.check.violations,
+        });
+        return;
       }
 
+      // Begin transaction
+      await client.query('BEGIN');
+
       // Insert submission
       const insertQuery = `
         INSERT INTO submissions (
@@ -105,8 +484,10 @@ export class SubmissionController {
           word_count,
           page_count,
           submission_metadata,
-          is_late
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+          is_late,
+          minutes_late,
+          late_penalty_percent
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
         RETURNING *;
       `;
 
@@ -119,10 +500,12 @@ export class SubmissionController {
         content || null,
         finalStatus,
         submittedAt,
-        word_count || null,
-        page_count || null,
+        length.metrics?.wordCount ?? null,
+        length.metrics?.pageCount ?? null,
         submission_metadata ? JSON.stringify(submission_metadata) : null,
-        is_late || false,
+        lateness ? lateness.isLate : is_late || false,
+        lateness?.minutesLate ?? 0,
+        lateness?.penaltyPercent ?? 0,
       ];
 
       const result = await client.query(insertQuery, values);
@@ -130,10 +513,17 @@ export class SubmissionController {
 
       await client.query('COMMIT');
 
+      if (finalStatus !== 'draft') {
+        queueSimilarityCheck(submission.id);
+      }
+
       res.status(201).json({
         success: true,
         message: 'Submission created successfully',
         data: submission,
+        ...(finalStatus !== 'draft' && length.check?.violations.length
+          ? { lengthWarnings: length.check.violations }
+          : {}),
       });
     } catch (error) {
       await client.query('ROLLBACK');
@@ -196,8 +586,6 @@ export class SubmissionController {
         feedback,
         graded_by,
         graded_at,
-        word_count,
-        page_count,
         submission_metadata,
         is_late,
       } = req.body as UpdateSubmissionDTO;
@@ -249,26 +637,84 @@ export class SubmissionController {
         values.push(graded_at);
       }
 
-      if (word_count !== undefined) {
-        updates.push(`word_count = $${paramCount++}`);
-        values.push(word_count);
-      }
-
-      if (page_count !== undefined) {
-        updates.push(`page_count = $${paramCount++}`);
-        values.push(page_count);
-      }
-
       if (submission_metadata !== undefined) {
         updates.push(`submission_metadata = $${paramCount++}`);
         values.push(JSON.stringify(submission_metadata));
       }
 
-      if (is_late !== undefined) {
+      const isTurningIn = status !== undefined && status !== 'draft' && existingSubmission.status === 'draft';
+
+      // Turning a first attempt in - judge lateness on the server (resubmissions never are)
+      if (isTurningIn && !existingSubmission.previous_submission_id) {
+        const lateness = await evaluateSubmissionLateness(
+          client,
+          existingSubmission.assignment_id,
+          schoolId,
+          existingSubmission.student_id,
+          new Date()
+        );
+
+        if (lateness?.pastCutoff) {
+          res.status(403).json({
+            success: false,
+            message: 'The deadline for this assignment has passed. Late submissions are no longer accepted.',
+          });
+          return;
+        }
+
+        if (lateness) {
+          updates.push(`is_late = $${paramCount++}`);
+          values.push(lateness.isLate);
+          updates.push(`minutes_late = $${paramCount++}`);
+          values.push(lateness.minutesLate);
+          updates.push(`late_penalty_percent = $${paramCount++}`);
+          values.push(lateness.penaltyPercent);
+        }
+      } else if (is_late !== undefined) {
         updates.push(`is_late = $${paramCount++}`);
         values.push(is_late);
       }
 
+      // Recount on the server whenever the content changes or the work is turned in
+      let lengthWarnings: LengthViolation[] = [];
+
+      if (content !== undefined || isTurningIn) {
+        const length = await evaluateSubmissionLength(
+          client,
+          existingSubmission.assignment_id,
+          schoolId,
+          existingSubmission.student_id,
+          existingSubmission.document_id,
+          content !== undefined ? content : existingSubmission.content
+        );
+
+        if (!length.documentFound) {
+          res.status(404).json({
+            success: false,
+            message: 'Document not found',
+          });
+          return;
+        }
+
+        const isTurnedIn = (status ?? existingSubmission.status) !== 'draft';
+        if (isTurnedIn && length.check?.blocked) {
+          res.status(422).json({
+            success: false,
+            message: 'Submission does not meet the assignment length requirements',
+            violations: length.check.violations,
+          });
+          return;
+        }
+        if (isTurnedIn && length.check) {
+          lengthWarnings = length.check.violations;
+        }
+
+        updates.push(`word_count = $${paramCount++}`);
+        values.push(length.metrics?.wordCount ?? null);
+        updates.push(`page_count = $${paramCount++}`);
+        values.push(length.metrics?.pageCount ?? null);
+      }
+
       if (updates.length === 0) {
         res.status(400).json({
           success: false,
@@ -290,10 +736,15 @@ export class SubmissionController {
       const result = await client.query(updateQuery, values);
       const submission = transformSubmissionForResponse(result.rows[0]);
 
+      if (isTurningIn) {
+        queueSimilarityCheck(submission.id);
+      }
+
       res.json({
         success: true,
         message: 'Submission updated successfully',
         data: submission,
+        ...(lengthWarnings.length ? { lengthWarnings } : {}),
       });
     } catch (error) {
       console.error('Error updating submission:', error);
@@ -492,7 +943,9 @@ export class SubmissionController {
         return;
       }
 
-      const submission = transformSubmissionForResponse(result.rows[0]);
+      const submission = transformSubmissionForResponse(
+        withholdUnreleasedGrade(result.rows[0], req.user?.user_type)
+      );
 
       res.json({
         success: true,
@@ -663,7 +1116,7 @@ export class SubmissionController {
    */
   static async saveDraftGrade(req: Request, res: Response): Promise<void> {
     const { id } = req.params;
-    const { score, feedback } = req.body;
+    const { score, feedback, rubric_scores, comment_bank_ids } = req.body;
     const teacherId = req.user?.id; // From auth middleware
     const schoolId = req.schoolId;
 
@@ -691,7 +1144,32 @@ export class SubmissionController {
       if (existingSubmission.status === 'graded' && existingSubmission.graded_at !== null) {
         res.status(403).json({
           success: false,
-          message: 'Cannot modify submitted grades. Grade has been finalized and released to student.',
+          message: 'Cannot modify submitted grades. Grade has been finalized and released to student. Use the grade amendment endpoint instead.',
+        });
+        return;
+      }
+
+      // Drafts may score only part of the rubric
+      const grade = await resolveGradeScore(client, existingSubmission, score, rubric_scores, false);
+      if (!grade.valid) {
+        res.status(400).json({
+          success: false,
+          message: grade.message,
+        });
+        return;
+      }
+
+      const gradeFeedback = await composeGradeFeedback(
+        client,
+        existingSubmission,
+        teacherId as string,
+        feedback,
+        comment_bank_ids
+      );
+      if (!gradeFeedback.valid) {
+        res.status(400).json({
+          success: false,
+          message: gradeFeedback.message,
         });
         return;
       }
@@ -702,22 +1180,32 @@ export class SubmissionController {
         SET
           score = $1,
           feedback = $2,
+          rubric_scores = $3,
+          late_penalty_points = $4,
+          final_score = $5,
           status = 'under_review',
-          graded_by = $3,
+          graded_by = $6,
           graded_at = NULL,
           updated_at = NOW()
-        WHERE id = $4 AND school_id = $5
+        WHERE id = $7 AND school_id = $8
         RETURNING *
       `;
 
       const updateResult = await client.query(updateQuery, [
-        score,
-        feedback || null,
+        grade.score,
+        gradeFeedback.feedback,
+        grade.breakdown ? JSON.stringify(grade.breakdown) : null,
+        grade.penaltyPoints,
+        grade.finalScore,
         teacherId,
         id,
         schoolId,
       ]);
 
+      for (const entryId of gradeFeedback.usedIds || []) {
+        await CommentBankModel.incrementUsage(entryId, client);
+      }
+
       res.status(200).json({
         success: true,
         message: 'Draft grade saved successfully',
@@ -741,7 +1229,7 @@ export class SubmissionController {
    */
   static async submitFinalGrade(req: Request, res: Response): Promise<void> {
     const { id } = req.params;
-    const { score, feedback } = req.body;
+    const { score, feedback, rubric_scores, comment_bank_ids } = req.body;
     const teacherId = req.user?.id // req.userId; // From auth middleware
     const schoolId = req.schoolId;
 
@@ -749,10 +1237,10 @@ export class SubmissionController {
 
     try {
       // Validate required fields
-      if (score === undefined || score === null) {
+      if ((score === undefined || score === null) && !rubric_scores) {
         res.status(400).json({
           success: false,
-          message: 'Score is required to submit a grade',
+          message: 'Score or rubric_scores is required to submit a grade',
         });
         return;
       }
@@ -778,7 +1266,32 @@ export class SubmissionController {
       if (existingSubmission.status === 'graded' && existingSubmission.graded_at !== null) {
         res.status(403).json({
           success: false,
-          message: 'Cannot modify submitted grades. Grade has been finalized and released to student.',
+          message: 'Cannot modify submitted grades. Grade has been finalized and released to student. Use the grade amendment endpoint instead.',
+        });
+        return;
+      }
+
+      // Final grades must score every rubric criterion
+      const grade = await resolveGradeScore(client, existingSubmission, score, rubric_scores, true);
+      if (!grade.valid) {
+        res.status(400).json({
+          success: false,
+          message: grade.message,
+        });
+        return;
+      }
+
+      const gradeFeedback = await composeGradeFeedback(
+        client,
+        existingSubmission,
+        teacherId as string,
+        feedback,
+        comment_bank_ids
+      );
+      if (!gradeFeedback.valid) {
+        res.status(400).json({
+          success: false,
+          message: gradeFeedback.message,
         });
         return;
       }
@@ -789,22 +1302,37 @@ export class SubmissionController {
         SET
           score = $1,
           feedback = $2,
+          rubric_scores = $3,
+          late_penalty_points = $4,
+          final_score = $5,
           status = 'graded',
-          graded_by = $3,
+          graded_by = $6,
           graded_at = NOW(),
           updated_at = NOW()
-        WHERE id = $4 AND school_id = $5
+        WHERE id = $7 AND school_id = $8
         RETURNING *
       `;
 
       const updateResult = await client.query(updateQuery, [
-        score,
-        feedback || null,
+        grade.score,
+        gradeFeedback.feedback,
+        grade.breakdown ? JSON.stringify(grade.breakdown) : null,
+        grade.penaltyPoints,
+        grade.finalScore,
         teacherId,
         id,
         schoolId,
       ]);
 
+      for (const entryId of gradeFeedback.usedIds || []) {
+        await CommentBankModel.incrementUsage(entryId, client);
+      }
+
+      const releasedGrade = await SubmissionModel.findReleasedGrade(id as string, client);
+      if (releasedGrade) {
+        await sendGradeReleasedEmail(releasedGrade);
+      }
+
       res.status(200).json({
         success: true,
         message: 'Grade submitted successfully. Student can now view the grade.',
@@ -824,6 +1352,7 @@ export class SubmissionController {
 
   /**
    * Get grade for a submission
+   * Includes the per-criterion rubric breakdown when the grade was scored by rubric
    * GET /api/submissions/:id/grade
    */
   static async getGrade(req: Request, res: Response): Promise<void> {
@@ -835,14 +1364,22 @@ export class SubmissionController {
     try {
       const query = `
         SELECT
-          id,
-          score,
-          feedback,
-          status,
-          graded_by,
-          graded_at
-        FROM submissions
-        WHERE id = $1 AND school_id = $2
+          s.id,
+          s.score,
+          s.feedback,
+          s.rubric_scores,
+          s.is_late,
+          s.minutes_late,
+          s.late_penalty_percent,
+          s.late_penalty_points,
+          s.final_score,
+          a.max_score,
+          s.status,
+          s.graded_by,
+          s.graded_at
+        FROM submissions s
+        INNER JOIN assignments a ON s.assignment_id = a.id
+        WHERE s.id = $1 AND s.school_id = $2
       `;
 
       const result = await client.query(query, [id, schoolId]);
@@ -855,10 +1392,20 @@ export class SubmissionController {
         return;
       }
 
+      // Let the student see that a released grade was amended and why
+      const amendments = await GradeHistoryModel.findBySubmissionId(id as string, schoolId as string, client);
+
       res.status(200).json({
         success: true,
         message: 'Grade retrieved successfully',
-        data: result.rows[0],
+        data: {
+          ...withholdUnreleasedGrade(result.rows[0], req.user?.user_type),
+          is_amended: amendments.length > 0,
+          amendments: amendments.map((amendment) => ({
+            reason: amendment.reason,
+            amended_at: amendment.created_at,
+          })),
+        },
       });
     } catch (error) {
       console.error('Error retrieving grade:', error);
@@ -871,4 +1418,654 @@ export class SubmissionController {
       client.release();
     }
   }
+  /**
+   * Amend a finalized grade with a required reason
+   * The previous score/feedback/rubric values are kept in grade_history
+   * Only the grading teacher or a school admin can amend
+   * POST /api/submissions/:id/grade/amend
+   */
+  static async amendGrade(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    const { score, feedback, rubric_scores, reason } = req.body;
+    const userId = req.user?.id;
+    const userType = req.user?.user_type;
+    const schoolId = req.schoolId;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    if (!reason || typeof reason !== 'string' || !reason.trim()) {
+      res.status(400).json({
+        success: false,
+        message: 'A reason is required to amend a grade',
+      });
+      return;
+    }
+
+    if ((score === undefined || score === null) && !rubric_scores && feedback === undefined) {
+      res.status(400).json({
+        success: false,
+        message: 'Provide score, rubric_scores or feedback to amend',
+      });
+      return;
+    }
+
+    const client = await pool.connect();
+
+    try {
+      const submissionResult = await client.query(
+        'SELECT * FROM submissions WHERE id = $1 AND school_id = $2',
+        [id, schoolId]
+      );
+
+      if (submissionResult.rows.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Submission not found',
+        });
+        return;
+      }
+
+      const existingSubmission = submissionResult.rows[0] as SubmissionRow;
+
+      const isFinalized =
+        (existingSubmission.status === 'graded' || existingSubmission.status === 'returned') &&
+        existingSubmission.graded_at !== null;
+      if (!isFinalized) {
+        res.status(400).json({
+          success: false,
+          message: 'Only finalized grades can be amended. Use the draft grade endpoint instead.',
+        });
+        return;
+      }
+
+      const isGrader = existingSubmission.graded_by === userId;
+      const isAdmin = userType === 'admin';
+      if (!isGrader && !isAdmin) {
+        res.status(403).json({
+          success: false,
+          message: 'Only the grading teacher or a school admin can amend this grade',
+        });
+        return;
+      }
+
+      // Keep the current values for anything not being amended
+      let newScore: number | null = existingSubmission.score;
+      let newRubric: RubricScore[] | null = existingSubmission.rubric_scores;
+      let penaltyPoints: number | null = existingSubmission.late_penalty_points;
+      let finalScore: number | null = existingSubmission.final_score;
+      if ((score !== undefined && score !== null) || rubric_scores) {
+        const grade = await resolveGradeScore(client, existingSubmission, score, rubric_scores, true);
+        if (!grade.valid) {
+          res.status(400).json({
+            success: false,
+            message: grade.message,
+          });
+          return;
+        }
+        newScore = grade.score ?? null;
+        newRubric = grade.breakdown ?? null;
+        penaltyPoints = grade.penaltyPoints ?? null;
+        finalScore = grade.finalScore ?? null;
+      }
+      const newFeedback = feedback !== undefined ? feedback || null : existingSubmission.feedback;
+
+      await client.query('BEGIN');
+
+      await GradeHistoryModel.create(
+        {
+          school_id: existingSubmission.school_id,
+          submission_id: existingSubmission.id,
+          previous_score: existingSubmission.score,
+          previous_feedback: existingSubmission.feedback,
+          previous_rubric_scores: existingSubmission.rubric_scores,
+          new_score: newScore,
+          new_feedback: newFeedback,
+          new_rubric_scores: newRubric,
+          reason: reason.trim(),
+          amended_by: userId,
+        },
+        client
+      );
+
+      const updateResult = await client.query(
+        `
+        UPDATE submissions
+        SET
+          score = $1,
+          feedback = $2,
+          rubric_scores = $3,
+          late_penalty_points = $4,
+          final_score = $5,
+          updated_at = NOW()
+        WHERE id = $6 AND school_id = $7
+        RETURNING *
+        `,
+        [
+          newScore,
+          newFeedback,
+          newRubric ? JSON.stringify(newRubric) : null,
+          penaltyPoints,
+          finalScore,
+          id,
+          schoolId,
+        ]
+      );
+
+      await client.query('COMMIT');
+
+      res.status(200).json({
+        success: true,
+        message: 'Grade amended successfully',
+        data: updateResult.rows[0],
+      });
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Error amending grade:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to amend grade',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Get the amendment history of a grade. Visible to the grading teacher,
+   * the class's teachers, school admins and the submission's student.
+   * GET /api/submissions/:id/grade/history
+   */
+  static async getGradeHistory(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    const userId = req.user?.id;
+    const schoolId = req.schoolId;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    if (!schoolId) {
+      res.status(403).json({
+        success: false,
+        message: 'School context is required',
+      });
+      return;
+    }
+
+    try {
+      const submissionResult = await pool.query(
+        `SELECT s.student_id, s.graded_by,
+                c.creator_id = $3 OR EXISTS (
+                  SELECT 1 FROM class_members cm
+                  WHERE cm.class_id = s.class_id AND cm.user_id = $3
+                    AND cm.role = 'teacher' AND cm.status = 'active'
+                ) AS is_class_teacher
+         FROM submissions s
+         LEFT JOIN classes c ON s.class_id = c.id
+         WHERE s.id = $1 AND s.school_id = $2`,
+        [id, schoolId, userId]
+      );
+
+      if (submissionResult.rows.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Submission not found',
+        });
+        return;
+      }
+
+      const submission = submissionResult.rows[0];
+      const canView =
+        req.user?.user_type === 'admin' ||
+        submission.student_id === userId ||
+        submission.graded_by === userId ||
+        submission.is_class_teacher === true;
+      if (!canView) {
+        res.status(403).json({
+          success: false,
+          message: 'You do not have permission to view this grade history',
+        });
+        return;
+      }
+
+      const history = await GradeHistoryModel.findBySubmissionId(id as string, schoolId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Grade history retrieved successfully',
+        data: history,
+      });
+    } catch (error) {
+      console.error('Error retrieving grade history:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve grade history',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+  /**
+   * Resubmit after a grade has been returned
+   * Creates version N+1 linked to the returned submission through previous_submission_id.
+   * Resubmissions are not judged against the due date: the work is usually
+   * returned after it, so max_attempts is the only limit.
+   * POST /api/submissions/:id/resubmit
+   */
+  static async resubmit(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    const userId = req.user?.id;
+    const schoolId = req.schoolId;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    if (!schoolId) {
+      res.status(403).json({
+        success: false,
+        message: 'School context is required',
+      });
+      return;
+    }
+
+    const client = await pool.connect();
+
+    try {
+      const submissionResult = await client.query(
+        'SELECT * FROM submissions WHERE id = $1 AND school_id = $2',
+        [id, schoolId]
+      );
+
+      if (submissionResult.rows.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Submission not found',
+        });
+        return;
+      }
+
+      const previous = submissionResult.rows[0] as SubmissionRow;
+
+      if (previous.student_id !== userId) {
+        res.status(403).json({
+          success: false,
+          message: 'Only the student who made the submission can resubmit it',
+        });
+        return;
+      }
+
+      if (previous.status !== 'returned') {
+        res.status(400).json({
+          success: false,
+          message: 'Resubmission is only allowed after the grade has been returned',
+        });
+        return;
+      }
+
+      if (await SubmissionModel.hasNewerVersion(previous.id, client)) {
+        res.status(409).json({
+          success: false,
+          message: 'A newer version of this submission already exists',
+        });
+        return;
+      }
+
+      const assignmentResult = await client.query(
+        'SELECT max_attempts FROM assignments WHERE id = $1 AND school_id = $2',
+        [previous.assignment_id, schoolId]
+      );
+      const maxAttempts: number | null = assignmentResult.rows[0]?.max_attempts ?? null;
+
+      if (maxAttempts !== null && previous.version >= maxAttempts) {
+        res.status(403).json({
+          success: false,
+          message: `Maximum number of attempts (${maxAttempts}) reached for this assignment`,
+        });
+        return;
+      }
+
+      const {
+        document_id,
+        content,
+        status,
+        submission_metadata,
+      } = req.body as Partial<CreateSubmissionDTO>;
+
+      // A resubmission can be saved as a draft first and turned in later
+      const finalStatus: SubmissionStatus = status === 'draft' ? 'draft' : 'resubmitted';
+      const submittedAt = finalStatus !== 'draft' ? new Date() : null;
+
+      const length = await evaluateSubmissionLength(
+        client,
+        previous.assignment_id,
+        schoolId,
+        previous.student_id,
+        document_id !== undefined ? document_id : previous.document_id,
+        content !== undefined ? content : previous.content
+      );
+
+      if (!length.documentFound) {
+        res.status(404).json({
+          success: false,
+          message: 'Document not found',
+        });
+        return;
+      }
+
+      if (finalStatus !== 'draft' && length.check?.blocked) {
+        res.status(422).json({
+          success: false,
+          message: 'Submission does not meet the assignment length requirements',
+          violations: length.check.violations,
+        });
+        return;
+      }
+
+      await client.query('BEGIN');
+
+      // Lock the returned version so concurrent resubmissions cannot both add version N+1
+      await client.query('SELECT id FROM submissions WHERE id = $1 FOR UPDATE', [previous.id]);
+      if (await SubmissionModel.hasNewerVersion(previous.id, client)) {
+        await client.query('ROLLBACK');
+        res.status(409).json({
+          success: false,
+          message: 'A newer version of this submission already exists',
+        });
+        return;
+      }
+
+      const insertQuery = `
+        INSERT INTO submissions (
+          school_id,
+          class_id,
+          assignment_id,
+          student_id,
+          document_id,
+          content,
+          status,
+          submitted_at,
+          word_count,
+          page_count,
+          submission_metadata,
+          version,
+          previous_submission_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+        RETURNING *;
+      `;
+
+      const result = await client.query(insertQuery, [
+        schoolId,
+        previous.class_id,
+        previous.assignment_id,
+        previous.student_id,
+        document_id !== undefined ? document_id : previous.document_id,
+        content !== undefined ? content : previous.content,
+        finalStatus,
+        submittedAt,
+        length.metrics?.wordCount ?? null,
+        length.metrics?.pageCount ?? null,
+        submission_metadata ? JSON.stringify(submission_metadata) : null,
+        previous.version + 1,
+        previous.id,
+      ]);
+
+      await client.query('COMMIT');
+
+      if (finalStatus !== 'draft') {
+        queueSimilarityCheck(result.rows[0].id);
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'Resubmission created successfully',
+        data: transformSubmissionForResponse(result.rows[0]),
+        ...(finalStatus !== 'draft' && length.check?.violations.length
+          ? { lengthWarnings: length.check.violations }
+          : {}),
+      });
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Error creating resubmission:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to create resubmission',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * List every version of a student's submission for the assignment
+   * and the score that counts under the assignment attempt_scoring setting
+   * GET /api/submissions/:id/versions
+   */
+  static async listVersions(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    const schoolId = req.schoolId;
+
+    if (!schoolId) {
+      res.status(403).json({
+        success: false,
+        message: 'School context is required',
+      });
+      return;
+    }
+
+    const client = await pool.connect();
+
+    try {
+      const submissionResult = await client.query(
+        `SELECT s.assignment_id, s.student_id, a.attempt_scoring, a.max_attempts
+         FROM submissions s
+         INNER JOIN assignments a ON s.assignment_id = a.id
+         WHERE s.id = $1 AND s.school_id = $2`,
+        [id, schoolId]
+      );
+
+      if (submissionResult.rows.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Submission not found',
+        });
+        return;
+      }
+
+      const { assignment_id, student_id, attempt_scoring, max_attempts } = submissionResult.rows[0];
+
+      if (req.user?.user_type === 'student' && req.user.id !== student_id) {
+        res.status(403).json({
+          success: false,
+          message: 'You do not have permission to view these submissions',
+        });
+        return;
+      }
+
+      const versions = await SubmissionModel.findVersions(assignment_id, student_id, schoolId, client);
+      const counted = computeCountedScore(versions, attempt_scoring);
+
+      res.status(200).json({
+        success: true,
+        message: 'Submission versions retrieved successfully',
+        data: {
+          attemptScoring: attempt_scoring,
+          maxAttempts: max_attempts,
+          countedScore: counted.score,
+          countedSubmissionId: counted.counted_submission_id,
+          gradedAttempts: counted.graded_attempts,
+          versions: versions.map((row) => transformSubmissionForResponse(row)),
+        },
+      });
+    } catch (error) {
+      console.error('Error listing submission versions:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve submission versions',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Originality report for the grading teacher: overall similarity percentage
+   * and the matched submissions with their shared passages
+   * GET /api/submissions/:id/similarity
+   */
+  static async getSimilarity(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const schoolId = req.schoolId;
+
+      if (!schoolId) {
+        res.status(403).json({
+          success: false,
+          message: 'School context is required',
+        });
+        return;
+      }
+
+      if (req.user?.user_type === 'student') {
+        res.status(403).json({
+          success: false,
+          message: 'Only teachers and admins can view similarity reports',
+        });
+        return;
+      }
+
+      const submissionResult = await pool.query(
+        `SELECT id, status, similarity_percent, similarity_checked_at
+         FROM submissions
+         WHERE id = $1 AND school_id = $2`,
+        [id, schoolId]
+      );
+
+      if (submissionResult.rows.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Submission not found',
+        });
+        return;
+      }
+
+      const submission = submissionResult.rows[0];
+      const matches = await SubmissionSimilarityModel.findBySubmissionId(submission.id, schoolId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Similarity report retrieved successfully',
+        data: {
+          submissionId: submission.id,
+          similarityPercent: submission.similarity_percent,
+          checkedAt: submission.similarity_checked_at,
+          matches: matches.map((match) => ({
+            matchedSubmissionId: match.matched_submission_id,
+            similarityPercent: match.similarity_percent,
+            scope: match.scope,
+            student: {
+              id: match.matched_student_id,
+              firstName: match.matched_student_first_name,
+              lastName: match.matched_student_last_name,
+            },
+            assignmentId: match.matched_assignment_id,
+            assignmentTitle: match.matched_assignment_title,
+            classId: match.matched_class_id,
+            submittedAt: match.matched_submitted_at,
+            passages: match.passages,
+          })),
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching similarity report:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve similarity report',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Re-run the similarity check for a turned-in submission
+   * POST /api/submissions/:id/similarity/check
+   */
+  static async runSimilarityCheck(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const schoolId = req.schoolId;
+
+      if (!schoolId) {
+        res.status(403).json({
+          success: false,
+          message: 'School context is required',
+        });
+        return;
+      }
+
+      if (req.user?.user_type === 'student') {
+        res.status(403).json({
+          success: false,
+          message: 'Only teachers and admins can run similarity checks',
+        });
+        return;
+      }
+
+      const submissionResult = await pool.query(
+        'SELECT id, status FROM submissions WHERE id = $1 AND school_id = $2',
+        [id, schoolId]
+      );
+
+      if (submissionResult.rows.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Submission not found',
+        });
+        return;
+      }
+
+      if (submissionResult.rows[0].status === 'draft') {
+        res.status(400).json({
+          success: false,
+          message: 'Draft submissions are not checked for similarity',
+        });
+        return;
+      }
+
+      const result = await checkSubmissionSimilarity(submissionResult.rows[0].id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Similarity check completed',
+        data: {
+          submissionId: result?.submission_id ?? submissionResult.rows[0].id,
+          similarityPercent: result?.similarity_percent ?? null,
+          matchCount: result?.match_count ?? 0,
+        },
+      });
+    } catch (error) {
+      console.error('Error running similarity check:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to run similarity check',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
 }
@@ -1,13 +1,23 @@
 import { Request, Response } from "express";
+import { PoolClient } from "pg";
 import { pool } from "../config/postgres.db.js";
 import {
   FeedbackType,
+  FeedbackStatus,
+  FeedbackReplyRow,
+  FeedbackReplyResponse,
   CreateFeedbackDTO,
   UpdateFeedbackDTO,
   TeacherFeedbackRow,
   TeacherFeedbackResponse,
   FeedbackData,
 } from "../types/teacher-feedback.types.js";
+import { reanchorSubmissionFeedback, withInsertContext } from "../services/feedback-anchor.service.js";
+import { DocumentModel } from "../models/document.model.js";
+import { applySuggestion } from "../utils/suggestion.utils.js";
+import { CommentBankModel } from "../models/comment-bank.model.js";
+import { renderBankComment } from "../services/comment-bank.service.js";
+import { flushLiveDocument, syncLiveDocument } from "../services/collaboration.service.js";
 
 /**
  * Helper function to build feedback_data based on type
@@ -21,7 +31,10 @@ const buildFeedbackData = (type: FeedbackType, body: any): FeedbackData => {
     case 'delete':
       return { deleteSelection: body.deleteSelection || null };
     case 'insert':
-      return { insertPosition: body.insertPosition || null };
+      return {
+        insertPosition: body.insertPosition || null,
+        ...(body.insertText !== undefined ? { insertText: body.insertText } : {}),
+      };
     case 'move':
       return { moveSelection: body.moveSelection || null };
     default:
@@ -44,6 +57,14 @@ const transformFeedbackForResponse = (row: TeacherFeedbackRow): TeacherFeedbackR
     type: row.feedback_type,
     title: row.title,
     description: row.description,
+    status: row.status,
+    statusChangedBy: row.status_changed_by,
+    statusChangedAt: row.status_changed_at,
+    suggestionStatus: row.suggestion_status,
+    suggestionDecidedBy: row.suggestion_decided_by,
+    suggestionDecidedAt: row.suggestion_decided_at,
+    suggestionNote: row.suggestion_note,
+    appliedDocumentVersion: row.applied_document_version,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
@@ -59,7 +80,11 @@ const transformFeedbackForResponse = (row: TeacherFeedbackRow): TeacherFeedbackR
     case 'delete':
       return { ...base, deleteSelection: (feedbackData as any).deleteSelection || null };
     case 'insert':
-      return { ...base, insertPosition: (feedbackData as any).insertPosition || null };
+      return {
+        ...base,
+        insertPosition: (feedbackData as any).insertPosition || null,
+        insertText: (feedbackData as any).insertText,
+      };
     case 'move':
       return { ...base, moveSelection: (feedbackData as any).moveSelection || null };
     default:
@@ -67,6 +92,59 @@ const transformFeedbackForResponse = (row: TeacherFeedbackRow): TeacherFeedbackR
   }
 };
 
+/**
+ * Helper function to transform a reply row to API response
+ */
+const transformReplyForResponse = (row: FeedbackReplyRow): FeedbackReplyResponse => ({
+  id: row.id,
+  feedbackId: row.feedback_id,
+  authorId: row.author_id,
+  authorFirstName: row.author_first_name ?? null,
+  authorLastName: row.author_last_name ?? null,
+  authorRole: row.author_user_type ?? null,
+  body: row.body,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const VALID_STATUSES: FeedbackStatus[] = ['open', 'addressed', 'resolved'];
+
+// Feedback types that describe a concrete edit the student can accept or reject
+const SUGGESTION_TYPES: FeedbackType[] = ['delete', 'insert', 'move'];
+
+const isAdminUser = (userType?: string): boolean => userType === 'admin';
+
+/**
+ * Load a feedback item the user takes part in: its teacher, its student
+ * or a school admin
+ */
+const findParticipantFeedback = async (
+  client: PoolClient,
+  id: string,
+  schoolId: string,
+  userId: string,
+  userType?: string
+): Promise<TeacherFeedbackRow | null> => {
+  const result = await client.query(
+    'SELECT * FROM teacher_feedbacks WHERE id = $1 AND school_id = $2',
+    [id, schoolId]
+  );
+  const feedback: TeacherFeedbackRow | undefined = result.rows[0];
+
+  if (!feedback) return null;
+  if (feedback.teacher_id === userId || feedback.student_id === userId || isAdminUser(userType)) {
+    return feedback;
+  }
+  return null;
+};
+
+const REPLY_SELECT = `
+  SELECT r.*, u.first_name AS author_first_name, u.last_name AS author_last_name,
+         u.user_type AS author_user_type
+  FROM teacher_feedback_replies r
+  INNER JOIN users u ON r.author_id = u.id
+`;
+
 /**
  * Validation helper for feedback_data
  */
@@ -114,9 +192,26 @@ export class TeacherFeedbackController {
         submissionId,
         studentId,
         type,
-        title,
-        description,
+        commentBankId,
       } = req.body as CreateFeedbackDTO;
+      let { title, description } = req.body as CreateFeedbackDTO;
+
+      // Fill a missing title or description from a saved comment
+      if (commentBankId) {
+        const userId = (req as any).user?.userId || (req as any).user?.id;
+        const rendered = req.schoolId && userId
+          ? await renderBankComment(commentBankId, req.schoolId, userId, { submissionId, studentId, assignmentId }, {}, client)
+          : null;
+        if (!rendered) {
+          res.status(404).json({
+            success: false,
+            message: 'Comment bank entry not found'
+          });
+          return;
+        }
+        title = title || rendered.title;
+        description = description || rendered.body;
+      }
 
       // Validate required fields
       if (!assignmentId || !submissionId || !studentId || !type || !title || !description) {
@@ -140,7 +235,7 @@ export class TeacherFeedbackController {
       }
 
       // Build feedback_data based on type
-      const feedbackData = buildFeedbackData(type, req.body);
+      let feedbackData = buildFeedbackData(type, req.body);
 
       // Validate feedback_data
       try {
@@ -173,6 +268,10 @@ export class TeacherFeedbackController {
         return;
       }
 
+      if (type === 'insert') {
+        feedbackData = await withInsertContext(submissionId, feedbackData);
+      }
+
       // Insert into database
       const query = `
         INSERT INTO teacher_feedbacks (
@@ -184,8 +283,9 @@ export class TeacherFeedbackController {
           feedback_type,
           title,
           description,
-          feedback_data
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+          feedback_data,
+          suggestion_status
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
         RETURNING *;
       `;
 
@@ -198,12 +298,17 @@ export class TeacherFeedbackController {
         type,
         title,
         description,
-        JSON.stringify(feedbackData)
+        JSON.stringify(feedbackData),
+        SUGGESTION_TYPES.includes(type) ? 'pending' : null
       ];
 
       const result = await client.query(query, values);
       const feedback = transformFeedbackForResponse(result.rows[0]);
 
+      if (commentBankId) {
+        await CommentBankModel.incrementUsage(commentBankId, client);
+      }
+
       res.status(201).json({
         success: true,
         message: 'Feedback created successfully',
@@ -271,6 +376,7 @@ export class TeacherFeedbackController {
         selectedParagraphs,
         deleteSelection,
         insertPosition,
+        insertText,
         moveSelection,
       } = req.body as UpdateFeedbackDTO;
 
@@ -295,10 +401,11 @@ export class TeacherFeedbackController {
         selectedParagraphs !== undefined ||
         deleteSelection !== undefined ||
         insertPosition !== undefined ||
+        insertText !== undefined ||
         moveSelection !== undefined;
 
       if (hasTypeSpecificUpdate) {
-        const feedbackData = buildFeedbackData(existingFeedback.feedback_type, req.body);
+        let feedbackData = buildFeedbackData(existingFeedback.feedback_type, req.body);
 
         try {
           validateFeedbackData(existingFeedback.feedback_type, feedbackData);
@@ -310,6 +417,10 @@ export class TeacherFeedbackController {
           return;
         }
 
+        if (existingFeedback.feedback_type === 'insert') {
+          feedbackData = await withInsertContext(existingFeedback.submission_id, feedbackData);
+        }
+
         updates.push(`feedback_data = $${paramCount++}`);
         values.push(JSON.stringify(feedbackData));
       }
@@ -424,7 +535,8 @@ export class TeacherFeedbackController {
         submissionId,
         studentId,
         teacherId,
-        type
+        type,
+        status
       } = req.query;
 
       const authenticatedUserId = (req as any).user?.userId || (req as any).user?.id;
@@ -478,6 +590,21 @@ export class TeacherFeedbackController {
         values.push(type);
       }
 
+      // Optional status filter, comma separated (e.g. status=open,addressed)
+      if (status) {
+        const statuses = String(status).split(',').map((value) => value.trim());
+        if (statuses.some((value) => !VALID_STATUSES.includes(value as FeedbackStatus))) {
+          res.status(400).json({
+            success: false,
+            message: 'Invalid feedback status',
+            validStatuses: VALID_STATUSES
+          });
+          return;
+        }
+        conditions.push(`status = ANY($${paramCount++}::text[])`);
+        values.push(statuses);
+      }
+
       const query = `
         SELECT * FROM teacher_feedbacks
         WHERE ${conditions.join(' AND ')}
@@ -485,7 +612,29 @@ export class TeacherFeedbackController {
       `;
 
       const result = await client.query(query, values);
-      const feedbacks = result.rows.map(transformFeedbackForResponse);
+
+      // Attach reply threads, oldest reply first
+      const feedbackIds = result.rows.map((row) => row.id);
+      const repliesResult = feedbackIds.length
+        ? await client.query(
+            `${REPLY_SELECT}
+             WHERE r.feedback_id = ANY($1::uuid[])
+             ORDER BY r.created_at ASC`,
+            [feedbackIds]
+          )
+        : { rows: [] as FeedbackReplyRow[] };
+
+      const repliesByFeedback = new Map<string, FeedbackReplyResponse[]>();
+      for (const reply of repliesResult.rows as FeedbackReplyRow[]) {
+        const thread = repliesByFeedback.get(reply.feedback_id) ?? [];
+        thread.push(transformReplyForResponse(reply));
+        repliesByFeedback.set(reply.feedback_id, thread);
+      }
+
+      const feedbacks = result.rows.map((row) => ({
+        ...transformFeedbackForResponse(row),
+        replies: repliesByFeedback.get(row.id) ?? [],
+      }));
 
       res.json({
         success: true,
@@ -562,4 +711,610 @@ export class TeacherFeedbackController {
       client.release();
     }
   }
+
+  /**
+   * GET /api/v1/teacher-feedbacks/:id/replies
+   * Get the reply thread of a feedback item
+   */
+  static async listReplies(req: Request, res: Response): Promise<void> {
+    const client = await pool.connect();
+
+    try {
+      const { id } = req.params;
+      const userId = (req as any).user?.userId || (req as any).user?.id;
+      const schoolId = req.schoolId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'User not authenticated'
+        });
+        return;
+      }
+
+      if (!schoolId) {
+        res.status(403).json({
+          success: false,
+          message: 'School context is required'
+        });
+        return;
+      }
+
+      const feedback = await findParticipantFeedback(client, id as string, schoolId, userId, req.user?.user_type);
+      if (!feedback) {
+        res.status(404).json({
+          success: false,
+          message: 'Feedback not found or you do not have permission to view it'
+        });
+        return;
+      }
+
+      const result = await client.query(
+        `${REPLY_SELECT}
+         WHERE r.feedback_id = $1
+         ORDER BY r.created_at ASC`,
+        [feedback.id]
+      );
+      const replies = result.rows.map(transformReplyForResponse);
+
+      res.json({
+        success: true,
+        count: replies.length,
+        data: replies
+      });
+
+    } catch (error) {
+      console.error('Error fetching feedback replies:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch feedback replies',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * POST /api/v1/teacher-feedbacks/:id/replies
+   * Reply to a feedback item (its teacher, its student or a school admin)
+   */
+  static async createReply(req: Request, res: Response): Promise<void> {
+    const client = await pool.connect();
+
+    try {
+      const { id } = req.params;
+      const { body } = req.body as { body?: string };
+      const userId = (req as any).user?.userId || (req as any).user?.id;
+      const schoolId = req.schoolId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'User not authenticated'
+        });
+        return;
+      }
+
+      if (!schoolId) {
+        res.status(403).json({
+          success: false,
+          message: 'School context is required'
+        });
+        return;
+      }
+
+      if (!body || typeof body !== 'string' || !body.trim()) {
+        res.status(400).json({
+          success: false,
+          message: 'Reply body is required'
+        });
+        return;
+      }
+
+      const feedback = await findParticipantFeedback(client, id as string, schoolId, userId, req.user?.user_type);
+      if (!feedback) {
+        res.status(404).json({
+          success: false,
+          message: 'Feedback not found or you do not have permission to reply to it'
+        });
+        return;
+      }
+
+      const insertResult = await client.query(
+        `INSERT INTO teacher_feedback_replies (school_id, feedback_id, author_id, body)
+         VALUES ($1, $2, $3, $4)
+         RETURNING id`,
+        [schoolId, feedback.id, userId, body.trim()]
+      );
+
+      const result = await client.query(`${REPLY_SELECT} WHERE r.id = $1`, [insertResult.rows[0].id]);
+
+      res.status(201).json({
+        success: true,
+        message: 'Reply added successfully',
+        data: transformReplyForResponse(result.rows[0])
+      });
+
+    } catch (error) {
+      console.error('Error creating feedback reply:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to add reply',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * DELETE /api/v1/teacher-feedbacks/:id/replies/:replyId
+   * Delete a reply (its author or a school admin)
+   */
+  static async deleteReply(req: Request, res: Response): Promise<void> {
+    const client = await pool.connect();
+
+    try {
+      const { id, replyId } = req.params;
+      const userId = (req as any).user?.userId || (req as any).user?.id;
+      const schoolId = req.schoolId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'User not authenticated'
+        });
+        return;
+      }
+
+      if (!schoolId) {
+        res.status(403).json({
+          success: false,
+          message: 'School context is required'
+        });
+        return;
+      }
+
+      const result = await client.query(
+        `DELETE FROM teacher_feedback_replies
+         WHERE id = $1 AND feedback_id = $2 AND school_id = $3
+           AND (author_id = $4 OR $5::boolean)
+         RETURNING id`,
+        [replyId, id, schoolId, userId, isAdminUser(req.user?.user_type)]
+      );
+
+      if (result.rows.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Reply not found or you do not have permission to delete it'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Reply deleted successfully',
+        data: { id: result.rows[0].id }
+      });
+
+    } catch (error) {
+      console.error('Error deleting feedback reply:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to delete reply',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * PATCH /api/v1/teacher-feedbacks/:id/status
+   * Change the feedback status
+   * Students can mark their feedback addressed or reopen it;
+   * the teacher and school admins can also resolve it
+   */
+  static async updateStatus(req: Request, res: Response): Promise<void> {
+    const client = await pool.connect();
+
+    try {
+      const { id } = req.params;
+      const { status } = req.body as { status?: FeedbackStatus };
+      const userId = (req as any).user?.userId || (req as any).user?.id;
+      const schoolId = req.schoolId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'User not authenticated'
+        });
+        return;
+      }
+
+      if (!schoolId) {
+        res.status(403).json({
+          success: false,
+          message: 'School context is required'
+        });
+        return;
+      }
+
+      if (!status || !VALID_STATUSES.includes(status)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid feedback status',
+          validStatuses: VALID_STATUSES
+        });
+        return;
+      }
+
+      const feedback = await findParticipantFeedback(client, id as string, schoolId, userId, req.user?.user_type);
+      if (!feedback) {
+        res.status(404).json({
+          success: false,
+          message: 'Feedback not found or you do not have permission to edit it'
+        });
+        return;
+      }
+
+      const isStudent = feedback.student_id === userId && !isAdminUser(req.user?.user_type);
+      if (isStudent && status === 'resolved') {
+        res.status(403).json({
+          success: false,
+          message: 'Only the teacher can resolve feedback'
+        });
+        return;
+      }
+
+      const result = await client.query(
+        `UPDATE teacher_feedbacks
+         SET status = $1, status_changed_by = $2, status_changed_at = NOW()
+         WHERE id = $3
+         RETURNING *`,
+        [status, userId, feedback.id]
+      );
+
+      res.json({
+        success: true,
+        message: 'Feedback status updated successfully',
+        data: transformFeedbackForResponse(result.rows[0])
+      });
+
+    } catch (error) {
+      console.error('Error updating feedback status:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to update feedback status',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * POST /api/v1/teacher-feedbacks/reanchor
+   * Re-anchor the feedback of a submission onto edited document text
+   * Body: { submissionId, targetSubmissionId (defaults to the latest version), apply (default true) }
+   * Every text selection is flagged exact, moved or orphaned
+   */
+  static async reanchor(req: Request, res: Response): Promise<void> {
+    try {
+      const { submissionId, targetSubmissionId, apply } = req.body as {
+        submissionId?: string;
+        targetSubmissionId?: string;
+        apply?: boolean;
+      };
+      const schoolId = req.schoolId;
+
+      if (!schoolId) {
+        res.status(403).json({
+          success: false,
+          message: 'School context is required'
+        });
+        return;
+      }
+
+      if (req.user?.user_type === 'student') {
+        res.status(403).json({
+          success: false,
+          message: 'Only teachers and admins can re-anchor feedback'
+        });
+        return;
+      }
+
+      if (!submissionId) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required fields',
+          required: ['submissionId']
+        });
+        return;
+      }
+
+      const result = await reanchorSubmissionFeedback(submissionId, schoolId, {
+        targetSubmissionId,
+        apply: apply !== false,
+      });
+
+      if (!result) {
+        res.status(404).json({
+          success: false,
+          message: 'Submission not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: result.applied ? 'Feedback re-anchored successfully' : 'Feedback re-anchoring preview',
+        data: result
+      });
+
+    } catch (error) {
+      console.error('Error re-anchoring feedback:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to re-anchor feedback',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * POST /api/v1/teacher-feedbacks/:id/accept
+   * Accept a delete, insert or move suggestion and apply it to the linked document
+   * Body: { clientVersion (document version the student is looking at) }
+   * The suggestion is applied exactly as the teacher wrote it
+   * Returns 409 when the document changed since clientVersion, or when the
+   * text around an insert suggestion is no longer in the document
+   */
+  static async acceptSuggestion(req: Request, res: Response): Promise<void> {
+    const client = await pool.connect();
+
+    try {
+      const { id } = req.params;
+      const { clientVersion } = req.body as {
+        clientVersion?: number;
+      };
+      const userId = (req as any).user?.userId || (req as any).user?.id;
+      const schoolId = req.schoolId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'User not authenticated'
+        });
+        return;
+      }
+
+      if (!schoolId) {
+        res.status(403).json({
+          success: false,
+          message: 'School context is required'
+        });
+        return;
+      }
+
+      const feedbackResult = await client.query(
+        `SELECT f.*, s.document_id
+         FROM teacher_feedbacks f
+         INNER JOIN submissions s ON f.submission_id = s.id
+         WHERE f.id = $1 AND f.school_id = $2`,
+        [id, schoolId]
+      );
+      const feedback = feedbackResult.rows[0] as (TeacherFeedbackRow & { document_id: string | null }) | undefined;
+
+      if (!feedback || feedback.student_id !== userId) {
+        res.status(404).json({
+          success: false,
+          message: 'Feedback not found or you do not have permission to accept it'
+        });
+        return;
+      }
+
+      if (!SUGGESTION_TYPES.includes(feedback.feedback_type)) {
+        res.status(400).json({
+          success: false,
+          message: 'Only delete, insert and move feedback can be accepted as suggestions'
+        });
+        return;
+      }
+
+      if (feedback.suggestion_status && feedback.suggestion_status !== 'pending') {
+        res.status(409).json({
+          success: false,
+          message: `This suggestion has already been ${feedback.suggestion_status}`
+        });
+        return;
+      }
+
+      // A live editing session holds newer content than the stored row
+      if (feedback.document_id) await flushLiveDocument(feedback.document_id);
+
+      const document = feedback.document_id ? await DocumentModel.findById(feedback.document_id) : null;
+      if (!document || document.owner_id !== userId) {
+        res.status(404).json({
+          success: false,
+          message: 'The submission has no document of yours to apply the suggestion to'
+        });
+        return;
+      }
+
+      if (document.content_format !== 'plain' && document.content_format !== 'markdown') {
+        res.status(422).json({
+          success: false,
+          message: 'Suggestions can only be applied to plain text or markdown documents'
+        });
+        return;
+      }
+
+      const edit = applySuggestion(
+        feedback.feedback_type,
+        feedback.feedback_data,
+        document.content,
+        document.formatting
+      );
+
+      if (!edit.valid) {
+        res.status(edit.stale ? 409 : 422).json({
+          success: false,
+          message: edit.message
+        });
+        return;
+      }
+
+      await client.query('BEGIN');
+
+      const { document: updatedDocument, conflict } = await DocumentModel.updateWithVersion(
+        document.id,
+        document.owner_id,
+        {
+          content: edit.content,
+          formatting: edit.formatting,
+          client_version: clientVersion ?? document.version,
+        },
+        client
+      );
+
+      if (conflict) {
+        await client.query('ROLLBACK');
+        const latest = await DocumentModel.findById(document.id);
+        res.status(409).json({
+          success: false,
+          message: 'Conflict: Document has been modified since you last fetched it',
+          clientVersion: clientVersion ?? document.version,
+          currentVersion: latest?.version,
+        });
+        return;
+      }
+
+      const result = await client.query(
+        `UPDATE teacher_feedbacks
+         SET suggestion_status = 'accepted',
+             suggestion_decided_by = $1,
+             suggestion_decided_at = NOW(),
+             applied_document_version = $2
+         WHERE id = $3
+         RETURNING *`,
+        [userId, updatedDocument!.version, feedback.id]
+      );
+
+      await client.query('COMMIT');
+      syncLiveDocument(updatedDocument!);
+
+      res.json({
+        success: true,
+        message: 'Suggestion accepted and applied to the document',
+        data: {
+          feedback: transformFeedbackForResponse(result.rows[0]),
+          documentId: updatedDocument!.id,
+          documentVersion: updatedDocument!.version,
+          content: updatedDocument!.content,
+        }
+      });
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Error accepting suggestion:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to accept suggestion',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * POST /api/v1/teacher-feedbacks/:id/reject
+   * Reject a delete, insert or move suggestion
+   * Body: { note (optional reason shown to the teacher) }
+   */
+  static async rejectSuggestion(req: Request, res: Response): Promise<void> {
+    const client = await pool.connect();
+
+    try {
+      const { id } = req.params;
+      const { note } = req.body as { note?: string };
+      const userId = (req as any).user?.userId || (req as any).user?.id;
+      const schoolId = req.schoolId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'User not authenticated'
+        });
+        return;
+      }
+
+      if (!schoolId) {
+        res.status(403).json({
+          success: false,
+          message: 'School context is required'
+        });
+        return;
+      }
+
+      const checkResult = await client.query(
+        'SELECT * FROM teacher_feedbacks WHERE id = $1 AND school_id = $2 AND student_id = $3',
+        [id, schoolId, userId]
+      );
+      const feedback = checkResult.rows[0] as TeacherFeedbackRow | undefined;
+
+      if (!feedback) {
+        res.status(404).json({
+          success: false,
+          message: 'Feedback not found or you do not have permission to reject it'
+        });
+        return;
+      }
+
+      if (!SUGGESTION_TYPES.includes(feedback.feedback_type)) {
+        res.status(400).json({
+          success: false,
+          message: 'Only delete, insert and move feedback can be rejected as suggestions'
+        });
+        return;
+      }
+
+      if (feedback.suggestion_status && feedback.suggestion_status !== 'pending') {
+        res.status(409).json({
+          success: false,
+          message: `This suggestion has already been ${feedback.suggestion_status}`
+        });
+        return;
+      }
+
+      const result = await client.query(
+        `UPDATE teacher_feedbacks
+         SET suggestion_status = 'rejected',
+             suggestion_decided_by = $1,
+             suggestion_decided_at = NOW(),
+             suggestion_note = $2
+         WHERE id = $3
+         RETURNING *`,
+        [userId, note?.trim() || null, feedback.id]
+      );
+
+      res.json({
+        success: true,
+        message: 'Suggestion rejected',
+        data: transformFeedbackForResponse(result.rows[0])
+      });
+
+    } catch (error) {
+      console.error('Error rejecting suggestion:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to reject suggestion',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    } finally {
+      client.release();
+    }
+  }
 }
@@ -0,0 +1,150 @@
+import { Request, Response } from "express";
+import { transformDocument } from "./document.controller.js";
+import { transformFolder } from "./folder.controller.js";
+import {
+  TrashError,
+  deleteDocumentPermanently,
+  deleteFolderPermanently,
+  emptyTrash,
+  listTrash,
+  restoreDocument,
+  restoreFolder,
+} from "../services/trash.service.js";
+
+export class TrashController {
+  /**
+   * List the user's trash
+   * GET /api/trash
+   *
+   * Returns { retention_days, folders, documents }. Only items the user
+   * deleted themselves are listed; a folder carries children_count and
+   * documents_count for what was deleted with it. Each item has
+   * deleted_at, expires_at and trashed_path (the folder names it sat in).
+   */
+  static async list(req: Request, res: Response) {
+    try {
+      const trash = await listTrash(req.user!.id);
+
+      return res.json({
+        retention_days: trash.retention_days,
+        folders: trash.folders.map(transformFolder),
+        documents: trash.documents.map(transformDocument),
+      });
+    } catch (error: any) {
+      console.error("Error listing trash:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
+
+  /**
+   * Restore a document
+   * POST /api/trash/documents/:id/restore
+   *
+   * Goes back to its original folder; if that folder is gone (or in the
+   * trash) the folders along its old path are found or recreated.
+   */
+  static async restoreDocument(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        return res.status(400).json({ error: "Document ID is required" });
+      }
+
+      const document = await restoreDocument(id, req.user!.id);
+      return res.json(transformDocument(document));
+    } catch (error: any) {
+      if (error instanceof TrashError) {
+        return res.status(404).json({ error: error.message });
+      }
+      console.error("Error restoring document:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
+
+  /**
+   * Restore a folder with everything deleted along with it
+   * POST /api/trash/folders/:id/restore
+   *
+   * If a folder with the same name was created in its place meanwhile,
+   * the restored folder comes back as "Name (restored)".
+   */
+  static async restoreFolder(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        return res.status(400).json({ error: "Folder ID is required" });
+      }
+
+      const folder = await restoreFolder(id, req.user!.id);
+      return res.json(transformFolder(folder));
+    } catch (error: any) {
+      if (error instanceof TrashError) {
+        return res.status(404).json({ error: error.message });
+      }
+      console.error("Error restoring folder:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
+
+  /**
+   * Delete a trashed document for good
+   * DELETE /api/trash/documents/:id
+   */
+  static async deleteDocument(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        return res.status(400).json({ error: "Document ID is required" });
+      }
+
+      await deleteDocumentPermanently(id, req.user!.id);
+      return res.status(204).send();
+    } catch (error: any) {
+      if (error instanceof TrashError) {
+        return res.status(404).json({ error: error.message });
+      }
+      console.error("Error deleting document permanently:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
+
+  /**
+   * Delete a trashed folder, and everything deleted with it, for good
+   * DELETE /api/trash/folders/:id
+   */
+  static async deleteFolder(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        return res.status(400).json({ error: "Folder ID is required" });
+      }
+
+      await deleteFolderPermanently(id, req.user!.id);
+      return res.status(204).send();
+    } catch (error: any) {
+      if (error instanceof TrashError) {
+        return res.status(404).json({ error: error.message });
+      }
+      console.error("Error deleting folder permanently:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
+
+  /**
+   * Empty the trash
+   * DELETE /api/trash
+   */
+  static async empty(req: Request, res: Response) {
+    try {
+      const removed = await emptyTrash(req.user!.id);
+      return res.json({ removed });
+    } catch (error: any) {
+      console.error("Error emptying trash:", error);
+      return res.status(500).json({ error: error.message });
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import cron from "node-cron";
+import { pool } from "../config/postgres.db.js";
+import { AssignmentModel } from "../models/assignment.model.js";
+import { SubmissionModel } from "../models/submission.model.js";
+import { sendGradeReleasedEmail } from "@/utils/gradeReleasedEmail.js";
+
+export const gradeReleaseCron = () => {
+  // Runs every 5 minutes
+  cron.schedule("*/5 * * * *", async () => {
+    console.log("Checking scheduled grade releases...");
+
+    const dueAssignments = await AssignmentModel.findDueGradeReleases();
+
+    for (const assignment of dueAssignments) {
+      const client = await pool.connect();
+      try {
+        await client.query("BEGIN");
+        const released = await SubmissionModel.releaseDraftGrades(assignment.id, client);
+        await AssignmentModel.setGradeReleaseAt(assignment.id, null, client);
+        await client.query("COMMIT");
+
+        for (const grade of released) {
+          await sendGradeReleasedEmail(grade);
+        }
+      } catch (error) {
+        await client.query("ROLLBACK");
+        console.error(`Failed to release grades for assignment ${assignment.id}:`, error);
+      } finally {
+        client.release();
+      }
+    }
+  });
+};
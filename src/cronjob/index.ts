@@ -2,6 +2,9 @@
 import { paidPlanExpiryFollowUpCron } from "./paidPlanExpiryFollowUpCron";
 import { planActualExpiryCron } from "./planActualExpiryCron";
 import { studentExpiryCron } from "./studentExpiryCron";
+import { gradeReleaseCron } from "./gradeReleaseCron";
+import { scrapeCachePurgeCron } from "./scrapeCachePurgeCron";
+import { trashPurgeCron } from "./trashPurgeCron";
 
 
 export const startCronJobs = () => {
@@ -9,4 +12,7 @@ export const startCronJobs = () => {
   planActualExpiryCron();
  paidPlanExpiryFollowUpCron();
   studentExpiryCron();
+  gradeReleaseCron();
+  scrapeCachePurgeCron();
+  trashPurgeCron();
 };
@@ -0,0 +1,14 @@
+import cron from "node-cron";
+import { ScrapeCacheModel } from "../models/scrape-cache.model.js";
+
+export const scrapeCachePurgeCron = () => {
+  // Runs every hour
+  cron.schedule("0 * * * *", async () => {
+    try {
+      const purged = await ScrapeCacheModel.purgeExpired();
+      if (purged > 0) console.log(`Purged ${purged} expired scrape cache entries`);
+    } catch (error) {
+      console.error("Failed to purge scrape cache:", error);
+    }
+  });
+};
@@ -0,0 +1,16 @@
+import cron from "node-cron";
+import { purgeExpiredTrash, TRASH_RETENTION_DAYS } from "../services/trash.service.js";
+
+export const trashPurgeCron = () => {
+  // Runs daily at 3:30 AM
+  cron.schedule("30 3 * * *", async () => {
+    try {
+      const purged = await purgeExpiredTrash();
+      if (purged > 0) {
+        console.log(`Purged ${purged} trash items older than ${TRASH_RETENTION_DAYS} days`);
+      }
+    } catch (error) {
+      console.error("Failed to purge trash:", error);
+    }
+  });
+};
@@ -1,4 +1,4 @@
-import rateLimit from "express-rate-limit";
+import rateLimit, { ipKeyGenerator } from "express-rate-limit";
 
 export const limiter = rateLimit({
   windowMs: 1 * 60 * 1000,
@@ -14,3 +14,16 @@ export const paymentUpgradeLimiter = rateLimit({
   standardHeaders: true,
   legacyHeaders: false,
 });
+
+// Per-user limit on outgoing page fetches for /api/v1/scrape
+export const scrapeLimiter = rateLimit({
+  windowMs: 10 * 60 * 1000,
+  max: 60,
+  keyGenerator: (req) => req.user?.id || ipKeyGenerator(req.ip || ""),
+  message: {
+    message: "Too many scrape requests. Please try again in a few minutes.",
+    code: "rate_limited",
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
@@ -0,0 +1,95 @@
+import { PoolClient } from "pg";
+import { pool } from "../config/postgres.db.js";
+import type { LatePolicy } from "./assignment.model.js";
+
+export interface AssignmentExtension {
+  id: string;
+  school_id: string;
+  assignment_id: string;
+  student_ids: string[];
+  group_name: string | null;
+  due_date: Date;
+  allow_late_submission: boolean | null;
+  late_policy: LatePolicy | null;
+  reason: string | null;
+  granted_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateAssignmentExtensionDTO {
+  school_id: string;
+  assignment_id: string;
+  student_ids: string[];
+  group_name?: string | null;
+  due_date: Date | string;
+  allow_late_submission?: boolean | null;
+  late_policy?: LatePolicy | null;
+  reason?: string | null;
+  granted_by: string;
+}
+
+export class AssignmentExtensionModel {
+  static async create(
+    data: CreateAssignmentExtensionDTO,
+    client?: PoolClient
+  ): Promise<AssignmentExtension> {
+    const db = client || pool;
+    const result = await db.query(
+      `INSERT INTO assignment_extensions (
+        school_id, assignment_id, student_ids, group_name, due_date,
+        allow_late_submission, late_policy, reason, granted_by
+      ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9)
+      RETURNING *`,
+      [
+        data.school_id,
+        data.assignment_id,
+        data.student_ids,
+        data.group_name ?? null,
+        new Date(data.due_date),
+        data.allow_late_submission ?? null,
+        data.late_policy ? JSON.stringify(data.late_policy) : null,
+        data.reason ?? null,
+        data.granted_by,
+      ]
+    );
+    return result.rows[0];
+  }
+
+  static async findByAssignmentId(
+    assignmentId: string
+  ): Promise<AssignmentExtension[]> {
+    const result = await pool.query(
+      `SELECT * FROM assignment_extensions
+       WHERE assignment_id = $1
+       ORDER BY created_at DESC`,
+      [assignmentId]
+    );
+    return result.rows;
+  }
+
+  // Extension with the latest due date covering the student, if any
+  static async findEffectiveForStudent(
+    assignmentId: string,
+    studentId: string,
+    client?: PoolClient
+  ): Promise<AssignmentExtension | null> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT * FROM assignment_extensions
+       WHERE assignment_id = $1 AND $2 = ANY(student_ids)
+       ORDER BY due_date DESC
+       LIMIT 1`,
+      [assignmentId, studentId]
+    );
+    return result.rows[0] || null;
+  }
+
+  static async delete(id: string, assignmentId: string): Promise<boolean> {
+    const result = await pool.query(
+      `DELETE FROM assignment_extensions WHERE id = $1 AND assignment_id = $2`,
+      [id, assignmentId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+}
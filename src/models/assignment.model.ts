@@ -7,6 +7,18 @@ export interface GradingCriterion {
   points: number;
 }
 
+export interface LatePolicy {
+  grace_period_minutes?: number;
+  deduction_percent?: number;
+  deduction_interval?: "hour" | "day";
+  max_penalty_percent?: number | null;
+  cutoff_hours?: number | null;
+}
+
+export type AttemptScoring = "latest" | "highest" | "average";
+
+export type LengthEnforcement = "off" | "warn" | "block";
+
 export interface Assignment {
   id: string;
   title: string;
@@ -26,6 +38,13 @@ export interface Assignment {
   allow_late_submission: boolean;
   status: "active" | "inactive";
   grading_criteria?: GradingCriterion[] | null;
+  late_policy?: LatePolicy | null;
+  max_attempts?: number | null;
+  attempt_scoring: AttemptScoring;
+  grade_category?: string | null;
+  grade_weight: number;
+  length_enforcement: LengthEnforcement;
+  grade_release_at?: Date | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -48,6 +67,12 @@ export interface CreateAssignmentDTO {
   allow_late_submission?: boolean;
   status?: Assignment["status"];
   grading_criteria?: GradingCriterion[];
+  late_policy?: LatePolicy | null;
+  max_attempts?: number | null;
+  attempt_scoring?: AttemptScoring;
+  grade_category?: string | null;
+  grade_weight?: number;
+  length_enforcement?: LengthEnforcement;
 }
 
 export interface UpdateAssignmentDTO {
@@ -65,6 +90,12 @@ export interface UpdateAssignmentDTO {
   allow_late_submission?: boolean;
   status?: Assignment["status"];
   grading_criteria?: GradingCriterion[] | null;
+  late_policy?: LatePolicy | null;
+  max_attempts?: number | null;
+  attempt_scoring?: AttemptScoring;
+  grade_category?: string | null;
+  grade_weight?: number;
+  length_enforcement?: LengthEnforcement;
   class_id?: string;
   school_id?: string;
 }
@@ -80,9 +111,12 @@ export class AssignmentModel {
         title, description, class_id, created_by, school_id,
         assign_date, due_date, max_score, min_word_count, word_count,
         max_word_count, page_count, assignment_type, citation_style,
-        allow_late_submission, status, grading_criteria
+        allow_late_submission, status, grading_criteria, late_policy,
+        max_attempts, attempt_scoring, grade_category, grade_weight,
+        length_enforcement
       ) VALUES (
-        $1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17
+        $1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17,$18,$19,$20,
+        $21,$22,$23
       ) RETURNING *`,
       [
         data.title,
@@ -102,6 +136,12 @@ export class AssignmentModel {
         data.allow_late_submission ?? false,
         data.status ?? "inactive",
         data.grading_criteria ? JSON.stringify(data.grading_criteria) : null,
+        data.late_policy ? JSON.stringify(data.late_policy) : null,
+        data.max_attempts ?? null,
+        data.attempt_scoring ?? "latest",
+        data.grade_category ?? null,
+        data.grade_weight ?? 1,
+        data.length_enforcement ?? "warn",
       ]
     );
 
@@ -196,7 +236,7 @@ export class AssignmentModel {
       fields.push(`${key} = $${idx++}`);
       if (key === "assign_date" || key === "due_date") {
         values.push(value ? new Date(value as any) : null);
-      } else if (key === "grading_criteria") {
+      } else if (key === "grading_criteria" || key === "late_policy") {
         values.push(value ? JSON.stringify(value) : null);
       } else {
         values.push(value);
@@ -244,4 +284,32 @@ export class AssignmentModel {
   return (result.rowCount ?? 0) > 0;
 }
 
+  // Schedule (or clear with null) the bulk release of draft grades
+  static async setGradeReleaseAt(
+    id: string,
+    releaseAt: Date | null,
+    client?: PoolClient
+  ): Promise<Assignment | null> {
+    const db = client || pool;
+    const result = await db.query(
+      `UPDATE assignments
+       SET grade_release_at = $1
+       WHERE id = $2
+       RETURNING *`,
+      [releaseAt, id]
+    );
+    return result.rows[0] || null;
+  }
+
+  // Assignments whose scheduled grade release time has passed
+  static async findDueGradeReleases(): Promise<Assignment[]> {
+    const result = await pool.query(
+      `SELECT * FROM assignments
+       WHERE grade_release_at IS NOT NULL
+         AND grade_release_at <= NOW()
+       ORDER BY grade_release_at ASC`
+    );
+    return result.rows;
+  }
+
 }
@@ -0,0 +1,215 @@
+import { PoolClient } from "pg";
+import { pool } from "../config/postgres.db.js";
+import type {
+  CommentBankRow,
+  CommentSearchFilters,
+  CommentVisibility,
+} from "../types/comment-bank.types.js";
+
+export interface CreateCommentData {
+  school_id: string;
+  owner_id: string;
+  department_id?: string | null;
+  visibility: CommentVisibility;
+  title: string;
+  body: string;
+  tags: string[];
+}
+
+export type UpdateCommentData = Partial<
+  Pick<CommentBankRow, "department_id" | "visibility" | "title" | "body" | "tags">
+>;
+
+/**
+ * Entries a user may use: their own, department entries of the department
+ * they teach in, and school-wide entries. Expects the school id at $1 and the
+ * user id at $2.
+ */
+const VISIBLE_TO_USER = `
+  c.school_id = $1 AND (
+    c.owner_id = $2
+    OR c.visibility = 'school'
+    OR (
+      c.visibility = 'department'
+      AND c.department_id IS NOT NULL
+      AND c.department_id = (
+        SELECT tp.department_id FROM teacher_profiles tp
+        WHERE tp.user_id = $2 AND tp.school_id = $1
+        LIMIT 1
+      )
+    )
+  )
+`;
+
+export class CommentBankModel {
+  static async create(data: CreateCommentData, client?: PoolClient): Promise<CommentBankRow> {
+    const db = client || pool;
+    const result = await db.query(
+      `INSERT INTO comment_bank_entries (
+        school_id, owner_id, department_id, visibility, title, body, tags
+      ) VALUES ($1,$2,$3,$4,$5,$6,$7)
+      RETURNING *`,
+      [
+        data.school_id,
+        data.owner_id,
+        data.department_id || null,
+        data.visibility,
+        data.title,
+        data.body,
+        data.tags,
+      ]
+    );
+    return result.rows[0];
+  }
+
+  static async findById(
+    id: string,
+    schoolId: string,
+    client?: PoolClient
+  ): Promise<CommentBankRow | null> {
+    const db = client || pool;
+    const result = await db.query(
+      "SELECT * FROM comment_bank_entries WHERE id = $1 AND school_id = $2",
+      [id, schoolId]
+    );
+    return result.rows[0] || null;
+  }
+
+  static async findVisibleById(
+    id: string,
+    schoolId: string,
+    userId: string,
+    client?: PoolClient
+  ): Promise<CommentBankRow | null> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT c.* FROM comment_bank_entries c
+       WHERE ${VISIBLE_TO_USER} AND c.id = $3`,
+      [schoolId, userId, id]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Search the entries visible to a user. Matches the search text against
+   * title, body and tags; tag filters require every given tag. Most used
+   * entries come first.
+   */
+  static async search(
+    schoolId: string,
+    userId: string,
+    filters: CommentSearchFilters
+  ): Promise<{ entries: CommentBankRow[]; total: number }> {
+    const conditions = [VISIBLE_TO_USER];
+    const values: any[] = [schoolId, userId];
+    let paramCount = 3;
+
+    if (filters.search) {
+      conditions.push(
+        `(c.title ILIKE $${paramCount} OR c.body ILIKE $${paramCount}
+          OR EXISTS (SELECT 1 FROM unnest(c.tags) t WHERE t ILIKE $${paramCount}))`
+      );
+      values.push(`%${filters.search}%`);
+      paramCount++;
+    }
+    if (filters.tags && filters.tags.length > 0) {
+      conditions.push(`c.tags @> $${paramCount++}::text[]`);
+      values.push(filters.tags);
+    }
+    if (filters.visibility) {
+      conditions.push(`c.visibility = $${paramCount++}`);
+      values.push(filters.visibility);
+    }
+    if (filters.ownerId) {
+      conditions.push(`c.owner_id = $${paramCount++}`);
+      values.push(filters.ownerId);
+    }
+
+    const where = conditions.join(" AND ");
+    const countResult = await pool.query(
+      `SELECT COUNT(*)::int AS total FROM comment_bank_entries c WHERE ${where}`,
+      values
+    );
+    const result = await pool.query(
+      `SELECT c.* FROM comment_bank_entries c
+       WHERE ${where}
+       ORDER BY c.usage_count DESC, c.last_used_at DESC NULLS LAST, c.title ASC
+       LIMIT $${paramCount} OFFSET $${paramCount + 1}`,
+      [...values, filters.limit, filters.offset]
+    );
+
+    return { entries: result.rows, total: countResult.rows[0].total };
+  }
+
+  /**
+   * Distinct tags across the entries visible to a user, with how many
+   * entries carry each tag
+   */
+  static async listTags(
+    schoolId: string,
+    userId: string
+  ): Promise<{ tag: string; count: number }[]> {
+    const result = await pool.query(
+      `SELECT t.tag, COUNT(*)::int AS count
+       FROM comment_bank_entries c, unnest(c.tags) AS t(tag)
+       WHERE ${VISIBLE_TO_USER}
+       GROUP BY t.tag
+       ORDER BY count DESC, t.tag ASC`,
+      [schoolId, userId]
+    );
+    return result.rows;
+  }
+
+  static async update(
+    id: string,
+    schoolId: string,
+    data: UpdateCommentData,
+    client?: PoolClient
+  ): Promise<CommentBankRow | null> {
+    const db = client || pool;
+    const fields: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    for (const key of ["department_id", "visibility", "title", "body", "tags"] as const) {
+      if (data[key] !== undefined) {
+        fields.push(`${key} = $${paramCount++}`);
+        values.push(data[key]);
+      }
+    }
+
+    if (fields.length === 0) {
+      return this.findById(id, schoolId, client);
+    }
+
+    fields.push("updated_at = current_timestamp");
+    values.push(id, schoolId);
+
+    const result = await db.query(
+      `UPDATE comment_bank_entries SET ${fields.join(", ")}
+       WHERE id = $${paramCount} AND school_id = $${paramCount + 1}
+       RETURNING *`,
+      values
+    );
+    return result.rows[0] || null;
+  }
+
+  static async delete(id: string, schoolId: string, client?: PoolClient): Promise<boolean> {
+    const db = client || pool;
+    const result = await db.query(
+      "DELETE FROM comment_bank_entries WHERE id = $1 AND school_id = $2",
+      [id, schoolId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  static async incrementUsage(id: string, client?: PoolClient): Promise<void> {
+    const db = client || pool;
+    await db.query(
+      `UPDATE comment_bank_entries
+       SET usage_count = usage_count + 1, last_used_at = current_timestamp
+       WHERE id = $1`,
+      [id]
+    );
+  }
+}
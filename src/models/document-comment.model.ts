@@ -0,0 +1,115 @@
+import { pool } from "../config/postgres.db.js";
+
+export interface CommentSelection {
+  startOffset: number;
+  endOffset: number;
+}
+
+export interface DocumentComment {
+  id: string;
+  document_id: string;
+  author_id: string;
+  body: string;
+  selection: CommentSelection | null;
+  quoted_text: string | null;
+  resolved_at: Date | null;
+  resolved_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Author name alongside each comment
+const SELECT_WITH_AUTHOR = `
+  SELECT c.*, u.first_name AS author_first_name, u.last_name AS author_last_name
+  FROM document_comments c
+  LEFT JOIN users u ON c.author_id = u.id
+`;
+
+export class DocumentCommentModel {
+  static async create(data: {
+    document_id: string;
+    author_id: string;
+    body: string;
+    selection: CommentSelection | null;
+    quoted_text: string | null;
+  }): Promise<DocumentComment> {
+    const result = await pool.query(
+      `INSERT INTO document_comments (document_id, author_id, body, selection, quoted_text)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [
+        data.document_id,
+        data.author_id,
+        data.body,
+        data.selection ? JSON.stringify(data.selection) : null,
+        data.quoted_text,
+      ]
+    );
+    return (await DocumentCommentModel.findById(result.rows[0].id, data.document_id))!;
+  }
+
+  /**
+   * A document's comments, oldest first
+   */
+  static async findByDocument(document_id: string): Promise<any[]> {
+    const result = await pool.query(
+      `${SELECT_WITH_AUTHOR}
+       WHERE c.document_id = $1
+       ORDER BY c.created_at`,
+      [document_id]
+    );
+    return result.rows;
+  }
+
+  static async findById(id: string, document_id: string): Promise<any | null> {
+    const result = await pool.query(
+      `${SELECT_WITH_AUTHOR}
+       WHERE c.id = $1 AND c.document_id = $2`,
+      [id, document_id]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Change a comment's text and/or mark it resolved (resolved_by set) or
+   * open again (resolved_by null)
+   */
+  static async update(
+    id: string,
+    document_id: string,
+    data: { body?: string; resolved_by?: string | null }
+  ): Promise<any | null> {
+    const fields: string[] = [];
+    const values: any[] = [];
+    let idx = 1;
+
+    if (data.body !== undefined) {
+      fields.push(`body = $${idx++}`);
+      values.push(data.body);
+    }
+    if (data.resolved_by !== undefined) {
+      fields.push(`resolved_by = $${idx++}`);
+      fields.push(`resolved_at = ${data.resolved_by ? "current_timestamp" : "NULL"}`);
+      values.push(data.resolved_by);
+    }
+    if (fields.length === 0) return DocumentCommentModel.findById(id, document_id);
+
+    values.push(id, document_id);
+    const result = await pool.query(
+      `UPDATE document_comments
+       SET ${fields.join(", ")}, updated_at = current_timestamp
+       WHERE id = $${idx++} AND document_id = $${idx}
+       RETURNING id`,
+      values
+    );
+    return result.rows[0] ? DocumentCommentModel.findById(id, document_id) : null;
+  }
+
+  static async delete(id: string, document_id: string): Promise<boolean> {
+    const result = await pool.query(
+      "DELETE FROM document_comments WHERE id = $1 AND document_id = $2",
+      [id, document_id]
+    );
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+}
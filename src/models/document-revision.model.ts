@@ -0,0 +1,167 @@
+import { pool } from "../config/postgres.db.js";
+import { PoolClient } from "pg";
+import type { ContentFormat, Document, DocumentFormatting } from "./document.model.js";
+import { computeDocumentMetrics } from "../utils/document-metrics.utils.js";
+
+/**
+ * Saves by the same user within this window are folded into the latest
+ * revision instead of creating a new one
+ */
+const COALESCE_WINDOW_MINUTES = 10;
+
+export interface DocumentRevision {
+  id: string;
+  document_id: string;
+  version: number;
+  title: string;
+  content: string;
+  content_format: ContentFormat;
+  formatting: DocumentFormatting;
+  word_count: number;
+  created_by?: string;
+  restored_from_version?: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type DocumentRevisionSummary = Omit<DocumentRevision, "content" | "formatting">;
+
+export interface RecordRevisionOptions {
+  // Restoring always starts a new revision so it stays visible in the history
+  restored_from_version?: number;
+}
+
+export class DocumentRevisionModel {
+  /**
+   * Snapshot a saved document version. Coalesces into the latest revision
+   * when it was started by the same user within the coalesce window and is
+   * not a restore.
+   */
+  static async record(
+    document: Document,
+    user_id: string,
+    options: RecordRevisionOptions = {},
+    client?: PoolClient
+  ): Promise<DocumentRevision> {
+    const dbClient = client || pool;
+    const { wordCount } = computeDocumentMetrics(document.content, document.content_format);
+    const formatting = JSON.stringify(document.formatting || { ranges: [], paragraphs: {} });
+
+    if (options.restored_from_version === undefined) {
+      const coalesced = await dbClient.query(
+        `UPDATE document_revisions
+         SET version = $1, title = $2, content = $3, content_format = $4,
+             formatting = $5, word_count = $6, updated_at = current_timestamp
+         WHERE id = (
+           SELECT id FROM document_revisions
+           WHERE document_id = $7
+           ORDER BY version DESC
+           LIMIT 1
+         )
+           AND created_by = $8
+           AND restored_from_version IS NULL
+           AND created_at > current_timestamp - $9::int * interval '1 minute'
+         RETURNING *`,
+        [
+          document.version,
+          document.title,
+          document.content || "",
+          document.content_format,
+          formatting,
+          wordCount,
+          document.id,
+          user_id,
+          COALESCE_WINDOW_MINUTES,
+        ]
+      );
+
+      if (coalesced.rows[0]) {
+        return coalesced.rows[0];
+      }
+    }
+
+    const result = await dbClient.query(
+      `INSERT INTO document_revisions (
+        document_id, version, title, content, content_format, formatting,
+        word_count, created_by, restored_from_version
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      ON CONFLICT (document_id, version) DO UPDATE SET
+        title = EXCLUDED.title,
+        content = EXCLUDED.content,
+        content_format = EXCLUDED.content_format,
+        formatting = EXCLUDED.formatting,
+        word_count = EXCLUDED.word_count,
+        updated_at = current_timestamp
+      RETURNING *`,
+      [
+        document.id,
+        document.version,
+        document.title,
+        document.content || "",
+        document.content_format,
+        formatting,
+        wordCount,
+        user_id,
+        options.restored_from_version ?? null,
+      ]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * List a document's revisions, newest first, without their content
+   */
+  static async findByDocument(
+    document_id: string,
+    limit: number,
+    offset: number
+  ): Promise<{ revisions: DocumentRevisionSummary[]; total: number }> {
+    const countResult = await pool.query(
+      "SELECT COUNT(*)::int AS total FROM document_revisions WHERE document_id = $1",
+      [document_id]
+    );
+
+    const result = await pool.query(
+      `SELECT r.id, r.document_id, r.version, r.title, r.content_format, r.word_count,
+              r.created_by, r.restored_from_version, r.created_at, r.updated_at,
+              u.first_name AS created_by_first_name, u.last_name AS created_by_last_name
+       FROM document_revisions r
+       LEFT JOIN users u ON r.created_by = u.id
+       WHERE r.document_id = $1
+       ORDER BY r.version DESC
+       LIMIT $2 OFFSET $3`,
+      [document_id, limit, offset]
+    );
+
+    return { revisions: result.rows, total: countResult.rows[0].total };
+  }
+
+  /**
+   * Find one revision of a document
+   */
+  static async findById(
+    document_id: string,
+    revision_id: string
+  ): Promise<DocumentRevision | null> {
+    const result = await pool.query(
+      "SELECT * FROM document_revisions WHERE id = $1 AND document_id = $2",
+      [revision_id, document_id]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Latest revision of a document
+   */
+  static async findLatest(document_id: string): Promise<DocumentRevision | null> {
+    const result = await pool.query(
+      `SELECT * FROM document_revisions
+       WHERE document_id = $1
+       ORDER BY version DESC
+       LIMIT 1`,
+      [document_id]
+    );
+    return result.rows[0] || null;
+  }
+}
@@ -1,5 +1,6 @@
 import { pool } from "../config/postgres.db.js";
 import { PoolClient } from "pg";
+import { DocumentRevisionModel, RecordRevisionOptions } from "./document-revision.model.js";
 
 export type ContentFormat = "plain" | "markdown" | "html" | "json";
 export type DocumentType = "text" | "presentation" | "spreadsheet" | "notes";
@@ -66,12 +67,16 @@ export interface Document {
   assignment_id?: string;
   created_at: Date;
   last_modified_at: Date;
+  deleted_at?: Date | null;
+  deleted_with?: string | null;
+  trashed_path?: string[] | null;
 }
 
 export interface CreateDocumentDTO {
   title?: string;
   content?: string;
   content_format?: ContentFormat;
+  formatting?: DocumentFormatting;
   document_type?: DocumentType;
   citation_style?: CitationStyle;
   folder_id?: string;
@@ -110,8 +115,9 @@ export class DocumentModel {
     const result = await dbClient.query(
       `INSERT INTO documents (
         title, content, content_format, document_type, citation_style,
-        folder_id, owner_id, last_modified_by, school_id, class_id, assignment_id
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+        folder_id, owner_id, last_modified_by, school_id, class_id, assignment_id,
+        formatting
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
       RETURNING *`,
       [
         data.title || "Untitled Document",
@@ -125,6 +131,7 @@ export class DocumentModel {
         data.school_id || null,
         data.class_id || null,
         data.assignment_id || null,
+        JSON.stringify(data.formatting || { ranges: [], paragraphs: {} }),
       ]
     );
 
@@ -132,12 +139,13 @@ export class DocumentModel {
   }
 
   /**
-   * Find document by ID
+   * Find document by ID (documents in the trash are not found)
    */
   static async findById(id: string): Promise<Document | null> {
-    const result = await pool.query("SELECT * FROM documents WHERE id = $1", [
-      id,
-    ]);
+    const result = await pool.query(
+      "SELECT * FROM documents WHERE id = $1 AND deleted_at IS NULL",
+      [id]
+    );
     return result.rows[0] || null;
   }
 
@@ -150,7 +158,7 @@ export class DocumentModel {
     owner_id: string,
     school_id?: string
   ): Promise<Document[]> {
-    let query = "SELECT * FROM documents WHERE owner_id = $1";
+    let query = "SELECT * FROM documents WHERE owner_id = $1 AND deleted_at IS NULL";
     const params: any[] = [owner_id];
 
     if (school_id !== undefined) {
@@ -174,7 +182,8 @@ export class DocumentModel {
     const result = await pool.query(
       `SELECT * FROM documents
        WHERE folder_id ${folder_id ? "= $1" : "IS NULL"}
-       AND owner_id = $2
+       AND owner_id = $${folder_id ? 2 : 1}
+       AND deleted_at IS NULL
        ORDER BY last_modified_at DESC`,
       folder_id ? [folder_id, owner_id] : [owner_id]
     );
@@ -185,13 +194,19 @@ export class DocumentModel {
    * Update document with version conflict detection
    * This implements optimistic concurrency control
    *
+   * Saves that change the title, content or formatting are snapshotted
+   * into document_revisions (see DocumentRevisionModel.record)
+   *
+   * @param user_id - Who is saving: the owner or an editor it was shared
+   * with (callers check access first)
    * @returns Updated document or null if version conflict
    */
   static async updateWithVersion(
     id: string,
-    owner_id: string,
+    user_id: string,
     data: UpdateDocumentDTO,
-    client?: PoolClient
+    client?: PoolClient,
+    revisionOptions: RecordRevisionOptions = {}
   ): Promise<{ document: Document | null; conflict: boolean }> {
     const dbClient = client || pool;
 
@@ -263,18 +278,18 @@ export class DocumentModel {
     // Always update version and last_modified_by
     fields.push(`version = version + 1`);
     fields.push(`last_modified_by = $${paramIndex++}`);
-    values.push(owner_id);
+    values.push(user_id);
     fields.push(`last_modified_at = current_timestamp`);
 
     // Add WHERE conditions
-    values.push(id, owner_id, data.client_version);
+    values.push(id, data.client_version);
 
     const result = await dbClient.query(
       `UPDATE documents
        SET ${fields.join(", ")}
        WHERE id = $${paramIndex++}
-         AND owner_id = $${paramIndex++}
          AND version = $${paramIndex++}
+         AND deleted_at IS NULL
        RETURNING *`,
       values
     );
@@ -284,20 +299,168 @@ export class DocumentModel {
       return { document: null, conflict: true };
     }
 
+    if (
+      data.title !== undefined ||
+      data.content !== undefined ||
+      data.content_format !== undefined ||
+      data.formatting !== undefined
+    ) {
+      await DocumentRevisionModel.record(result.rows[0], user_id, revisionOptions, client);
+    }
+
     return { document: result.rows[0], conflict: false };
   }
 
   /**
-   * Delete document
+   * Persist the merged state of a live editing session. The session owns
+   * the version counter while it is open, so the stored version jumps to
+   * the session's version; expected_version guards against writes made
+   * outside the session since its last save.
+   *
+   * @returns Updated document or null if the stored version moved on or
+   * the document is in the trash
    */
-  static async delete(id: string, owner_id: string): Promise<boolean> {
+  static async saveLiveState(
+    id: string,
+    data: {
+      content: string;
+      formatting: DocumentFormatting;
+      version: number;
+      expected_version: number;
+      modified_by: string;
+    },
+    client?: PoolClient
+  ): Promise<Document | null> {
+    const dbClient = client || pool;
+
+    const result = await dbClient.query(
+      `UPDATE documents
+       SET content = $1,
+           formatting = $2,
+           version = $3,
+           last_modified_by = $4,
+           last_modified_at = current_timestamp
+       WHERE id = $5 AND version = $6 AND deleted_at IS NULL
+       RETURNING *`,
+      [
+        data.content,
+        JSON.stringify(data.formatting),
+        data.version,
+        data.modified_by,
+        id,
+        data.expected_version,
+      ]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Move a live document to the trash
+   * @param trashed_path - Names of the folders it sat in, root first
+   */
+  static async moveToTrash(
+    id: string,
+    owner_id: string,
+    trashed_path: string[],
+    client?: PoolClient
+  ): Promise<boolean> {
+    const dbClient = client || pool;
+
+    const result = await dbClient.query(
+      `UPDATE documents
+       SET deleted_at = current_timestamp, deleted_with = NULL, trashed_path = $3
+       WHERE id = $1 AND owner_id = $2 AND deleted_at IS NULL`,
+      [id, owner_id, trashed_path]
+    );
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  /**
+   * Documents the user put in the trash themselves, newest first. Documents
+   * trashed along with a folder are listed under that folder instead.
+   */
+  static async findTrashed(owner_id: string): Promise<Document[]> {
     const result = await pool.query(
-      "DELETE FROM documents WHERE id = $1 AND owner_id = $2",
+      `SELECT * FROM documents
+       WHERE owner_id = $1 AND deleted_at IS NOT NULL AND deleted_with IS NULL
+       ORDER BY deleted_at DESC`,
+      [owner_id]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Find a document the user put in the trash themselves
+   */
+  static async findTrashedById(
+    id: string,
+    owner_id: string,
+    client?: PoolClient
+  ): Promise<Document | null> {
+    const dbClient = client || pool;
+
+    const result = await dbClient.query(
+      `SELECT * FROM documents
+       WHERE id = $1 AND owner_id = $2
+         AND deleted_at IS NOT NULL AND deleted_with IS NULL`,
+      [id, owner_id]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Take a document out of the trash into the given folder
+   */
+  static async restore(
+    id: string,
+    owner_id: string,
+    folder_id: string | null,
+    client?: PoolClient
+  ): Promise<Document | null> {
+    const dbClient = client || pool;
+
+    const result = await dbClient.query(
+      `UPDATE documents
+       SET deleted_at = NULL, deleted_with = NULL, trashed_path = NULL, folder_id = $3
+       WHERE id = $1 AND owner_id = $2 AND deleted_at IS NOT NULL
+       RETURNING *`,
+      [id, owner_id, folder_id]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Remove a trashed document for good
+   */
+  static async deletePermanently(
+    id: string,
+    owner_id: string,
+    client?: PoolClient
+  ): Promise<boolean> {
+    const dbClient = client || pool;
+
+    const result = await dbClient.query(
+      "DELETE FROM documents WHERE id = $1 AND owner_id = $2 AND deleted_at IS NOT NULL",
       [id, owner_id]
     );
     return result.rowCount ? result.rowCount > 0 : false;
   }
 
+  /**
+   * Remove documents the users put in the trash themselves before the
+   * cutoff
+   * @returns Number of documents removed
+   */
+  static async deleteTrashedBefore(before: Date): Promise<number> {
+    const result = await pool.query(
+      `DELETE FROM documents
+       WHERE deleted_at IS NOT NULL AND deleted_with IS NULL AND deleted_at < $1`,
+      [before]
+    );
+    return result.rowCount || 0;
+  }
+
   /**
    * Move document to different folder
    */
@@ -309,7 +472,7 @@ export class DocumentModel {
     const result = await pool.query(
       `UPDATE documents
        SET folder_id = $1
-       WHERE id = $2 AND owner_id = $3
+       WHERE id = $2 AND owner_id = $3 AND deleted_at IS NULL
        RETURNING *`,
       [folder_id, document_id, owner_id]
     );
@@ -322,7 +485,7 @@ export class DocumentModel {
    */
   static async isOwner(document_id: string, user_id: string): Promise<boolean> {
     const result = await pool.query(
-      "SELECT id FROM documents WHERE id = $1 AND owner_id = $2",
+      "SELECT id FROM documents WHERE id = $1 AND owner_id = $2 AND deleted_at IS NULL",
       [document_id, user_id]
     );
     return result.rows.length > 0;
@@ -341,7 +504,7 @@ export class DocumentModel {
          f.name as folder_name
        FROM documents d
        LEFT JOIN folders f ON d.folder_id = f.id
-       WHERE d.id = $1 AND d.owner_id = $2`,
+       WHERE d.id = $1 AND d.owner_id = $2 AND d.deleted_at IS NULL`,
       [id, owner_id]
     );
 
@@ -365,6 +528,7 @@ export class DocumentModel {
        JOIN users u ON d.owner_id = u.id
        WHERE d.assignment_id = $1
          AND d.school_id = $2
+         AND d.deleted_at IS NULL
        ORDER BY d.created_at DESC`,
       [assignment_id, school_id]
     );
@@ -388,6 +552,7 @@ export class DocumentModel {
        JOIN users u ON d.owner_id = u.id
        WHERE d.class_id = $1
          AND d.school_id = $2
+         AND d.deleted_at IS NULL
        ORDER BY d.last_modified_at DESC`,
       [class_id, school_id]
     );
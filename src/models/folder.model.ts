@@ -9,6 +9,9 @@ export interface Folder {
   school_id?: string;
   created_at: Date;
   updated_at: Date;
+  deleted_at?: Date | null;
+  deleted_with?: string | null;
+  trashed_path?: string[] | null;
 }
 
 export interface CreateFolderDTO {
@@ -44,12 +47,13 @@ export class FolderModel {
   }
 
   /**
-   * Find folder by ID
+   * Find folder by ID (folders in the trash are not found)
    */
   static async findById(id: string): Promise<Folder | null> {
-    const result = await pool.query("SELECT * FROM folders WHERE id = $1", [
-      id,
-    ]);
+    const result = await pool.query(
+      "SELECT * FROM folders WHERE id = $1 AND deleted_at IS NULL",
+      [id]
+    );
     return result.rows[0] || null;
   }
 
@@ -62,7 +66,7 @@ export class FolderModel {
     owner_id: string,
     school_id?: string
   ): Promise<Folder[]> {
-    let query = "SELECT * FROM folders WHERE owner_id = $1";
+    let query = "SELECT * FROM folders WHERE owner_id = $1 AND deleted_at IS NULL";
     const params: any[] = [owner_id];
 
     if (school_id !== undefined) {
@@ -86,7 +90,8 @@ export class FolderModel {
     const result = await pool.query(
       `SELECT * FROM folders
        WHERE parent_id ${parent_id ? "= $1" : "IS NULL"}
-       AND owner_id = $2
+       AND owner_id = $${parent_id ? 2 : 1}
+       AND deleted_at IS NULL
        ORDER BY name`,
       parent_id ? [parent_id, owner_id] : [owner_id]
     );
@@ -125,6 +130,7 @@ export class FolderModel {
       `UPDATE folders
        SET ${fields.join(", ")}
        WHERE id = $${paramIndex++} AND owner_id = $${paramIndex++}
+         AND deleted_at IS NULL
        RETURNING *`,
       values
     );
@@ -133,18 +139,261 @@ export class FolderModel {
   }
 
   /**
-   * Delete folder
-   * Note: Cascade delete will remove child folders
-   * Documents in this folder will have folder_id set to NULL (per migration)
+   * Move a live folder to the trash together with everything under it.
+   * The folder is trashed on its own; its subfolders and documents are
+   * marked as trashed with it (deleted_with) so they come back with it.
+   * @param trashed_path - Names of the folders above it, root first
+   * @returns IDs of the documents that went with it, or null if not found
    */
-  static async delete(id: string, owner_id: string): Promise<boolean> {
+  static async moveToTrash(
+    id: string,
+    owner_id: string,
+    trashed_path: string[],
+    client?: PoolClient
+  ): Promise<string[] | null> {
+    const dbClient = client || pool;
+
+    const folders = await dbClient.query(
+      `WITH RECURSIVE subtree AS (
+         SELECT id FROM folders
+         WHERE id = $1 AND owner_id = $2 AND deleted_at IS NULL
+         UNION ALL
+         SELECT f.id FROM folders f
+         JOIN subtree s ON f.parent_id = s.id
+         WHERE f.deleted_at IS NULL
+       )
+       UPDATE folders
+       SET deleted_at = current_timestamp,
+           deleted_with = CASE WHEN id = $1 THEN NULL ELSE $1::uuid END,
+           trashed_path = CASE WHEN id = $1 THEN $3::text[] ELSE NULL END
+       WHERE id IN (SELECT id FROM subtree)
+       RETURNING id`,
+      [id, owner_id, trashed_path]
+    );
+    if (folders.rows.length === 0) return null;
+
+    const documents = await dbClient.query(
+      `UPDATE documents
+       SET deleted_at = current_timestamp, deleted_with = $1, trashed_path = NULL
+       WHERE folder_id = ANY($2::uuid[]) AND deleted_at IS NULL
+       RETURNING id`,
+      [id, folders.rows.map((row) => row.id)]
+    );
+    return documents.rows.map((row) => row.id);
+  }
+
+  /**
+   * Folders the user put in the trash themselves, newest first, with
+   * counts of the folders and documents trashed along with them
+   */
+  static async findTrashed(owner_id: string): Promise<any[]> {
     const result = await pool.query(
+      `SELECT
+         f.*,
+         (SELECT COUNT(*) FROM folders WHERE deleted_with = f.id) as children_count,
+         (SELECT COUNT(*) FROM documents WHERE deleted_with = f.id) as documents_count
+       FROM folders f
+       WHERE f.owner_id = $1 AND f.deleted_at IS NOT NULL AND f.deleted_with IS NULL
+       ORDER BY f.deleted_at DESC`,
+      [owner_id]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Find a folder the user put in the trash themselves
+   */
+  static async findTrashedById(
+    id: string,
+    owner_id: string,
+    client?: PoolClient
+  ): Promise<Folder | null> {
+    const dbClient = client || pool;
+
+    const result = await dbClient.query(
+      `SELECT * FROM folders
+       WHERE id = $1 AND owner_id = $2
+         AND deleted_at IS NOT NULL AND deleted_with IS NULL`,
+      [id, owner_id]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * A name no live sibling under parent_id uses: the name itself, or
+   * "Name (restored)", "Name (restored 2)", ... when it is taken
+   */
+  static async availableName(
+    name: string,
+    parent_id: string | null,
+    owner_id: string,
+    client?: PoolClient
+  ): Promise<string> {
+    const dbClient = client || pool;
+
+    const result = await dbClient.query(
+      `SELECT name FROM folders
+       WHERE owner_id = $1 AND parent_id IS NOT DISTINCT FROM $2
+         AND deleted_at IS NULL AND left(name, length($3)) = $3`,
+      [owner_id, parent_id, name.slice(0, 240)]
+    );
+    const taken = new Set(result.rows.map((row) => row.name));
+    if (!taken.has(name)) return name;
+
+    const base = name.slice(0, 240);
+    for (let n = 1; ; n++) {
+      const candidate = n === 1 ? `${base} (restored)` : `${base} (restored ${n})`;
+      if (!taken.has(candidate)) return candidate;
+    }
+  }
+
+  /**
+   * Take a folder, and everything trashed with it, out of the trash
+   * under the given parent. Folders whose name a live folder took in the
+   * meantime are renamed (see availableName).
+   */
+  static async restore(
+    id: string,
+    owner_id: string,
+    parent_id: string | null,
+    client?: PoolClient
+  ): Promise<Folder | null> {
+    const dbClient = client || pool;
+
+    const folder = await FolderModel.findTrashedById(id, owner_id, client);
+    if (!folder) return null;
+
+    const result = await dbClient.query(
+      `UPDATE folders
+       SET deleted_at = NULL, deleted_with = NULL, trashed_path = NULL, parent_id = $3, name = $4
+       WHERE id = $1 AND owner_id = $2 AND deleted_at IS NOT NULL
+       RETURNING *`,
+      [id, owner_id, parent_id, await FolderModel.availableName(folder.name, parent_id, owner_id, client)]
+    );
+    if (!result.rows[0]) return null;
+
+    const children = await dbClient.query(
+      "SELECT id, name, parent_id FROM folders WHERE deleted_with = $1",
+      [id]
+    );
+    for (const child of children.rows) {
+      await dbClient.query(
+        "UPDATE folders SET deleted_at = NULL, deleted_with = NULL, name = $2 WHERE id = $1",
+        [child.id, await FolderModel.availableName(child.name, child.parent_id, owner_id, client)]
+      );
+    }
+    await dbClient.query(
+      "UPDATE documents SET deleted_at = NULL, deleted_with = NULL WHERE deleted_with = $1",
+      [id]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Remove a trashed folder for good, with the folders and documents
+   * trashed along with it. Items under it that were trashed on their own
+   * keep their trash entries: subfolders are detached first so the
+   * cascade does not reach them, and documents lose only their folder_id.
+   */
+  static async deletePermanently(
+    id: string,
+    owner_id: string,
+    client?: PoolClient
+  ): Promise<boolean> {
+    const dbClient = client || pool;
+
+    const folder = await FolderModel.findTrashedById(id, owner_id, client);
+    if (!folder) return false;
+
+    await dbClient.query(
+      `WITH RECURSIVE subtree AS (
+         SELECT id FROM folders WHERE parent_id = $1
+         UNION ALL
+         SELECT f.id FROM folders f JOIN subtree s ON f.parent_id = s.id
+       )
+       UPDATE folders SET parent_id = NULL
+       WHERE id IN (SELECT id FROM subtree) AND deleted_with IS NULL`,
+      [id]
+    );
+    await dbClient.query("DELETE FROM documents WHERE deleted_with = $1", [id]);
+
+    const result = await dbClient.query(
       "DELETE FROM folders WHERE id = $1 AND owner_id = $2",
       [id, owner_id]
     );
     return result.rowCount ? result.rowCount > 0 : false;
   }
 
+  /**
+   * Names of a folder and the folders above it, root first
+   */
+  static async getPathNames(id: string, client?: PoolClient): Promise<string[]> {
+    const dbClient = client || pool;
+
+    const result = await dbClient.query(
+      `WITH RECURSIVE ancestry AS (
+         SELECT id, name, parent_id, 0 as depth FROM folders WHERE id = $1
+         UNION ALL
+         SELECT f.id, f.name, f.parent_id, a.depth + 1
+         FROM folders f JOIN ancestry a ON f.id = a.parent_id
+       )
+       SELECT name FROM ancestry ORDER BY depth DESC`,
+      [id]
+    );
+    return result.rows.map((row) => row.name);
+  }
+
+  /**
+   * Find the live folder at a path of names below the root, creating any
+   * folders that are missing
+   * @returns ID of the last folder, or null for an empty path (the root)
+   */
+  static async ensurePath(
+    owner_id: string,
+    names: string[],
+    school_id: string | null,
+    client?: PoolClient
+  ): Promise<string | null> {
+    const dbClient = client || pool;
+    let parent_id: string | null = null;
+
+    for (const name of names) {
+      const existing: { rows: { id: string }[] } = await dbClient.query(
+        `SELECT id FROM folders
+         WHERE owner_id = $1 AND name = $2 AND parent_id IS NOT DISTINCT FROM $3
+           AND deleted_at IS NULL
+         ORDER BY created_at
+         LIMIT 1`,
+        [owner_id, name, parent_id]
+      );
+
+      parent_id = existing.rows[0]
+        ? existing.rows[0].id
+        : (
+            await FolderModel.create(
+              owner_id,
+              { name, parent_id: parent_id || undefined, school_id: school_id || undefined },
+              client
+            )
+          ).id;
+    }
+
+    return parent_id;
+  }
+
+  /**
+   * Folders the users put in the trash themselves before the cutoff
+   */
+  static async findTrashedBefore(before: Date): Promise<Folder[]> {
+    const result = await pool.query(
+      `SELECT * FROM folders
+       WHERE deleted_at IS NOT NULL AND deleted_with IS NULL AND deleted_at < $1`,
+      [before]
+    );
+    return result.rows;
+  }
+
   /**
    * Get full path of folder (e.g., "Parent/Child/Grandchild")
    */
@@ -167,7 +416,7 @@ export class FolderModel {
     const descendants: Folder[] = [];
 
     const children = await pool.query(
-      "SELECT * FROM folders WHERE parent_id = $1",
+      "SELECT * FROM folders WHERE parent_id = $1 AND deleted_at IS NULL",
       [id]
     );
 
@@ -180,6 +429,25 @@ export class FolderModel {
     return descendants;
   }
 
+  /**
+   * Ids of the live documents in a folder or any folder below it
+   */
+  static async findDocumentIdsInTree(id: string): Promise<string[]> {
+    const result = await pool.query(
+      `WITH RECURSIVE subtree AS (
+         SELECT id FROM folders WHERE id = $1 AND deleted_at IS NULL
+         UNION ALL
+         SELECT f.id FROM folders f
+         JOIN subtree s ON f.parent_id = s.id
+         WHERE f.deleted_at IS NULL
+       )
+       SELECT id FROM documents
+       WHERE folder_id IN (SELECT id FROM subtree) AND deleted_at IS NULL`,
+      [id]
+    );
+    return result.rows.map((row) => row.id);
+  }
+
   /**
    * Check if folder can be moved to target parent
    * Prevents circular references (e.g., moving folder into its own child)
@@ -219,10 +487,10 @@ export class FolderModel {
     const result = await pool.query(
       `SELECT
          f.*,
-         (SELECT COUNT(*) FROM folders WHERE parent_id = f.id) as children_count,
-         (SELECT COUNT(*) FROM documents WHERE folder_id = f.id) as documents_count
+         (SELECT COUNT(*) FROM folders WHERE parent_id = f.id AND deleted_at IS NULL) as children_count,
+         (SELECT COUNT(*) FROM documents WHERE folder_id = f.id AND deleted_at IS NULL) as documents_count
        FROM folders f
-       WHERE f.id = $1 AND f.owner_id = $2`,
+       WHERE f.id = $1 AND f.owner_id = $2 AND f.deleted_at IS NULL`,
       [id, owner_id]
     );
 
@@ -234,7 +502,7 @@ export class FolderModel {
    */
   static async isOwner(folder_id: string, user_id: string): Promise<boolean> {
     const result = await pool.query(
-      "SELECT id FROM folders WHERE id = $1 AND owner_id = $2",
+      "SELECT id FROM folders WHERE id = $1 AND owner_id = $2 AND deleted_at IS NULL",
       [folder_id, user_id]
     );
     return result.rows.length > 0;
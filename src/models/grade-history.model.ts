@@ -0,0 +1,65 @@
+import { PoolClient } from "pg";
+import { pool } from "../config/postgres.db.js";
+import type { GradeHistoryRow, RubricScore } from "../types/submission.types.js";
+
+export interface CreateGradeHistoryDTO {
+  school_id: string;
+  submission_id: string;
+  previous_score: number | null;
+  previous_feedback: string | null;
+  previous_rubric_scores: RubricScore[] | null;
+  new_score: number | null;
+  new_feedback: string | null;
+  new_rubric_scores: RubricScore[] | null;
+  reason: string;
+  amended_by: string;
+}
+
+export class GradeHistoryModel {
+  static async create(
+    data: CreateGradeHistoryDTO,
+    client?: PoolClient
+  ): Promise<GradeHistoryRow> {
+    const db = client || pool;
+    const result = await db.query(
+      `INSERT INTO grade_history (
+        school_id, submission_id,
+        previous_score, previous_feedback, previous_rubric_scores,
+        new_score, new_feedback, new_rubric_scores,
+        reason, amended_by
+      ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10)
+      RETURNING *`,
+      [
+        data.school_id,
+        data.submission_id,
+        data.previous_score,
+        data.previous_feedback,
+        data.previous_rubric_scores
+          ? JSON.stringify(data.previous_rubric_scores)
+          : null,
+        data.new_score,
+        data.new_feedback,
+        data.new_rubric_scores ? JSON.stringify(data.new_rubric_scores) : null,
+        data.reason,
+        data.amended_by,
+      ]
+    );
+    return result.rows[0];
+  }
+
+  // Amendments for a submission, newest first
+  static async findBySubmissionId(
+    submissionId: string,
+    schoolId: string,
+    client?: PoolClient
+  ): Promise<GradeHistoryRow[]> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT * FROM grade_history
+       WHERE submission_id = $1 AND school_id = $2
+       ORDER BY created_at DESC`,
+      [submissionId, schoolId]
+    );
+    return result.rows;
+  }
+}
@@ -0,0 +1,56 @@
+import { pool } from "../config/postgres.db.js";
+import type { ScrapeMetadata } from "../types/source.types.js";
+
+export interface ScrapeCacheEntry {
+  url_key: string;
+  final_url: string;
+  metadata: ScrapeMetadata;
+  fetched_at: Date;
+  expires_at: Date;
+}
+
+export class ScrapeCacheModel {
+  /**
+   * Unexpired entry for a normalized URL
+   */
+  static async find(url_key: string): Promise<ScrapeCacheEntry | null> {
+    const result = await pool.query(
+      `SELECT * FROM scrape_cache
+       WHERE url_key = $1 AND expires_at > current_timestamp`,
+      [url_key]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Store (or refresh) the metadata for a normalized URL
+   */
+  static async save(
+    url_key: string,
+    final_url: string,
+    metadata: ScrapeMetadata,
+    ttl_seconds: number
+  ): Promise<ScrapeCacheEntry> {
+    const result = await pool.query(
+      `INSERT INTO scrape_cache (url_key, final_url, metadata, fetched_at, expires_at)
+       VALUES ($1, $2, $3, current_timestamp, current_timestamp + $4::int * interval '1 second')
+       ON CONFLICT (url_key) DO UPDATE
+         SET final_url = EXCLUDED.final_url,
+             metadata = EXCLUDED.metadata,
+             fetched_at = EXCLUDED.fetched_at,
+             expires_at = EXCLUDED.expires_at
+       RETURNING *`,
+      [url_key, final_url, JSON.stringify(metadata), ttl_seconds]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Remove expired entries
+   * @returns Number of entries removed
+   */
+  static async purgeExpired(): Promise<number> {
+    const result = await pool.query("DELETE FROM scrape_cache WHERE expires_at <= current_timestamp");
+    return result.rowCount || 0;
+  }
+}
@@ -0,0 +1,236 @@
+import { pool } from "../config/postgres.db.js";
+import { grantedToUser } from "./share.model.js";
+import type { SearchFilters, SearchRow, SearchScope } from "../types/search.types.js";
+
+/**
+ * ts_headline options. Matches are wrapped in \x02 ... \x03 so the service
+ * can escape the text before turning them into <mark> tags.
+ */
+const HEADLINE_OPTIONS = `format(
+  'StartSel=%s, StopSel=%s, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "',
+  chr(2), chr(3)
+)`;
+
+/**
+ * Parameter list of a search query: the search text, the user and their
+ * school at $1..$3, and add() for the rest
+ */
+const searchParams = (query: string, scope: SearchScope) => {
+  const values: any[] = [query, scope.user_id, scope.school_id];
+  const add = (value: any): string => {
+    values.push(value);
+    return `$${values.length}`;
+  };
+  return { values, add };
+};
+
+type SearchParams = ReturnType<typeof searchParams>;
+
+/**
+ * Folders shared with the user ($2) and every live folder below them
+ */
+const SHARED_FOLDERS = `
+  shared_folders AS (
+    SELECT f.id FROM share_grants g
+    JOIN folders f ON g.folder_id = f.id AND f.deleted_at IS NULL
+    WHERE ${grantedToUser("$2")}
+    UNION
+    SELECT f.id FROM folders f
+    JOIN shared_folders s ON f.parent_id = s.id
+    WHERE f.deleted_at IS NULL
+  )
+`;
+
+/**
+ * Live folders below the folder at the given placeholder
+ */
+const folderTree = (folderParam: string) => `
+  folder_tree AS (
+    SELECT f.id FROM folders f WHERE f.parent_id = ${folderParam} AND f.deleted_at IS NULL
+    UNION
+    SELECT f.id FROM folders f
+    JOIN folder_tree t ON f.parent_id = t.id
+    WHERE f.deleted_at IS NULL
+  )
+`;
+
+/**
+ * SQL for the text of an HTML column: tags dropped and the common
+ * entities decoded (plain text passes through unchanged)
+ */
+const htmlToText = (column: string) => `
+  replace(replace(replace(replace(replace(
+    regexp_replace(${column}, '<[^>]*>', ' ', 'g'),
+    '&nbsp;', ' '), '&lt;', '<'), '&gt;', '>'), '&quot;', '"'), '&amp;', '&')
+`;
+
+const dateRange = (column: string, filters: SearchFilters, params: SearchParams): string[] => {
+  const where: string[] = [];
+  if (filters.from) where.push(`${column} >= ${params.add(filters.from)}`);
+  if (filters.to) where.push(`${column} <= ${params.add(filters.to)}`);
+  return where;
+};
+
+export class SearchModel {
+  /**
+   * Live documents matching the query that the user owns or that were
+   * shared with them (directly or through a folder), best match first.
+   * The headline is taken from the text of the content and the research
+   * notes.
+   * With filters.folder_id, only documents in that folder or below it.
+   */
+  static async searchDocuments(
+    query: string,
+    scope: SearchScope,
+    filters: SearchFilters,
+    limit: number
+  ): Promise<SearchRow[]> {
+    const params = searchParams(query, scope);
+    const ctes = [SHARED_FOLDERS];
+    const where: string[] = [];
+
+    if (filters.folder_id) {
+      const folderParam = params.add(filters.folder_id);
+      ctes.push(folderTree(folderParam));
+      where.push(`(d.folder_id = ${folderParam} OR d.folder_id IN (SELECT id FROM folder_tree))`);
+    }
+    if (filters.class_id) where.push(`d.class_id = ${params.add(filters.class_id)}`);
+    if (filters.assignment_id) where.push(`d.assignment_id = ${params.add(filters.assignment_id)}`);
+    where.push(...dateRange("d.last_modified_at", filters, params));
+    const limitParam = params.add(limit);
+
+    const result = await pool.query(
+      `WITH RECURSIVE ${ctes.join(",")},
+       matches AS (
+         SELECT d.id, d.title, d.content, d.research_notes, d.folder_id, d.class_id,
+                d.assignment_id, d.owner_id, d.last_modified_at AS updated_at,
+                ts_rank_cd(d.search_vector, q) AS rank,
+                count(*) OVER ()::int AS total
+         FROM documents d, websearch_to_tsquery('english', $1) q
+         WHERE d.search_vector @@ q
+           AND d.deleted_at IS NULL
+           AND (d.school_id IS NULL OR d.school_id = $3)
+           AND (
+             d.owner_id = $2
+             OR d.folder_id IN (SELECT id FROM shared_folders)
+             OR EXISTS (
+               SELECT 1 FROM share_grants g
+               WHERE g.document_id = d.id AND ${grantedToUser("$2")}
+             )
+           )
+           ${where.map((condition) => `AND ${condition}`).join("\n           ")}
+         ORDER BY rank DESC, d.last_modified_at DESC
+         LIMIT ${limitParam}
+       )
+       SELECT m.id, m.title, m.folder_id, m.class_id, m.assignment_id, m.owner_id,
+              m.updated_at, m.rank, m.total,
+              ts_headline(
+                'english',
+                concat_ws(
+                  ' ',
+                  ${htmlToText("m.content")},
+                  (SELECT string_agg(note #>> '{}', ' ')
+                   FROM jsonb_path_query(m.research_notes, 'strict $.** ? (@.type() == "string")') note)
+                ),
+                websearch_to_tsquery('english', $1),
+                ${HEADLINE_OPTIONS}
+              ) AS headline
+       FROM matches m
+       ORDER BY m.rank DESC, m.updated_at DESC`,
+      params.values
+    );
+    return result.rows;
+  }
+
+  /**
+   * Live folders matching the query that the user owns or that were
+   * shared with them, best match first.
+   * With filters.folder_id, only folders below that folder.
+   */
+  static async searchFolders(
+    query: string,
+    scope: SearchScope,
+    filters: SearchFilters,
+    limit: number
+  ): Promise<SearchRow[]> {
+    const params = searchParams(query, scope);
+    const ctes = [SHARED_FOLDERS];
+    const where: string[] = [];
+
+    if (filters.folder_id) {
+      ctes.push(folderTree(params.add(filters.folder_id)));
+      where.push(`f.id IN (SELECT id FROM folder_tree)`);
+    }
+    where.push(...dateRange("f.updated_at", filters, params));
+    const limitParam = params.add(limit);
+
+    const result = await pool.query(
+      `WITH RECURSIVE ${ctes.join(",")}
+       SELECT f.id, f.name AS title, f.parent_id AS folder_id, NULL AS class_id,
+              NULL AS assignment_id, f.owner_id, f.updated_at,
+              ts_rank_cd(f.search_vector, q) AS rank,
+              count(*) OVER ()::int AS total,
+              ts_headline('english', f.name, q, ${HEADLINE_OPTIONS}) AS headline
+       FROM folders f, websearch_to_tsquery('english', $1) q
+       WHERE f.search_vector @@ q
+         AND f.deleted_at IS NULL
+         AND (f.school_id IS NULL OR f.school_id = $3)
+         AND (f.owner_id = $2 OR f.id IN (SELECT id FROM shared_folders))
+         ${where.map((condition) => `AND ${condition}`).join("\n         ")}
+       ORDER BY rank DESC, f.updated_at DESC
+       LIMIT ${limitParam}`,
+      params.values
+    );
+    return result.rows;
+  }
+
+  /**
+   * Assignments of the user's school matching the query, best match first.
+   * Teachers see the assignments of classes they created or teach,
+   * students the active assignments of classes they are an active member
+   * of, and school admins every assignment of the school.
+   */
+  static async searchAssignments(
+    query: string,
+    scope: SearchScope,
+    filters: SearchFilters,
+    limit: number
+  ): Promise<SearchRow[]> {
+    const params = searchParams(query, scope);
+    const isAdminParam = params.add(scope.is_admin);
+    const where: string[] = [];
+
+    if (filters.class_id) where.push(`a.class_id = ${params.add(filters.class_id)}`);
+    if (filters.assignment_id) where.push(`a.id = ${params.add(filters.assignment_id)}`);
+    where.push(...dateRange("a.updated_at", filters, params));
+    const limitParam = params.add(limit);
+
+    const result = await pool.query(
+      `SELECT a.id, a.title, NULL AS folder_id, a.class_id, a.id AS assignment_id,
+              a.created_by AS owner_id, a.updated_at,
+              ts_rank_cd(a.search_vector, q) AS rank,
+              count(*) OVER ()::int AS total,
+              ts_headline('english', coalesce(nullif(a.description, ''), a.title), q, ${HEADLINE_OPTIONS}) AS headline
+       FROM assignments a, websearch_to_tsquery('english', $1) q
+       WHERE a.search_vector @@ q
+         AND a.school_id = $3
+         AND (
+           ${isAdminParam}::boolean
+           OR a.created_by = $2
+           OR EXISTS (SELECT 1 FROM classes c WHERE c.id = a.class_id AND c.creator_id = $2)
+           OR EXISTS (
+             SELECT 1 FROM class_members cm
+             WHERE cm.class_id = a.class_id
+               AND cm.user_id = $2
+               AND cm.status = 'active'
+               AND (cm.role IN ('teacher', 'admin') OR a.status = 'active')
+           )
+         )
+         ${where.map((condition) => `AND ${condition}`).join("\n         ")}
+       ORDER BY rank DESC, a.updated_at DESC
+       LIMIT ${limitParam}`,
+      params.values
+    );
+    return result.rows;
+  }
+}
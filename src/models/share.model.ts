@@ -0,0 +1,152 @@
+import { pool } from "../config/postgres.db.js";
+import type {
+  ShareGrantRow,
+  ShareGrantee,
+  SharePermission,
+  ShareTarget,
+} from "../types/share.types.js";
+
+/**
+ * Condition on share_grants g: the grant reaches a user, made to them or
+ * to a class they are an active member or the creator of
+ * @param userParam - Placeholder holding the user id, e.g. "$1"
+ */
+export const grantedToUser = (userParam: string) => `
+  (
+    g.grantee_user_id = ${userParam}
+    OR g.grantee_class_id IN (
+      SELECT cm.class_id FROM class_members cm
+      WHERE cm.user_id = ${userParam} AND cm.status = 'active'
+      UNION
+      SELECT c.id FROM classes c WHERE c.creator_id = ${userParam}
+    )
+  )
+`;
+
+const GRANTED_TO_USER = grantedToUser("$1");
+
+const targetColumn = (target: ShareTarget) => ("document_id" in target ? "document_id" : "folder_id");
+const targetId = (target: ShareTarget) => ("document_id" in target ? target.document_id : target.folder_id);
+
+export class ShareModel {
+  /**
+   * Grant access, or change the permission of an existing grant to the
+   * same grantee
+   */
+  static async upsert(
+    target: ShareTarget,
+    grantee: ShareGrantee,
+    permission: SharePermission,
+    granted_by: string
+  ): Promise<ShareGrantRow> {
+    const column = targetColumn(target);
+    const granteeColumn = "user_id" in grantee ? "grantee_user_id" : "grantee_class_id";
+
+    const result = await pool.query(
+      `INSERT INTO share_grants (${column}, ${granteeColumn}, permission, granted_by)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (${column}, ${granteeColumn})
+         WHERE ${column} IS NOT NULL AND ${granteeColumn} IS NOT NULL
+       DO UPDATE SET permission = EXCLUDED.permission,
+                     granted_by = EXCLUDED.granted_by,
+                     updated_at = current_timestamp
+       RETURNING *`,
+      [targetId(target), "user_id" in grantee ? grantee.user_id : grantee.class_id, permission, granted_by]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Grants on a document or folder, with the grantee's name
+   */
+  static async findByTarget(target: ShareTarget): Promise<any[]> {
+    const result = await pool.query(
+      `SELECT g.*,
+              u.first_name, u.last_name, u.email, u.user_type,
+              c.class_name
+       FROM share_grants g
+       LEFT JOIN users u ON g.grantee_user_id = u.id
+       LEFT JOIN classes c ON g.grantee_class_id = c.id
+       WHERE g.${targetColumn(target)} = $1
+       ORDER BY g.created_at`,
+      [targetId(target)]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Find a grant on a document or folder
+   */
+  static async findById(id: string, target: ShareTarget): Promise<ShareGrantRow | null> {
+    const result = await pool.query(
+      `SELECT * FROM share_grants WHERE id = $1 AND ${targetColumn(target)} = $2`,
+      [id, targetId(target)]
+    );
+    return result.rows[0] || null;
+  }
+
+  static async updatePermission(
+    id: string,
+    target: ShareTarget,
+    permission: SharePermission
+  ): Promise<ShareGrantRow | null> {
+    const result = await pool.query(
+      `UPDATE share_grants
+       SET permission = $3, updated_at = current_timestamp
+       WHERE id = $1 AND ${targetColumn(target)} = $2
+       RETURNING *`,
+      [id, targetId(target), permission]
+    );
+    return result.rows[0] || null;
+  }
+
+  static async delete(id: string, target: ShareTarget): Promise<boolean> {
+    const result = await pool.query(
+      `DELETE FROM share_grants WHERE id = $1 AND ${targetColumn(target)} = $2`,
+      [id, targetId(target)]
+    );
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  /**
+   * Permissions a user holds on a document (pass its folder too) or a
+   * folder, including grants on every folder above it
+   */
+  static async findPermissions(
+    user_id: string,
+    document_id: string | null,
+    folder_id: string | null
+  ): Promise<SharePermission[]> {
+    const result = await pool.query(
+      `WITH RECURSIVE ancestry AS (
+         SELECT id, parent_id FROM folders WHERE id = $3 AND deleted_at IS NULL
+         UNION ALL
+         SELECT f.id, f.parent_id FROM folders f JOIN ancestry a ON f.id = a.parent_id
+       )
+       SELECT DISTINCT g.permission FROM share_grants g
+       WHERE (g.document_id = $2 OR g.folder_id IN (SELECT id FROM ancestry))
+         AND ${GRANTED_TO_USER}`,
+      [user_id, document_id, folder_id]
+    );
+    return result.rows.map((row) => row.permission);
+  }
+
+  /**
+   * Grants that reach a user on live documents and folders owned by
+   * someone else
+   */
+  static async findSharedWith(user_id: string): Promise<ShareGrantRow[]> {
+    const result = await pool.query(
+      `SELECT g.* FROM share_grants g
+       LEFT JOIN documents d ON g.document_id = d.id
+       LEFT JOIN folders f ON g.folder_id = f.id
+       WHERE ${GRANTED_TO_USER}
+         AND (
+           (d.id IS NOT NULL AND d.deleted_at IS NULL AND d.owner_id <> $1)
+           OR (f.id IS NOT NULL AND f.deleted_at IS NULL AND f.owner_id <> $1)
+         )`,
+      [user_id]
+    );
+    return result.rows;
+  }
+}
@@ -0,0 +1,169 @@
+import { PoolClient } from "pg";
+import { pool } from "../config/postgres.db.js";
+import type {
+  SimilarityMatchRow,
+  SimilarityPassage,
+} from "../types/submission.types.js";
+
+export interface SubmissionFingerprint {
+  submission_id: string;
+  school_id: string;
+  student_id: string;
+  shingle_count: number;
+  signature: number[];
+  lsh_bands: number[];
+  content_text: string;
+  created_at: Date;
+}
+
+export interface SimilarityMatchDetail extends SimilarityMatchRow {
+  matched_student_id: string;
+  matched_student_first_name: string | null;
+  matched_student_last_name: string | null;
+  matched_assignment_id: string;
+  matched_assignment_title: string;
+  matched_class_id: string;
+  matched_submitted_at: Date | null;
+  scope: "same_assignment" | "same_class" | "school";
+}
+
+export class SubmissionSimilarityModel {
+  static async upsertFingerprint(
+    data: Omit<SubmissionFingerprint, "created_at">,
+    client?: PoolClient
+  ): Promise<SubmissionFingerprint> {
+    const db = client || pool;
+    const result = await db.query(
+      `INSERT INTO submission_fingerprints (
+        submission_id, school_id, student_id, shingle_count,
+        signature, lsh_bands, content_text
+      ) VALUES ($1,$2,$3,$4,$5,$6,$7)
+      ON CONFLICT (submission_id) DO UPDATE SET
+        shingle_count = EXCLUDED.shingle_count,
+        signature = EXCLUDED.signature,
+        lsh_bands = EXCLUDED.lsh_bands,
+        content_text = EXCLUDED.content_text,
+        created_at = current_timestamp
+      RETURNING *`,
+      [
+        data.submission_id,
+        data.school_id,
+        data.student_id,
+        data.shingle_count,
+        data.signature,
+        data.lsh_bands,
+        data.content_text,
+      ]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Fingerprints of other students' work in the school sharing at least one
+   * LSH band, most shared bands first
+   */
+  static async findCandidates(
+    submissionId: string,
+    schoolId: string,
+    studentId: string,
+    bands: number[],
+    limit: number,
+    client?: PoolClient
+  ): Promise<SubmissionFingerprint[]> {
+    if (bands.length === 0) return [];
+
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT f.*
+       FROM submission_fingerprints f
+       WHERE f.school_id = $1
+         AND f.student_id != $2
+         AND f.submission_id != $3
+         AND f.lsh_bands && $4::int[]
+       ORDER BY cardinality(ARRAY(
+         SELECT unnest(f.lsh_bands) INTERSECT SELECT unnest($4::int[])
+       )) DESC
+       LIMIT $5`,
+      [schoolId, studentId, submissionId, bands, limit]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Replace the stored matches of a submission and record its overall
+   * similarity percentage
+   */
+  static async replaceMatches(
+    submissionId: string,
+    similarityPercent: number,
+    matches: {
+      matched_submission_id: string;
+      similarity_percent: number;
+      passages: SimilarityPassage[];
+    }[],
+    client: PoolClient
+  ): Promise<void> {
+    await client.query(
+      "DELETE FROM submission_similarity_matches WHERE submission_id = $1",
+      [submissionId]
+    );
+
+    for (const match of matches) {
+      await client.query(
+        `INSERT INTO submission_similarity_matches (
+          submission_id, matched_submission_id, similarity_percent, passages
+        ) VALUES ($1,$2,$3,$4)`,
+        [
+          submissionId,
+          match.matched_submission_id,
+          match.similarity_percent,
+          JSON.stringify(match.passages),
+        ]
+      );
+    }
+
+    await client.query(
+      `UPDATE submissions
+       SET similarity_percent = $1,
+           similarity_checked_at = NOW()
+       WHERE id = $2`,
+      [similarityPercent, submissionId]
+    );
+  }
+
+  /**
+   * Matches of a submission with the matched student and assignment, and
+   * whether the match is in the same assignment, the same class or elsewhere
+   * in the school
+   */
+  static async findBySubmissionId(
+    submissionId: string,
+    schoolId: string
+  ): Promise<SimilarityMatchDetail[]> {
+    const result = await pool.query(
+      `SELECT
+        m.*,
+        ms.student_id AS matched_student_id,
+        u.first_name AS matched_student_first_name,
+        u.last_name AS matched_student_last_name,
+        ms.assignment_id AS matched_assignment_id,
+        a.title AS matched_assignment_title,
+        ms.class_id AS matched_class_id,
+        ms.submitted_at AS matched_submitted_at,
+        CASE
+          WHEN ms.assignment_id = s.assignment_id THEN 'same_assignment'
+          WHEN ms.class_id = s.class_id THEN 'same_class'
+          ELSE 'school'
+        END AS scope
+      FROM submission_similarity_matches m
+      INNER JOIN submissions s ON m.submission_id = s.id
+      INNER JOIN submissions ms ON m.matched_submission_id = ms.id
+      INNER JOIN users u ON ms.student_id = u.id
+      INNER JOIN assignments a ON ms.assignment_id = a.id
+      WHERE m.submission_id = $1 AND s.school_id = $2
+      ORDER BY m.similarity_percent DESC`,
+      [submissionId, schoolId]
+    );
+    return result.rows;
+  }
+}
@@ -0,0 +1,118 @@
+import { PoolClient } from "pg";
+import { pool } from "../config/postgres.db.js";
+import type { SubmissionRow } from "../types/submission.types.js";
+
+export interface ReleasedGrade {
+  submission_id: string;
+  student_id: string;
+  score: number | null;
+  student_email: string | null;
+  student_first_name: string | null;
+  student_last_name: string | null;
+  assignment_id: string;
+  assignment_title: string;
+  max_score: number;
+}
+
+export class SubmissionModel {
+  /**
+   * Release every draft grade (status under_review) for an assignment.
+   * Only drafts that already have a score and grader are released.
+   * Returns the released grades (after late penalty) with the student contact
+   * details for notification.
+   */
+  static async releaseDraftGrades(
+    assignmentId: string,
+    client?: PoolClient
+  ): Promise<ReleasedGrade[]> {
+    const db = client || pool;
+    const result = await db.query(
+      `WITH released AS (
+        UPDATE submissions
+        SET status = 'graded',
+            graded_at = NOW()
+        WHERE assignment_id = $1
+          AND status = 'under_review'
+          AND score IS NOT NULL
+          AND graded_by IS NOT NULL
+        RETURNING id, student_id, assignment_id, COALESCE(final_score, score) AS score
+      )
+      SELECT
+        r.id AS submission_id,
+        r.student_id,
+        r.score,
+        u.email AS student_email,
+        u.first_name AS student_first_name,
+        u.last_name AS student_last_name,
+        a.id AS assignment_id,
+        a.title AS assignment_title,
+        a.max_score
+      FROM released r
+      INNER JOIN users u ON r.student_id = u.id
+      INNER JOIN assignments a ON r.assignment_id = a.id`,
+      [assignmentId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Load the notification details for a single graded submission
+   */
+  static async findReleasedGrade(
+    submissionId: string,
+    client?: PoolClient
+  ): Promise<ReleasedGrade | null> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT
+        s.id AS submission_id,
+        s.student_id,
+        COALESCE(s.final_score, s.score) AS score,
+        u.email AS student_email,
+        u.first_name AS student_first_name,
+        u.last_name AS student_last_name,
+        a.id AS assignment_id,
+        a.title AS assignment_title,
+        a.max_score
+      FROM submissions s
+      INNER JOIN users u ON s.student_id = u.id
+      INNER JOIN assignments a ON s.assignment_id = a.id
+      WHERE s.id = $1`,
+      [submissionId]
+    );
+    return result.rows[0] || null;
+  }
+  /**
+   * Every submission version of a student for an assignment, oldest first
+   */
+  static async findVersions(
+    assignmentId: string,
+    studentId: string,
+    schoolId: string,
+    client?: PoolClient
+  ): Promise<SubmissionRow[]> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT * FROM submissions
+       WHERE assignment_id = $1 AND student_id = $2 AND school_id = $3
+       ORDER BY version ASC, created_at ASC`,
+      [assignmentId, studentId, schoolId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Whether a newer version already links back to this submission
+   */
+  static async hasNewerVersion(
+    submissionId: string,
+    client?: PoolClient
+  ): Promise<boolean> {
+    const db = client || pool;
+    const result = await db.query(
+      `SELECT 1 FROM submissions WHERE previous_submission_id = $1 LIMIT 1`,
+      [submissionId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+}
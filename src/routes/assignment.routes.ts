@@ -22,12 +22,26 @@ router.get("/", AssignmentController.list);
 //get assignment data by id
 router.get("/:id", AssignmentController.getById);
 
+//get score, timing, word count and rubric analytics for an assignment
+router.get("/:id/analytics", AssignmentController.getAnalytics);
+
 //update the assignment data
 router.patch("/:id", AssignmentController.update);
 
 //delete the assignment data(only change the status active to inactive)
 router.delete("/:id", AssignmentController.delete);
 
+// release all draft grades now, or schedule with { release_at }
+router.post("/:id/grades/release", AssignmentController.releaseGrades);
+
+// cancel a scheduled grade release
+router.delete("/:id/grades/release", AssignmentController.cancelGradeRelease);
+
+// per-student / per-group due date extensions
+router.post("/:id/extensions", AssignmentController.createExtension);
+router.get("/:id/extensions", AssignmentController.listExtensions);
+router.delete("/:id/extensions/:extensionId", AssignmentController.deleteExtension);
+
 // Get assignments by class ID
 router.get("/class/:class_id", AssignmentController.listByClass);
 
@@ -1,5 +1,6 @@
 import { Router } from "express";
 import { ClassController } from "../controllers/class.controller.js";
+import { GradebookController } from "../controllers/gradebook.controller.js";
 import { authenticate } from "../middleware/auth.middleware.js";
 import { attachSchool } from "../middleware/school.middleware.js";
 import {
@@ -101,4 +102,18 @@ router.get("/get-members", isMemberOfClass, ClassController.getClassMembers);
  */
 router.delete("/remove-class-member", canManageClass, ClassController.removeMember);
 
+/**
+ * @route   GET /api/v1/classes/gradebook?classId=&missing_as_zero=
+ * @desc    Get every student x assignment score with running and category averages
+ * @access  Private (Class managers only)
+ */
+router.get("/gradebook", canManageClass, GradebookController.getGradebook);
+
+/**
+ * @route   GET /api/v1/classes/gradebook/export?classId=&format=csv|xlsx
+ * @desc    Export the class gradebook as CSV or XLSX
+ * @access  Private (Class managers only)
+ */
+router.get("/gradebook/export", canManageClass, GradebookController.exportGradebook);
+
 export default router;
@@ -0,0 +1,27 @@
+import { Router } from "express";
+import { CommentBankController } from "../controllers/comment-bank.controller.js";
+import { authenticate } from "../middleware/auth.middleware.js";
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Search visible comments (search, tags=a,b, visibility, mine=true, page, limit)
+router.get("/", CommentBankController.list);
+
+// Tags in use, with counts
+router.get("/tags", CommentBankController.listTags);
+
+// Save a comment to the bank
+router.post("/", CommentBankController.create);
+
+// Get, update or delete a comment by ID
+router.get("/:id", CommentBankController.getById);
+router.put("/:id", CommentBankController.update);
+router.delete("/:id", CommentBankController.delete);
+
+// Fill a comment's placeholders for a student/submission
+router.post("/:id/render", CommentBankController.render);
+
+export default router;
@@ -1,5 +1,8 @@
 import { Router } from "express";
-import { DocumentController } from "../controllers/document.controller.js";
+import {
+  DocumentController,
+  uploadImportMiddleware,
+} from "../controllers/document.controller.js";
 import { authenticate } from "../middleware/auth.middleware.js";
 
 const router = Router();
@@ -19,6 +22,12 @@ router.use(authenticate);
 router.get("/", DocumentController.list);
 router.post("/", DocumentController.create);
 
+// Documents other users shared with me
+router.get("/shared", DocumentController.sharedWithMe);
+
+// Import a DOCX, HTML, Markdown or text file as a new document
+router.post("/import", uploadImportMiddleware, DocumentController.import);
+
 // Get document details / Update document / Delete document
 // Migrated from: DocumentDetailView
 router.get("/:id", DocumentController.getById);
@@ -29,4 +38,32 @@ router.delete("/:id", DocumentController.delete);
 // Migrated from: DocumentMoveView
 router.put("/:id/move", DocumentController.move);
 
+// Revision history: list, word diff between two revisions, view, restore
+router.get("/:id/revisions", DocumentController.listRevisions);
+router.get("/:id/revisions/diff", DocumentController.diffRevisions);
+router.get("/:id/revisions/:revisionId", DocumentController.getRevision);
+router.post("/:id/revisions/:revisionId/restore", DocumentController.restoreRevision);
+
+// Sources and citations: list with bibliography, add, reorder, edit, remove
+router.get("/:id/sources", DocumentController.listSources);
+router.post("/:id/sources", DocumentController.addSource);
+router.put("/:id/sources/order", DocumentController.reorderSources);
+router.put("/:id/sources/:sourceId", DocumentController.updateSource);
+router.delete("/:id/sources/:sourceId", DocumentController.deleteSource);
+
+// Comments: list, add, edit or resolve, delete
+router.get("/:id/comments", DocumentController.listComments);
+router.post("/:id/comments", DocumentController.addComment);
+router.put("/:id/comments/:commentId", DocumentController.updateComment);
+router.delete("/:id/comments/:commentId", DocumentController.deleteComment);
+
+// Sharing with users or classes: list, share, change permission, stop sharing
+router.get("/:id/shares", DocumentController.listShares);
+router.post("/:id/shares", DocumentController.addShare);
+router.put("/:id/shares/:shareId", DocumentController.updateShare);
+router.delete("/:id/shares/:shareId", DocumentController.removeShare);
+
+// Export as DOCX, PDF, Markdown or HTML with a bibliography of its sources
+router.get("/:id/export", DocumentController.export);
+
 export default router;
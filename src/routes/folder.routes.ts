@@ -19,6 +19,9 @@ router.use(authenticate);
 router.get("/", FolderController.list);
 router.post("/", FolderController.create);
 
+// Folders other users shared with me
+router.get("/shared", FolderController.sharedWithMe);
+
 // Get folder details / Update folder / Delete folder
 // Migrated from: FolderDetailView
 router.get("/:id", FolderController.getById);
@@ -29,4 +32,10 @@ router.delete("/:id", FolderController.delete);
 // Migrated from: FolderMoveView
 router.put("/:id/move", FolderController.move);
 
+// Sharing with users or classes: list, share, change permission, stop sharing
+router.get("/:id/shares", FolderController.listShares);
+router.post("/:id/shares", FolderController.addShare);
+router.put("/:id/shares/:shareId", FolderController.updateShare);
+router.delete("/:id/shares/:shareId", FolderController.removeShare);
+
 export default router;
@@ -1,9 +1,11 @@
 import express from "express";
-import { scrapeWebsite } from "../controllers/scrape.controller.js";
+import { scrapeIdentifier, scrapeWebsite } from "../controllers/scrape.controller.js";
 import { authenticate } from "../middleware/auth.middleware.js";
+import { scrapeLimiter } from "../middleware/security.middleware.js";
 
 const router = express.Router();
 
-router.post("/", authenticate, scrapeWebsite);
+router.post("/", authenticate, scrapeLimiter, scrapeWebsite);
+router.post("/identifier", authenticate, scrapeLimiter, scrapeIdentifier);
 
 export default router;
@@ -0,0 +1,20 @@
+import { Router } from "express";
+import { SearchController } from "../controllers/search.controller.js";
+import { authenticate } from "../middleware/auth.middleware.js";
+
+const router = Router();
+
+/**
+ * Search Routes
+ *
+ * Full-text search over documents, folders and assignments
+ * All routes require authentication
+ */
+
+// Apply authentication middleware to all routes
+router.use(authenticate);
+
+// Search everything the user can see
+router.get("/", SearchController.search);
+
+export default router;
@@ -11,7 +11,11 @@ router.use(authenticate);
  * POST /api/v1/submissions
  * Create a new submission
  * Required: class_id, assignment_id, student_id
- * Optional: content, document_id, status, word_count, page_count, submission_metadata, is_late
+ * Optional: content, document_id, status, submission_metadata, is_late
+ * is_late is computed from the assignment due date (school timezone) and late policy
+ * when the submission is turned in; rejected past the late policy cutoff
+ * word_count and page_count are computed from the linked document (or content) and
+ * checked against the assignment length_enforcement: 422 when 'block', lengthWarnings when 'warn'
  */
 router.post('/', SubmissionController.create);
 
@@ -43,7 +47,8 @@ router.get('/:id', SubmissionController.getById);
  * PUT /api/v1/submissions/:id
  * Update an existing submission
  * Can update: content, status, score, feedback, graded_by, graded_at,
- *             word_count, page_count, submission_metadata, is_late
+ *             submission_metadata, is_late
+ * word_count and page_count are recomputed when content changes or the draft is turned in
  */
 router.put('/:id', SubmissionController.update);
 
@@ -54,17 +59,38 @@ router.put('/:id', SubmissionController.update);
  */
 router.delete('/:id', SubmissionController.delete);
 
+/**
+ * POST /api/v1/submissions/:id/resubmit
+ * Resubmit after the grade has been returned (student only)
+ * Creates version N+1 linked through previous_submission_id
+ * Body: { content, document_id, status ('draft' to save without turning in),
+ *         submission_metadata }
+ * Limited by the assignment max_attempts
+ */
+router.post('/:id/resubmit', SubmissionController.resubmit);
+
+/**
+ * GET /api/v1/submissions/:id/versions
+ * Get every version of the student's submission for the assignment
+ * plus the counted score (assignment attempt_scoring: latest, highest or average)
+ */
+router.get('/:id/versions', SubmissionController.listVersions);
+
 /**
  * GET /api/v1/submissions/:id/grade
  * Get grade for a specific submission
- * Returns: score, feedback, status, graded_by, graded_at
+ * Returns: score, feedback, rubric_scores, max_score, status, graded_by, graded_at,
+ *          is_late, minutes_late, late_penalty_percent, late_penalty_points, final_score,
+ *          is_amended, amendments
  */
 router.get('/:id/grade', SubmissionController.getGrade);
 
 /**
  * PUT /api/v1/submissions/:id/grade/draft
  * Save grade as draft (status: under_review, graded_at: null)
- * Body: { score, feedback }
+ * Body: { score, feedback, rubric_scores, comment_bank_ids }
+ * rubric_scores: [{ criterion_index, score, comment }] - score is computed from it when sent
+ * comment_bank_ids: saved comments appended to feedback with placeholders filled in
  * Teacher can edit draft grades multiple times
  */
 router.put('/:id/grade/draft', SubmissionController.saveDraftGrade);
@@ -72,9 +98,39 @@ router.put('/:id/grade/draft', SubmissionController.saveDraftGrade);
 /**
  * PUT /api/v1/submissions/:id/grade/submit
  * Submit final grade (status: graded, graded_at: NOW())
- * Body: { score (required), feedback }
+ * Body: { score or rubric_scores (required), feedback, comment_bank_ids }
+ * rubric_scores must cover every assignment grading criterion
  * Once submitted, grade becomes immutable
  */
 router.put('/:id/grade/submit', SubmissionController.submitFinalGrade);
 
+/**
+ * POST /api/v1/submissions/:id/grade/amend
+ * Amend a finalized grade (grading teacher or school admin only)
+ * Body: { reason (required), score, feedback, rubric_scores }
+ * Previous values are recorded in grade_history
+ */
+router.post('/:id/grade/amend', SubmissionController.amendGrade);
+
+/**
+ * GET /api/v1/submissions/:id/grade/history
+ * Get every amendment made to a finalized grade
+ */
+router.get('/:id/grade/history', SubmissionController.getGradeHistory);
+
+/**
+ * GET /api/v1/submissions/:id/similarity
+ * Get the originality report (teachers and admins only)
+ * Returns: similarityPercent, checkedAt, matches with scope
+ *          (same_assignment, same_class, school) and shared passages
+ * Checks run automatically when a submission is turned in
+ */
+router.get('/:id/similarity', SubmissionController.getSimilarity);
+
+/**
+ * POST /api/v1/submissions/:id/similarity/check
+ * Re-run the similarity check against the school's submissions
+ */
+router.post('/:id/similarity/check', SubmissionController.runSimilarityCheck);
+
 export default router;
@@ -7,10 +7,13 @@ const router = Router();
 // All routes require authentication
 router.use(authenticate);
 
-// Create a new feedback
+// Create a new feedback (commentBankId fills a missing title/description)
 router.post("/", TeacherFeedbackController.create);
 
-// Get all feedbacks with filters
+// Re-anchor a submission's feedback selections onto the edited document
+router.post("/reanchor", TeacherFeedbackController.reanchor);
+
+// Get all feedbacks with filters (status=open,addressed,resolved) and their replies
 router.get("/", TeacherFeedbackController.list);
 
 // Get a single feedback by ID
@@ -22,4 +25,16 @@ router.put("/:id", TeacherFeedbackController.update);
 // Delete a feedback by ID
 router.delete("/:id", TeacherFeedbackController.delete);
 
+// Mark a feedback open, addressed or resolved
+router.patch("/:id/status", TeacherFeedbackController.updateStatus);
+
+// Accept (apply to the document) or reject a delete/insert/move suggestion
+router.post("/:id/accept", TeacherFeedbackController.acceptSuggestion);
+router.post("/:id/reject", TeacherFeedbackController.rejectSuggestion);
+
+// Reply threads on a feedback
+router.get("/:id/replies", TeacherFeedbackController.listReplies);
+router.post("/:id/replies", TeacherFeedbackController.createReply);
+router.delete("/:id/replies/:replyId", TeacherFeedbackController.deleteReply);
+
 export default router;
@@ -0,0 +1,29 @@
+import { Router } from "express";
+import { TrashController } from "../controllers/trash.controller.js";
+import { authenticate } from "../middleware/auth.middleware.js";
+
+const router = Router();
+
+/**
+ * Trash Routes
+ *
+ * Deleted documents and folders, restore and permanent delete
+ * All routes require authentication
+ */
+
+// Apply authentication middleware to all routes
+router.use(authenticate);
+
+// List the trash / Empty it
+router.get("/", TrashController.list);
+router.delete("/", TrashController.empty);
+
+// Restore or permanently delete a document
+router.post("/documents/:id/restore", TrashController.restoreDocument);
+router.delete("/documents/:id", TrashController.deleteDocument);
+
+// Restore or permanently delete a folder with its contents
+router.post("/folders/:id/restore", TrashController.restoreFolder);
+router.delete("/folders/:id", TrashController.deleteFolder);
+
+export default router;
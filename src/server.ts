@@ -23,9 +23,12 @@ import classJoinLinkRoutes from "./routes/class-join-link.routes.js";
 import profileRoutes from "./routes/profile.routes.js";
 import folderRoutes from "./routes/folder.routes.js";
 import documentRoutes from "./routes/document.routes.js";
+import trashRoutes from "./routes/trash.routes.js";
+import searchRoutes from "./routes/search.routes.js";
 import assignmentRoutes from "./routes/assignment.routes.js";
 import signupRoutes from "./routes/signup.routes.js";
 import teacherFeedbackRoutes from "./routes/teacher-feedback.routes.js";
+import commentBankRoutes from "./routes/comment-bank.routes.js";
 import submissionRoutes from "./routes/submission.routes.js";
 
 import scrapeRoutes from "./routes/scrape.router.js";
@@ -33,6 +36,8 @@ import scrapeRoutes from "./routes/scrape.router.js";
 import paymentRoutes from "./routes/paymentRoutes.js";
 import stripeWebhookRoutes from "./routes/stripe-webhook.routes.js";
 import { startCronJobs } from "./cronjob/index.js";
+import { attachCollaborationServer } from "./websocket/collaboration.socket.js";
+import { flushAllLiveDocuments } from "./services/collaboration.service.js";
 
 process.on("uncaughtException", async (err: Error) => {
   console.error("Uncaught Exception");
@@ -147,6 +152,8 @@ app.use("/api/v1/profiles", profileRoutes);
 // Document & Folder routes (migrated from press-backend)
 app.use("/api/v1/folders", folderRoutes);
 app.use("/api/v1/documents", documentRoutes);
+app.use("/api/v1/trash", trashRoutes);
+app.use("/api/v1/search", searchRoutes);
 app.use("/api/v1/scrape", scrapeRoutes);
 
 //assignment creation
@@ -158,6 +165,9 @@ app.use("/api/v1/auth", signupRoutes);
 // Teacher feedback routes
 app.use("/api/v1/teacher-feedbacks", teacherFeedbackRoutes);
 
+// Comment bank routes
+app.use("/api/v1/comment-bank", commentBankRoutes);
+
 // Submission routes
 app.use("/api/v1/submissions", submissionRoutes);
 
@@ -187,6 +197,9 @@ const server = app.listen(PORT, async () => {
   }
 });
 
+// Live document editing over WebSockets (/api/v1/documents/:id/live)
+attachCollaborationServer(server);
+
 process.on("unhandledRejection", async (err: Error) => {
   console.error(err.name, err.message);
 
@@ -197,12 +210,14 @@ process.on("unhandledRejection", async (err: Error) => {
 });
 
 process.on("SIGTERM", async () => {
+  await flushAllLiveDocuments();
   server.close(() => {
     console.log("SIGTERM received server terminated!");
   });
 });
 
 process.on("SIGINT", async () => {
+  await flushAllLiveDocuments();
   server.close(() => {
     console.log("SIGINT received closing server.");
     process.exit(0);
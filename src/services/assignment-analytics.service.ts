@@ -0,0 +1,316 @@
+import { pool } from "../config/postgres.db.js";
+import type { Assignment } from "../models/assignment.model.js";
+import { zonedWallClockToUtc } from "../utils/timezone.utils.js";
+
+export interface ScoreHistogramBucket {
+  from_percent: number;
+  to_percent: number;
+  count: number;
+}
+
+export interface CriterionAverage {
+  criterion_index: number;
+  title: string;
+  points: number;
+  average_score: number | null;
+  average_percent: number | null;
+  scored_count: number;
+}
+
+export interface AssignmentAnalytics {
+  assignment_id: string;
+  generated_at: Date;
+  scores: {
+    graded_count: number;
+    mean: number | null;
+    median: number | null;
+    std_dev: number | null;
+    min: number | null;
+    max: number | null;
+    max_score: number;
+    histogram: ScoreHistogramBucket[];
+  };
+  timing: {
+    student_count: number;
+    on_time: number;
+    late: number;
+    missing: number;
+    not_yet_due: number;
+  };
+  word_count: {
+    submitted_count: number;
+    average: number | null;
+    min_word_count: number | null;
+    max_word_count: number | null;
+    below_min: number;
+    above_max: number;
+    within_range: number;
+  };
+  criteria: CriterionAverage[];
+}
+
+interface CacheEntry {
+  fingerprint: string;
+  expiresAt: number;
+  data: AssignmentAnalytics;
+}
+
+const HISTOGRAM_BUCKETS = 10;
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+// Aggregations keyed by assignment id. An entry is reused while its TTL is
+// valid and the submissions/extensions fingerprint has not changed.
+const analyticsCache = new Map<string, CacheEntry>();
+
+const toNumber = (value: any): number | null =>
+  value === null || value === undefined ? null : Math.round(Number(value) * 100) / 100;
+
+/**
+ * Cheap change detector for the data behind the aggregation
+ */
+const getFingerprint = async (assignment: Assignment): Promise<string> => {
+  const result = await pool.query(
+    `SELECT
+       (SELECT COUNT(*) FROM submissions WHERE assignment_id = $1) AS submissions,
+       (SELECT MAX(updated_at) FROM submissions WHERE assignment_id = $1) AS submissions_updated,
+       (SELECT COUNT(*) FROM class_members
+        WHERE class_id = $2 AND role = 'student' AND status = 'active') AS students,
+       (SELECT MAX(updated_at) FROM assignment_extensions WHERE assignment_id = $1) AS extensions_updated`,
+    [assignment.id, assignment.class_id]
+  );
+  const row = result.rows[0] ?? {};
+  return [
+    row.submissions,
+    row.submissions_updated?.toISOString?.() ?? "",
+    row.students,
+    row.extensions_updated?.toISOString?.() ?? "",
+    assignment.updated_at ? new Date(assignment.updated_at).toISOString() : "",
+  ].join("|");
+};
+
+const computeAnalytics = async (
+  assignment: Assignment
+): Promise<AssignmentAnalytics> => {
+  const maxScore = Number(assignment.max_score);
+
+  // Counted score per student, following the assignment attempt_scoring setting
+  const countedScores = `
+    WITH graded AS (
+      SELECT student_id, version, rubric_scores,
+             COALESCE(final_score, score) AS value
+      FROM submissions
+      WHERE assignment_id = $1
+        AND graded_at IS NOT NULL
+        AND score IS NOT NULL
+    ),
+    per_student AS (
+      SELECT
+        student_id,
+        CASE $2::text
+          WHEN 'highest' THEN MAX(value)
+          WHEN 'average' THEN AVG(value)
+          ELSE (ARRAY_AGG(value ORDER BY version DESC))[1]
+        END AS score
+      FROM graded
+      GROUP BY student_id
+    )
+  `;
+
+  const statsResult = await pool.query(
+    `${countedScores}
+     SELECT
+       COUNT(*)::int AS graded_count,
+       AVG(score) AS mean,
+       percentile_cont(0.5) WITHIN GROUP (ORDER BY score) AS median,
+       stddev_pop(score) AS std_dev,
+       MIN(score) AS min,
+       MAX(score) AS max
+     FROM per_student`,
+    [assignment.id, assignment.attempt_scoring ?? "latest"]
+  );
+
+  const histogramResult = await pool.query(
+    `${countedScores}
+     SELECT
+       LEAST(GREATEST(width_bucket(score, 0, $3::numeric, ${HISTOGRAM_BUCKETS}), 1), ${HISTOGRAM_BUCKETS}) AS bucket,
+       COUNT(*)::int AS count
+     FROM per_student
+     GROUP BY 1`,
+    [assignment.id, assignment.attempt_scoring ?? "latest", maxScore > 0 ? maxScore : 1]
+  );
+
+  const bucketCounts = new Map<number, number>(
+    histogramResult.rows.map((row) => [Number(row.bucket), row.count])
+  );
+  const bucketSize = 100 / HISTOGRAM_BUCKETS;
+  const histogram: ScoreHistogramBucket[] = Array.from(
+    { length: HISTOGRAM_BUCKETS },
+    (_, index) => ({
+      from_percent: index * bucketSize,
+      to_percent: (index + 1) * bucketSize,
+      count: bucketCounts.get(index + 1) ?? 0,
+    })
+  );
+
+  // Latest version per enrolled student with their effective due date
+  const timingResult = await pool.query(
+    `SELECT
+       cm.user_id AS student_id,
+       latest.status,
+       latest.is_late,
+       latest.word_count,
+       COALESCE(ext.due_date, a.due_date) AS due_date,
+       sc.timezone
+     FROM class_members cm
+     INNER JOIN assignments a ON a.id = $1
+     INNER JOIN schools sc ON a.school_id = sc.id
+     LEFT JOIN LATERAL (
+       SELECT status, is_late, word_count
+       FROM submissions
+       WHERE assignment_id = a.id
+         AND student_id = cm.user_id
+         AND status != 'draft'
+       ORDER BY version DESC
+       LIMIT 1
+     ) latest ON true
+     LEFT JOIN LATERAL (
+       SELECT due_date
+       FROM assignment_extensions
+       WHERE assignment_id = a.id AND cm.user_id = ANY(student_ids)
+       ORDER BY due_date DESC
+       LIMIT 1
+     ) ext ON true
+     WHERE cm.class_id = a.class_id
+       AND cm.role = 'student'
+       AND cm.status = 'active'`,
+    [assignment.id]
+  );
+
+  const now = Date.now();
+  const timing = {
+    student_count: timingResult.rows.length,
+    on_time: 0,
+    late: 0,
+    missing: 0,
+    not_yet_due: 0,
+  };
+  const wordCounts: number[] = [];
+
+  for (const row of timingResult.rows) {
+    if (row.status) {
+      if (row.is_late) timing.late++;
+      else timing.on_time++;
+      if (row.word_count !== null) wordCounts.push(Number(row.word_count));
+      continue;
+    }
+
+    const isPastDue =
+      !!row.due_date &&
+      zonedWallClockToUtc(new Date(row.due_date), row.timezone || "UTC").getTime() < now;
+    if (isPastDue) timing.missing++;
+    else timing.not_yet_due++;
+  }
+
+  const minWords = assignment.min_word_count ?? null;
+  const maxWords = assignment.max_word_count ?? null;
+  const belowMin = minWords !== null ? wordCounts.filter((count) => count < minWords).length : 0;
+  const aboveMax = maxWords !== null ? wordCounts.filter((count) => count > maxWords).length : 0;
+
+  // Per-criterion averages from the counted (latest graded) rubric breakdowns
+  const criteriaResult = await pool.query(
+    `WITH latest_graded AS (
+       SELECT DISTINCT ON (student_id) rubric_scores
+       FROM submissions
+       WHERE assignment_id = $1
+         AND graded_at IS NOT NULL
+         AND rubric_scores IS NOT NULL
+       ORDER BY student_id, version DESC
+     )
+     SELECT
+       (item->>'criterion_index')::int AS criterion_index,
+       AVG((item->>'score')::numeric) AS average_score,
+       COUNT(*)::int AS scored_count
+     FROM latest_graded, jsonb_array_elements(rubric_scores) AS item
+     GROUP BY 1`,
+    [assignment.id]
+  );
+
+  const criterionStats = new Map<number, { average: number; count: number }>(
+    criteriaResult.rows.map((row) => [
+      row.criterion_index,
+      { average: Number(row.average_score), count: row.scored_count },
+    ])
+  );
+
+  const criteria: CriterionAverage[] = (assignment.grading_criteria ?? []).map(
+    (criterion, index) => {
+      const stats = criterionStats.get(index);
+      return {
+        criterion_index: index,
+        title: criterion.title,
+        points: criterion.points,
+        average_score: stats ? toNumber(stats.average) : null,
+        average_percent:
+          stats && criterion.points > 0
+            ? toNumber((stats.average / criterion.points) * 100)
+            : null,
+        scored_count: stats?.count ?? 0,
+      };
+    }
+  );
+
+  const stats = statsResult.rows[0] ?? {};
+
+  return {
+    assignment_id: assignment.id,
+    generated_at: new Date(),
+    scores: {
+      graded_count: stats.graded_count ?? 0,
+      mean: toNumber(stats.mean),
+      median: toNumber(stats.median),
+      std_dev: toNumber(stats.std_dev),
+      min: toNumber(stats.min),
+      max: toNumber(stats.max),
+      max_score: maxScore,
+      histogram,
+    },
+    timing,
+    word_count: {
+      submitted_count: wordCounts.length,
+      average: wordCounts.length
+        ? toNumber(wordCounts.reduce((sum, count) => sum + count, 0) / wordCounts.length)
+        : null,
+      min_word_count: minWords,
+      max_word_count: maxWords,
+      below_min: belowMin,
+      above_max: aboveMax,
+      within_range: wordCounts.length - belowMin - aboveMax,
+    },
+    criteria,
+  };
+};
+
+/**
+ * Score distribution, submission timing, word-count and rubric statistics for
+ * an assignment. Results are cached per assignment until the underlying data
+ * changes or the TTL runs out.
+ */
+export const getAssignmentAnalytics = async (
+  assignment: Assignment
+): Promise<AssignmentAnalytics> => {
+  const fingerprint = await getFingerprint(assignment);
+  const cached = analyticsCache.get(assignment.id);
+
+  if (cached && cached.fingerprint === fingerprint && cached.expiresAt > Date.now()) {
+    return cached.data;
+  }
+
+  const data = await computeAnalytics(assignment);
+  analyticsCache.set(assignment.id, {
+    fingerprint,
+    expiresAt: Date.now() + CACHE_TTL_MS,
+    data,
+  });
+
+  return data;
+};
@@ -0,0 +1,623 @@
+import { pool } from "../config/postgres.db.js";
+import { Document, DocumentFormatting, DocumentModel } from "../models/document.model.js";
+import { ShareModel } from "../models/share.model.js";
+import { DocumentRevisionModel } from "../models/document-revision.model.js";
+import type {
+  ClientMessage,
+  CollaborationErrorCode,
+  CollaborationRole,
+  CursorSelection,
+  FormatChange,
+  ParticipantInfo,
+  ServerMessage,
+} from "../types/collaboration.types.js";
+import {
+  OperationError,
+  TextOperation,
+  applyOperation,
+  baseLength,
+  isTextOperation,
+  normalize,
+  transform,
+  transformFormatting,
+  transformIndex,
+} from "../utils/ot.utils.js";
+
+/**
+ * Live editing sessions, one per open document, kept in this process.
+ *
+ * The server is the single source of truth: clients send operations
+ * against the version they last saw, the server transforms them over
+ * everything applied since, applies them and broadcasts the result with
+ * the new version. Every applied operation bumps the version by one, and
+ * the merged content is written back to the documents row (with that
+ * version) shortly after editing pauses.
+ */
+
+// Save after this long without edits, and at least this often while editing
+const FLUSH_IDLE_MS = 2000;
+const FLUSH_MAX_WAIT_MS = 10000;
+
+// Operations kept for transforming late clients
+const MAX_HISTORY = 500;
+
+const LIVE_FORMATS = ["plain", "markdown"];
+
+const COLORS = ["#e6194b", "#3cb44b", "#4363d8", "#f58231", "#911eb4", "#46f0f0", "#f032e6", "#008080"];
+
+export interface SessionClient {
+  clientId: string;
+  userId: string;
+  userType: string;
+  schoolId: string | null;
+  name: string;
+  role: CollaborationRole;
+  send: (message: ServerMessage) => void;
+  close: (code: number, reason: string) => void;
+}
+
+interface Participant extends SessionClient {
+  color: string;
+  selection: CursorSelection | null;
+}
+
+interface HistoryEntry {
+  version: number;
+  operation: TextOperation;
+}
+
+interface CollaborationSession {
+  documentId: string;
+  title: string;
+  content: string;
+  formatting: DocumentFormatting;
+  version: number;
+  persistedVersion: number;
+  history: HistoryEntry[];
+  participants: Map<string, Participant>;
+  lastEditorId: string | null;
+  dirtySince: number | null;
+  flushTimer: NodeJS.Timeout | null;
+  flushing: Promise<void>;
+}
+
+const sessions = new Map<string, CollaborationSession>();
+const loading = new Map<string, Promise<CollaborationSession>>();
+
+export class CollaborationError extends Error {
+  constructor(public code: CollaborationErrorCode, message: string) {
+    super(message);
+  }
+}
+
+const participantInfo = (participant: Participant): ParticipantInfo => ({
+  clientId: participant.clientId,
+  userId: participant.userId,
+  name: participant.name,
+  role: participant.role,
+  color: participant.color,
+  selection: participant.selection,
+});
+
+const broadcast = (session: CollaborationSession, message: ServerMessage, exceptClientId?: string) => {
+  for (const participant of session.participants.values()) {
+    if (participant.clientId !== exceptClientId) participant.send(message);
+  }
+};
+
+const snapshotMessage = (
+  session: CollaborationSession,
+  type: "init" | "reset",
+  participant?: Participant
+): ServerMessage => ({
+  type,
+  clientId: participant?.clientId,
+  role: participant?.role,
+  version: session.version,
+  content: session.content,
+  formatting: session.formatting,
+  title: session.title,
+  participants: [...session.participants.values()].map(participantInfo),
+});
+
+const emptyFormatting = (formatting?: DocumentFormatting | null): DocumentFormatting => ({
+  ranges: formatting?.ranges || [],
+  paragraphs: formatting?.paragraphs || {},
+});
+
+/**
+ * Who may join a document's live session: its owner and users it is
+ * shared with for editing edit; users it is shared with for viewing or
+ * commenting, the school's admins and the teachers of its class follow
+ * along read-only
+ */
+export const resolveCollaborationRole = async (
+  document: Document,
+  user: { id: string; user_type: string; school_id?: string | null },
+  schoolId: string | null
+): Promise<CollaborationRole | null> => {
+  if (document.owner_id === user.id) return "edit";
+
+  const granted = await ShareModel.findPermissions(user.id, document.id, document.folder_id || null);
+  if (granted.includes("edit")) return "edit";
+  if (granted.length > 0) return "view";
+
+  if (!document.school_id || document.school_id !== schoolId) return null;
+  if (user.user_type === "admin") return "view";
+
+  if (user.user_type === "teacher" && document.class_id) {
+    const result = await pool.query(
+      `SELECT 1 FROM classes c
+       WHERE c.id = $1 AND (
+         c.creator_id = $2 OR EXISTS (
+           SELECT 1 FROM class_members cm
+           WHERE cm.class_id = c.id AND cm.user_id = $2
+             AND cm.role = 'teacher' AND cm.status = 'active'
+         )
+       )`,
+      [document.class_id, user.id]
+    );
+    if (result.rows.length > 0) return "view";
+  }
+
+  return null;
+};
+
+const loadSession = async (documentId: string): Promise<CollaborationSession> => {
+  const document = await DocumentModel.findById(documentId);
+  if (!document) {
+    throw new CollaborationError("not_found", "Document not found");
+  }
+  if (!LIVE_FORMATS.includes(document.content_format)) {
+    throw new CollaborationError(
+      "unsupported_format",
+      "Live editing is available for plain text and markdown documents"
+    );
+  }
+
+  return {
+    documentId,
+    title: document.title,
+    content: document.content || "",
+    formatting: emptyFormatting(document.formatting),
+    version: document.version,
+    persistedVersion: document.version,
+    history: [],
+    participants: new Map(),
+    lastEditorId: null,
+    dirtySince: null,
+    flushTimer: null,
+    flushing: Promise.resolve(),
+  };
+};
+
+const getOrLoadSession = async (documentId: string): Promise<CollaborationSession> => {
+  const existing = sessions.get(documentId);
+  if (existing) return existing;
+
+  let pending = loading.get(documentId);
+  if (!pending) {
+    pending = loadSession(documentId)
+      .then((session) => {
+        sessions.set(documentId, session);
+        return session;
+      })
+      .finally(() => loading.delete(documentId));
+    loading.set(documentId, pending);
+  }
+  return pending;
+};
+
+/**
+ * Replace a session's state with the stored document, e.g. after a write
+ * outside the session. Clients drop unacknowledged work and start over.
+ */
+const resetSession = (session: CollaborationSession, document: Document) => {
+  session.title = document.title;
+  session.content = document.content || "";
+  session.formatting = emptyFormatting(document.formatting);
+  session.version = document.version;
+  session.persistedVersion = document.version;
+  session.history = [];
+  session.dirtySince = null;
+  for (const participant of session.participants.values()) {
+    participant.selection = null;
+  }
+  broadcast(session, snapshotMessage(session, "reset"));
+};
+
+const writeSession = async (session: CollaborationSession): Promise<void> => {
+  if (session.version === session.persistedVersion) return;
+
+  const snapshot = {
+    content: session.content,
+    formatting: session.formatting,
+    version: session.version,
+  };
+  const modifiedBy = session.lastEditorId;
+  if (!modifiedBy) return;
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const document = await DocumentModel.saveLiveState(
+      session.documentId,
+      { ...snapshot, expected_version: session.persistedVersion, modified_by: modifiedBy },
+      client
+    );
+
+    if (!document) {
+      await client.query("ROLLBACK");
+      const latest = await DocumentModel.findById(session.documentId);
+      if (latest) resetSession(session, latest);
+      return;
+    }
+
+    await DocumentRevisionModel.record(document, modifiedBy, {}, client);
+    await client.query("COMMIT");
+
+    session.persistedVersion = snapshot.version;
+    if (session.version === session.persistedVersion) session.dirtySince = null;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("Error saving live document:", error);
+    scheduleFlush(session);
+  } finally {
+    client.release();
+  }
+};
+
+// Saves run one at a time per session
+const flushSession = (session: CollaborationSession): Promise<void> => {
+  if (session.flushTimer) {
+    clearTimeout(session.flushTimer);
+    session.flushTimer = null;
+  }
+  session.flushing = session.flushing.then(() => writeSession(session));
+  return session.flushing;
+};
+
+const scheduleFlush = (session: CollaborationSession) => {
+  if (session.flushTimer) clearTimeout(session.flushTimer);
+  if (session.dirtySince === null) session.dirtySince = Date.now();
+
+  const waited = Date.now() - session.dirtySince;
+  const delay = Math.max(0, Math.min(FLUSH_IDLE_MS, FLUSH_MAX_WAIT_MS - waited));
+  session.flushTimer = setTimeout(() => {
+    session.flushTimer = null;
+    void flushSession(session);
+  }, delay);
+};
+
+/**
+ * Operations applied after a version, or null when the version is no
+ * longer covered by the kept history
+ */
+const operationsSince = (session: CollaborationSession, version: number): TextOperation[] | null => {
+  if (version === session.version) return [];
+  const oldest = session.history[0];
+  if (!oldest || version < oldest.version - 1) return null;
+  return session.history.filter((entry) => entry.version > version).map((entry) => entry.operation);
+};
+
+const mapSelection = (selection: CursorSelection, operations: TextOperation[]): CursorSelection =>
+  operations.reduce(
+    (current, operation) => ({
+      anchor: transformIndex(current.anchor, operation),
+      head: transformIndex(current.head, operation),
+    }),
+    selection
+  );
+
+const isSelection = (value: any): value is CursorSelection =>
+  !!value && Number.isInteger(value.anchor) && Number.isInteger(value.head);
+
+const clampSelection = (selection: CursorSelection, length: number): CursorSelection => ({
+  anchor: Math.min(Math.max(selection.anchor, 0), length),
+  head: Math.min(Math.max(selection.head, 0), length),
+});
+
+/**
+ * Move format offsets (relative to the document right after the client's
+ * operation) through the operations that were transformed to follow it
+ */
+const mapFormatChange = (
+  format: FormatChange,
+  operations: TextOperation[],
+  content: string
+): FormatChange => {
+  const mapIndex = (index: number, insertBefore: boolean) =>
+    operations.reduce((current, operation) => transformIndex(current, operation, insertBefore), index);
+
+  return {
+    ranges: (format.ranges || [])
+      .filter((range) => Number.isInteger(range.startOffset) && Number.isInteger(range.endOffset))
+      .map((range) => ({
+        ...range,
+        startOffset: Math.min(mapIndex(range.startOffset, true), content.length),
+        endOffset: Math.min(mapIndex(range.endOffset, false), content.length),
+      }))
+      .filter((range) => range.endOffset > range.startOffset),
+    paragraphs: (format.paragraphs || [])
+      .filter((paragraph) => Number.isInteger(paragraph.offset))
+      .map((paragraph) => ({
+        ...paragraph,
+        offset: Math.min(mapIndex(paragraph.offset, false), content.length),
+      })),
+  };
+};
+
+const applyFormatChange = (formatting: DocumentFormatting, format: FormatChange, content: string) => {
+  formatting.ranges.push(...(format.ranges || []));
+  for (const paragraph of format.paragraphs || []) {
+    const index = (content.slice(0, paragraph.offset).match(/\n/g) || []).length;
+    formatting.paragraphs[index] = { ...formatting.paragraphs[index], ...paragraph.attributes };
+  }
+};
+
+const applyClientOperation = (
+  session: CollaborationSession,
+  participant: Participant,
+  message: Extract<ClientMessage, { type: "op" }>
+) => {
+  if (participant.role !== "edit") {
+    throw new CollaborationError("read_only", "You can view this document but not edit it");
+  }
+  if (!Number.isInteger(message.baseVersion) || !isTextOperation(message.operation)) {
+    throw new CollaborationError("invalid_operation", "op messages need a baseVersion and an operation");
+  }
+  if (message.baseVersion > session.version) {
+    throw new CollaborationError("version_ahead", "baseVersion is ahead of the document");
+  }
+
+  const concurrent = operationsSince(session, message.baseVersion);
+  if (!concurrent) {
+    throw new CollaborationError("version_too_old", "baseVersion is too old; send sync to start over");
+  }
+
+  let operation = normalize(message.operation);
+  const following: TextOperation[] = [];
+  try {
+    for (const applied of concurrent) {
+      const [operationPrime, appliedPrime] = transform(operation, applied);
+      operation = operationPrime;
+      following.push(appliedPrime);
+    }
+    if (baseLength(operation) !== session.content.length) {
+      throw new OperationError("Operation length does not match the document length");
+    }
+  } catch (error) {
+    if (error instanceof OperationError) {
+      throw new CollaborationError("invalid_operation", error.message);
+    }
+    throw error;
+  }
+
+  const previous = session.content;
+  session.content = applyOperation(previous, operation);
+  session.formatting = transformFormatting(session.formatting, operation, previous, session.content);
+
+  const format = message.format ? mapFormatChange(message.format, following, session.content) : undefined;
+  if (format) applyFormatChange(session.formatting, format, session.content);
+
+  session.version += 1;
+  session.history.push({ version: session.version, operation });
+  if (session.history.length > MAX_HISTORY) session.history.shift();
+  session.lastEditorId = participant.userId;
+
+  for (const other of session.participants.values()) {
+    if (other.selection) other.selection = mapSelection(other.selection, [operation]);
+  }
+  if (isSelection(message.selection)) {
+    participant.selection = clampSelection(
+      mapSelection(message.selection, following),
+      session.content.length
+    );
+  }
+
+  participant.send({ type: "ack", version: session.version });
+  broadcast(
+    session,
+    {
+      type: "op",
+      version: session.version,
+      operation,
+      format,
+      clientId: participant.clientId,
+      userId: participant.userId,
+    },
+    participant.clientId
+  );
+  if (isSelection(message.selection)) {
+    broadcast(session, { type: "presence", participant: participantInfo(participant) }, participant.clientId);
+  }
+
+  scheduleFlush(session);
+};
+
+const updateCursor = (
+  session: CollaborationSession,
+  participant: Participant,
+  message: Extract<ClientMessage, { type: "cursor" }>
+) => {
+  if (message.selection === null) {
+    participant.selection = null;
+  } else {
+    const operations = Number.isInteger(message.version) ? operationsSince(session, message.version) : null;
+    if (!operations || !isSelection(message.selection)) return;
+    participant.selection = clampSelection(
+      mapSelection(message.selection, operations),
+      session.content.length
+    );
+  }
+
+  broadcast(session, { type: "presence", participant: participantInfo(participant) }, participant.clientId);
+};
+
+/**
+ * Add a client to a document's live session, loading the document on
+ * first join. The client receives the current state; others get a join.
+ */
+export const joinSession = async (documentId: string, client: SessionClient): Promise<void> => {
+  const session = await getOrLoadSession(documentId);
+
+  const participant: Participant = {
+    ...client,
+    color: COLORS[session.participants.size % COLORS.length]!,
+    selection: null,
+  };
+  session.participants.set(client.clientId, participant);
+
+  client.send(snapshotMessage(session, "init", participant));
+  broadcast(session, { type: "join", participant: participantInfo(participant) }, client.clientId);
+};
+
+/**
+ * Remove a client; the last one out saves the document and closes the
+ * session
+ */
+export const leaveSession = async (documentId: string, clientId: string): Promise<void> => {
+  const session = sessions.get(documentId);
+  if (!session || !session.participants.delete(clientId)) return;
+
+  broadcast(session, { type: "leave", clientId });
+
+  if (session.participants.size === 0) {
+    await flushSession(session);
+    if (session.participants.size === 0) sessions.delete(documentId);
+  }
+};
+
+export const handleClientMessage = (documentId: string, clientId: string, message: ClientMessage) => {
+  const session = sessions.get(documentId);
+  const participant = session?.participants.get(clientId);
+  if (!session || !participant) return;
+
+  try {
+    switch (message?.type) {
+      case "op":
+        applyClientOperation(session, participant, message);
+        break;
+      case "cursor":
+        updateCursor(session, participant, message);
+        break;
+      case "sync":
+        participant.send(snapshotMessage(session, "init", participant));
+        break;
+      default:
+        throw new CollaborationError("invalid_message", "Unknown message type");
+    }
+  } catch (error) {
+    if (error instanceof CollaborationError) {
+      participant.send({ type: "error", code: error.code, message: error.message });
+      return;
+    }
+    throw error;
+  }
+};
+
+export const isDocumentLive = (documentId: string): boolean => sessions.has(documentId);
+
+/**
+ * Save a live document now so REST writes see (and check against) its
+ * current version
+ */
+export const flushLiveDocument = async (documentId: string): Promise<void> => {
+  const session = sessions.get(documentId);
+  if (session) await flushSession(session);
+};
+
+/**
+ * End a document's live session without saving it, e.g. once the
+ * document is in the trash. Connected clients are told why and
+ * disconnected.
+ */
+export const endLiveSession = (documentId: string, code: CollaborationErrorCode, message: string) => {
+  const session = sessions.get(documentId);
+  if (!session) return;
+
+  if (session.flushTimer) clearTimeout(session.flushTimer);
+  session.flushTimer = null;
+  sessions.delete(documentId);
+
+  for (const participant of session.participants.values()) {
+    participant.send({ type: "error", code, message });
+    participant.close(1008, code);
+  }
+  session.participants.clear();
+};
+
+/**
+ * Check again what the participants of some documents' live sessions may
+ * do, e.g. after a share changed. Participants whose role changed are told
+ * through a presence update; those who lost access are disconnected.
+ */
+export const refreshLiveRoles = async (documentIds: string[]): Promise<void> => {
+  for (const documentId of documentIds) {
+    const session = sessions.get(documentId);
+    if (!session) continue;
+    const document = await DocumentModel.findById(documentId);
+    if (!document) continue;
+
+    for (const participant of [...session.participants.values()]) {
+      const role = await resolveCollaborationRole(
+        document,
+        { id: participant.userId, user_type: participant.userType },
+        participant.schoolId
+      );
+
+      if (!role) {
+        // Read-only until the socket has closed and the client left
+        participant.role = "view";
+        participant.send({
+          type: "error",
+          code: "access_revoked",
+          message: "You no longer have access to this document",
+        });
+        participant.close(1008, "access_revoked");
+        continue;
+      }
+      if (role !== participant.role) {
+        participant.role = role;
+        broadcast(session, { type: "presence", participant: participantInfo(participant) });
+      }
+    }
+  }
+};
+
+/**
+ * Bring a live session in line with a document written outside it. A
+ * metadata-only change (same content) keeps the session going at the new
+ * version; anything else resets connected clients to the stored state.
+ */
+export const syncLiveDocument = (document: Document) => {
+  const session = sessions.get(document.id);
+  if (!session || document.version === session.version) return;
+
+  const sameContent =
+    (document.content || "") === session.content &&
+    JSON.stringify(emptyFormatting(document.formatting)) === JSON.stringify(session.formatting);
+
+  if (!sameContent || document.version !== session.version + 1 || session.version !== session.persistedVersion) {
+    resetSession(session, document);
+    return;
+  }
+
+  // Keep version numbers contiguous for clients with an identity operation
+  const operation: TextOperation = session.content.length > 0 ? [session.content.length] : [];
+  session.version = document.version;
+  session.persistedVersion = document.version;
+  session.title = document.title;
+  session.history.push({ version: session.version, operation });
+  if (session.history.length > MAX_HISTORY) session.history.shift();
+
+  broadcast(session, { type: "op", version: session.version, operation, clientId: null, userId: null });
+  broadcast(session, { type: "metadata", version: session.version, title: session.title });
+};
+
+/**
+ * Save every live document, e.g. before the process exits
+ */
+export const flushAllLiveDocuments = async (): Promise<void> => {
+  await Promise.all([...sessions.values()].map((session) => flushSession(session)));
+};
@@ -0,0 +1,120 @@
+import { PoolClient } from "pg";
+import { pool } from "../config/postgres.db.js";
+import { CommentBankModel } from "../models/comment-bank.model.js";
+import type {
+  CommentBankRow,
+  CommentPlaceholderContext,
+} from "../types/comment-bank.types.js";
+import { renderPlaceholders } from "../utils/comment-bank.utils.js";
+
+export interface CommentTarget {
+  submissionId?: string | null;
+  studentId?: string | null;
+  assignmentId?: string | null;
+}
+
+export interface RenderedBankComment {
+  entry: CommentBankRow;
+  title: string;
+  body: string;
+  missing: string[];
+}
+
+const fullName = (first?: string | null, last?: string | null): string | null =>
+  [first, last].filter(Boolean).join(" ") || null;
+
+/**
+ * Collect placeholder values for a comment target. A submission implies its
+ * student and assignment; explicit ids are used when no submission is given.
+ */
+const buildPlaceholderContext = async (
+  schoolId: string,
+  teacherId: string,
+  target: CommentTarget,
+  db: PoolClient | typeof pool
+): Promise<CommentPlaceholderContext> => {
+  let studentId = target.studentId || null;
+  let assignmentId = target.assignmentId || null;
+
+  if (target.submissionId) {
+    const submission = await db.query(
+      "SELECT student_id, assignment_id FROM submissions WHERE id = $1 AND school_id = $2",
+      [target.submissionId, schoolId]
+    );
+    if (submission.rows[0]) {
+      studentId = submission.rows[0].student_id;
+      assignmentId = submission.rows[0].assignment_id;
+    }
+  }
+
+  const context: CommentPlaceholderContext = {};
+
+  const teacher = await db.query(
+    "SELECT first_name, last_name FROM users WHERE id = $1",
+    [teacherId]
+  );
+  if (teacher.rows[0]) {
+    context.teacher_name = fullName(teacher.rows[0].first_name, teacher.rows[0].last_name);
+  }
+
+  if (studentId) {
+    const student = await db.query(
+      "SELECT first_name, last_name FROM users WHERE id = $1 AND school_id = $2",
+      [studentId, schoolId]
+    );
+    if (student.rows[0]) {
+      context.student_first_name = student.rows[0].first_name || null;
+      context.student_last_name = student.rows[0].last_name || null;
+      context.student_name = fullName(student.rows[0].first_name, student.rows[0].last_name);
+    }
+  }
+
+  if (assignmentId) {
+    const assignment = await db.query(
+      `SELECT a.title, c.class_name
+       FROM assignments a
+       LEFT JOIN classes c ON a.class_id = c.id
+       WHERE a.id = $1 AND a.school_id = $2`,
+      [assignmentId, schoolId]
+    );
+    if (assignment.rows[0]) {
+      context.assignment_title = assignment.rows[0].title;
+      context.class_name = assignment.rows[0].class_name || null;
+    }
+  }
+
+  return context;
+};
+
+/**
+ * Render a comment bank entry for a student and assignment. When
+ * recordUsage is set the entry's usage count is bumped, so previews should
+ * pass false and actual insertions into feedback true.
+ */
+export const renderBankComment = async (
+  entryId: string,
+  schoolId: string,
+  userId: string,
+  target: CommentTarget,
+  options: { recordUsage?: boolean } = {},
+  client?: PoolClient
+): Promise<RenderedBankComment | null> => {
+  const db = client || pool;
+  const entry = await CommentBankModel.findVisibleById(entryId, schoolId, userId, client);
+  if (!entry) return null;
+
+  const context = await buildPlaceholderContext(schoolId, userId, target, db);
+  const title = renderPlaceholders(entry.title, context);
+  const body = renderPlaceholders(entry.body, context);
+
+  if (options.recordUsage) {
+    await CommentBankModel.incrementUsage(entry.id, client);
+  }
+
+  return {
+    entry,
+    title: title.text,
+    body: body.text,
+    missing: [...new Set([...title.missing, ...body.missing])],
+  };
+};
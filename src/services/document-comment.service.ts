@@ -0,0 +1,150 @@
+import { DocumentCommentModel, CommentSelection } from "../models/document-comment.model.js";
+import { flushLiveDocument } from "./collaboration.service.js";
+import { ShareError, hasAccess, requireDocumentAccess } from "./sharing.service.js";
+
+const MAX_COMMENT_LENGTH = 5000;
+const MAX_QUOTE_LENGTH = 500;
+
+export type CommentErrorCode = "comment_not_found" | "invalid_comment";
+
+const STATUS_BY_CODE: Record<CommentErrorCode, number> = {
+  comment_not_found: 404,
+  invalid_comment: 400,
+};
+
+export class CommentError extends Error {
+  constructor(public code: CommentErrorCode, message: string) {
+    super(message);
+  }
+
+  get status(): number {
+    return STATUS_BY_CODE[this.code];
+  }
+}
+
+const toComment = (row: any) => ({
+  id: row.id,
+  document_id: row.document_id,
+  author: {
+    id: row.author_id,
+    name: [row.author_first_name, row.author_last_name].filter(Boolean).join(" ") || null,
+  },
+  body: row.body,
+  selection: row.selection,
+  quoted_text: row.quoted_text,
+  resolved: !!row.resolved_at,
+  resolved_at: row.resolved_at,
+  resolved_by: row.resolved_by,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+const readBody = (body: unknown): string => {
+  const text = typeof body === "string" ? body.trim() : "";
+  if (!text) {
+    throw new CommentError("invalid_comment", "body is required");
+  }
+  if (text.length > MAX_COMMENT_LENGTH) {
+    throw new CommentError("invalid_comment", `body must be at most ${MAX_COMMENT_LENGTH} characters`);
+  }
+  return text;
+};
+
+const readSelection = (selection: any, content: string): CommentSelection | null => {
+  if (selection === undefined || selection === null) return null;
+  const { startOffset, endOffset } = selection;
+  if (
+    !Number.isInteger(startOffset) ||
+    !Number.isInteger(endOffset) ||
+    startOffset < 0 ||
+    endOffset <= startOffset ||
+    endOffset > content.length
+  ) {
+    throw new CommentError("invalid_comment", "selection must be a range of the document's text");
+  }
+  return { startOffset, endOffset };
+};
+
+/**
+ * Comments on a document the user can view
+ */
+export const listComments = async (documentId: string, userId: string) => {
+  await requireDocumentAccess(documentId, userId, "view");
+  return (await DocumentCommentModel.findByDocument(documentId)).map(toComment);
+};
+
+/**
+ * Comment on a document (comment access or better). A selection quotes
+ * the passage as it reads now, including unsaved live edits.
+ */
+export const addComment = async (documentId: string, userId: string, input: any) => {
+  await flushLiveDocument(documentId);
+  const { document } = await requireDocumentAccess(documentId, userId, "comment");
+
+  const body = readBody(input?.body);
+  const selection = readSelection(input?.selection, document.content || "");
+  const row = await DocumentCommentModel.create({
+    document_id: documentId,
+    author_id: userId,
+    body,
+    selection,
+    quoted_text: selection
+      ? document.content.slice(selection.startOffset, selection.endOffset).slice(0, MAX_QUOTE_LENGTH)
+      : null,
+  });
+  return toComment(row);
+};
+
+/**
+ * Edit a comment (its author only) and/or resolve or reopen it (its
+ * author, or anyone who can edit the document)
+ * @param input - { body?, resolved? }
+ */
+export const updateComment = async (documentId: string, commentId: string, userId: string, input: any) => {
+  const { access } = await requireDocumentAccess(documentId, userId, "comment");
+  const comment = await DocumentCommentModel.findById(commentId, documentId);
+  if (!comment) {
+    throw new CommentError("comment_not_found", "Comment not found");
+  }
+
+  const isAuthor = comment.author_id === userId;
+  const changes: { body?: string; resolved_by?: string | null } = {};
+
+  if (input?.body !== undefined) {
+    if (!isAuthor) {
+      throw new ShareError("forbidden", "Only the author can edit this comment");
+    }
+    changes.body = readBody(input.body);
+  }
+  if (input?.resolved !== undefined) {
+    if (typeof input.resolved !== "boolean") {
+      throw new CommentError("invalid_comment", "resolved must be true or false");
+    }
+    if (!isAuthor && !hasAccess(access, "edit")) {
+      throw new ShareError("forbidden", "You do not have permission to resolve this comment");
+    }
+    changes.resolved_by = input.resolved ? userId : null;
+  }
+
+  const updated = await DocumentCommentModel.update(commentId, documentId, changes);
+  if (!updated) {
+    throw new CommentError("comment_not_found", "Comment not found");
+  }
+  return toComment(updated);
+};
+
+/**
+ * Delete a comment: its author (while they can still comment) or the
+ * document's owner
+ */
+export const deleteComment = async (documentId: string, commentId: string, userId: string) => {
+  const { access } = await requireDocumentAccess(documentId, userId, "comment");
+  const comment = await DocumentCommentModel.findById(commentId, documentId);
+  if (!comment) {
+    throw new CommentError("comment_not_found", "Comment not found");
+  }
+  if (comment.author_id !== userId && access !== "owner") {
+    throw new ShareError("forbidden", "Only the author or the owner can delete this comment");
+  }
+  await DocumentCommentModel.delete(commentId, documentId);
+};
@@ -0,0 +1,442 @@
+import {
+  AlignmentType,
+  Document as DocxDocument,
+  HeadingLevel,
+  Packer,
+  Paragraph,
+  ShadingType,
+  TextRun,
+} from "docx";
+import PDFDocument from "pdfkit";
+import type { Document, ParagraphAttributes } from "../models/document.model.js";
+import type { CitationRun } from "../utils/citation.utils.js";
+import {
+  RenderAttributes,
+  RenderBlock,
+  RenderModel,
+  RenderRun,
+  buildRenderModel,
+} from "../utils/document-render.utils.js";
+
+export type ExportFormat = "docx" | "pdf" | "markdown" | "html";
+
+export const EXPORT_FORMATS: Record<string, ExportFormat> = {
+  docx: "docx",
+  pdf: "pdf",
+  md: "markdown",
+  markdown: "markdown",
+  html: "html",
+};
+
+export interface ExportedFile {
+  buffer: Buffer;
+  contentType: string;
+  extension: string;
+}
+
+const DEFAULT_FONT_SIZE = 12;
+const HEADING_SIZES = [24, 20, 16, 14, 12, 12];
+
+// Only plain hex colours are passed through to the output formats
+const hexColor = (value?: string): string | undefined => {
+  if (!value) return undefined;
+  const match = /^#?([0-9a-f]{6}|[0-9a-f]{3})$/i.exec(value.trim());
+  if (!match) return undefined;
+  const hex = match[1]!;
+  return hex.length === 3 ? hex.split("").map((c) => c + c).join("") : hex;
+};
+
+const TEXT_ALIGNMENTS = ["left", "center", "right", "justify"] as const;
+type TextAlignment = (typeof TEXT_ALIGNMENTS)[number];
+
+// Paragraph formatting comes from the client; unknown alignments are dropped
+const textAlign = (value?: string): TextAlignment | undefined =>
+  TEXT_ALIGNMENTS.includes(value as TextAlignment) ? (value as TextAlignment) : undefined;
+
+const MIN_FONT_SIZE = 1;
+const MAX_FONT_SIZE = 96;
+
+// Font size in points within MIN_FONT_SIZE..MAX_FONT_SIZE, or undefined
+const fontSize = (value?: number): number | undefined => {
+  const size = Number(value);
+  if (!value || !Number.isFinite(size) || size <= 0) return undefined;
+  return Math.min(Math.max(size, MIN_FONT_SIZE), MAX_FONT_SIZE);
+};
+
+const MIN_LINE_HEIGHT = 0.5;
+const MAX_LINE_HEIGHT = 5;
+
+// Line height as a multiple of the font size within MIN_LINE_HEIGHT..MAX_LINE_HEIGHT, or undefined
+const lineHeight = (value?: number): number | undefined => {
+  const height = Number(value);
+  if (!value || !Number.isFinite(height) || height <= 0) return undefined;
+  return Math.min(Math.max(height, MIN_LINE_HEIGHT), MAX_LINE_HEIGHT);
+};
+
+// Font names are letters, digits, spaces, hyphens and commas (a list of fallbacks)
+const fontFamily = (value?: string): string | undefined => {
+  const family = typeof value === "string" ? value.trim() : "";
+  return family && /^[\p{L}\p{N} _,-]+$/u.test(family) ? family : undefined;
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// ---------------------------------------------------------------- HTML
+
+const htmlRun = (run: RenderRun): string => {
+  const { attributes } = run;
+  let html = escapeHtml(run.text);
+
+  const styles: string[] = [];
+  const color = hexColor(attributes.color);
+  const background = hexColor(attributes.backgroundColor);
+  if (color) styles.push(`color: #${color}`);
+  if (background) styles.push(`background-color: #${background}`);
+  const family = fontFamily(attributes.fontFamily);
+  if (family && !attributes.code) styles.push(`font-family: ${family}`);
+  const size = fontSize(attributes.fontSize);
+  if (size) styles.push(`font-size: ${size}pt`);
+  if (styles.length > 0) html = `<span style="${styles.join("; ")}">${html}</span>`;
+
+  if (attributes.code) html = `<code>${html}</code>`;
+  if (attributes.strikethrough) html = `<s>${html}</s>`;
+  if (attributes.underline) html = `<u>${html}</u>`;
+  if (attributes.italic) html = `<em>${html}</em>`;
+  if (attributes.bold) html = `<strong>${html}</strong>`;
+  return html;
+};
+
+const htmlParagraphStyle = (attributes: ParagraphAttributes): string => {
+  const styles: string[] = [];
+  const align = textAlign(attributes.textAlign);
+  if (align) styles.push(`text-align: ${align}`);
+  const height = lineHeight(attributes.lineHeight);
+  if (height) styles.push(`line-height: ${height}`);
+  return styles.length > 0 ? ` style="${styles.join("; ")}"` : "";
+};
+
+const citationHtml = (entry: CitationRun[]): string =>
+  entry.map((run) => (run.italic ? `<em>${escapeHtml(run.text)}</em>` : escapeHtml(run.text))).join("");
+
+const toHtml = (model: RenderModel): string => {
+  const body: string[] = [];
+  let openList: "ul" | "ol" | null = null;
+
+  const closeList = () => {
+    if (openList) body.push(`</${openList}>`);
+    openList = null;
+  };
+
+  for (const block of model.blocks) {
+    const content = block.runs.map(htmlRun).join("") || "<br>";
+    const style = htmlParagraphStyle(block.attributes);
+
+    if (block.kind === "list-item") {
+      const tag = block.ordered ? "ol" : "ul";
+      if (openList !== tag) {
+        closeList();
+        body.push(`<${tag}>`);
+        openList = tag;
+      }
+      body.push(`<li${style}>${content}</li>`);
+      continue;
+    }
+
+    closeList();
+    if (block.kind === "heading") {
+      body.push(`<h${block.level}${style}>${content}</h${block.level}>`);
+    } else {
+      body.push(`<p${style}>${content}</p>`);
+    }
+  }
+  closeList();
+
+  if (model.bibliography.entries.length > 0) {
+    body.push(`<section class="bibliography">`);
+    body.push(`<h2>${escapeHtml(model.bibliography.heading)}</h2>`);
+    for (const entry of model.bibliography.entries) {
+      body.push(`<p class="citation">${citationHtml(entry)}</p>`);
+    }
+    body.push(`</section>`);
+  }
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(model.title)}</title>
+<style>
+  body { font-family: "Times New Roman", serif; font-size: ${DEFAULT_FONT_SIZE}pt; max-width: 8.5in; margin: 1in auto; }
+  ol { list-style: none; padding-left: 0; }
+  .bibliography { margin-top: 2em; page-break-before: always; }
+  .bibliography h2 { text-align: center; }
+  .citation { padding-left: 0.5in; text-indent: -0.5in; }
+</style>
+</head>
+<body>
+${body.join("\n")}
+</body>
+</html>
+`;
+};
+
+// ------------------------------------------------------------ Markdown
+
+const escapeMarkdown = (value: string): string => value.replace(/([\\`*_~[\]<>#])/g, "\\$1");
+
+const markdownRun = (run: RenderRun): string => {
+  const { attributes } = run;
+  // Markers must hug the text; keep surrounding whitespace outside them
+  const [, leading, core, trailing] = /^(\s*)([\s\S]*?)(\s*)$/.exec(run.text)!;
+  if (!core) return run.text;
+
+  let text = attributes.code ? `\`${core}\`` : escapeMarkdown(core!);
+  if (attributes.strikethrough) text = `~~${text}~~`;
+  if (attributes.underline) text = `<u>${text}</u>`;
+  if (attributes.italic) text = `*${text}*`;
+  if (attributes.bold) text = `**${text}**`;
+  return `${leading}${text}${trailing}`;
+};
+
+const toMarkdown = (model: RenderModel): string => {
+  const lines: string[] = [];
+  let previous: RenderBlock | null = null;
+
+  for (const block of model.blocks) {
+    const text = block.runs.map(markdownRun).join("");
+    // Blank lines already separate paragraphs
+    if (!text.trim() && block.kind === "paragraph") continue;
+    // Consecutive list items stay in one list; everything else is its own paragraph
+    if (previous && !(previous.kind === "list-item" && block.kind === "list-item")) lines.push("");
+
+    if (block.kind === "heading") lines.push(`${"#".repeat(block.level || 1)} ${text}`);
+    else if (block.kind === "list-item" && !block.ordered) lines.push(`- ${text}`);
+    else lines.push(text);
+    previous = block;
+  }
+
+  if (model.bibliography.entries.length > 0) {
+    lines.push("", `## ${model.bibliography.heading}`, "");
+    for (const entry of model.bibliography.entries) {
+      lines.push(
+        entry.map((run) => (run.italic ? `*${escapeMarkdown(run.text)}*` : escapeMarkdown(run.text))).join(""),
+        ""
+      );
+    }
+  }
+
+  return `${lines.join("\n").trimEnd()}\n`;
+};
+
+// ---------------------------------------------------------------- DOCX
+
+const DOCX_ALIGNMENT = {
+  left: AlignmentType.LEFT,
+  center: AlignmentType.CENTER,
+  right: AlignmentType.RIGHT,
+  justify: AlignmentType.JUSTIFIED,
+} as const;
+
+const DOCX_HEADINGS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
+const docxRun = (run: RenderRun): TextRun => {
+  const { attributes } = run;
+  const color = hexColor(attributes.color);
+  const background = hexColor(attributes.backgroundColor);
+  const size = fontSize(attributes.fontSize);
+  return new TextRun({
+    text: run.text,
+    bold: attributes.bold,
+    italics: attributes.italic,
+    underline: attributes.underline ? {} : undefined,
+    strike: attributes.strikethrough,
+    color,
+    shading: background ? { type: ShadingType.CLEAR, fill: background, color: "auto" } : undefined,
+    font: fontFamily(attributes.fontFamily),
+    size: size ? Math.round(size * 2) : undefined,
+  });
+};
+
+const docxParagraphOptions = (attributes: ParagraphAttributes) => {
+  const align = textAlign(attributes.textAlign);
+  const height = lineHeight(attributes.lineHeight);
+  return {
+    alignment: align ? DOCX_ALIGNMENT[align] : undefined,
+    spacing: height ? { line: Math.round(height * 240) } : undefined,
+  };
+};
+
+const toDocx = async (model: RenderModel): Promise<Buffer> => {
+  const children: Paragraph[] = model.blocks.map(
+    (block) =>
+      new Paragraph({
+        ...docxParagraphOptions(block.attributes),
+        heading: block.kind === "heading" ? DOCX_HEADINGS[(block.level || 1) - 1] : undefined,
+        bullet: block.kind === "list-item" && !block.ordered ? { level: 0 } : undefined,
+        children: block.runs.map(docxRun),
+      })
+  );
+
+  if (model.bibliography.entries.length > 0) {
+    children.push(
+      new Paragraph({
+        pageBreakBefore: true,
+        alignment: AlignmentType.CENTER,
+        children: [new TextRun({ text: model.bibliography.heading, bold: true })],
+      })
+    );
+    for (const entry of model.bibliography.entries) {
+      children.push(
+        new Paragraph({
+          indent: { left: 720, hanging: 720 },
+          children: entry.map((run) => new TextRun({ text: run.text, italics: run.italic })),
+        })
+      );
+    }
+  }
+
+  const document = new DocxDocument({
+    title: model.title,
+    styles: {
+      default: {
+        document: { run: { font: "Times New Roman", size: DEFAULT_FONT_SIZE * 2 } },
+      },
+    },
+    sections: [{ children }],
+  });
+
+  return Packer.toBuffer(document);
+};
+
+// ----------------------------------------------------------------- PDF
+
+/**
+ * The PDF uses the standard Times, Helvetica and Courier faces so no font
+ * files are needed; characters outside their Latin-1 range do not render
+ */
+const pdfFont = (attributes: RenderAttributes, bold = false): string => {
+  const family = (attributes.fontFamily || "").toLowerCase();
+  const base = attributes.code || /courier|mono/.test(family)
+    ? "Courier"
+    : /arial|helvetica|sans|verdana|calibri/.test(family)
+      ? "Helvetica"
+      : "Times";
+  const isBold = bold || !!attributes.bold;
+  const isItalic = !!attributes.italic;
+
+  if (base === "Times") {
+    if (isBold && isItalic) return "Times-BoldItalic";
+    if (isBold) return "Times-Bold";
+    if (isItalic) return "Times-Italic";
+    return "Times-Roman";
+  }
+  if (isBold && isItalic) return `${base}-BoldOblique`;
+  if (isBold) return `${base}-Bold`;
+  if (isItalic) return `${base}-Oblique`;
+  return base;
+};
+
+const toPdf = (model: RenderModel): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const pdf = new PDFDocument({ size: "LETTER", margin: 72, info: { Title: model.title } });
+    const chunks: Buffer[] = [];
+    pdf.on("data", (chunk: Buffer) => chunks.push(chunk));
+    pdf.on("end", () => resolve(Buffer.concat(chunks)));
+    pdf.on("error", reject);
+
+    for (const block of model.blocks) {
+      const align = textAlign(block.attributes.textAlign) || "left";
+      const height = lineHeight(block.attributes.lineHeight);
+      const lineGap = height ? Math.max(0, (height - 1) * DEFAULT_FONT_SIZE) : 0;
+      const headingSize = block.kind === "heading" ? HEADING_SIZES[(block.level || 1) - 1] : undefined;
+      const runs: RenderRun[] =
+        block.kind === "list-item" && !block.ordered
+          ? [{ text: "•  ", attributes: {} }, ...block.runs]
+          : block.runs;
+
+      if (runs.length === 0) {
+        pdf.font("Times-Roman").fontSize(DEFAULT_FONT_SIZE).text(" ", { align, lineGap });
+        continue;
+      }
+
+      runs.forEach((run, index) => {
+        const color = hexColor(run.attributes.color);
+        pdf
+          .font(pdfFont(run.attributes, block.kind === "heading"))
+          .fontSize(headingSize || fontSize(run.attributes.fontSize) || DEFAULT_FONT_SIZE)
+          .fillColor(color ? `#${color}` : "black")
+          .text(run.text, {
+            align,
+            lineGap,
+            underline: !!run.attributes.underline,
+            strike: !!run.attributes.strikethrough,
+            continued: index < runs.length - 1,
+          });
+      });
+    }
+
+    if (model.bibliography.entries.length > 0) {
+      pdf.addPage();
+      pdf.font("Times-Bold").fontSize(DEFAULT_FONT_SIZE).fillColor("black")
+        .text(model.bibliography.heading, { align: "center" });
+      pdf.moveDown();
+
+      // Hanging indent: wrap lines at the left margin plus half an inch
+      const hanging = 36;
+      for (const entry of model.bibliography.entries) {
+        entry.forEach((run, index) => {
+          pdf.font(run.italic ? "Times-Italic" : "Times-Roman").fontSize(DEFAULT_FONT_SIZE);
+          const options = { indent: -hanging, continued: index < entry.length - 1 };
+          if (index === 0) pdf.text(run.text, pdf.page.margins.left + hanging, pdf.y, options);
+          else pdf.text(run.text, options);
+        });
+        pdf.moveDown(0.5);
+      }
+    }
+
+    pdf.end();
+  });
+
+/**
+ * Render a document (content, character ranges, paragraph attributes and
+ * a bibliography of its sources in its citation style) to a file. All
+ * formats are produced locally without network access.
+ */
+export const exportDocument = async (document: Document, format: ExportFormat): Promise<ExportedFile> => {
+  const model = buildRenderModel(document);
+
+  switch (format) {
+    case "docx":
+      return {
+        buffer: await toDocx(model),
+        contentType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+        extension: "docx",
+      };
+    case "pdf":
+      return { buffer: await toPdf(model), contentType: "application/pdf", extension: "pdf" };
+    case "markdown":
+      return {
+        buffer: Buffer.from(toMarkdown(model), "utf8"),
+        contentType: "text/markdown; charset=utf-8",
+        extension: "md",
+      };
+    case "html":
+      return {
+        buffer: Buffer.from(toHtml(model), "utf8"),
+        contentType: "text/html; charset=utf-8",
+        extension: "html",
+      };
+  }
+};
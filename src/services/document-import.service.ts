@@ -0,0 +1,679 @@
+import JSZip from "jszip";
+import { Parser } from "htmlparser2";
+import type {
+  ContentFormat,
+  DocumentFormatting,
+  FormatRange,
+  ParagraphAttributes,
+  TextAttributes,
+} from "../models/document.model.js";
+
+export type ImportErrorCode = "unsupported_type" | "invalid_file" | "empty_file";
+
+export class ImportError extends Error {
+  constructor(public code: ImportErrorCode, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Formatting found in an upload that has no equivalent in a document;
+ * the surrounding text is kept
+ */
+export interface ImportWarning {
+  feature: string;
+  message: string;
+  count: number;
+}
+
+export interface ImportedDocument {
+  title: string;
+  content: string;
+  content_format: ContentFormat;
+  formatting: DocumentFormatting;
+  warnings: ImportWarning[];
+}
+
+export interface ImportFile {
+  buffer: Buffer;
+  originalname: string;
+}
+
+export const IMPORT_EXTENSIONS = ["docx", "md", "markdown", "html", "htm", "txt"];
+
+const LOST_FEATURES: Record<string, string> = {
+  images: "Images and drawings were removed",
+  tables: "Table layout was flattened to one paragraph per row",
+  links: "Link addresses were removed; the link text was kept",
+  footnotes: "Footnotes and endnotes were removed",
+  comments: "Comments were removed",
+  subscript: "Superscript and subscript were imported as normal text",
+  page_breaks: "Page and section breaks were removed",
+  list_numbering: "List numbering was replaced with bullets",
+};
+
+const HEADING_SIZES = [24, 20, 16, 14, 12, 12];
+const MONOSPACE_FONT = "Courier New";
+
+// Word highlight names
+const HIGHLIGHT_COLORS: Record<string, string> = {
+  yellow: "#ffff00",
+  green: "#00ff00",
+  cyan: "#00ffff",
+  magenta: "#ff00ff",
+  blue: "#0000ff",
+  red: "#ff0000",
+  darkBlue: "#000080",
+  darkCyan: "#008080",
+  darkGreen: "#008000",
+  darkMagenta: "#800080",
+  darkRed: "#800000",
+  darkYellow: "#808000",
+  darkGray: "#808080",
+  lightGray: "#c0c0c0",
+  black: "#000000",
+  white: "#ffffff",
+};
+
+const sameAttributes = (a: TextAttributes, b: TextAttributes): boolean => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  for (const key of keys) {
+    if ((a as any)[key] !== (b as any)[key]) return false;
+  }
+  return true;
+};
+
+const compact = <T extends object>(attributes: T): T =>
+  Object.fromEntries(
+    Object.entries(attributes).filter(([, value]) => value !== undefined && value !== false && value !== "")
+  ) as T;
+
+/**
+ * Accumulates paragraphs of styled text into editor content and
+ * formatting: paragraphs joined by line breaks, ranges as UTF-16 offsets
+ */
+class ContentBuilder {
+  private paragraphs: string[] = [""];
+  private ranges: FormatRange[] = [];
+  private paragraphAttributes: Record<number, ParagraphAttributes> = {};
+  private offset = 0;
+  private warnings = new Map<string, number>();
+
+  get currentText(): string {
+    return this.paragraphs[this.paragraphs.length - 1]!;
+  }
+
+  append(text: string, attributes: TextAttributes = {}) {
+    if (!text) return;
+    const index = this.paragraphs.length - 1;
+    this.paragraphs[index] += text;
+
+    const start = this.offset;
+    this.offset += text.length;
+    const cleaned = compact(attributes);
+    if (Object.keys(cleaned).length === 0) return;
+
+    const last = this.ranges[this.ranges.length - 1];
+    if (last && last.endOffset === start && sameAttributes(last.attributes, cleaned)) {
+      last.endOffset = this.offset;
+    } else {
+      this.ranges.push({ startOffset: start, endOffset: this.offset, attributes: cleaned });
+    }
+  }
+
+  setParagraph(attributes: ParagraphAttributes) {
+    const cleaned = compact(attributes);
+    const index = this.paragraphs.length - 1;
+    if (Object.keys(cleaned).length > 0) this.paragraphAttributes[index] = cleaned;
+    else delete this.paragraphAttributes[index];
+  }
+
+  newParagraph() {
+    this.paragraphs.push("");
+    this.offset += 1;
+  }
+
+  // Start a paragraph unless the current one is still empty
+  ensureParagraph() {
+    if (this.currentText !== "") this.newParagraph();
+  }
+
+  warn(feature: keyof typeof LOST_FEATURES) {
+    this.warnings.set(feature, (this.warnings.get(feature) || 0) + 1);
+  }
+
+  build(): { content: string; formatting: DocumentFormatting; warnings: ImportWarning[] } {
+    // Drop trailing empty paragraphs
+    while (this.paragraphs.length > 1 && this.currentText.trim() === "") {
+      const removed = this.paragraphs.pop()!;
+      delete this.paragraphAttributes[this.paragraphs.length];
+      this.offset -= removed.length + 1;
+    }
+    const content = this.paragraphs.join("\n");
+    return {
+      content,
+      formatting: {
+        ranges: this.ranges.filter((range) => range.startOffset < content.length),
+        paragraphs: this.paragraphAttributes,
+      },
+      warnings: [...this.warnings].map(([feature, count]) => ({
+        feature,
+        message: LOST_FEATURES[feature]!,
+        count,
+      })),
+    };
+  }
+}
+
+// ---------------------------------------------------------------- DOCX
+
+const DOCX_ALIGNMENT: Record<string, ParagraphAttributes["textAlign"]> = {
+  left: "left",
+  start: "left",
+  center: "center",
+  right: "right",
+  end: "right",
+  both: "justify",
+  distribute: "justify",
+};
+
+// <w:b/>, <w:b w:val="true"/> are on; w:val="0"/"false"/"none" is off
+const toggle = (attributes: Record<string, string>): boolean => {
+  const value = attributes["w:val"];
+  return value === undefined || !["0", "false", "off", "none"].includes(value);
+};
+
+const headingLevel = (styleId: string): number | null => {
+  if (/^title$/i.test(styleId)) return 1;
+  const match = /^heading\s*([1-6])$/i.exec(styleId);
+  return match ? Number(match[1]) : null;
+};
+
+/**
+ * Largest part of a DOCX we inflate. The upload limit only caps the
+ * compressed size, so a small archive could otherwise expand to gigabytes.
+ */
+const MAX_DOCX_PART_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Text of a part of a DOCX archive, or undefined when it is missing.
+ * Inflating stops as soon as the part grows past MAX_DOCX_PART_BYTES.
+ */
+const readZipPart = (zip: JSZip, path: string): Promise<string | undefined> => {
+  const file = zip.file(path);
+  if (!file) return Promise.resolve(undefined);
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = file.nodeStream("nodebuffer");
+
+    stream.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_DOCX_PART_BYTES) {
+        stream.pause();
+        stream.removeAllListeners("data");
+        reject(new ImportError("invalid_file", "Document is too large to import"));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    stream.on("error", () => reject(new ImportError("invalid_file", "File is not a valid DOCX document")));
+  });
+};
+
+const readCoreTitle = async (zip: JSZip): Promise<string> => {
+  const core = await readZipPart(zip, "docProps/core.xml");
+  const match = core ? /<dc:title>([^<]*)<\/dc:title>/.exec(core) : null;
+  return match ? decodeXmlText(match[1]!).trim() : "";
+};
+
+const decodeXmlText = (value: string): string =>
+  value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+
+/**
+ * Read a Word document's body. Direct run and paragraph formatting is
+ * kept along with the built-in heading styles; styles defined in
+ * styles.xml are not resolved.
+ */
+const importDocx = async (buffer: Buffer): Promise<{ title: string } & ReturnType<ContentBuilder["build"]>> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch {
+    throw new ImportError("invalid_file", "File is not a valid DOCX document");
+  }
+  const xml = await readZipPart(zip, "word/document.xml");
+  if (!xml) throw new ImportError("invalid_file", "File is not a valid DOCX document");
+
+  const builder = new ContentBuilder();
+  let started = false;
+  let paragraph: ParagraphAttributes = {};
+  let paragraphBase: TextAttributes = {};
+  let run: TextAttributes = {};
+  let inParagraphProps = false;
+  let inRunProps = false;
+  let inText = false;
+  let listPrefix = "";
+
+  const parser = new Parser(
+    {
+      onopentag(name, attributes) {
+        switch (name) {
+          case "w:p":
+            if (started) builder.newParagraph();
+            started = true;
+            paragraph = {};
+            paragraphBase = {};
+            listPrefix = "";
+            break;
+          case "w:pPr":
+            inParagraphProps = true;
+            break;
+          case "w:pStyle": {
+            const level = headingLevel(attributes["w:val"] || "");
+            if (level) paragraphBase = { bold: true, fontSize: HEADING_SIZES[level - 1] };
+            else if (/quote$/i.test(attributes["w:val"] || "")) paragraphBase = { italic: true };
+            break;
+          }
+          case "w:jc":
+            paragraph.textAlign = DOCX_ALIGNMENT[attributes["w:val"] || ""];
+            break;
+          case "w:spacing":
+            if (inParagraphProps && attributes["w:line"] && (attributes["w:lineRule"] || "auto") === "auto") {
+              paragraph.lineHeight = Math.round((Number(attributes["w:line"]) / 240) * 100) / 100 || undefined;
+            }
+            break;
+          case "w:numPr":
+            listPrefix = "• ";
+            builder.warn("list_numbering");
+            break;
+          case "w:r":
+            run = {};
+            break;
+          case "w:rPr":
+            // The paragraph mark's run properties style nothing visible
+            inRunProps = !inParagraphProps;
+            break;
+          case "w:b":
+            if (inRunProps) run.bold = toggle(attributes);
+            break;
+          case "w:i":
+            if (inRunProps) run.italic = toggle(attributes);
+            break;
+          case "w:u":
+            if (inRunProps) run.underline = toggle(attributes);
+            break;
+          case "w:strike":
+          case "w:dstrike":
+            if (inRunProps) run.strikethrough = toggle(attributes);
+            break;
+          case "w:color": {
+            const color = attributes["w:val"];
+            if (inRunProps && color && /^[0-9a-f]{6}$/i.test(color)) run.color = `#${color.toLowerCase()}`;
+            break;
+          }
+          case "w:highlight":
+            if (inRunProps && HIGHLIGHT_COLORS[attributes["w:val"] || ""]) {
+              run.backgroundColor = HIGHLIGHT_COLORS[attributes["w:val"]!];
+            }
+            break;
+          case "w:shd": {
+            const fill = attributes["w:fill"];
+            if (inRunProps && fill && /^[0-9a-f]{6}$/i.test(fill)) run.backgroundColor = `#${fill.toLowerCase()}`;
+            break;
+          }
+          case "w:rFonts": {
+            const font = attributes["w:ascii"] || attributes["w:hAnsi"];
+            if (inRunProps && font) run.fontFamily = font;
+            break;
+          }
+          case "w:sz":
+            if (inRunProps && attributes["w:val"]) run.fontSize = Number(attributes["w:val"]) / 2;
+            break;
+          case "w:vertAlign":
+            if (inRunProps && attributes["w:val"] !== "baseline") builder.warn("subscript");
+            break;
+          case "w:t":
+            inText = true;
+            if (listPrefix) {
+              builder.append(listPrefix);
+              listPrefix = "";
+            }
+            break;
+          case "w:tab":
+            if (!inParagraphProps) builder.append("\t", { ...paragraphBase, ...run });
+            break;
+          case "w:br":
+          case "w:cr":
+            if (attributes["w:type"] === "page" || attributes["w:type"] === "column") {
+              builder.warn("page_breaks");
+            } else {
+              // Soft line breaks become paragraphs with the same alignment
+              builder.newParagraph();
+              builder.setParagraph(paragraph);
+            }
+            break;
+          case "w:drawing":
+          case "w:pict":
+          case "w:object":
+            builder.warn("images");
+            break;
+          case "w:tbl":
+            builder.warn("tables");
+            break;
+          case "w:hyperlink":
+            // Anchors point inside the document (e.g. a table of contents)
+            if (attributes["r:id"]) builder.warn("links");
+            break;
+          case "w:footnoteReference":
+          case "w:endnoteReference":
+            builder.warn("footnotes");
+            break;
+          case "w:commentReference":
+            builder.warn("comments");
+            break;
+        }
+      },
+      ontext(text) {
+        if (inText) builder.append(text, { ...paragraphBase, ...run });
+      },
+      onclosetag(name) {
+        if (name === "w:pPr") {
+          inParagraphProps = false;
+          builder.setParagraph(paragraph);
+        } else if (name === "w:rPr") {
+          inRunProps = false;
+        } else if (name === "w:t") {
+          inText = false;
+        }
+      },
+    },
+    { xmlMode: true, decodeEntities: true }
+  );
+  parser.write(xml);
+  parser.end();
+
+  return { title: await readCoreTitle(zip), ...builder.build() };
+};
+
+// ---------------------------------------------------------------- HTML
+
+const BLOCK_TAGS = new Set([
+  "p", "div", "h1", "h2", "h3", "h4", "h5", "h6", "li", "blockquote", "pre",
+  "section", "article", "header", "footer", "aside", "main", "nav", "figure",
+  "tr", "dt", "dd", "address", "hr", "ul", "ol", "table",
+]);
+const SKIPPED_TAGS = new Set(["script", "style", "head", "template", "noscript", "svg"]);
+
+const parseStyle = (style: string | undefined): Record<string, string> => {
+  const declarations: Record<string, string> = {};
+  for (const part of (style || "").split(";")) {
+    const [property, ...value] = part.split(":");
+    if (property && value.length > 0) declarations[property.trim().toLowerCase()] = value.join(":").trim();
+  }
+  return declarations;
+};
+
+const cssColor = (value: string | undefined): string | undefined => {
+  if (!value) return undefined;
+  const rgb = /^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/i.exec(value);
+  if (rgb) {
+    return `#${rgb.slice(1, 4).map((part) => Math.min(255, Number(part)).toString(16).padStart(2, "0")).join("")}`;
+  }
+  return /^(#[0-9a-f]{3,8}|[a-z]+)$/i.test(value) && !/^(inherit|initial|transparent|currentcolor)$/i.test(value)
+    ? value.toLowerCase()
+    : undefined;
+};
+
+const cssFontSize = (value: string | undefined): number | undefined => {
+  const match = value ? /^([\d.]+)(pt|px)$/i.exec(value) : null;
+  if (!match) return undefined;
+  const size = Number(match[1]) * (match[2]!.toLowerCase() === "px" ? 0.75 : 1);
+  return Math.round(size * 2) / 2;
+};
+
+const cssAlignment = (value: string | undefined): ParagraphAttributes["textAlign"] => {
+  const align = (value || "").toLowerCase();
+  if (align === "center" || align === "right" || align === "justify") return align;
+  if (align === "left" || align === "start") return "left";
+  if (align === "end") return "right";
+  return undefined;
+};
+
+const tagAttributes = (name: string, attributes: Record<string, string>): TextAttributes => {
+  const style = parseStyle(attributes.style);
+  const result: TextAttributes = {};
+
+  if (["b", "strong"].includes(name)) result.bold = true;
+  if (["i", "em", "cite", "dfn", "var"].includes(name)) result.italic = true;
+  if (["u", "ins"].includes(name)) result.underline = true;
+  if (["s", "strike", "del"].includes(name)) result.strikethrough = true;
+  if (["code", "kbd", "samp", "tt", "pre"].includes(name)) result.fontFamily = MONOSPACE_FONT;
+  if (name === "mark") result.backgroundColor = "#ffff00";
+  if (name === "blockquote") result.italic = true;
+  const heading = /^h([1-6])$/.exec(name);
+  if (heading) Object.assign(result, { bold: true, fontSize: HEADING_SIZES[Number(heading[1]) - 1] });
+
+  const weight = style["font-weight"];
+  if (weight) result.bold = weight === "bold" || weight === "bolder" || Number(weight) >= 600;
+  if (style["font-style"]) result.italic = /italic|oblique/i.test(style["font-style"]);
+  const decoration = style["text-decoration"] || style["text-decoration-line"];
+  if (decoration) {
+    if (/underline/i.test(decoration)) result.underline = true;
+    if (/line-through/i.test(decoration)) result.strikethrough = true;
+  }
+  const color = cssColor(style.color || (name === "font" ? attributes.color : undefined));
+  if (color) result.color = color;
+  const background = cssColor(style["background-color"] || style.background);
+  if (background) result.backgroundColor = background;
+  const family = style["font-family"] || (name === "font" ? attributes.face : undefined);
+  if (family) result.fontFamily = family.split(",")[0]!.trim().replace(/^["']|["']$/g, "");
+  const size = cssFontSize(style["font-size"]);
+  if (size) result.fontSize = size;
+
+  return result;
+};
+
+const blockAttributes = (attributes: Record<string, string>): ParagraphAttributes => {
+  const style = parseStyle(attributes.style);
+  const lineHeight = Number(style["line-height"]);
+  return {
+    textAlign: cssAlignment(style["text-align"] || attributes.align),
+    lineHeight: lineHeight > 0 && lineHeight <= 5 ? lineHeight : undefined,
+  };
+};
+
+interface HtmlFrame {
+  name: string;
+  attributes: TextAttributes;
+  paragraph?: ParagraphAttributes;
+  listIndex?: number;
+}
+
+const importHtml = (html: string): { title: string } & ReturnType<ContentBuilder["build"]> => {
+  const builder = new ContentBuilder();
+  const stack: HtmlFrame[] = [];
+  let skipDepth = 0;
+  let title = "";
+  let inTitle = false;
+
+  const current = (): TextAttributes => Object.assign({}, ...stack.map((frame) => frame.attributes));
+  const preformatted = () => stack.some((frame) => frame.name === "pre");
+
+  const startBlock = () => {
+    builder.ensureParagraph();
+    const paragraph: ParagraphAttributes = {};
+    for (const frame of stack) {
+      if (frame.paragraph?.textAlign) paragraph.textAlign = frame.paragraph.textAlign;
+      if (frame.paragraph?.lineHeight) paragraph.lineHeight = frame.paragraph.lineHeight;
+    }
+    builder.setParagraph(paragraph);
+  };
+
+  const parser = new Parser(
+    {
+      onopentag(name, attributes) {
+        if (name === "title") inTitle = true;
+        if (SKIPPED_TAGS.has(name) || skipDepth > 0) {
+          skipDepth++;
+          stack.push({ name, attributes: {} });
+          return;
+        }
+
+        const frame: HtmlFrame = { name, attributes: tagAttributes(name, attributes) };
+        if (BLOCK_TAGS.has(name)) frame.paragraph = blockAttributes(attributes);
+        if (name === "ol") frame.listIndex = Number(attributes.start) || 1;
+        stack.push(frame);
+
+        if (BLOCK_TAGS.has(name)) startBlock();
+
+        switch (name) {
+          case "br":
+            builder.newParagraph();
+            startBlock();
+            break;
+          case "li": {
+            const list = [...stack].reverse().find((entry) => entry.name === "ol" || entry.name === "ul");
+            if (list?.name === "ol") builder.append(`${list.listIndex!++}. `);
+            else builder.append("• ");
+            break;
+          }
+          case "td":
+          case "th":
+            if (builder.currentText !== "") builder.append("\t");
+            break;
+          case "table":
+            builder.warn("tables");
+            break;
+          case "img":
+          case "video":
+          case "canvas":
+          case "iframe":
+            builder.warn("images");
+            break;
+          case "a":
+            if (attributes.href && !attributes.href.startsWith("#")) builder.warn("links");
+            break;
+          case "sup":
+          case "sub":
+            builder.warn("subscript");
+            break;
+        }
+      },
+      ontext(text) {
+        if (inTitle) {
+          title += text;
+          return;
+        }
+        if (skipDepth > 0) return;
+
+        if (preformatted()) {
+          const lines = text.split(/\r?\n/);
+          lines.forEach((line, index) => {
+            if (index > 0) builder.newParagraph();
+            builder.append(line, current());
+          });
+          return;
+        }
+
+        let collapsed = text.replace(/\s+/g, " ");
+        if (builder.currentText === "" || /\s$/.test(builder.currentText)) collapsed = collapsed.replace(/^ /, "");
+        builder.append(collapsed, current());
+      },
+      onclosetag(name) {
+        if (name === "title") inTitle = false;
+        // Closing tags pop back to their matching frame; stray ones are ignored
+        const index = stack.map((frame) => frame.name).lastIndexOf(name);
+        if (index === -1) return;
+        const closed = stack.splice(index);
+        if (skipDepth > 0) skipDepth = Math.max(0, skipDepth - closed.length);
+        if (BLOCK_TAGS.has(name)) builder.ensureParagraph();
+      },
+    },
+    { decodeEntities: true, lowerCaseTags: true }
+  );
+  parser.write(html);
+  parser.end();
+
+  return { title: title.replace(/\s+/g, " ").trim(), ...builder.build() };
+};
+
+// ------------------------------------------------------------ Plain text
+
+const normalizeText = (buffer: Buffer): string =>
+  buffer.toString("utf8").replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+
+const markdownTitle = (markdown: string): string => {
+  const heading = /^#{1,6}\s+(.+?)\s*#*\s*$/m.exec(markdown);
+  return heading ? heading[1]!.replace(/[*_`~]/g, "").trim() : "";
+};
+
+const extensionOf = (filename: string): string => {
+  const match = /\.([a-z0-9]+)$/i.exec(filename);
+  return match ? match[1]!.toLowerCase() : "";
+};
+
+const titleFromFilename = (filename: string): string =>
+  filename.replace(/\.[a-z0-9]+$/i, "").replace(/[_]+/g, " ").trim();
+
+/**
+ * Convert an uploaded DOCX, HTML, Markdown or text file into document
+ * content and formatting. Markdown is kept as markdown source; the other
+ * formats become plain text with formatting ranges and paragraph
+ * attributes. Formatting with no document equivalent is reported in
+ * warnings.
+ */
+export const importDocument = async (file: ImportFile): Promise<ImportedDocument> => {
+  const extension = extensionOf(file.originalname);
+  if (!IMPORT_EXTENSIONS.includes(extension)) {
+    throw new ImportError(
+      "unsupported_type",
+      `Unsupported file type. Allowed types: ${IMPORT_EXTENSIONS.map((type) => `.${type}`).join(", ")}`
+    );
+  }
+  if (file.buffer.length === 0) {
+    throw new ImportError("empty_file", "File is empty");
+  }
+
+  const fallbackTitle = titleFromFilename(file.originalname) || "Untitled Document";
+
+  if (extension === "docx") {
+    const { title, ...result } = await importDocx(file.buffer);
+    return { title: title || fallbackTitle, content_format: "plain", ...result };
+  }
+
+  if (extension === "html" || extension === "htm") {
+    const { title, ...result } = importHtml(normalizeText(file.buffer));
+    return { title: title || fallbackTitle, content_format: "plain", ...result };
+  }
+
+  const text = normalizeText(file.buffer);
+  if (text.includes("\u0000")) {
+    throw new ImportError("invalid_file", "File is not a text file");
+  }
+
+  if (extension === "txt") {
+    return {
+      title: fallbackTitle,
+      content: text.replace(/\n+$/, ""),
+      content_format: "plain",
+      formatting: { ranges: [], paragraphs: {} },
+      warnings: [],
+    };
+  }
+
+  return {
+    title: markdownTitle(text) || fallbackTitle,
+    content: text.replace(/\n+$/, ""),
+    content_format: "markdown",
+    formatting: { ranges: [], paragraphs: {} },
+    warnings: [],
+  };
+};
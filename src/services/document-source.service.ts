@@ -0,0 +1,81 @@
+import { DocumentModel, Document, CitationStyle } from "../models/document.model.js";
+import type { BibliographyResponse, FormattedSource, Source } from "../types/source.types.js";
+import {
+  BIBLIOGRAPHY_HEADINGS,
+  bibliographySortKey,
+  citationText,
+  formatCitation,
+  formatInTextCitation,
+} from "../utils/citation.utils.js";
+import { missingSourceFields, normalizeSources } from "../utils/source.utils.js";
+import { flushLiveDocument, syncLiveDocument } from "./collaboration.service.js";
+import { requireDocumentAccess } from "./sharing.service.js";
+
+export type SourceErrorCode = "document_not_found" | "source_not_found" | "invalid_order";
+
+export class SourceError extends Error {
+  constructor(public code: SourceErrorCode, message: string) {
+    super(message);
+  }
+}
+
+export const formatSource = (source: Source, style: CitationStyle): FormattedSource => {
+  const runs = formatCitation(source, style);
+  return {
+    ...source,
+    missing_fields: missingSourceFields(source),
+    citation: citationText(runs),
+    citation_runs: runs,
+    in_text: formatInTextCitation(source, style),
+  };
+};
+
+/**
+ * A document's sources in the student's order, each formatted in the
+ * document's citation style, plus the sorted bibliography
+ */
+export const describeSources = (document: Document): BibliographyResponse => {
+  const style: CitationStyle = document.citation_style || "mla";
+  const sources = normalizeSources(document.sources).map((source) => formatSource(source, style));
+  const entries = sources
+    .map((source) => ({ id: source.id, citation: source.citation, citation_runs: source.citation_runs }))
+    .sort((a, b) => bibliographySortKey(a.citation).localeCompare(bibliographySortKey(b.citation)));
+
+  return {
+    citation_style: style,
+    heading: BIBLIOGRAPHY_HEADINGS[style] || BIBLIOGRAPHY_HEADINGS.mla,
+    sources,
+    entries,
+  };
+};
+
+/**
+ * Change a document's sources. The change callback receives the current
+ * sources as typed entries; the result is saved with the usual version
+ * check (client_version when given, otherwise the version just read).
+ * Legacy entries are stored in the typed shape from then on.
+ */
+export const updateDocumentSources = async (
+  documentId: string,
+  userId: string,
+  clientVersion: number | undefined,
+  change: (sources: Source[]) => Source[]
+): Promise<{ document: Document | null; conflict: boolean }> => {
+  // Throws ShareError unless the user owns the document or may edit it
+  await requireDocumentAccess(documentId, userId, "edit");
+
+  // Save any live editing session first so the version check sees it
+  await flushLiveDocument(documentId);
+
+  const current = await DocumentModel.findById(documentId);
+  if (!current) throw new SourceError("document_not_found", "Document not found");
+
+  const sources = change(normalizeSources(current.sources));
+  const result = await DocumentModel.updateWithVersion(documentId, userId, {
+    client_version: clientVersion ?? current.version,
+    sources,
+  });
+
+  if (result.document) syncLiveDocument(result.document);
+  return result;
+};
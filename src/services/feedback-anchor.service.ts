@@ -0,0 +1,232 @@
+import { pool } from "../config/postgres.db.js";
+import { SubmissionModel } from "../models/submission.model.js";
+import type {
+  AnchorStatus,
+  FeedbackData,
+  InsertFeedbackData,
+  TeacherFeedbackRow,
+  TextSelection,
+} from "../types/teacher-feedback.types.js";
+import { splitParagraphs } from "../utils/document-metrics.utils.js";
+import { reanchorSelection } from "../utils/reanchor.utils.js";
+import { insertContextAt } from "../utils/suggestion.utils.js";
+
+export interface SelectionAnchor {
+  selection_id: string;
+  status: AnchorStatus;
+  confidence: number;
+}
+
+export interface FeedbackAnchorSummary {
+  feedback_id: string;
+  feedback_type: TeacherFeedbackRow["feedback_type"];
+  status: AnchorStatus;
+  selections: SelectionAnchor[];
+}
+
+export interface ReanchorResult {
+  submission_id: string;
+  target_submission_id: string;
+  applied: boolean;
+  feedbacks: FeedbackAnchorSummary[];
+}
+
+const STATUS_RANK: Record<AnchorStatus, number> = {
+  exact: 0,
+  moved: 1,
+  orphaned: 2,
+};
+
+/**
+ * Paragraphs of the text a submission points at: its linked document, or
+ * its inline content when there is no document
+ */
+const loadCurrentParagraphs = async (submissionId: string): Promise<string[] | null> => {
+  const result = await pool.query(
+    `SELECT s.content, d.content AS document_content, d.content_format
+     FROM submissions s
+     LEFT JOIN documents d ON s.document_id = d.id
+     WHERE s.id = $1`,
+    [submissionId]
+  );
+  const row = result.rows[0];
+  if (!row) return null;
+
+  return row.document_content !== null && row.document_content !== undefined
+    ? splitParagraphs(row.document_content, row.content_format)
+    : splitParagraphs(row.content, "plain");
+};
+
+/**
+ * Insert feedback data with the text around its position in the
+ * submission's current text, so accepting it later can check the spot is
+ * still the one the teacher chose
+ */
+export const withInsertContext = async (
+  submissionId: string,
+  data: FeedbackData
+): Promise<FeedbackData> => {
+  const insert = data as InsertFeedbackData;
+  const paragraphs = await loadCurrentParagraphs(submissionId);
+  const context = paragraphs ? insertContextAt(paragraphs, insert.insertPosition) : null;
+  return context ? { ...insert, insertContext: context } : insert;
+};
+
+/**
+ * Paragraphs of the text the feedback was written on, when a snapshot
+ * exists: the inline submission content, or the text captured by the
+ * similarity check at turn-in for plain and markdown documents
+ */
+const loadSnapshotParagraphs = async (submissionId: string): Promise<string[] | null> => {
+  const result = await pool.query(
+    `SELECT s.content, d.content_format, f.content_text
+     FROM submissions s
+     LEFT JOIN documents d ON s.document_id = d.id
+     LEFT JOIN submission_fingerprints f ON f.submission_id = s.id
+     WHERE s.id = $1`,
+    [submissionId]
+  );
+  const row = result.rows[0];
+  if (!row) return null;
+
+  if (row.content) return splitParagraphs(row.content, "plain");
+  if (row.content_text && (row.content_format === "plain" || row.content_format === "markdown")) {
+    return splitParagraphs(row.content_text, "plain");
+  }
+  return null;
+};
+
+/**
+ * Text selections of a feedback item with a setter that writes re-anchored
+ * selections back into a copy of its feedback_data
+ */
+const selectionsOf = (
+  feedback: TeacherFeedbackRow
+): { selections: TextSelection[]; rebuild: (selections: TextSelection[]) => FeedbackData } => {
+  const data = (feedback.feedback_data || {}) as any;
+
+  switch (feedback.feedback_type) {
+    case "multi-line":
+      return {
+        selections: data.selectedTextRanges || [],
+        rebuild: (selections) => ({ ...data, selectedTextRanges: selections }),
+      };
+    case "delete":
+      return {
+        selections: data.deleteSelection ? [data.deleteSelection] : [],
+        rebuild: ([selection]) => ({ ...data, deleteSelection: selection }),
+      };
+    case "move":
+      return {
+        selections: data.moveSelection?.textSelection ? [data.moveSelection.textSelection] : [],
+        rebuild: ([selection]) => ({
+          ...data,
+          moveSelection: { ...data.moveSelection, textSelection: selection },
+        }),
+      };
+    default:
+      // multi-para and insert feedback anchor to positions, not text
+      return { selections: [], rebuild: () => data };
+  }
+};
+
+/**
+ * Re-anchor the text selections of every feedback item on a submission onto
+ * the current text of a target submission (by default the student's latest
+ * version of the assignment). When apply is set the new anchors, with their
+ * exact/moved/orphaned flags, are saved into feedback_data.
+ */
+export const reanchorSubmissionFeedback = async (
+  submissionId: string,
+  schoolId: string,
+  options: { targetSubmissionId?: string; apply?: boolean } = {}
+): Promise<ReanchorResult | null> => {
+  const submissionResult = await pool.query(
+    "SELECT * FROM submissions WHERE id = $1 AND school_id = $2",
+    [submissionId, schoolId]
+  );
+  const submission = submissionResult.rows[0];
+  if (!submission) return null;
+
+  let targetSubmissionId = options.targetSubmissionId;
+  if (!targetSubmissionId) {
+    const versions = await SubmissionModel.findVersions(
+      submission.assignment_id,
+      submission.student_id,
+      schoolId
+    );
+    targetSubmissionId = versions[versions.length - 1]?.id ?? submission.id;
+  } else {
+    const targetResult = await pool.query(
+      `SELECT id FROM submissions
+       WHERE id = $1 AND school_id = $2 AND assignment_id = $3 AND student_id = $4`,
+      [targetSubmissionId, schoolId, submission.assignment_id, submission.student_id]
+    );
+    if (targetResult.rows.length === 0) return null;
+  }
+
+  const newParagraphs = await loadCurrentParagraphs(targetSubmissionId!);
+  if (!newParagraphs) return null;
+  const oldParagraphs = await loadSnapshotParagraphs(submission.id);
+
+  const feedbackResult = await pool.query(
+    `SELECT * FROM teacher_feedbacks
+     WHERE submission_id = $1 AND school_id = $2
+     ORDER BY created_at ASC`,
+    [submission.id, schoolId]
+  );
+
+  const updates: { id: string; data: FeedbackData }[] = [];
+  const feedbacks: FeedbackAnchorSummary[] = [];
+
+  for (const feedback of feedbackResult.rows as TeacherFeedbackRow[]) {
+    const { selections, rebuild } = selectionsOf(feedback);
+    if (selections.length === 0) continue;
+
+    const results = selections.map((selection) =>
+      reanchorSelection(selection, newParagraphs, oldParagraphs)
+    );
+    const status = results.reduce<AnchorStatus>(
+      (worst, result) => (STATUS_RANK[result.status] > STATUS_RANK[worst] ? result.status : worst),
+      "exact"
+    );
+
+    feedbacks.push({
+      feedback_id: feedback.id,
+      feedback_type: feedback.feedback_type,
+      status,
+      selections: results.map((result) => ({
+        selection_id: result.selection.id,
+        status: result.status,
+        confidence: result.confidence,
+      })),
+    });
+    updates.push({ id: feedback.id, data: rebuild(results.map((result) => result.selection)) });
+  }
+
+  if (options.apply && updates.length > 0) {
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      for (const update of updates) {
+        await client.query(
+          "UPDATE teacher_feedbacks SET feedback_data = $1 WHERE id = $2",
+          [JSON.stringify(update.data), update.id]
+        );
+      }
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  return {
+    submission_id: submission.id,
+    target_submission_id: targetSubmissionId!,
+    applied: !!options.apply,
+    feedbacks,
+  };
+};
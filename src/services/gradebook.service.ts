@@ -0,0 +1,311 @@
+import { pool } from "../config/postgres.db.js";
+import type { AttemptScoring } from "../models/assignment.model.js";
+import { computeCountedScore, ScoredAttempt } from "../utils/attempt-scoring.utils.js";
+import { zonedWallClockToUtc } from "../utils/timezone.utils.js";
+
+export type GradebookCellStatus =
+  | "graded"
+  | "awaiting_grade"
+  | "in_progress"
+  | "missing"
+  | "not_submitted";
+
+export interface GradebookAssignment {
+  id: string;
+  title: string;
+  due_date: Date | null;
+  max_score: number;
+  grade_category: string | null;
+  grade_weight: number;
+  attempt_scoring: AttemptScoring;
+}
+
+export interface GradebookCell {
+  assignment_id: string;
+  submission_id: string | null;
+  status: GradebookCellStatus;
+  score: number | null;
+  percent: number | null;
+  is_late: boolean;
+  is_missing: boolean;
+  attempts: number;
+}
+
+export interface GradebookStudent {
+  student_id: string;
+  first_name: string | null;
+  last_name: string | null;
+  email: string | null;
+  grades: Record<string, GradebookCell>;
+  category_averages: Record<string, number | null>;
+  running_average: number | null;
+  missing_count: number;
+  late_count: number;
+}
+
+export interface Gradebook {
+  class_id: string;
+  missing_as_zero: boolean;
+  assignments: GradebookAssignment[];
+  students: GradebookStudent[];
+}
+
+interface SubmissionAttempt extends ScoredAttempt {
+  assignment_id: string;
+  student_id: string;
+  status: string;
+  is_late: boolean;
+}
+
+const UNCATEGORIZED = "uncategorized";
+
+const roundTwo = (value: number): number => Math.round(value * 100) / 100;
+
+const weightedAverage = (
+  entries: { percent: number; weight: number }[]
+): number | null => {
+  const totalWeight = entries.reduce((sum, entry) => sum + entry.weight, 0);
+  if (totalWeight === 0) return null;
+  const total = entries.reduce(
+    (sum, entry) => sum + entry.percent * entry.weight,
+    0
+  );
+  return roundTwo(total / totalWeight);
+};
+
+/**
+ * Build the student x assignment gradebook for a class.
+ *
+ * - The counted score per cell follows the assignment attempt_scoring setting.
+ * - A cell is missing once the student's effective due date (extensions
+ *   included, judged in the school timezone) has passed without a turned-in
+ *   submission.
+ * - Running and category averages are grade_weight-weighted percentages.
+ *   Missing work counts as zero unless missingAsZero is false.
+ */
+export const buildGradebook = async (
+  classId: string,
+  schoolId: string,
+  options: { missingAsZero?: boolean } = {}
+): Promise<Gradebook> => {
+  const missingAsZero = options.missingAsZero ?? true;
+
+  const assignmentsResult = await pool.query(
+    `SELECT a.id, a.title, a.due_date, a.max_score, a.grade_category,
+            a.grade_weight, a.attempt_scoring, sc.timezone
+     FROM assignments a
+     INNER JOIN schools sc ON a.school_id = sc.id
+     WHERE a.class_id = $1
+       AND a.school_id = $2
+       AND a.status != 'inactive'
+     ORDER BY a.due_date ASC NULLS LAST, a.created_at ASC`,
+    [classId, schoolId]
+  );
+
+  const studentsResult = await pool.query(
+    `SELECT u.id AS student_id, u.first_name, u.last_name, u.email
+     FROM class_members cm
+     INNER JOIN users u ON cm.user_id = u.id
+     WHERE cm.class_id = $1
+       AND cm.role = 'student'
+       AND cm.status = 'active'
+     ORDER BY u.last_name, u.first_name`,
+    [classId]
+  );
+
+  const submissionsResult = await pool.query(
+    `SELECT id, assignment_id, student_id, status, score, final_score,
+            graded_at, is_late, version
+     FROM submissions
+     WHERE class_id = $1 AND school_id = $2`,
+    [classId, schoolId]
+  );
+
+  const assignmentIds = assignmentsResult.rows.map((row) => row.id);
+  const extensionsResult = assignmentIds.length
+    ? await pool.query(
+        `SELECT assignment_id, student_ids, due_date
+         FROM assignment_extensions
+         WHERE assignment_id = ANY($1::uuid[])`,
+        [assignmentIds]
+      )
+    : { rows: [] as any[] };
+
+  // Latest extended due date per assignment + student
+  const extensionDueDates = new Map<string, Date>();
+  for (const extension of extensionsResult.rows) {
+    for (const studentId of extension.student_ids as string[]) {
+      const key = `${extension.assignment_id}:${studentId}`;
+      const current = extensionDueDates.get(key);
+      if (!current || extension.due_date > current) {
+        extensionDueDates.set(key, extension.due_date);
+      }
+    }
+  }
+
+  const attemptsByCell = new Map<string, SubmissionAttempt[]>();
+  for (const row of submissionsResult.rows as SubmissionAttempt[]) {
+    const key = `${row.assignment_id}:${row.student_id}`;
+    const attempts = attemptsByCell.get(key) ?? [];
+    attempts.push(row);
+    attemptsByCell.set(key, attempts);
+  }
+
+  const now = Date.now();
+  const assignments: GradebookAssignment[] = assignmentsResult.rows.map(
+    (row) => ({
+      id: row.id,
+      title: row.title,
+      due_date: row.due_date,
+      max_score: Number(row.max_score),
+      grade_category: row.grade_category,
+      grade_weight: Number(row.grade_weight ?? 1),
+      attempt_scoring: row.attempt_scoring ?? "latest",
+    })
+  );
+  const timezones = new Map<string, string>(
+    assignmentsResult.rows.map((row) => [row.id, row.timezone || "UTC"])
+  );
+
+  const students: GradebookStudent[] = studentsResult.rows.map((student) => {
+    const grades: Record<string, GradebookCell> = {};
+    const averageEntries: { percent: number; weight: number; category: string }[] = [];
+    let missingCount = 0;
+    let lateCount = 0;
+
+    for (const assignment of assignments) {
+      const key = `${assignment.id}:${student.student_id}`;
+      const attempts = attemptsByCell.get(key) ?? [];
+      const turnedIn = attempts.filter((attempt) => attempt.status !== "draft");
+      const latest = attempts.reduce<SubmissionAttempt | null>(
+        (best, attempt) => (!best || attempt.version > best.version ? attempt : best),
+        null
+      );
+
+      const dueDate = extensionDueDates.get(key) ?? assignment.due_date;
+      const isPastDue =
+        !!dueDate &&
+        zonedWallClockToUtc(new Date(dueDate), timezones.get(assignment.id) ?? "UTC").getTime() < now;
+
+      const counted = computeCountedScore(attempts, assignment.attempt_scoring);
+      const isLate = turnedIn.some((attempt) => attempt.is_late);
+      const isMissing = turnedIn.length === 0 && isPastDue;
+
+      let status: GradebookCellStatus;
+      if (counted.score !== null) status = "graded";
+      else if (isMissing) status = "missing";
+      else if (turnedIn.length > 0) status = "awaiting_grade";
+      else if (attempts.length > 0) status = "in_progress";
+      else status = "not_submitted";
+
+      const percent =
+        counted.score !== null && assignment.max_score > 0
+          ? roundTwo((counted.score / assignment.max_score) * 100)
+          : isMissing && missingAsZero
+          ? 0
+          : null;
+
+      if (isMissing) missingCount++;
+      if (isLate) lateCount++;
+
+      if (percent !== null) {
+        averageEntries.push({
+          percent,
+          weight: assignment.grade_weight,
+          category: assignment.grade_category || UNCATEGORIZED,
+        });
+      }
+
+      grades[assignment.id] = {
+        assignment_id: assignment.id,
+        submission_id: counted.counted_submission_id ?? latest?.id ?? null,
+        status,
+        score: counted.score,
+        percent,
+        is_late: isLate,
+        is_missing: isMissing,
+        attempts: turnedIn.length,
+      };
+    }
+
+    const categoryAverages: Record<string, number | null> = {};
+    const categories = new Set(
+      assignments.map((assignment) => assignment.grade_category || UNCATEGORIZED)
+    );
+    for (const category of categories) {
+      categoryAverages[category] = weightedAverage(
+        averageEntries.filter((entry) => entry.category === category)
+      );
+    }
+
+    return {
+      student_id: student.student_id,
+      first_name: student.first_name,
+      last_name: student.last_name,
+      email: student.email,
+      grades,
+      category_averages: categoryAverages,
+      running_average: weightedAverage(averageEntries),
+      missing_count: missingCount,
+      late_count: lateCount,
+    };
+  });
+
+  return {
+    class_id: classId,
+    missing_as_zero: missingAsZero,
+    assignments,
+    students,
+  };
+};
+
+/**
+ * Flatten a gradebook into a header row + data rows for CSV/XLSX export.
+ * Missing work is marked MISSING and late scores get a separate marker column
+ * so score columns stay numeric for SIS upload.
+ */
+export const gradebookToTable = (
+  gradebook: Gradebook
+): {
+  headers: string[];
+  rows: (string | number | null)[][];
+} => {
+  const categories = Array.from(
+    new Set(
+      gradebook.assignments.map(
+        (assignment) => assignment.grade_category || UNCATEGORIZED
+      )
+    )
+  );
+
+  const headers = [
+    "Last Name",
+    "First Name",
+    "Email",
+    ...gradebook.assignments.flatMap((assignment) => [
+      `${assignment.title} (${assignment.max_score})`,
+      `${assignment.title} Late`,
+    ]),
+    ...categories.map((category) => `${category} Average %`),
+    "Running Average %",
+    "Missing",
+    "Late",
+  ];
+
+  const rows = gradebook.students.map((student) => [
+    student.last_name,
+    student.first_name,
+    student.email,
+    ...gradebook.assignments.flatMap((assignment) => {
+      const cell = student.grades[assignment.id];
+      const score = cell?.is_missing && cell.score === null ? "MISSING" : cell?.score ?? null;
+      return [score, cell?.is_late ? "LATE" : null];
+    }),
+    ...categories.map((category) => student.category_averages[category] ?? null),
+    student.running_average,
+    student.missing_count,
+    student.late_count,
+  ]);
+
+  return { headers, rows };
+};
@@ -0,0 +1,91 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { IdentifierMetadata } from "../types/source.types.js";
+import {
+  fixtureResolver,
+  lookupIdentifier,
+  resetIdentifierResolvers,
+  setIdentifierResolver,
+} from "./identifier.service.js";
+import { ScrapeError } from "./scrape.service.js";
+
+const record = (fields: Partial<IdentifierMetadata>): IdentifierMetadata => ({
+  type: "journal_article",
+  title: null,
+  authors: [],
+  author: null,
+  date: null,
+  publisher: null,
+  url: null,
+  ...fields,
+});
+
+const ARTICLE = record({
+  title: "A Study of Things",
+  authors: [{ first: "Ada", last: "Lovelace" }],
+  author: "Ada Lovelace",
+  date: "2019-08-01",
+  journal: "Journal of Things",
+  doi: "10.1000/xyz123",
+  url: "https://doi.org/10.1000/xyz123",
+});
+
+const BOOK = record({
+  type: "book",
+  title: "The Book",
+  isbn: "9780306406157",
+});
+
+describe("lookupIdentifier", () => {
+  afterEach(() => resetIdentifierResolvers());
+
+  it("answers from the resolver for the detected type", async () => {
+    setIdentifierResolver("doi", fixtureResolver({ "10.1000/xyz123": ARTICLE }));
+
+    const result = await lookupIdentifier("https://doi.org/10.1000/xyz123");
+    assert.deepEqual(result, { type: "doi", identifier: "10.1000/xyz123", metadata: ARTICLE, cached: false });
+  });
+
+  it("looks ISBNs up by their ISBN-13", async () => {
+    setIdentifierResolver("isbn", fixtureResolver({ "9780306406157": BOOK }));
+
+    const result = await lookupIdentifier("0-306-40615-2", "isbn");
+    assert.equal(result.identifier, "9780306406157");
+    assert.equal(result.metadata, BOOK);
+  });
+
+  it("reports identifiers the registry does not know", async () => {
+    setIdentifierResolver("pmid", fixtureResolver({}));
+
+    await assert.rejects(lookupIdentifier("PMID: 31452104"), (error: unknown) => {
+      assert.ok(error instanceof ScrapeError);
+      assert.equal(error.code, "not_found");
+      assert.equal(error.status, 404);
+      return true;
+    });
+  });
+
+  it("rejects input that is not an identifier before resolving", async () => {
+    let calls = 0;
+    setIdentifierResolver("isbn", {
+      async resolve() {
+        calls++;
+        return BOOK;
+      },
+    });
+
+    await assert.rejects(lookupIdentifier("not an id"), { code: "invalid_identifier" });
+    await assert.rejects(lookupIdentifier("10.1000/xyz123", "isbn"), { message: "Not a valid ISBN" });
+    assert.equal(calls, 0);
+  });
+
+  it("passes registry failures through", async () => {
+    setIdentifierResolver("doi", {
+      async resolve() {
+        throw new ScrapeError("timeout", "Registry took too long to respond");
+      },
+    });
+
+    await assert.rejects(lookupIdentifier("10.1000/xyz123"), { code: "timeout" });
+  });
+});
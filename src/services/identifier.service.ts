@@ -0,0 +1,304 @@
+import axios from "axios";
+import { ScrapeCacheModel } from "../models/scrape-cache.model.js";
+import type {
+  IdentifierMetadata,
+  IdentifierType,
+  SourceContributor,
+  SourceType,
+} from "../types/source.types.js";
+import { parseIdentifier } from "../utils/identifier.utils.js";
+import { ScrapeError } from "./scrape.service.js";
+
+const TIMEOUT_MS = 10000;
+const MAX_BYTES = 2 * 1024 * 1024;
+const CACHE_TTL_SECONDS = 7 * 24 * 60 * 60;
+const USER_AGENT = process.env.CROSSREF_MAILTO
+  ? `WriteUp (mailto:${process.env.CROSSREF_MAILTO})`
+  : "WriteUp";
+
+/**
+ * Looks up one kind of identifier. Resolves with null when the registry
+ * has no record; throws ScrapeError when the registry cannot be reached.
+ */
+export interface IdentifierResolver {
+  resolve(value: string): Promise<IdentifierMetadata | null>;
+}
+
+export interface IdentifierResult {
+  type: IdentifierType;
+  identifier: string;
+  metadata: IdentifierMetadata;
+  cached: boolean;
+}
+
+const getJson = async (url: string, params?: Record<string, string>): Promise<any | null> => {
+  try {
+    const response = await axios.get(url, {
+      params,
+      timeout: TIMEOUT_MS,
+      maxContentLength: MAX_BYTES,
+      maxRedirects: 3,
+      headers: { "User-Agent": USER_AGENT, Accept: "application/json" },
+      validateStatus: (status) => (status >= 200 && status < 300) || status === 404,
+    });
+    return response.status === 404 ? null : response.data;
+  } catch (error: any) {
+    if (error?.code === "ECONNABORTED" || error?.code === "ETIMEDOUT") {
+      throw new ScrapeError("timeout", "Registry took too long to respond");
+    }
+    throw new ScrapeError("fetch_failed", "Registry could not be reached");
+  }
+};
+
+const text = (value: unknown): string | null => {
+  if (Array.isArray(value)) value = value[0];
+  if (typeof value !== "string" && typeof value !== "number") return null;
+  const result = String(value).replace(/<[^>]+>/g, "").replace(/\s+/g, " ").trim();
+  return result || null;
+};
+
+const isoFromParts = (parts: unknown): string | null => {
+  if (!Array.isArray(parts) || !parts[0]) return null;
+  const [year, month, day] = parts.map(Number);
+  if (!year) return null;
+  return [String(year).padStart(4, "0"), month && String(month).padStart(2, "0"), month && day && String(day).padStart(2, "0")]
+    .filter(Boolean)
+    .join("-");
+};
+
+// Comma-separated author names, the scraper's author field
+const byline = (authors: SourceContributor[]): string | null =>
+  authors
+    .map((person) => person.name || [person.first, person.last].filter(Boolean).join(" "))
+    .filter(Boolean)
+    .join(", ") || null;
+
+const CROSSREF_TYPES: Record<string, SourceType> = {
+  "journal-article": "journal_article",
+  "proceedings-article": "journal_article",
+  book: "book",
+  monograph: "book",
+  "edited-book": "book",
+  "reference-book": "book",
+  "book-chapter": "book_chapter",
+  "book-section": "book_chapter",
+  "reference-entry": "book_chapter",
+  report: "report",
+};
+
+/**
+ * Crossref works API (DOIs)
+ */
+const crossrefResolver: IdentifierResolver = {
+  async resolve(doi) {
+    const body = await getJson(`https://api.crossref.org/works/${encodeURIComponent(doi)}`);
+    const work = body?.message;
+    if (!work) return null;
+
+    const authors: SourceContributor[] = (work.author || [])
+      .map((person: any): SourceContributor | null => {
+        if (person.family) return person.given ? { first: person.given, last: person.family } : { last: person.family };
+        return person.name ? { name: person.name } : null;
+      })
+      .filter(Boolean);
+    const type = CROSSREF_TYPES[work.type] || "other";
+    const date = work.issued || work["published-print"] || work["published-online"] || work.published;
+
+    return {
+      type,
+      title: text(work.title),
+      authors,
+      author: byline(authors),
+      date: isoFromParts(date?.["date-parts"]?.[0]),
+      description: text(work.abstract),
+      image: null,
+      logo: null,
+      publisher: text(work.publisher),
+      url: `https://doi.org/${doi}`,
+      journal: type === "book" ? null : text(work["container-title"]),
+      volume: text(work.volume),
+      issue: text(work.issue),
+      pages: text(work.page),
+      publisher_place: text(work["publisher-location"]),
+      doi,
+      isbn: text(work.ISBN),
+      pmid: null,
+    };
+  },
+};
+
+/**
+ * Open Library books API (ISBNs)
+ */
+const openLibraryResolver: IdentifierResolver = {
+  async resolve(isbn) {
+    const key = `ISBN:${isbn}`;
+    const body = await getJson("https://openlibrary.org/api/books", {
+      bibkeys: key,
+      format: "json",
+      jscmd: "data",
+    });
+    const book = body?.[key];
+    if (!book) return null;
+
+    const authors: SourceContributor[] = (book.authors || [])
+      .map((person: any) => text(person.name))
+      .filter(Boolean)
+      .map((name: string): SourceContributor => {
+        const parts = name.split(/\s+/);
+        return parts.length === 1 ? { last: name } : { first: parts.slice(0, -1).join(" "), last: parts[parts.length - 1]! };
+      });
+    const year = /\b(\d{4})\b/.exec(text(book.publish_date) || "");
+
+    return {
+      type: "book",
+      title: [text(book.title), text(book.subtitle)].filter(Boolean).join(": ") || null,
+      authors,
+      author: byline(authors),
+      date: year ? year[1]! : null,
+      description: null,
+      image: text(book.cover?.medium),
+      logo: null,
+      publisher: text(book.publishers?.[0]?.name),
+      url: text(book.url),
+      journal: null,
+      volume: null,
+      issue: null,
+      pages: null,
+      publisher_place: text(book.publish_places?.[0]?.name),
+      doi: null,
+      isbn,
+      pmid: null,
+    };
+  },
+};
+
+/**
+ * NCBI E-utilities summaries (PMIDs). PubMed lists authors as
+ * "Smith JA"; the initials become the first name.
+ */
+const pubmedResolver: IdentifierResolver = {
+  async resolve(pmid) {
+    const body = await getJson("https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esummary.fcgi", {
+      db: "pubmed",
+      id: pmid,
+      retmode: "json",
+    });
+    const record = body?.result?.[pmid];
+    if (!record || record.error) return null;
+
+    const authors: SourceContributor[] = (record.authors || [])
+      .filter((person: any) => !person.authtype || person.authtype === "Author")
+      .map((person: any): SourceContributor | null => {
+        const name = text(person.name);
+        if (!name) return null;
+        const match = /^(.+?)\s+([A-Z]{1,4})$/.exec(name);
+        return match ? { first: match[2]!.split("").join(". ") + ".", last: match[1]! } : { name };
+      })
+      .filter(Boolean);
+    const sortDate = /^(\d{4})\/(\d{2})\/(\d{2})/.exec(record.sortpubdate || "");
+    const doi = (record.articleids || []).find((id: any) => id.idtype === "doi");
+
+    return {
+      type: "journal_article",
+      title: text(record.title)?.replace(/\.$/, "") || null,
+      authors,
+      author: byline(authors),
+      date: sortDate ? `${sortDate[1]}-${sortDate[2]}-${sortDate[3]}` : text(record.pubdate),
+      description: null,
+      image: null,
+      logo: null,
+      publisher: null,
+      url: `https://pubmed.ncbi.nlm.nih.gov/${pmid}/`,
+      journal: text(record.fulljournalname) || text(record.source),
+      volume: text(record.volume),
+      issue: text(record.issue),
+      pages: text(record.pages),
+      publisher_place: null,
+      doi: doi ? text(doi.value) : null,
+      isbn: null,
+      pmid,
+    };
+  },
+};
+
+const DEFAULT_RESOLVERS: Record<IdentifierType, IdentifierResolver> = {
+  doi: crossrefResolver,
+  isbn: openLibraryResolver,
+  pmid: pubmedResolver,
+};
+
+let resolvers: Record<IdentifierType, IdentifierResolver> = { ...DEFAULT_RESOLVERS };
+
+/**
+ * Replace the resolver for one identifier type (e.g. with fixtures in
+ * tests). Lookups through a replaced resolver skip the cache.
+ */
+export const setIdentifierResolver = (type: IdentifierType, resolver: IdentifierResolver) => {
+  resolvers[type] = resolver;
+};
+
+/**
+ * Go back to the real registries
+ */
+export const resetIdentifierResolvers = () => {
+  resolvers = { ...DEFAULT_RESOLVERS };
+};
+
+/**
+ * Resolver that answers from a fixed set of records keyed by normalized
+ * identifier, for running without network access
+ */
+export const fixtureResolver = (records: Record<string, IdentifierMetadata>): IdentifierResolver => ({
+  async resolve(value) {
+    return records[value] || null;
+  },
+});
+
+/**
+ * Look up a DOI, ISBN or PMID and return its bibliographic metadata in
+ * the scraper's shape (author, date, publisher, title, url, ...) plus
+ * typed authors and journal details. Records are cached for a week per
+ * normalized identifier; misses and failures are not cached.
+ */
+export const lookupIdentifier = async (raw: unknown, type?: IdentifierType): Promise<IdentifierResult> => {
+  const parsed = parseIdentifier(raw, type);
+  if (!parsed) {
+    throw new ScrapeError(
+      "invalid_identifier",
+      type ? `Not a valid ${type.toUpperCase()}` : "Enter a DOI, ISBN or PMID"
+    );
+  }
+
+  const resolver = resolvers[parsed.type];
+  const useCache = resolver === DEFAULT_RESOLVERS[parsed.type];
+  // DOIs are case-insensitive
+  const key = `${parsed.type}:${parsed.type === "doi" ? parsed.value.toLowerCase() : parsed.value}`;
+
+  if (useCache) {
+    const cached = await ScrapeCacheModel.find(key);
+    if (cached) {
+      return {
+        type: parsed.type,
+        identifier: parsed.value,
+        metadata: cached.metadata as IdentifierMetadata,
+        cached: true,
+      };
+    }
+  }
+
+  const metadata = await resolver.resolve(parsed.value);
+  if (!metadata) {
+    throw new ScrapeError("not_found", `No record found for ${parsed.type.toUpperCase()} ${parsed.value}`);
+  }
+
+  if (useCache) {
+    try {
+      await ScrapeCacheModel.save(key, metadata.url || key, metadata, CACHE_TTL_SECONDS);
+    } catch (error) {
+      console.error("Error caching identifier metadata:", error);
+    }
+  }
+
+  return { type: parsed.type, identifier: parsed.value, metadata, cached: false };
+};
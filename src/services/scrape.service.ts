@@ -0,0 +1,271 @@
+import http from "http";
+import https from "https";
+import dns from "dns";
+import zlib from "zlib";
+import { isIP } from "net";
+import type { Readable } from "stream";
+import metascraper from "metascraper";
+import metascraperAuthor from "metascraper-author";
+import metascraperDate from "metascraper-date";
+import metascraperDescription from "metascraper-description";
+import metascraperImage from "metascraper-image";
+import metascraperLogo from "metascraper-logo";
+import metascraperClearbit from "metascraper-clearbit";
+import metascraperPublisher from "metascraper-publisher";
+import metascraperTitle from "metascraper-title";
+import metascraperUrl from "metascraper-url";
+import metascraperReadability from "metascraper-readability";
+import { ScrapeCacheModel } from "../models/scrape-cache.model.js";
+import type { ScrapeMetadata } from "../types/source.types.js";
+import { isBlockedAddress, normalizeWebUrl } from "../utils/url.utils.js";
+
+const metascraperInstance = metascraper([
+  metascraperAuthor(),
+  metascraperDate(),
+  metascraperDescription(),
+  metascraperImage(),
+  metascraperLogo(),
+  metascraperClearbit(),
+  metascraperPublisher(),
+  metascraperTitle(),
+  metascraperUrl(),
+  metascraperReadability(),
+]);
+
+const TIMEOUT_MS = 10000;
+const MAX_BYTES = 2 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+const CACHE_TTL_SECONDS = 24 * 60 * 60;
+const USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/58.0.3029.110 Safari/537.36";
+
+export type ScrapeErrorCode =
+  | "invalid_url"
+  | "blocked"
+  | "timeout"
+  | "not_html"
+  | "too_large"
+  | "too_many_redirects"
+  | "fetch_failed"
+  | "invalid_identifier"
+  | "not_found";
+
+const STATUS_BY_CODE: Record<ScrapeErrorCode, number> = {
+  invalid_url: 400,
+  blocked: 403,
+  timeout: 504,
+  not_html: 415,
+  too_large: 413,
+  too_many_redirects: 502,
+  fetch_failed: 502,
+  invalid_identifier: 400,
+  not_found: 404,
+};
+
+export class ScrapeError extends Error {
+  constructor(public code: ScrapeErrorCode, message: string) {
+    super(message);
+  }
+
+  get status(): number {
+    return STATUS_BY_CODE[this.code];
+  }
+}
+
+export interface ScrapeResult {
+  metadata: ScrapeMetadata;
+  cached: boolean;
+}
+
+/**
+ * DNS lookup for outgoing connections that refuses internal addresses.
+ * Checking at connect time (rather than before the request) means a
+ * hostname cannot resolve to a public address for the check and a
+ * private one for the connection.
+ */
+const safeLookup = (hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error);
+    if (addresses.length === 0 || addresses.some((entry) => isBlockedAddress(entry.address))) {
+      return callback(new ScrapeError("blocked", "URL resolves to a private or reserved address"));
+    }
+    if (options.all) return callback(null, addresses);
+    return callback(null, addresses[0]!.address, addresses[0]!.family);
+  });
+};
+
+const checkTarget = (url: URL) => {
+  if (url.port && url.port !== "80" && url.port !== "443") {
+    throw new ScrapeError("blocked", "Only the standard web ports are allowed");
+  }
+  // IP literals never reach the lookup hook
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(host) && isBlockedAddress(host)) {
+    throw new ScrapeError("blocked", "URL points to a private or reserved address");
+  }
+  if (/^localhost$|\.localhost$|\.local$|\.internal$/i.test(host)) {
+    throw new ScrapeError("blocked", "URL points to an internal host");
+  }
+};
+
+const decompress = (stream: Readable, encoding: string | undefined): Readable => {
+  switch ((encoding || "").toLowerCase()) {
+    case "gzip":
+    case "x-gzip":
+      return stream.pipe(zlib.createGunzip());
+    case "deflate":
+      return stream.pipe(zlib.createInflate());
+    case "br":
+      return stream.pipe(zlib.createBrotliDecompress());
+    default:
+      return stream;
+  }
+};
+
+const charsetOf = (contentType: string): string => {
+  const match = /charset=["']?([\w-]+)/i.exec(contentType);
+  return match ? match[1]!.toLowerCase() : "utf-8";
+};
+
+const decode = (body: Buffer, charset: string): string => {
+  try {
+    return new TextDecoder(charset).decode(body);
+  } catch {
+    return new TextDecoder("utf-8").decode(body);
+  }
+};
+
+/**
+ * GET one URL without following redirects. Resolves with the redirect
+ * target or the decoded HTML body.
+ */
+const request = (
+  url: URL,
+  signal: AbortSignal
+): Promise<{ redirect: string } | { html: string }> =>
+  new Promise((resolve, reject) => {
+    const client = url.protocol === "https:" ? https : http;
+    const req = client.get(
+      url,
+      {
+        lookup: safeLookup as any,
+        signal,
+        headers: {
+          "User-Agent": USER_AGENT,
+          Accept: "text/html,application/xhtml+xml;q=0.9,*/*;q=0.5",
+          "Accept-Encoding": "gzip, deflate, br",
+        },
+      },
+      (res) => {
+        const status = res.statusCode || 0;
+
+        if (status >= 300 && status < 400 && res.headers.location) {
+          res.resume();
+          return resolve({ redirect: res.headers.location });
+        }
+        if (status < 200 || status >= 300) {
+          res.resume();
+          return reject(new ScrapeError("fetch_failed", `Website responded with status ${status}`));
+        }
+
+        const contentType = String(res.headers["content-type"] || "");
+        if (contentType && !/^(text\/html|application\/xhtml\+xml)\b/i.test(contentType)) {
+          res.resume();
+          return reject(new ScrapeError("not_html", `URL is not a web page (${contentType.split(";")[0]})`));
+        }
+
+        if (Number(res.headers["content-length"]) > MAX_BYTES) {
+          res.destroy();
+          return reject(new ScrapeError("too_large", "Page is larger than the scrape limit"));
+        }
+
+        // Counted after decompression so compressed bombs are caught too
+        const chunks: Buffer[] = [];
+        let size = 0;
+        const body = decompress(res, res.headers["content-encoding"]);
+        body.on("data", (chunk: Buffer) => {
+          size += chunk.length;
+          if (size > MAX_BYTES) {
+            res.destroy();
+            body.destroy();
+            reject(new ScrapeError("too_large", "Page is larger than the scrape limit"));
+            return;
+          }
+          chunks.push(chunk);
+        });
+        body.on("end", () => resolve({ html: decode(Buffer.concat(chunks), charsetOf(contentType)) }));
+        body.on("error", (error) => reject(error));
+        res.on("error", (error) => reject(error));
+      }
+    );
+    req.on("error", reject);
+  });
+
+/**
+ * Fetch a page's HTML, following up to MAX_REDIRECTS redirects (each one
+ * checked like the original URL) within one overall time limit
+ */
+const fetchHtml = async (start: URL): Promise<{ html: string; finalUrl: string }> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), TIMEOUT_MS);
+
+  try {
+    let url = start;
+    for (let redirects = 0; ; redirects++) {
+      checkTarget(url);
+      const result = await request(url, controller.signal);
+      if ("html" in result) return { html: result.html, finalUrl: url.toString() };
+
+      if (redirects >= MAX_REDIRECTS) {
+        throw new ScrapeError("too_many_redirects", "URL redirects too many times");
+      }
+      const next = normalizeWebUrl(new URL(result.redirect, url).toString());
+      if (!next) throw new ScrapeError("blocked", "URL redirects to an unsupported address");
+      url = next;
+    }
+  } catch (error) {
+    if (error instanceof ScrapeError) throw error;
+    if (controller.signal.aborted) throw new ScrapeError("timeout", "Website took too long to respond");
+    const code = (error as NodeJS.ErrnoException)?.code;
+    if (code === "ENOTFOUND" || code === "EAI_AGAIN") {
+      throw new ScrapeError("fetch_failed", "Website could not be found");
+    }
+    throw new ScrapeError("fetch_failed", "Website could not be reached");
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Scrape a page's citation metadata (author, date, publisher, title,
+ * ...). Results are cached per normalized URL for a day; failures are
+ * not cached.
+ */
+export const scrapeUrl = async (rawUrl: unknown): Promise<ScrapeResult> => {
+  const url = normalizeWebUrl(rawUrl);
+  if (!url) {
+    throw new ScrapeError("invalid_url", "URL must be an http or https address");
+  }
+  checkTarget(url);
+
+  const key = url.toString();
+  const cached = await ScrapeCacheModel.find(key);
+  if (cached) return { metadata: cached.metadata, cached: true };
+
+  const { html, finalUrl } = await fetchHtml(url);
+  let metadata: ScrapeMetadata;
+  try {
+    metadata = await metascraperInstance({ html, url: finalUrl });
+  } catch {
+    // metascraper rejects addresses it cannot treat as public web URLs
+    throw new ScrapeError("invalid_url", "URL is not a public web address");
+  }
+
+  try {
+    await ScrapeCacheModel.save(key, finalUrl, metadata, CACHE_TTL_SECONDS);
+  } catch (error) {
+    console.error("Error caching scraped metadata:", error);
+  }
+
+  return { metadata, cached: false };
+};
@@ -0,0 +1,200 @@
+import { SearchModel } from "../models/search.model.js";
+import { getFolderAccess } from "./sharing.service.js";
+import type {
+  SearchFilters,
+  SearchResponse,
+  SearchResult,
+  SearchResultType,
+  SearchRow,
+  SearchScope,
+} from "../types/search.types.js";
+
+export const SEARCH_RESULT_TYPES: SearchResultType[] = ["document", "folder", "assignment"];
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+const MAX_QUERY_LENGTH = 200;
+
+/**
+ * Deepest result reachable by paging; each type is ranked up to here
+ * before the types are merged
+ */
+const MAX_RESULTS = 500;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export type SearchErrorCode = "invalid_search" | "folder_not_found";
+
+const STATUS_BY_CODE: Record<SearchErrorCode, number> = {
+  invalid_search: 400,
+  folder_not_found: 404,
+};
+
+export class SearchError extends Error {
+  constructor(public code: SearchErrorCode, message: string) {
+    super(message);
+  }
+
+  get status(): number {
+    return STATUS_BY_CODE[this.code];
+  }
+}
+
+export interface SearchOptions {
+  q?: unknown;
+  types?: unknown;
+  folder_id?: unknown;
+  class_id?: unknown;
+  assignment_id?: unknown;
+  from?: unknown;
+  to?: unknown;
+  page?: unknown;
+  limit?: unknown;
+}
+
+const readId = (value: unknown, name: string): string | undefined => {
+  if (value === undefined || value === "") return undefined;
+  if (typeof value !== "string" || !UUID_PATTERN.test(value)) {
+    throw new SearchError("invalid_search", `${name} must be a valid id`);
+  }
+  return value;
+};
+
+/**
+ * A date or timestamp. A bare date as the end of a range covers that
+ * whole day.
+ */
+const readDate = (value: unknown, name: string, endOfDay = false): Date | undefined => {
+  if (value === undefined || value === "") return undefined;
+  const date = typeof value === "string" ? new Date(value) : new Date(NaN);
+  if (Number.isNaN(date.getTime())) {
+    throw new SearchError("invalid_search", `${name} must be a date`);
+  }
+  if (endOfDay && DATE_ONLY_PATTERN.test(value as string)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+};
+
+const readTypes = (value: unknown): SearchResultType[] => {
+  if (value === undefined || value === "") return SEARCH_RESULT_TYPES;
+  const types = String(value)
+    .split(",")
+    .map((type) => type.trim())
+    .filter(Boolean);
+  const unknown = types.find((type) => !SEARCH_RESULT_TYPES.includes(type as SearchResultType));
+  if (unknown || types.length === 0) {
+    throw new SearchError("invalid_search", "types must be a list of document, folder and assignment");
+  }
+  return [...new Set(types)] as SearchResultType[];
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * ts_headline output as safe HTML: the text escaped and the matches
+ * (marked with \x02 ... \x03 by the query) wrapped in <mark>
+ */
+const toSnippet = (headline: string | null): string =>
+  escapeHtml((headline || "").replace(/\s+/g, " ").trim())
+    .replace(/\x02/g, "<mark>")
+    .replace(/\x03/g, "</mark>");
+
+const toResult = (type: SearchResultType, row: SearchRow): SearchResult => ({
+  type,
+  id: row.id,
+  title: row.title,
+  snippet: toSnippet(row.headline),
+  rank: Number(row.rank),
+  folder_id: row.folder_id,
+  class_id: row.class_id,
+  assignment_id: row.assignment_id,
+  owner_id: row.owner_id,
+  updated_at: row.updated_at,
+});
+
+/**
+ * Which result types can match the filters: folders have no class or
+ * assignment and assignments are not in a folder
+ */
+const typesForFilters = (types: SearchResultType[], filters: SearchFilters): SearchResultType[] =>
+  types.filter((type) => {
+    if (type === "folder") return !filters.class_id && !filters.assignment_id;
+    if (type === "assignment") return !filters.folder_id;
+    return true;
+  });
+
+const SEARCHES: Record<
+  SearchResultType,
+  (query: string, scope: SearchScope, filters: SearchFilters, limit: number) => Promise<SearchRow[]>
+> = {
+  document: SearchModel.searchDocuments,
+  folder: SearchModel.searchFolders,
+  assignment: SearchModel.searchAssignments,
+};
+
+/**
+ * Full-text search over the documents, folders and assignments the user
+ * can see, best match first across all types
+ * @param options - Request query: q, types, folder_id, class_id,
+ * assignment_id, from, to, page and limit
+ */
+export const search = async (scope: SearchScope, options: SearchOptions): Promise<SearchResponse> => {
+  const query = typeof options.q === "string" ? options.q.trim() : "";
+  if (!query) {
+    throw new SearchError("invalid_search", "q is required");
+  }
+  if (query.length > MAX_QUERY_LENGTH) {
+    throw new SearchError("invalid_search", `q must be at most ${MAX_QUERY_LENGTH} characters`);
+  }
+
+  const limit = Math.min(Math.max(Number(options.limit) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const page = Math.max(Math.floor(Number(options.page)) || 1, 1);
+  const offset = (page - 1) * limit;
+
+  const filters: SearchFilters = {
+    folder_id: readId(options.folder_id, "folder_id"),
+    class_id: readId(options.class_id, "class_id"),
+    assignment_id: readId(options.assignment_id, "assignment_id"),
+    from: readDate(options.from, "from"),
+    to: readDate(options.to, "to", true),
+  };
+  if (filters.from && filters.to && filters.from > filters.to) {
+    throw new SearchError("invalid_search", "from must be before to");
+  }
+  if (filters.folder_id && !(await getFolderAccess(filters.folder_id, scope.user_id))) {
+    throw new SearchError("folder_not_found", "Folder not found");
+  }
+
+  const types = typesForFilters(readTypes(options.types), filters);
+  const counts: Record<SearchResultType, number> = { document: 0, folder: 0, assignment: 0 };
+  const fetch = Math.min(offset + limit, MAX_RESULTS);
+
+  const found = await Promise.all(
+    types.map((type) => SEARCHES[type](query, scope, filters, fetch).then((rows) => ({ type, rows })))
+  );
+
+  const results: SearchResult[] = [];
+  for (const { type, rows } of found) {
+    counts[type] = rows[0]?.total ?? 0;
+    results.push(...rows.map((row) => toResult(type, row)));
+  }
+
+  results.sort(
+    (a, b) => b.rank - a.rank || new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime()
+  );
+
+  return {
+    query,
+    results: results.slice(offset, offset + limit),
+    counts,
+    page,
+    limit,
+  };
+};
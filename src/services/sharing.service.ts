@@ -0,0 +1,313 @@
+import { pool } from "../config/postgres.db.js";
+import { ClassModel } from "../models/class.model.js";
+import { DocumentModel, Document } from "../models/document.model.js";
+import { FolderModel, Folder } from "../models/folder.model.js";
+import { ShareModel } from "../models/share.model.js";
+import { refreshLiveRoles } from "./collaboration.service.js";
+import type {
+  AccessLevel,
+  ShareGrant,
+  ShareGrantee,
+  SharePermission,
+  ShareTarget,
+} from "../types/share.types.js";
+
+export const SHARE_PERMISSIONS: SharePermission[] = ["view", "comment", "edit"];
+
+const RANK: Record<AccessLevel, number> = { view: 1, comment: 2, edit: 3, owner: 4 };
+
+export type ShareErrorCode =
+  | "document_not_found"
+  | "folder_not_found"
+  | "share_not_found"
+  | "forbidden"
+  | "invalid_share";
+
+const STATUS_BY_CODE: Record<ShareErrorCode, number> = {
+  document_not_found: 404,
+  folder_not_found: 404,
+  share_not_found: 404,
+  forbidden: 403,
+  invalid_share: 400,
+};
+
+export class ShareError extends Error {
+  constructor(public code: ShareErrorCode, message: string) {
+    super(message);
+  }
+
+  get status(): number {
+    return STATUS_BY_CODE[this.code];
+  }
+}
+
+export const hasAccess = (access: AccessLevel | null | undefined, required: AccessLevel): boolean =>
+  !!access && RANK[access] >= RANK[required];
+
+const highest = <T extends AccessLevel>(levels: T[]): T | null =>
+  levels.reduce<T | null>((best, level) => (!best || RANK[level] > RANK[best] ? level : best), null);
+
+const ACTIONS: Record<AccessLevel, string> = {
+  view: "view",
+  comment: "comment on",
+  edit: "edit",
+  owner: "manage",
+};
+
+/**
+ * A live document and what the user may do with it: owner, or the
+ * highest permission granted on it or on a folder above it. Null when the
+ * user has no access (or the document does not exist).
+ */
+export const getDocumentAccess = async (
+  documentId: string,
+  userId: string
+): Promise<{ document: Document; access: AccessLevel } | null> => {
+  const document = await DocumentModel.findById(documentId);
+  if (!document) return null;
+  if (document.owner_id === userId) return { document, access: "owner" };
+
+  const access = highest(await ShareModel.findPermissions(userId, document.id, document.folder_id || null));
+  return access ? { document, access } : null;
+};
+
+/**
+ * A live folder and what the user may do with it (see getDocumentAccess)
+ */
+export const getFolderAccess = async (
+  folderId: string,
+  userId: string
+): Promise<{ folder: Folder; access: AccessLevel } | null> => {
+  const folder = await FolderModel.findById(folderId);
+  if (!folder) return null;
+  if (folder.owner_id === userId) return { folder, access: "owner" };
+
+  const access = highest(await ShareModel.findPermissions(userId, null, folder.id));
+  return access ? { folder, access } : null;
+};
+
+/**
+ * getDocumentAccess that insists on at least the required level. Users
+ * without any access get not found, so unshared documents stay hidden.
+ */
+export const requireDocumentAccess = async (documentId: string, userId: string, required: AccessLevel) => {
+  const result = await getDocumentAccess(documentId, userId);
+  if (!result) {
+    throw new ShareError("document_not_found", "Document not found");
+  }
+  if (!hasAccess(result.access, required)) {
+    throw new ShareError(
+      "forbidden",
+      required === "owner"
+        ? "Only the owner can do this"
+        : `You do not have permission to ${ACTIONS[required]} this document`
+    );
+  }
+  return result;
+};
+
+export const requireFolderAccess = async (folderId: string, userId: string, required: AccessLevel) => {
+  const result = await getFolderAccess(folderId, userId);
+  if (!result) {
+    throw new ShareError("folder_not_found", "Folder not found");
+  }
+  if (!hasAccess(result.access, required)) {
+    throw new ShareError(
+      "forbidden",
+      required === "owner"
+        ? "Only the owner can do this"
+        : `You do not have permission to ${ACTIONS[required]} this folder`
+    );
+  }
+  return result;
+};
+
+const toShareGrant = (row: any): ShareGrant => ({
+  id: row.id,
+  permission: row.permission,
+  grantee_type: row.grantee_user_id ? "user" : "class",
+  grantee: row.grantee_user_id
+    ? {
+        id: row.grantee_user_id,
+        name: [row.first_name, row.last_name].filter(Boolean).join(" ") || null,
+        email: row.email ?? null,
+        user_type: row.user_type ?? null,
+      }
+    : { id: row.grantee_class_id, name: row.class_name ?? null },
+  granted_by: row.granted_by,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+/**
+ * Re-check the live editing participants of a shared document, or of every
+ * document under a shared folder, after its grants changed
+ */
+const refreshLiveAccess = async (target: ShareTarget): Promise<void> => {
+  const documentIds =
+    "document_id" in target
+      ? [target.document_id]
+      : await FolderModel.findDocumentIdsInTree(target.folder_id);
+  await refreshLiveRoles(documentIds);
+};
+
+export const getShares = async (target: ShareTarget): Promise<ShareGrant[]> =>
+  (await ShareModel.findByTarget(target)).map(toShareGrant);
+
+/**
+ * Check a share request body: exactly one of user_id (a classmate or
+ * teacher in the school) or class_id (a class of the school), and a
+ * permission
+ */
+const validateGrantee = async (
+  body: any,
+  ownerId: string,
+  schoolId: string | null | undefined
+): Promise<ShareGrantee> => {
+  const { user_id, class_id } = body || {};
+
+  if (!user_id === !class_id) {
+    throw new ShareError("invalid_share", "Share with either user_id or class_id");
+  }
+  if (!schoolId) {
+    throw new ShareError("invalid_share", "Sharing is only available for school documents");
+  }
+
+  if (user_id) {
+    if (typeof user_id !== "string" || user_id === ownerId) {
+      throw new ShareError("invalid_share", "Cannot share with this user");
+    }
+    const result = await pool.query(
+      `SELECT id FROM users
+       WHERE id = $1 AND school_id = $2 AND is_active = true AND deleted_at IS NULL`,
+      [user_id, schoolId]
+    );
+    if (result.rows.length === 0) {
+      throw new ShareError("invalid_share", "User not found in this school");
+    }
+    return { user_id };
+  }
+
+  if (typeof class_id !== "string") {
+    throw new ShareError("invalid_share", "Class not found in this school");
+  }
+  const classRecord = await ClassModel.findById(class_id);
+  if (!classRecord || classRecord.school_id !== schoolId) {
+    throw new ShareError("invalid_share", "Class not found in this school");
+  }
+  return { class_id };
+};
+
+const validatePermission = (permission: unknown): SharePermission => {
+  if (!SHARE_PERMISSIONS.includes(permission as SharePermission)) {
+    throw new ShareError("invalid_share", "permission must be view, comment or edit");
+  }
+  return permission as SharePermission;
+};
+
+/**
+ * Share a document or folder (the caller has checked the user owns it).
+ * Sharing again with the same grantee changes the permission.
+ * @param schoolId - School of the item, or the owner's current school
+ */
+export const shareWith = async (
+  target: ShareTarget,
+  body: any,
+  ownerId: string,
+  schoolId: string | null | undefined
+): Promise<ShareGrant> => {
+  const permission = validatePermission(body?.permission);
+  const grantee = await validateGrantee(body, ownerId, schoolId);
+  const row = await ShareModel.upsert(target, grantee, permission, ownerId);
+  await refreshLiveAccess(target);
+  const shares = await getShares(target);
+  return shares.find((share) => share.id === row.id) || toShareGrant(row);
+};
+
+export const changeSharePermission = async (
+  target: ShareTarget,
+  shareId: string,
+  permission: unknown
+): Promise<ShareGrant> => {
+  const updated = await ShareModel.updatePermission(shareId, target, validatePermission(permission));
+  if (!updated) {
+    throw new ShareError("share_not_found", "Share not found");
+  }
+  await refreshLiveAccess(target);
+  const shares = await getShares(target);
+  return shares.find((share) => share.id === shareId) || toShareGrant(updated);
+};
+
+export const revokeShare = async (target: ShareTarget, shareId: string): Promise<void> => {
+  const deleted = await ShareModel.delete(shareId, target);
+  if (!deleted) {
+    throw new ShareError("share_not_found", "Share not found");
+  }
+  await refreshLiveAccess(target);
+};
+
+/**
+ * Folders shared with the user: each granted folder and, through
+ * getDescendants, every folder below it, with the highest permission
+ * that reaches it
+ */
+export const listSharedFolders = async (
+  userId: string
+): Promise<{ folder: Folder; permission: SharePermission }[]> => {
+  const grants = (await ShareModel.findSharedWith(userId)).filter((grant) => grant.folder_id);
+  const shared = new Map<string, { folder: Folder; permission: SharePermission }>();
+
+  const add = (folder: Folder, permission: SharePermission) => {
+    const existing = shared.get(folder.id);
+    if (!existing || RANK[permission] > RANK[existing.permission]) {
+      shared.set(folder.id, { folder, permission });
+    }
+  };
+
+  for (const grant of grants) {
+    const folder = await FolderModel.findById(grant.folder_id!);
+    if (!folder) continue;
+    add(folder, grant.permission);
+    for (const descendant of await FolderModel.getDescendants(folder.id)) {
+      add(descendant, grant.permission);
+    }
+  }
+
+  return [...shared.values()];
+};
+
+/**
+ * Documents shared with the user, directly or through a shared folder
+ * (at any depth), with the highest permission that reaches each
+ */
+export const listSharedDocuments = async (
+  userId: string
+): Promise<{ document: Document; permission: SharePermission }[]> => {
+  const grants = await ShareModel.findSharedWith(userId);
+  const shared = new Map<string, { document: Document; permission: SharePermission }>();
+
+  const add = (document: Document, permission: SharePermission) => {
+    if (document.owner_id === userId) return;
+    const existing = shared.get(document.id);
+    if (!existing || RANK[permission] > RANK[existing.permission]) {
+      shared.set(document.id, { document, permission });
+    }
+  };
+
+  for (const grant of grants) {
+    if (grant.document_id) {
+      const document = await DocumentModel.findById(grant.document_id);
+      if (document) add(document, grant.permission);
+    }
+  }
+
+  for (const { folder, permission } of await listSharedFolders(userId)) {
+    for (const document of await DocumentModel.findByFolder(folder.id, folder.owner_id)) {
+      add(document, permission);
+    }
+  }
+
+  return [...shared.values()].sort(
+    (a, b) => new Date(b.document.last_modified_at).getTime() - new Date(a.document.last_modified_at).getTime()
+  );
+};
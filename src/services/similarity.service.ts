@@ -0,0 +1,152 @@
+import { pool } from "../config/postgres.db.js";
+import { SubmissionSimilarityModel } from "../models/submission-similarity.model.js";
+import type { SimilarityPassage } from "../types/submission.types.js";
+import { extractPlainText } from "../utils/document-metrics.utils.js";
+import {
+  estimateSimilarity,
+  findSharedText,
+  lshBands,
+  minHashSignature,
+  shingleHashes,
+  tokenize,
+} from "../utils/similarity.utils.js";
+
+export interface SimilarityCheckResult {
+  submission_id: string;
+  similarity_percent: number;
+  match_count: number;
+}
+
+// Upper bound of candidates compared exactly per check
+const MAX_CANDIDATES = 50;
+// Candidates whose estimated Jaccard similarity is below this are skipped
+const MIN_ESTIMATED_SIMILARITY = 0.02;
+// Matches covering less of the submission than this are not stored
+const MIN_MATCH_PERCENT = 5;
+
+const roundTwo = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Fingerprint a turned-in submission and compare it with other students'
+ * submissions in the school (same assignment, same class and past cohorts).
+ *
+ * Candidates come from MinHash LSH bands; each candidate is then compared
+ * exactly on its text snapshot. The percentage is the share of the
+ * submission's word shingles found in the matched submission, and the
+ * overall percentage the share found in any of them.
+ */
+export const checkSubmissionSimilarity = async (
+  submissionId: string
+): Promise<SimilarityCheckResult | null> => {
+  const submissionResult = await pool.query(
+    `SELECT s.id, s.school_id, s.student_id, s.status, s.content,
+            d.content AS document_content, d.content_format
+     FROM submissions s
+     LEFT JOIN documents d ON s.document_id = d.id
+     WHERE s.id = $1`,
+    [submissionId]
+  );
+  const submission = submissionResult.rows[0];
+
+  if (!submission || submission.status === "draft") {
+    return null;
+  }
+
+  const text =
+    submission.document_content !== null && submission.document_content !== undefined
+      ? extractPlainText(submission.document_content, submission.content_format)
+      : extractPlainText(submission.content, "plain");
+
+  const tokens = tokenize(text);
+  const shingles = shingleHashes(tokens);
+  const uniqueShingles = new Set(shingles);
+  const signature = minHashSignature(uniqueShingles);
+  const bands = lshBands(signature);
+
+  await SubmissionSimilarityModel.upsertFingerprint({
+    submission_id: submission.id,
+    school_id: submission.school_id,
+    student_id: submission.student_id,
+    shingle_count: uniqueShingles.size,
+    signature,
+    lsh_bands: bands,
+    content_text: text,
+  });
+
+  const candidates = await SubmissionSimilarityModel.findCandidates(
+    submission.id,
+    submission.school_id,
+    submission.student_id,
+    bands,
+    MAX_CANDIDATES
+  );
+
+  const matches: {
+    matched_submission_id: string;
+    similarity_percent: number;
+    passages: SimilarityPassage[];
+  }[] = [];
+  const sharedWithAny = new Set<number>();
+
+  for (const candidate of candidates) {
+    if (estimateSimilarity(signature, candidate.signature) < MIN_ESTIMATED_SIMILARITY) {
+      continue;
+    }
+
+    const candidateTokens = tokenize(candidate.content_text);
+    const shared = findSharedText(
+      text,
+      tokens,
+      shingles,
+      candidateTokens,
+      shingleHashes(candidateTokens)
+    );
+
+    const percent = roundTwo((shared.sharedShingles.size / uniqueShingles.size) * 100);
+    if (percent < MIN_MATCH_PERCENT) continue;
+
+    shared.sharedShingles.forEach((hash) => sharedWithAny.add(hash));
+    matches.push({
+      matched_submission_id: candidate.submission_id,
+      similarity_percent: percent,
+      passages: shared.passages,
+    });
+  }
+
+  const similarityPercent =
+    uniqueShingles.size > 0
+      ? roundTwo((sharedWithAny.size / uniqueShingles.size) * 100)
+      : 0;
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    await SubmissionSimilarityModel.replaceMatches(
+      submission.id,
+      similarityPercent,
+      matches,
+      client
+    );
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  return {
+    submission_id: submission.id,
+    similarity_percent: similarityPercent,
+    match_count: matches.length,
+  };
+};
+
+/**
+ * Run the check without holding up the request that turned the work in
+ */
+export const queueSimilarityCheck = (submissionId: string): void => {
+  checkSubmissionSimilarity(submissionId).catch((error) => {
+    console.error(`Error checking similarity for submission ${submissionId}:`, error);
+  });
+};
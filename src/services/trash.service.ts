@@ -0,0 +1,238 @@
+import { PoolClient } from "pg";
+import { pool } from "../config/postgres.db.js";
+import { DocumentModel, Document } from "../models/document.model.js";
+import { FolderModel, Folder } from "../models/folder.model.js";
+import { endLiveSession, flushLiveDocument } from "./collaboration.service.js";
+
+/**
+ * Days an item stays in the trash before the purge job removes it
+ */
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type TrashErrorCode = "document_not_found" | "folder_not_found";
+
+export class TrashError extends Error {
+  constructor(public code: TrashErrorCode, message: string) {
+    super(message);
+  }
+}
+
+export interface TrashListing {
+  retention_days: number;
+  folders: any[];
+  documents: any[];
+}
+
+const withTransaction = async <T>(work: (client: PoolClient) => Promise<T>): Promise<T> => {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const result = await work(client);
+    await client.query("COMMIT");
+    return result;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+const expiresAt = (deleted_at: Date | null | undefined): Date | null =>
+  deleted_at ? new Date(new Date(deleted_at).getTime() + TRASH_RETENTION_DAYS * DAY_MS) : null;
+
+/**
+ * Where a trashed item goes back to: its original folder while that is
+ * still live, otherwise a folder at its old path (recreated as needed)
+ */
+const restoreTarget = async (
+  owner_id: string,
+  folder_id: string | null | undefined,
+  trashed_path: string[] | null | undefined,
+  school_id: string | null | undefined,
+  client: PoolClient
+): Promise<string | null> => {
+  if (folder_id && (await FolderModel.isOwner(folder_id, owner_id))) return folder_id;
+  return FolderModel.ensurePath(owner_id, trashed_path || [], school_id || null, client);
+};
+
+/**
+ * Move a document to the trash. A live editing session is saved first so
+ * the trashed copy is current, then closed.
+ */
+export const trashDocument = async (documentId: string, userId: string): Promise<void> => {
+  const document = await DocumentModel.getDocumentWithPath(documentId, userId);
+  if (!document) {
+    throw new TrashError("document_not_found", "Document not found");
+  }
+
+  await flushLiveDocument(documentId);
+  const path = document.folder_id ? await FolderModel.getPathNames(document.folder_id) : [];
+  const trashed = await DocumentModel.moveToTrash(documentId, userId, path);
+  if (!trashed) {
+    throw new TrashError("document_not_found", "Document not found");
+  }
+  endLiveSession(documentId, "deleted", "This document was moved to the trash");
+};
+
+/**
+ * Move a folder and everything in it to the trash, closing the live
+ * editing sessions of its documents
+ * @returns Number of documents trashed with it
+ */
+export const trashFolder = async (folderId: string, userId: string): Promise<number> => {
+  const folder = await FolderModel.findById(folderId);
+  if (!folder || folder.owner_id !== userId) {
+    throw new TrashError("folder_not_found", "Folder not found");
+  }
+
+  // Trashed documents no longer take live saves, so save them first
+  const liveIds = await FolderModel.findDocumentIdsInTree(folderId);
+  await Promise.all(liveIds.map((id) => flushLiveDocument(id)));
+
+  const documentIds = await withTransaction(async (client) => {
+    const path = folder.parent_id ? await FolderModel.getPathNames(folder.parent_id, client) : [];
+    return FolderModel.moveToTrash(folderId, userId, path, client);
+  });
+  if (!documentIds) {
+    throw new TrashError("folder_not_found", "Folder not found");
+  }
+
+  for (const id of documentIds) {
+    endLiveSession(id, "deleted", "This document was moved to the trash");
+  }
+  return documentIds.length;
+};
+
+/**
+ * The user's trash: what they deleted themselves, newest first, with the
+ * date each item will be removed for good
+ */
+export const listTrash = async (userId: string): Promise<TrashListing> => {
+  const [folders, documents] = await Promise.all([
+    FolderModel.findTrashed(userId),
+    DocumentModel.findTrashed(userId),
+  ]);
+
+  return {
+    retention_days: TRASH_RETENTION_DAYS,
+    folders: folders.map((folder) => ({ ...folder, expires_at: expiresAt(folder.deleted_at) })),
+    documents: documents.map((document) => ({
+      id: document.id,
+      title: document.title,
+      document_type: document.document_type,
+      content_format: document.content_format,
+      folder_id: document.folder_id,
+      owner_id: document.owner_id,
+      school_id: document.school_id,
+      class_id: document.class_id,
+      assignment_id: document.assignment_id,
+      trashed_path: document.trashed_path || [],
+      created_at: document.created_at,
+      last_modified_at: document.last_modified_at,
+      deleted_at: document.deleted_at,
+      expires_at: expiresAt(document.deleted_at),
+    })),
+  };
+};
+
+/**
+ * Put a trashed document back in its original folder, recreating the
+ * folders above it if they are gone
+ */
+export const restoreDocument = async (documentId: string, userId: string): Promise<Document> =>
+  withTransaction(async (client) => {
+    const document = await DocumentModel.findTrashedById(documentId, userId, client);
+    if (!document) {
+      throw new TrashError("document_not_found", "Document not found in trash");
+    }
+
+    const folderId = await restoreTarget(
+      userId,
+      document.folder_id,
+      document.trashed_path,
+      document.school_id,
+      client
+    );
+    const restored = await DocumentModel.restore(documentId, userId, folderId, client);
+    if (!restored) {
+      throw new TrashError("document_not_found", "Document not found in trash");
+    }
+    return restored;
+  });
+
+/**
+ * Put a trashed folder, with everything trashed along with it, back in
+ * its original parent, recreating the folders above it if they are gone
+ */
+export const restoreFolder = async (folderId: string, userId: string): Promise<Folder> =>
+  withTransaction(async (client) => {
+    const folder = await FolderModel.findTrashedById(folderId, userId, client);
+    if (!folder) {
+      throw new TrashError("folder_not_found", "Folder not found in trash");
+    }
+
+    const parentId = await restoreTarget(
+      userId,
+      folder.parent_id,
+      folder.trashed_path,
+      folder.school_id,
+      client
+    );
+    const restored = await FolderModel.restore(folderId, userId, parentId, client);
+    if (!restored) {
+      throw new TrashError("folder_not_found", "Folder not found in trash");
+    }
+    return restored;
+  });
+
+export const deleteDocumentPermanently = async (documentId: string, userId: string): Promise<void> => {
+  const deleted = await DocumentModel.deletePermanently(documentId, userId);
+  if (!deleted) {
+    throw new TrashError("document_not_found", "Document not found in trash");
+  }
+};
+
+export const deleteFolderPermanently = async (folderId: string, userId: string): Promise<void> => {
+  const deleted = await withTransaction((client) => FolderModel.deletePermanently(folderId, userId, client));
+  if (!deleted) {
+    throw new TrashError("folder_not_found", "Folder not found in trash");
+  }
+};
+
+/**
+ * Remove everything in the user's trash for good
+ * @returns Number of trash entries removed
+ */
+export const emptyTrash = async (userId: string): Promise<number> => {
+  const { folders, documents } = await listTrash(userId);
+
+  let removed = 0;
+  for (const folder of folders) {
+    if (await withTransaction((client) => FolderModel.deletePermanently(folder.id, userId, client))) {
+      removed++;
+    }
+  }
+  for (const document of documents) {
+    if (await DocumentModel.deletePermanently(document.id, userId)) removed++;
+  }
+  return removed;
+};
+
+/**
+ * Remove trash entries older than the retention period
+ * @returns Number of trash entries removed
+ */
+export const purgeExpiredTrash = async (): Promise<number> => {
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * DAY_MS);
+
+  let removed = 0;
+  for (const folder of await FolderModel.findTrashedBefore(cutoff)) {
+    if (await withTransaction((client) => FolderModel.deletePermanently(folder.id, folder.owner_id, client))) {
+      removed++;
+    }
+  }
+  return removed + (await DocumentModel.deleteTrashedBefore(cutoff));
+};
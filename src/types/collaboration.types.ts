@@ -0,0 +1,78 @@
+import type { DocumentFormatting, FormatRange, ParagraphAttributes } from "../models/document.model.js";
+import type { TextOperation } from "../utils/ot.utils.js";
+
+export type CollaborationRole = "edit" | "view";
+
+export interface CursorSelection {
+  anchor: number;
+  head: number;
+}
+
+/**
+ * Formatting applied together with a text operation. Offsets refer to the
+ * document after the operation; paragraphs are addressed by any offset
+ * inside them so they can be transformed like text positions.
+ */
+export interface FormatChange {
+  ranges?: FormatRange[];
+  paragraphs?: { offset: number; attributes: ParagraphAttributes }[];
+}
+
+export interface ParticipantInfo {
+  clientId: string;
+  userId: string;
+  name: string;
+  role: CollaborationRole;
+  color: string;
+  selection: CursorSelection | null;
+}
+
+// Messages sent by clients
+export type ClientMessage =
+  | {
+      type: "op";
+      baseVersion: number;
+      operation: TextOperation;
+      format?: FormatChange;
+      selection?: CursorSelection;
+    }
+  | { type: "cursor"; version: number; selection: CursorSelection | null }
+  | { type: "sync" };
+
+export type CollaborationErrorCode =
+  | "invalid_message"
+  | "invalid_operation"
+  | "read_only"
+  | "version_ahead"
+  | "version_too_old"
+  | "unsupported_format"
+  | "not_found"
+  | "deleted"
+  | "access_revoked";
+
+// Messages sent by the server
+export type ServerMessage =
+  | {
+      type: "init" | "reset";
+      clientId?: string;
+      role?: CollaborationRole;
+      version: number;
+      content: string;
+      formatting: DocumentFormatting;
+      title: string;
+      participants: ParticipantInfo[];
+    }
+  | { type: "ack"; version: number }
+  | {
+      type: "op";
+      version: number;
+      operation: TextOperation;
+      format?: FormatChange;
+      clientId: string | null;
+      userId: string | null;
+    }
+  | { type: "presence"; participant: ParticipantInfo }
+  | { type: "join"; participant: ParticipantInfo }
+  | { type: "leave"; clientId: string }
+  | { type: "metadata"; version: number; title: string }
+  | { type: "error"; code: CollaborationErrorCode; message: string };
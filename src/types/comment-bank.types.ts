@@ -0,0 +1,69 @@
+export type CommentVisibility = 'private' | 'department' | 'school';
+
+// Database row structure
+export interface CommentBankRow {
+  id: string;
+  school_id: string;
+  owner_id: string;
+  department_id: string | null;
+  visibility: CommentVisibility;
+  title: string;
+  body: string;
+  tags: string[];
+  usage_count: number;
+  last_used_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// API request structure
+export interface CreateCommentDTO {
+  title: string;
+  body: string;
+  tags?: string[];
+  visibility?: CommentVisibility;
+  departmentId?: string | null;
+}
+
+export interface UpdateCommentDTO {
+  title?: string;
+  body?: string;
+  tags?: string[];
+  visibility?: CommentVisibility;
+  departmentId?: string | null;
+}
+
+export interface CommentSearchFilters {
+  search?: string;
+  tags?: string[];
+  visibility?: CommentVisibility;
+  ownerId?: string;
+  limit: number;
+  offset: number;
+}
+
+// Values substituted for {{placeholders}} in comment text
+export interface CommentPlaceholderContext {
+  student_first_name?: string | null;
+  student_last_name?: string | null;
+  student_name?: string | null;
+  teacher_name?: string | null;
+  assignment_title?: string | null;
+  class_name?: string | null;
+}
+
+// API response structure
+export interface CommentBankResponse {
+  id: string;
+  ownerId: string;
+  departmentId: string | null;
+  visibility: CommentVisibility;
+  title: string;
+  body: string;
+  tags: string[];
+  usageCount: number;
+  lastUsedAt: Date | null;
+  isOwner: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,53 @@
+export type SearchResultType = 'document' | 'folder' | 'assignment';
+
+// Who is searching: results are limited to their school and to what they
+// own, were shared, or teach / take
+export interface SearchScope {
+  user_id: string;
+  school_id: string | null;
+  is_admin: boolean;
+}
+
+export interface SearchFilters {
+  folder_id?: string;
+  class_id?: string;
+  assignment_id?: string;
+  from?: Date;
+  to?: Date;
+}
+
+// Database row structure (shared by all result types)
+export interface SearchRow {
+  id: string;
+  title: string;
+  headline: string | null;
+  rank: number;
+  folder_id: string | null;
+  class_id: string | null;
+  assignment_id: string | null;
+  owner_id: string | null;
+  updated_at: Date;
+  total: number;
+}
+
+// API response structure
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  snippet: string;
+  rank: number;
+  folder_id: string | null;
+  class_id: string | null;
+  assignment_id: string | null;
+  owner_id: string | null;
+  updated_at: Date;
+}
+
+export interface SearchResponse {
+  query: string;
+  results: SearchResult[];
+  counts: Record<SearchResultType, number>;
+  page: number;
+  limit: number;
+}
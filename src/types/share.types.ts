@@ -0,0 +1,40 @@
+export type SharePermission = 'view' | 'comment' | 'edit';
+
+// What a user may do with a document or folder: a share permission, or
+// everything as its owner
+export type AccessLevel = SharePermission | 'owner';
+
+// Database row structure
+export interface ShareGrantRow {
+  id: string;
+  document_id: string | null;
+  folder_id: string | null;
+  grantee_user_id: string | null;
+  grantee_class_id: string | null;
+  permission: SharePermission;
+  granted_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// A document or a folder
+export type ShareTarget = { document_id: string } | { folder_id: string };
+
+// A user (classmate or teacher) or every member of a class
+export type ShareGrantee = { user_id: string } | { class_id: string };
+
+// API response structure
+export interface ShareGrant {
+  id: string;
+  permission: SharePermission;
+  grantee_type: 'user' | 'class';
+  grantee: {
+    id: string;
+    name: string | null;
+    email?: string | null;
+    user_type?: string | null;
+  };
+  granted_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
@@ -0,0 +1,107 @@
+import type { CitationStyle } from "../models/document.model.js";
+
+export type SourceType =
+  | "book"
+  | "book_chapter"
+  | "journal_article"
+  | "magazine_article"
+  | "newspaper_article"
+  | "website"
+  | "video"
+  | "report"
+  | "other";
+
+/**
+ * A person (first/last) or an organisation (name)
+ */
+export interface SourceContributor {
+  first?: string;
+  last?: string;
+  name?: string;
+}
+
+/**
+ * A typed entry in documents.sources. Dates are ISO strings at the
+ * precision known: YYYY, YYYY-MM or YYYY-MM-DD.
+ */
+export interface Source {
+  id: string;
+  type: SourceType;
+  title: string;
+  authors: SourceContributor[];
+  editors?: SourceContributor[];
+  container_title?: string; // journal, magazine, newspaper, website, book (for chapters), video platform
+  publisher?: string;
+  publisher_place?: string;
+  edition?: string;
+  volume?: string;
+  issue?: string;
+  pages?: string;
+  report_number?: string;
+  runtime?: string;
+  published_date?: string;
+  accessed_date?: string;
+  url?: string;
+  doi?: string;
+  isbn?: string;
+}
+
+export type SourceInput = Partial<Omit<Source, "id">>;
+
+/**
+ * Metadata returned by POST /api/v1/scrape (metascraper's fields)
+ */
+export interface ScrapeMetadata {
+  author?: string | null;
+  date?: string | null;
+  description?: string | null;
+  image?: string | null;
+  logo?: string | null;
+  publisher?: string | null;
+  title?: string | null;
+  url?: string | null;
+  [key: string]: unknown;
+}
+
+export type IdentifierType = "doi" | "isbn" | "pmid";
+
+/**
+ * Metadata from a DOI, ISBN or PMID lookup: the scraper's fields plus
+ * the bibliographic details registries provide
+ */
+export interface IdentifierMetadata extends ScrapeMetadata {
+  type: SourceType;
+  authors: SourceContributor[];
+  journal?: string | null;
+  volume?: string | null;
+  issue?: string | null;
+  pages?: string | null;
+  publisher_place?: string | null;
+  doi?: string | null;
+  isbn?: string | null;
+  pmid?: string | null;
+}
+
+/**
+ * A piece of a formatted citation; italic runs are titles of
+ * standalone works and containers
+ */
+export interface CitationRun {
+  text: string;
+  italic?: boolean;
+}
+
+export interface FormattedSource extends Source {
+  missing_fields: (keyof Source)[];
+  citation: string;
+  citation_runs: CitationRun[];
+  in_text: string;
+}
+
+export interface BibliographyResponse {
+  citation_style: CitationStyle;
+  heading: string;
+  sources: FormattedSource[];
+  // Sorted as the style requires; sources keep the student's order
+  entries: { id: string; citation: string; citation_runs: CitationRun[] }[];
+}
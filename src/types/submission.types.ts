@@ -11,6 +11,17 @@ export type SubmissionStatus =
   | 'returned'
   | 'resubmitted';
 
+/**
+ * Score awarded against a single assignment grading criterion
+ */
+export interface RubricScore {
+  criterion_index: number;
+  title: string;
+  points: number;
+  score: number;
+  comment: string | null;
+}
+
 /**
  * Database row representation of a submission
  */
@@ -32,12 +43,62 @@ export interface SubmissionRow {
   page_count: number | null;
   submission_metadata: any | null;
   is_late: boolean;
+  minutes_late: number;
+  late_penalty_percent: number;
+  late_penalty_points: number | null;
+  final_score: number | null;
   version: number;
   previous_submission_id: string | null;
+  rubric_scores: RubricScore[] | null;
+  similarity_percent: number | null;
+  similarity_checked_at: Date | null;
   created_at: Date;
   updated_at: Date;
 }
 
+/**
+ * Database row representation of a grade amendment
+ */
+export interface GradeHistoryRow {
+  id: string;
+  school_id: string;
+  submission_id: string;
+  previous_score: number | null;
+  previous_feedback: string | null;
+  previous_rubric_scores: RubricScore[] | null;
+  new_score: number | null;
+  new_feedback: string | null;
+  new_rubric_scores: RubricScore[] | null;
+  reason: string;
+  amended_by: string | null;
+  created_at: Date;
+}
+
+/**
+ * Passage shared between a checked submission and a matched one.
+ * Offsets are character offsets into each submission's text snapshot.
+ */
+export interface SimilarityPassage {
+  text: string;
+  source_start: number;
+  source_end: number;
+  matched_start: number;
+  matched_end: number;
+  word_count: number;
+}
+
+/**
+ * Database row representation of a similarity match
+ */
+export interface SimilarityMatchRow {
+  id: string;
+  submission_id: string;
+  matched_submission_id: string;
+  similarity_percent: number;
+  passages: SimilarityPassage[];
+  created_at: Date;
+}
+
 /**
  * DTO for creating a new submission
  */
@@ -92,8 +153,13 @@ export interface SubmissionResponse {
   pageCount: number | null;
   submissionMetadata: any | null;
   isLate: boolean;
+  minutesLate: number;
+  latePenaltyPercent: number;
+  latePenaltyPoints: number | null;
+  finalScore: number | null;
   version: number;
   previousSubmissionId: string | null;
+  rubricScores: RubricScore[] | null;
   createdAt: Date;
   updatedAt: Date;
 }
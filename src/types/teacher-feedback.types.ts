@@ -1,5 +1,11 @@
 export type FeedbackType = 'multi-line' | 'multi-para' | 'delete' | 'insert' | 'move';
 
+export type FeedbackStatus = 'open' | 'addressed' | 'resolved';
+
+export type SuggestionStatus = 'pending' | 'accepted' | 'rejected';
+
+export type AnchorStatus = 'exact' | 'moved' | 'orphaned';
+
 export interface TextSelection {
   id: string;
   startParagraphIndex: number;
@@ -8,6 +14,10 @@ export interface TextSelection {
   endOffset: number;
   selectedText: string;
   timestamp: number;
+  // Set by re-anchoring after the document was edited
+  anchorStatus?: AnchorStatus;
+  anchorConfidence?: number;
+  originalText?: string;
 }
 
 export interface MoveSelection {
@@ -39,6 +49,16 @@ export interface InsertFeedbackData {
     offset: number;
     visualX?: number;
   };
+  // Text the teacher suggests inserting (applied when the student accepts)
+  insertText?: string;
+  // Text either side of insertPosition when the suggestion was made, used to
+  // find the spot again after the document changed
+  insertContext?: InsertContext;
+}
+
+export interface InsertContext {
+  before: string;
+  after: string;
 }
 
 export interface MoveFeedbackData {
@@ -64,8 +84,30 @@ export interface TeacherFeedbackRow {
   title: string;
   description: string;
   feedback_data: FeedbackData;
+  status: FeedbackStatus;
+  status_changed_by: string | null;
+  status_changed_at: Date | null;
+  suggestion_status: SuggestionStatus | null;
+  suggestion_decided_by: string | null;
+  suggestion_decided_at: Date | null;
+  suggestion_note: string | null;
+  applied_document_version: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface FeedbackReplyRow {
+  id: string;
+  school_id: string;
+  feedback_id: string;
+  author_id: string;
+  body: string;
   created_at: Date;
   updated_at: Date;
+  // Joined from users
+  author_first_name?: string | null;
+  author_last_name?: string | null;
+  author_user_type?: string | null;
 }
 
 // API request structure
@@ -76,11 +118,14 @@ export interface CreateFeedbackDTO {
   type: FeedbackType;
   title: string;
   description: string;
+  // Comment bank entry used for a missing title or description
+  commentBankId?: string;
   // Type-specific fields (will be converted to feedback_data)
   selectedTextRanges?: TextSelection[];
   selectedParagraphs?: number[];
   deleteSelection?: TextSelection;
   insertPosition?: { paragraphIndex: number; offset: number; visualX?: number };
+  insertText?: string;
   moveSelection?: MoveSelection;
 }
 
@@ -92,6 +137,7 @@ export interface UpdateFeedbackDTO {
   selectedParagraphs?: number[];
   deleteSelection?: TextSelection;
   insertPosition?: { paragraphIndex: number; offset: number; visualX?: number };
+  insertText?: string;
   moveSelection?: MoveSelection;
 }
 
@@ -106,12 +152,34 @@ export interface TeacherFeedbackResponse {
   type: FeedbackType;
   title: string;
   description: string;
+  status: FeedbackStatus;
+  statusChangedBy: string | null;
+  statusChangedAt: Date | null;
+  suggestionStatus: SuggestionStatus | null;
+  suggestionDecidedBy: string | null;
+  suggestionDecidedAt: Date | null;
+  suggestionNote: string | null;
+  appliedDocumentVersion: number | null;
   createdAt: Date;
   updatedAt: Date;
+  replies?: FeedbackReplyResponse[];
   // Type-specific fields (spread from feedback_data)
   selectedTextRanges?: TextSelection[];
   selectedParagraphs?: number[];
   deleteSelection?: TextSelection;
   insertPosition?: { paragraphIndex: number; offset: number; visualX?: number };
+  insertText?: string;
   moveSelection?: MoveSelection;
 }
+
+export interface FeedbackReplyResponse {
+  id: string;
+  feedbackId: string;
+  authorId: string;
+  authorFirstName: string | null;
+  authorLastName: string | null;
+  authorRole: string | null;
+  body: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
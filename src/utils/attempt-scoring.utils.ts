@@ -0,0 +1,62 @@
+import type { AttemptScoring } from "../models/assignment.model.js";
+
+export interface ScoredAttempt {
+  id: string;
+  version: number;
+  score: number | null;
+  final_score: number | null;
+  graded_at: Date | null;
+}
+
+export interface CountedScore {
+  score: number | null;
+  counted_submission_id: string | null;
+  graded_attempts: number;
+}
+
+/**
+ * Pick the score that counts for a student across all submission versions.
+ * Only finalized attempts (graded_at set) take part; the late-penalized
+ * final_score is used where present.
+ */
+export function computeCountedScore(
+  attempts: ScoredAttempt[],
+  scoring: AttemptScoring = "latest"
+): CountedScore {
+  const graded = attempts
+    .filter((attempt) => attempt.graded_at !== null && attempt.score !== null)
+    .map((attempt) => ({
+      id: attempt.id,
+      version: attempt.version,
+      value: Number(attempt.final_score ?? attempt.score),
+    }));
+
+  if (graded.length === 0) {
+    return { score: null, counted_submission_id: null, graded_attempts: 0 };
+  }
+
+  if (scoring === "average") {
+    const total = graded.reduce((sum, attempt) => sum + attempt.value, 0);
+    return {
+      score: Math.round((total / graded.length) * 100) / 100,
+      counted_submission_id: null,
+      graded_attempts: graded.length,
+    };
+  }
+
+  const pick = graded.reduce((best, attempt) => {
+    if (scoring === "highest") {
+      return attempt.value > best.value ||
+        (attempt.value === best.value && attempt.version > best.version)
+        ? attempt
+        : best;
+    }
+    return attempt.version > best.version ? attempt : best;
+  });
+
+  return {
+    score: pick.value,
+    counted_submission_id: pick.id,
+    graded_attempts: graded.length,
+  };
+}
@@ -0,0 +1,124 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Source } from "../types/source.types.js";
+import {
+  bibliographySortKey,
+  buildBibliography,
+  citationText,
+  formatCitation,
+  formatInTextCitation,
+} from "./citation.utils.js";
+
+const BOOK: Source = {
+  id: "book",
+  type: "book",
+  title: "The Great Gatsby",
+  authors: [{ first: "F. Scott", last: "Fitzgerald" }],
+  publisher: "Scribner",
+  publisher_place: "New York",
+  published_date: "1925",
+  edition: "2",
+};
+
+const ARTICLE: Source = {
+  id: "article",
+  type: "journal_article",
+  title: "Deep Learning",
+  authors: [
+    { first: "Yann", last: "LeCun" },
+    { first: "Yoshua", last: "Bengio" },
+    { first: "Geoffrey", last: "Hinton" },
+  ],
+  container_title: "Nature",
+  volume: "521",
+  issue: "7553",
+  pages: "436-444",
+  published_date: "2015-05-28",
+  doi: "10.1038/nature14539",
+};
+
+const WEBSITE: Source = {
+  id: "website",
+  type: "website",
+  title: "About Us",
+  authors: [{ name: "World Health Organization" }],
+  container_title: "WHO",
+  url: "https://www.who.int/about",
+  accessed_date: "2024-03-05",
+};
+
+describe("formatCitation", () => {
+  it("formats a book in each style with its title in italics", () => {
+    assert.deepEqual(formatCitation(BOOK, "mla"), [
+      { text: "Fitzgerald, F. Scott. " },
+      { text: "The Great Gatsby.", italic: true },
+      { text: " 2nd ed., Scribner, 1925." },
+    ]);
+    assert.equal(
+      citationText(formatCitation(BOOK, "apa")),
+      "Fitzgerald, F. S. (1925). The Great Gatsby (2nd ed.). Scribner."
+    );
+    assert.equal(
+      citationText(formatCitation(BOOK, "chicago")),
+      "Fitzgerald, F. Scott. The Great Gatsby. 2nd ed. New York: Scribner, 1925."
+    );
+  });
+
+  it("formats a journal article with its volume, issue, pages and DOI", () => {
+    assert.equal(
+      citationText(formatCitation(ARTICLE, "mla")),
+      "LeCun, Yann, et al. “Deep Learning.” Nature, vol. 521, no. 7553, 28 May 2015, pp. 436–444, https://doi.org/10.1038/nature14539."
+    );
+    assert.deepEqual(formatCitation(ARTICLE, "apa"), [
+      { text: "LeCun, Y., Bengio, Y., & Hinton, G. (2015). Deep Learning. " },
+      { text: "Nature", italic: true },
+      { text: ", " },
+      { text: "521", italic: true },
+      { text: "(7553), 436–444. https://doi.org/10.1038/nature14539" },
+    ]);
+    assert.equal(
+      citationText(formatCitation(ARTICLE, "chicago")),
+      "LeCun, Yann, Yoshua Bengio, and Geoffrey Hinton. “Deep Learning.” Nature 521, no. 7553 (May 2015): 436–444. https://doi.org/10.1038/nature14539."
+    );
+  });
+
+  it("uses the access date for an undated website", () => {
+    assert.equal(
+      citationText(formatCitation(WEBSITE, "mla")),
+      "World Health Organization. “About Us.” WHO, www.who.int/about. Accessed 5 Mar. 2024."
+    );
+    assert.equal(
+      citationText(formatCitation(WEBSITE, "apa")),
+      "World Health Organization. (n.d.). About Us. WHO. Retrieved March 5, 2024, from https://www.who.int/about"
+    );
+    assert.equal(
+      citationText(formatCitation(WEBSITE, "chicago")),
+      "World Health Organization. “About Us.” WHO. Accessed March 5, 2024. https://www.who.int/about."
+    );
+  });
+});
+
+describe("formatInTextCitation", () => {
+  it("cites authors, year and pages the way each style does", () => {
+    assert.equal(formatInTextCitation(ARTICLE, "mla", "437-438"), "(LeCun et al. 437–438)");
+    assert.equal(formatInTextCitation(ARTICLE, "apa", "437-438"), "(LeCun et al., 2015, pp. 437–438)");
+    assert.equal(formatInTextCitation(ARTICLE, "chicago", "437-438"), "(LeCun, Bengio, and Hinton 2015, 437–438)");
+    assert.equal(formatInTextCitation(BOOK, "apa", "12"), "(Fitzgerald, 1925, p. 12)");
+  });
+
+  it("falls back to n.d. and to the title without a date or author", () => {
+    assert.equal(formatInTextCitation(WEBSITE, "apa"), "(World Health Organization, n.d.)");
+    assert.equal(formatInTextCitation({ ...WEBSITE, authors: [] }, "mla"), "(“About Us”)");
+  });
+});
+
+describe("buildBibliography", () => {
+  it("sorts entries ignoring leading articles and quotation marks", () => {
+    assert.equal(bibliographySortKey("“The Road.” Example"), "road.” example");
+    const entries = buildBibliography([WEBSITE, ARTICLE, BOOK], "mla").map(citationText);
+    assert.deepEqual(
+      entries.map((entry) => entry.split(".")[0]),
+      ["Fitzgerald, F", "LeCun, Yann, et al", "World Health Organization"]
+    );
+  });
+});
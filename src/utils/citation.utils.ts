@@ -0,0 +1,372 @@
+import type { CitationStyle } from "../models/document.model.js";
+import type { CitationRun, Source, SourceContributor, SourceType } from "../types/source.types.js";
+import { SourceDate, normalizeSources, parseSourceDate } from "./source.utils.js";
+
+export type { CitationRun } from "../types/source.types.js";
+
+interface Author {
+  first: string;
+  last: string;
+}
+
+const MLA_MONTHS = ["Jan.", "Feb.", "Mar.", "Apr.", "May", "June", "July", "Aug.", "Sept.", "Oct.", "Nov.", "Dec."];
+const MONTHS = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+export const BIBLIOGRAPHY_HEADINGS: Record<CitationStyle, string> = {
+  mla: "Works Cited",
+  apa: "References",
+  chicago: "Bibliography",
+};
+
+// Works published on their own; their titles are italic rather than quoted
+const STANDALONE_TYPES: SourceType[] = ["book", "report", "website", "video", "other"];
+const PERIODICAL_TYPES: SourceType[] = ["journal_article", "magazine_article", "newspaper_article"];
+
+// Organisations keep their name as written and are never inverted
+const toAuthor = (person: SourceContributor): Author =>
+  person.name ? { first: "", last: person.name } : { first: person.first || "", last: person.last || "" };
+
+const initials = (first: string): string =>
+  first
+    .split(/[\s-]+/)
+    .filter(Boolean)
+    .map((part) => `${part[0]!.toUpperCase()}.`)
+    .join(" ");
+
+const fullName = (author: Author) => [author.first, author.last].filter(Boolean).join(" ");
+const invertedName = (author: Author) => (author.first ? `${author.last}, ${author.first}` : author.last);
+
+const listNames = (names: string[], conjunction: string): string => {
+  if (names.length <= 1) return names[0] || "";
+  if (names.length === 2) {
+    return conjunction === "&" ? `${names[0]}, & ${names[1]}` : `${names[0]}, ${conjunction} ${names[1]}`;
+  }
+  return `${names.slice(0, -1).join(", ")}, ${conjunction} ${names[names.length - 1]}`;
+};
+
+const mlaAuthors = (authors: Author[]): string => {
+  if (authors.length === 0) return "";
+  if (authors.length >= 3) return `${invertedName(authors[0]!)}, et al.`;
+  return listNames([invertedName(authors[0]!), ...authors.slice(1).map(fullName)], "and");
+};
+
+const apaName = (author: Author) => (author.first ? `${author.last}, ${initials(author.first)}` : author.last);
+
+const apaAuthors = (authors: Author[]): string => {
+  // APA 7 lists up to 20 authors, then an ellipsis and the last author
+  if (authors.length > 20) {
+    return `${authors.slice(0, 19).map(apaName).join(", ")}, . . . ${apaName(authors[authors.length - 1]!)}`;
+  }
+  return listNames(authors.map(apaName), "&");
+};
+
+const chicagoAuthors = (authors: Author[]): string => {
+  if (authors.length === 0) return "";
+  return listNames([invertedName(authors[0]!), ...authors.slice(1).map(fullName)], "and");
+};
+
+const mlaDate = (date: SourceDate): string =>
+  [date.day, date.month ? MLA_MONTHS[date.month - 1] : undefined, date.year].filter(Boolean).join(" ");
+
+const longDate = (date: SourceDate): string => {
+  if (!date.month) return String(date.year);
+  const month = MONTHS[date.month - 1];
+  return date.day ? `${month} ${date.day}, ${date.year}` : `${month} ${date.year}`;
+};
+
+const ordinal = (value: number): string => {
+  const suffix = value % 100 >= 11 && value % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][value % 10] || "th";
+  return `${value}${suffix}`;
+};
+
+// "2" -> "2nd ed.", "Revised" -> "Revised ed."
+const editionText = (edition: string): string =>
+  /^\d+$/.test(edition) ? `${ordinal(Number(edition))} ed.` : /ed\.?$/i.test(edition) ? edition : `${edition} ed.`;
+
+const doiUrl = (doi: string): string => (/^https?:\/\//i.test(doi) ? doi : `https://doi.org/${doi}`);
+
+// End a segment with a period unless it already ends in punctuation
+const closed = (value: string): string => (/[.?!]$/.test(value) ? value : `${value}.`);
+
+const quotedTitle = (title: string): string => `“${closed(title)}” `;
+
+// En dash for page ranges
+const pageRange = (pages: string): string => pages.replace(/\s*-+\s*/g, "–");
+
+const shortTitle = (title: string): string => {
+  const main = title.split(/[:.?!]/)[0]!.trim();
+  const words = main.split(/\s+/);
+  return words.length > 4 ? words.slice(0, 4).join(" ") : main;
+};
+
+class CitationBuilder {
+  runs: CitationRun[] = [];
+
+  add(value: string | undefined, italic = false) {
+    if (value) this.runs.push(italic ? { text: value, italic } : { text: value });
+  }
+
+  // Comma-separated elements closed with a period (MLA containers)
+  addList(items: CitationRun[]) {
+    items.forEach((item, index) => {
+      this.add(item.text, !!item.italic);
+      this.add(index < items.length - 1 ? ", " : ". ");
+    });
+  }
+
+  build(): CitationRun[] {
+    // Trim the trailing space left by the last segment and merge neighbours
+    const merged: CitationRun[] = [];
+    for (const run of this.runs) {
+      const last = merged[merged.length - 1];
+      if (last && !!last.italic === !!run.italic) last.text += run.text;
+      else merged.push({ ...run });
+    }
+    const last = merged[merged.length - 1];
+    if (last) last.text = last.text.replace(/\s+$/, "");
+    return merged.filter((run) => run.text !== "");
+  }
+}
+
+const formatMla = (source: Source, authors: Author[], date: SourceDate | null): CitationRun[] => {
+  const citation = new CitationBuilder();
+  const standalone = STANDALONE_TYPES.includes(source.type) && source.type !== "website" && source.type !== "video";
+  const authorText = mlaAuthors(authors);
+  if (authorText) citation.add(`${closed(authorText)} `);
+
+  if (standalone) {
+    citation.add(closed(source.title || "Untitled"), true);
+    citation.add(" ");
+  } else {
+    citation.add(quotedTitle(source.title || "Untitled"));
+  }
+
+  const elements: CitationRun[] = [];
+  if (!standalone && source.container_title) elements.push({ text: source.container_title, italic: true });
+  if (source.editors?.length) {
+    elements.push({ text: `edited by ${listNames(source.editors.map(toAuthor).map(fullName), "and")}` });
+  }
+  if (source.edition) elements.push({ text: editionText(source.edition) });
+  if (source.volume) elements.push({ text: `vol. ${source.volume}` });
+  if (source.issue) elements.push({ text: `no. ${source.issue}` });
+  if (source.publisher && source.publisher !== source.container_title && !PERIODICAL_TYPES.includes(source.type)) {
+    elements.push({ text: source.publisher });
+  }
+  if (date) elements.push({ text: mlaDate(date) });
+  if (source.pages) elements.push({ text: `${/[-–,]/.test(source.pages) ? "pp." : "p."} ${pageRange(source.pages)}` });
+  const location = source.doi ? doiUrl(source.doi) : (source.url || "").replace(/^https?:\/\//i, "");
+  if (location) elements.push({ text: location });
+  citation.addList(elements);
+
+  const accessed = parseSourceDate(source.accessed_date);
+  if ((source.type === "website" || source.type === "video") && accessed) {
+    citation.add(`Accessed ${closed(mlaDate(accessed))}`);
+  }
+  return citation.build();
+};
+
+const apaDate = (source: Source, date: SourceDate | null): string => {
+  if (!date) return "(n.d.)";
+  // Books, journals and reports give the year; dated media the full date
+  const full = !["book", "book_chapter", "journal_article", "report"].includes(source.type);
+  if (!full || !date.month) return `(${date.year})`;
+  return `(${date.year}, ${MONTHS[date.month - 1]}${date.day ? ` ${date.day}` : ""})`;
+};
+
+const formatApa = (source: Source, authors: Author[], date: SourceDate | null): CitationRun[] => {
+  const citation = new CitationBuilder();
+  const standalone = STANDALONE_TYPES.includes(source.type);
+  const title = source.title || "Untitled";
+  const authorText = apaAuthors(authors);
+  const dateText = apaDate(source, date);
+
+  const addTitle = () => {
+    const description =
+      source.type === "video"
+        ? " [Video]"
+        : source.type === "report" && source.report_number
+          ? ` (Report No. ${source.report_number})`
+          : source.edition && source.type === "book"
+            ? ` (${editionText(source.edition)})`
+            : "";
+    if (standalone) {
+      citation.add(description ? title.replace(/[.]$/, "") : closed(title), true);
+      if (description) citation.add(`${description}.`);
+    } else {
+      citation.add(closed(title));
+    }
+  };
+
+  // Without an author the title moves into the author position
+  if (authorText) {
+    citation.add(`${closed(authorText)} ${dateText}. `);
+    addTitle();
+  } else {
+    addTitle();
+    citation.add(` ${dateText}.`);
+  }
+  citation.add(" ");
+
+  if (source.type === "book_chapter") {
+    citation.add("In ");
+    if (source.editors?.length) {
+      const editors = source.editors.map(toAuthor).map((editor) => [initials(editor.first), editor.last].filter(Boolean).join(" "));
+      citation.add(`${listNames(editors, "&")} (${source.editors.length > 1 ? "Eds." : "Ed."}), `);
+    }
+    citation.add(source.container_title || "Untitled", true);
+    citation.add(source.pages ? ` (pp. ${pageRange(source.pages)}). ` : ". ");
+    if (source.publisher) citation.add(`${closed(source.publisher)} `);
+  } else if (PERIODICAL_TYPES.includes(source.type)) {
+    if (source.container_title) {
+      citation.add(source.container_title, true);
+      if (source.volume) {
+        citation.add(", ");
+        citation.add(source.volume, true);
+      }
+      if (source.issue) citation.add(`(${source.issue})`);
+      if (source.pages) citation.add(`, ${pageRange(source.pages)}`);
+      citation.add(". ");
+    }
+  } else {
+    // Sites and publishers that repeat the author are left out
+    const container = source.container_title;
+    if ((source.type === "website" || source.type === "video") && container && container !== authorText) {
+      citation.add(`${closed(container)} `);
+    }
+    const media = source.type === "website" || source.type === "video";
+    if (source.publisher && !(media && container) && source.publisher !== authors.map(fullName).join(", ")) {
+      citation.add(`${closed(source.publisher)} `);
+    }
+  }
+
+  const accessed = parseSourceDate(source.accessed_date);
+  if (source.doi) citation.add(doiUrl(source.doi));
+  else if (source.url && !date && accessed) citation.add(`Retrieved ${longDate(accessed)}, from ${source.url}`);
+  else if (source.url) citation.add(source.url);
+  return citation.build();
+};
+
+const formatChicago = (source: Source, authors: Author[], date: SourceDate | null): CitationRun[] => {
+  const citation = new CitationBuilder();
+  const standalone = ["book", "report", "other"].includes(source.type);
+  const authorText = chicagoAuthors(authors);
+  if (authorText) citation.add(`${closed(authorText)} `);
+
+  if (standalone) {
+    citation.add(closed(source.title || "Untitled"), true);
+    citation.add(" ");
+  } else {
+    citation.add(quotedTitle(source.title || "Untitled"));
+  }
+
+  const imprint = () => {
+    const publisher = [source.publisher_place && source.publisher ? `${source.publisher_place}: ${source.publisher}` : source.publisher || source.publisher_place, date ? String(date.year) : ""]
+      .filter(Boolean)
+      .join(", ");
+    if (publisher) citation.add(`${closed(publisher)} `);
+  };
+
+  if (source.type === "book_chapter") {
+    citation.add("In ");
+    citation.add(source.container_title || "Untitled", true);
+    if (source.editors?.length) {
+      citation.add(`, edited by ${listNames(source.editors.map(toAuthor).map(fullName), "and")}`);
+    }
+    citation.add(source.pages ? `, ${pageRange(source.pages)}. ` : ". ");
+    imprint();
+  } else if (standalone) {
+    if (source.edition) citation.add(`${editionText(source.edition)} `);
+    if (source.report_number) citation.add(`${closed(source.report_number)} `);
+    imprint();
+  } else if (source.type === "journal_article") {
+    citation.add(source.container_title, true);
+    if (source.volume) citation.add(` ${source.volume}`);
+    if (source.issue) citation.add(`, no. ${source.issue}`);
+    if (date) citation.add(` (${date.month ? `${MONTHS[date.month - 1]} ` : ""}${date.year})`);
+    citation.add(source.pages ? `: ${pageRange(source.pages)}. ` : ". ");
+  } else if (PERIODICAL_TYPES.includes(source.type)) {
+    citation.add(source.container_title, true);
+    if (date) citation.add(`, ${longDate(date)}`);
+    citation.add(source.pages ? `, ${pageRange(source.pages)}. ` : ". ");
+  } else {
+    if (source.type === "video") {
+      const platform = source.container_title ? `${source.container_title} video` : "Video";
+      citation.add(`${closed(source.runtime ? `${platform}, ${source.runtime}` : platform)} `);
+    } else if (source.container_title) {
+      citation.add(`${closed(source.container_title)} `);
+    }
+    if (source.publisher && source.publisher !== source.container_title) citation.add(`${closed(source.publisher)} `);
+    const accessed = parseSourceDate(source.accessed_date);
+    if (date) citation.add(`${closed(longDate(date))} `);
+    else if (accessed) citation.add(`Accessed ${closed(longDate(accessed))} `);
+  }
+
+  if (source.doi) citation.add(closed(doiUrl(source.doi)));
+  else if (source.url) citation.add(closed(source.url));
+  return citation.build();
+};
+
+/**
+ * Format one source as a works-cited / references / bibliography entry
+ */
+export function formatCitation(source: Source, style: CitationStyle): CitationRun[] {
+  const authors = source.authors.map(toAuthor);
+  const date = parseSourceDate(source.published_date);
+
+  if (style === "apa") return formatApa(source, authors, date);
+  if (style === "chicago") return formatChicago(source, authors, date);
+  return formatMla(source, authors, date);
+}
+
+export const citationText = (runs: CitationRun[]): string => runs.map((run) => run.text).join("");
+
+/**
+ * Parenthetical in-text citation, optionally pointing at a page or range.
+ * Chicago uses its author-date form.
+ */
+export function formatInTextCitation(source: Source, style: CitationStyle, locator?: string): string {
+  const surnames = source.authors.map(toAuthor).map((author) => author.last);
+  const date = parseSourceDate(source.published_date);
+  const year = date ? String(date.year) : "n.d.";
+  const title = shortTitle(source.title || "Untitled");
+  // Titles italicised in the entry stay bare; the rest are quoted
+  const italicTitle =
+    style === "apa" ? STANDALONE_TYPES.includes(source.type) : ["book", "report", "other"].includes(source.type);
+  const titleLabel = italicTitle ? title : `“${title}”`;
+  const pages = locator ? pageRange(locator) : "";
+
+  let names: string;
+  if (surnames.length === 0) names = titleLabel;
+  else if (surnames.length === 1) names = surnames[0]!;
+  else if (surnames.length === 2) names = `${surnames[0]} ${style === "apa" ? "&" : "and"} ${surnames[1]}`;
+  else if (surnames.length === 3 && style === "chicago") names = `${surnames[0]}, ${surnames[1]}, and ${surnames[2]}`;
+  else names = `${surnames[0]} et al.`;
+
+  if (style === "apa") {
+    const locatorText = pages ? `, ${/[–,]/.test(pages) ? "pp." : "p."} ${pages}` : "";
+    return `(${names}, ${year}${locatorText})`;
+  }
+  if (style === "chicago") {
+    return `(${names} ${year}${pages ? `, ${pages}` : ""})`;
+  }
+  return `(${names}${pages ? ` ${pages}` : ""})`;
+}
+
+// Entries sort by their first word, ignoring quotation marks and articles
+export const bibliographySortKey = (citation: string): string =>
+  citation
+    .replace(/^[^\p{L}\p{N}]+/u, "")
+    .replace(/^(the|a|an)\s+/i, "")
+    .toLowerCase();
+
+/**
+ * Format a document's sources as a sorted bibliography
+ */
+export function buildBibliography(sources: any[] | null | undefined, style: CitationStyle): CitationRun[][] {
+  return normalizeSources(sources)
+    .map((source) => formatCitation(source, style))
+    .sort((a, b) => bibliographySortKey(citationText(a)).localeCompare(bibliographySortKey(citationText(b))));
+}
@@ -0,0 +1,55 @@
+import type { CommentPlaceholderContext } from "../types/comment-bank.types.js";
+
+export const COMMENT_PLACEHOLDERS: (keyof CommentPlaceholderContext)[] = [
+  "student_first_name",
+  "student_last_name",
+  "student_name",
+  "teacher_name",
+  "assignment_title",
+  "class_name",
+];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/gi;
+
+export interface RenderedComment {
+  text: string;
+  missing: string[];
+}
+
+/**
+ * Fill {{placeholders}} in saved comment text. Placeholders without a value
+ * in the context (or unknown ones) are left in place and reported as missing
+ * so the teacher can complete them by hand.
+ */
+export function renderPlaceholders(
+  text: string,
+  context: CommentPlaceholderContext
+): RenderedComment {
+  const missing = new Set<string>();
+
+  const rendered = text.replace(PLACEHOLDER_PATTERN, (match, rawName: string) => {
+    const name = rawName.toLowerCase() as keyof CommentPlaceholderContext;
+    const value = COMMENT_PLACEHOLDERS.includes(name) ? context[name] : undefined;
+    if (value === undefined || value === null || value === "") {
+      missing.add(name);
+      return match;
+    }
+    return value;
+  });
+
+  return { text: rendered, missing: [...missing] };
+}
+
+/**
+ * Normalise user supplied tags: trimmed, lower-case, unique, non-empty
+ */
+export function normalizeTags(tags: unknown): string[] {
+  if (!Array.isArray(tags)) return [];
+  const seen = new Set<string>();
+  for (const tag of tags) {
+    if (typeof tag !== "string") continue;
+    const normalized = tag.trim().toLowerCase();
+    if (normalized) seen.add(normalized.slice(0, 50));
+  }
+  return [...seen];
+}
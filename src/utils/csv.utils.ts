@@ -42,3 +42,29 @@ export function validateCSVHeaders(
     missing,
   };
 }
+
+export type CSVCell = string | number | boolean | null | undefined;
+
+// Text cells starting with these are run as formulas by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCSVCell(value: CSVCell): string {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  // Numbers (e.g. negative scores) are safe; text gets a leading quote
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  // Quote cells containing delimiters, quotes or line breaks
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+export function stringifyCSV(headers: string[], rows: CSVCell[][]): string {
+  const lines = [headers, ...rows].map((row) =>
+    row.map((cell) => escapeCSVCell(cell)).join(",")
+  );
+  return lines.join("\r\n") + "\r\n";
+}
@@ -0,0 +1,221 @@
+import type { ContentFormat } from "../models/document.model.js";
+import type { LengthEnforcement } from "../models/assignment.model.js";
+
+export interface DocumentMetrics {
+  wordCount: number;
+  pageCount: number;
+}
+
+export interface LengthViolation {
+  code: "below_min_words" | "above_max_words" | "below_page_count";
+  message: string;
+}
+
+export interface LengthCheck {
+  enforcement: LengthEnforcement;
+  violations: LengthViolation[];
+  blocked: boolean;
+}
+
+// Standard academic page: 12pt font, double spaced
+const WORDS_PER_PAGE = 250;
+
+const HTML_ENTITIES: Record<string, string> = {
+  nbsp: " ",
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+// Unicode code points other than surrogates; anything else stays as written
+const isScalarValue = (code: number): boolean =>
+  code >= 0 && code <= 0x10ffff && (code < 0xd800 || code > 0xdfff);
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1] === "x" || entity[1] === "X"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return isScalarValue(code) ? String.fromCodePoint(code) : match;
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+const htmlToText = (html: string): string =>
+  decodeEntities(
+    html
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+      .replace(/<!--[\s\S]*?-->/g, " ")
+      .replace(/<[^>]+>/g, " ")
+  );
+
+const markdownToText = (markdown: string): string =>
+  htmlToText(
+    markdown
+      .replace(/^```.*$/gm, " ")
+      .replace(/^\s{0,3}\[[^\]]+\]:\s*\S+.*$/gm, " ")
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/^\s{0,3}(#{1,6}|>+|[-*+]|\d+[.)])\s+/gm, "")
+      .replace(/^\s{0,3}([-*_]\s*){3,}$/gm, " ")
+      .replace(/[*_~`]+/g, "")
+  );
+
+/**
+ * Collect the text of a JSON rich text tree. Handles the common editor
+ * shapes: { text } leaves (ProseMirror/Slate/Lexical) and { insert } ops (Quill).
+ */
+const collectJsonText = (node: any, parts: string[]): void => {
+  if (Array.isArray(node)) {
+    node.forEach((child) => collectJsonText(child, parts));
+    return;
+  }
+  if (!node || typeof node !== "object") return;
+
+  if (typeof node.text === "string") parts.push(node.text);
+  if (typeof node.insert === "string") parts.push(node.insert);
+
+  for (const [key, value] of Object.entries(node)) {
+    if (key === "text" || key === "insert") continue;
+    if (value && typeof value === "object") collectJsonText(value, parts);
+  }
+};
+
+const jsonToText = (json: string): string => {
+  try {
+    const parts: string[] = [];
+    collectJsonText(JSON.parse(json), parts);
+    // Separate leaves so words in adjacent blocks are not glued together
+    return parts.join(" ");
+  } catch {
+    return json;
+  }
+};
+
+/**
+ * Plain text of a document's content for its content_format
+ */
+export function extractPlainText(
+  content: string | null | undefined,
+  format: ContentFormat | string | null | undefined
+): string {
+  if (!content) return "";
+
+  switch (format) {
+    case "html":
+      return htmlToText(content);
+    case "markdown":
+      return markdownToText(content);
+    case "json":
+      return jsonToText(content);
+    default:
+      return content;
+  }
+}
+
+/**
+ * Paragraph texts of a document, in the order the editor indexes them.
+ * Plain and markdown content is split on line breaks, html on block
+ * elements and json on the top-level blocks of the rich text tree.
+ */
+export function splitParagraphs(
+  content: string | null | undefined,
+  format: ContentFormat | string | null | undefined
+): string[] {
+  if (!content) return [""];
+
+  switch (format) {
+    case "html":
+      return content
+        .replace(/<br\s*\/?>/gi, "\n")
+        .replace(/<\/(p|div|h[1-6]|li|blockquote|pre|tr)>/gi, "\n")
+        .replace(/\n$/, "")
+        .split("\n")
+        .map((paragraph) => htmlToText(paragraph).replace(/\s+/g, " ").trim());
+    case "json":
+      try {
+        const parsed = JSON.parse(content);
+        const blocks: any[] = Array.isArray(parsed)
+          ? parsed
+          : parsed?.content ?? parsed?.children ?? parsed?.ops ?? [parsed];
+        return blocks.map((block) => {
+          const parts: string[] = [];
+          collectJsonText(block, parts);
+          return parts.join("");
+        });
+      } catch {
+        return content.split("\n");
+      }
+    default:
+      return content.split("\n");
+  }
+}
+
+/**
+ * Word and page count of document content. A word is any whitespace
+ * separated token containing a letter or digit; pages are estimated from
+ * the word count.
+ */
+export function computeDocumentMetrics(
+  content: string | null | undefined,
+  format: ContentFormat | string | null | undefined
+): DocumentMetrics {
+  const words = extractPlainText(content, format)
+    .split(/\s+/)
+    .filter((token) => /[\p{L}\p{N}]/u.test(token));
+
+  return {
+    wordCount: words.length,
+    pageCount: words.length === 0 ? 0 : Math.ceil(words.length / WORDS_PER_PAGE),
+  };
+}
+
+/**
+ * Compare computed metrics with the assignment length requirements.
+ * page_count on an assignment is treated as the minimum number of pages.
+ */
+export function checkLengthRequirements(
+  metrics: DocumentMetrics,
+  requirements: {
+    min_word_count?: number | null;
+    max_word_count?: number | null;
+    page_count?: number | null;
+    length_enforcement?: LengthEnforcement | null;
+  }
+): LengthCheck {
+  const enforcement = requirements.length_enforcement ?? "warn";
+  const violations: LengthViolation[] = [];
+
+  if (enforcement !== "off") {
+    const { min_word_count, max_word_count, page_count } = requirements;
+
+    if (min_word_count && metrics.wordCount < min_word_count) {
+      violations.push({
+        code: "below_min_words",
+        message: `Submission has ${metrics.wordCount} words; at least ${min_word_count} are required`,
+      });
+    }
+    if (max_word_count && metrics.wordCount > max_word_count) {
+      violations.push({
+        code: "above_max_words",
+        message: `Submission has ${metrics.wordCount} words; at most ${max_word_count} are allowed`,
+      });
+    }
+    if (page_count && metrics.pageCount < page_count) {
+      violations.push({
+        code: "below_page_count",
+        message: `Submission is about ${metrics.pageCount} pages; ${page_count} are required`,
+      });
+    }
+  }
+
+  return {
+    enforcement,
+    violations,
+    blocked: enforcement === "block" && violations.length > 0,
+  };
+}
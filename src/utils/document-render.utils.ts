@@ -0,0 +1,205 @@
+import type {
+  CitationStyle,
+  Document,
+  ParagraphAttributes,
+  TextAttributes,
+} from "../models/document.model.js";
+import { splitParagraphs } from "./document-metrics.utils.js";
+import { BIBLIOGRAPHY_HEADINGS, CitationRun, buildBibliography } from "./citation.utils.js";
+
+/**
+ * Format-neutral view of a document used by the exporters: paragraphs of
+ * styled text runs plus the bibliography built from its sources
+ */
+export interface RenderAttributes extends TextAttributes {
+  code?: boolean;
+}
+
+export interface RenderRun {
+  text: string;
+  attributes: RenderAttributes;
+}
+
+export interface RenderBlock {
+  kind: "paragraph" | "heading" | "list-item";
+  level?: number;
+  ordered?: boolean;
+  attributes: ParagraphAttributes;
+  runs: RenderRun[];
+}
+
+export interface RenderModel {
+  title: string;
+  blocks: RenderBlock[];
+  bibliography: {
+    heading: string;
+    entries: CitationRun[][];
+  };
+}
+
+interface StyledLine {
+  chars: string[];
+  attributes: RenderAttributes[];
+  removed: boolean[];
+}
+
+const sameAttributes = (a: RenderAttributes, b: RenderAttributes): boolean => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  for (const key of keys) {
+    if ((a as any)[key] !== (b as any)[key]) return false;
+  }
+  return true;
+};
+
+const toRuns = (line: StyledLine): RenderRun[] => {
+  const runs: RenderRun[] = [];
+  line.chars.forEach((char, index) => {
+    if (line.removed[index]) return;
+    const attributes = line.attributes[index]!;
+    const last = runs[runs.length - 1];
+    if (last && sameAttributes(last.attributes, attributes)) last.text += char;
+    else runs.push({ text: char, attributes });
+  });
+  return runs;
+};
+
+// Current text of a line with removed characters masked out
+const masked = (line: StyledLine): string =>
+  line.chars.map((char, index) => (line.removed[index] ? "\u0000" : char)).join("");
+
+const removeRange = (line: StyledLine, start: number, length: number) => {
+  for (let index = start; index < start + length; index++) line.removed[index] = true;
+};
+
+const styleRange = (line: StyledLine, start: number, end: number, attributes: RenderAttributes) => {
+  for (let index = start; index < end; index++) {
+    line.attributes[index] = { ...line.attributes[index], ...attributes };
+  }
+};
+
+const INLINE_MARKDOWN: { pattern: RegExp; attributes: RenderAttributes }[] = [
+  { pattern: /`([^`\n]+)`/g, attributes: { code: true, fontFamily: "Courier New" } },
+  { pattern: /(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, attributes: { bold: true } },
+  { pattern: /~~(?=\S)(.+?)(?<=\S)~~/g, attributes: { strikethrough: true } },
+  { pattern: /\*(?=[^\s*\u0000])(.+?)(?<=[^\s*\u0000])\*/g, attributes: { italic: true } },
+  { pattern: /(?<![A-Za-z0-9])_(?=\S)(.+?)(?<=\S)_(?![A-Za-z0-9])/g, attributes: { italic: true } },
+];
+
+/**
+ * Turn inline markdown markers into attributes, hiding the markers
+ */
+const applyInlineMarkdown = (line: StyledLine) => {
+  for (const { pattern, attributes } of INLINE_MARKDOWN) {
+    const text = masked(line);
+    for (const match of text.matchAll(pattern)) {
+      const inner = match[match.length - 1]!;
+      const start = match.index!;
+      const markerLength = (match[0].length - inner.length) / 2;
+      removeRange(line, start, markerLength);
+      removeRange(line, start + match[0].length - markerLength, markerLength);
+      styleRange(line, start + markerLength, start + markerLength + inner.length, attributes);
+    }
+  }
+};
+
+/**
+ * Block-level markdown: headings and list items. Returns the block shape
+ * and hides the marker.
+ */
+const applyBlockMarkdown = (line: StyledLine): Pick<RenderBlock, "kind" | "level" | "ordered"> => {
+  const text = masked(line);
+
+  const heading = /^(#{1,6})\s+/.exec(text);
+  if (heading) {
+    removeRange(line, 0, heading[0].length);
+    return { kind: "heading", level: heading[1]!.length };
+  }
+
+  const bullet = /^\s*[-*+]\s+/.exec(text);
+  if (bullet) {
+    removeRange(line, 0, bullet[0].length);
+    return { kind: "list-item", ordered: false };
+  }
+
+  const numbered = /^\s*\d+[.)]\s+/.exec(text);
+  if (numbered) {
+    // The number stays part of the text so it survives every format
+    return { kind: "list-item", ordered: true };
+  }
+
+  const quote = /^\s*>\s?/.exec(text);
+  if (quote) {
+    removeRange(line, 0, quote[0].length);
+    styleRange(line, 0, line.chars.length, { italic: true });
+  }
+
+  return { kind: "paragraph" };
+};
+
+/**
+ * Build the render model of a document. Character ranges are applied over
+ * the editor's paragraph text (paragraphs joined by line breaks); markdown
+ * documents additionally have their inline and block syntax resolved.
+ */
+export function buildRenderModel(document: Document): RenderModel {
+  const paragraphs =
+    document.content_format === "plain" || document.content_format === "markdown"
+      ? (document.content || "").split("\n")
+      : splitParagraphs(document.content, document.content_format);
+
+  const lines: StyledLine[] = paragraphs.map((paragraph) => {
+    const chars = Array.from(paragraph);
+    return {
+      chars,
+      attributes: chars.map(() => ({})),
+      removed: chars.map(() => false),
+    };
+  });
+
+  // Ranges use UTF-16 offsets over the joined text; map them onto lines
+  const lineStarts: number[] = [];
+  let offset = 0;
+  for (const paragraph of paragraphs) {
+    lineStarts.push(offset);
+    offset += paragraph.length + 1;
+  }
+
+  for (const range of document.formatting?.ranges || []) {
+    lines.forEach((line, index) => {
+      const lineStart = lineStarts[index]!;
+      const lineEnd = lineStart + paragraphs[index]!.length;
+      if (range.endOffset <= lineStart || range.startOffset >= lineEnd) return;
+
+      // Convert UTF-16 offsets to code point indexes within the line
+      let unit = lineStart;
+      line.chars.forEach((char, charIndex) => {
+        if (unit >= range.startOffset && unit < range.endOffset) {
+          line.attributes[charIndex] = { ...line.attributes[charIndex], ...range.attributes };
+        }
+        unit += char.length;
+      });
+    });
+  }
+
+  const blocks: RenderBlock[] = lines.map((line, index) => {
+    const shape =
+      document.content_format === "markdown" ? applyBlockMarkdown(line) : { kind: "paragraph" as const };
+    if (document.content_format === "markdown") applyInlineMarkdown(line);
+
+    return {
+      ...shape,
+      attributes: document.formatting?.paragraphs?.[index] || {},
+      runs: toRuns(line),
+    };
+  });
+
+  const style: CitationStyle = document.citation_style || "mla";
+  return {
+    title: document.title,
+    blocks,
+    bibliography: {
+      heading: BIBLIOGRAPHY_HEADINGS[style] || BIBLIOGRAPHY_HEADINGS.mla,
+      entries: buildBibliography(document.sources, style),
+    },
+  };
+}
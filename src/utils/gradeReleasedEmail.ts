@@ -0,0 +1,43 @@
+import sgMail, { MailDataRequired } from "@sendgrid/mail";
+import type { ReleasedGrade } from "../models/submission.model.js";
+
+const SENDGRID_API_KEY = process.env.SENDGRID_API_KEY!;
+const SENDGRID_FROM_EMAIL = process.env.SENDGRID_FROM_EMAIL!;
+const STUDENT_FRONTEND_URL = process.env.STUDENT_FRONTEND_URL!;
+
+sgMail.setApiKey(SENDGRID_API_KEY);
+
+export const sendGradeReleasedEmail = async (grade: ReleasedGrade) => {
+  if (!grade.student_email) return;
+
+  const loginLink = `${STUDENT_FRONTEND_URL}/#/login`;
+  const studentName =
+    `${grade.student_first_name ?? ""} ${grade.student_last_name ?? ""}`.trim();
+
+  const msg: MailDataRequired = {
+    to: grade.student_email,
+    from: {
+      email: SENDGRID_FROM_EMAIL,
+      name: "WriteUp Team",
+    },
+    templateId: process.env.SENDGRID_GRADE_RELEASED_TEMPLATE!,
+    dynamicTemplateData: {
+      student_name: studentName,
+      assignment_title: grade.assignment_title,
+      score: grade.score,
+      max_score: grade.max_score,
+      login_link: loginLink,
+      current_year: new Date().getFullYear(),
+    },
+  };
+
+  try {
+    await sgMail.send(msg);
+    console.log(`Grade Released Email Sent To ${grade.student_email}`);
+  } catch (error: any) {
+    console.error(
+      `Failed to send grade released email to ${grade.student_email}:`,
+      error.response?.body || error.message
+    );
+  }
+};
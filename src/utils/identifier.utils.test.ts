@@ -0,0 +1,67 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { normalizeDoi, normalizeIsbn, normalizePmid, parseIdentifier } from "./identifier.utils.js";
+
+describe("normalizeIsbn", () => {
+  it("converts a checked ISBN-10 to ISBN-13", () => {
+    assert.equal(normalizeIsbn("0-306-40615-2"), "9780306406157");
+    assert.equal(normalizeIsbn("ISBN: 080442957X"), "9780804429573");
+  });
+
+  it("keeps a checked ISBN-13", () => {
+    assert.equal(normalizeIsbn("978-0-306-40615-7"), "9780306406157");
+  });
+
+  it("rejects bad checksums", () => {
+    assert.equal(normalizeIsbn("0-306-40615-3"), null);
+    assert.equal(normalizeIsbn("9780306406158"), null);
+  });
+});
+
+describe("normalizeDoi", () => {
+  it("strips resolver prefixes and trailing punctuation", () => {
+    assert.equal(normalizeDoi("doi:10.1000/xyz123"), "10.1000/xyz123");
+    assert.equal(normalizeDoi("https://doi.org/10.1000/abc%2Fdef"), "10.1000/abc/def");
+    assert.equal(normalizeDoi("10.1000/xyz123."), "10.1000/xyz123");
+  });
+
+  it("rejects text that is not a DOI", () => {
+    assert.equal(normalizeDoi("11.1000/xyz"), null);
+    assert.equal(normalizeDoi("https://doi.org/%E0%A4%A"), null);
+  });
+});
+
+describe("normalizePmid", () => {
+  it("accepts bare and prefixed ids", () => {
+    assert.equal(normalizePmid("PMID: 12345678"), "12345678");
+    assert.equal(normalizePmid("0123"), null);
+  });
+});
+
+describe("parseIdentifier", () => {
+  it("detects the identifier type", () => {
+    assert.deepEqual(parseIdentifier(" 10.1000/xyz123 "), { type: "doi", value: "10.1000/xyz123" });
+    assert.deepEqual(parseIdentifier("0306406152"), { type: "isbn", value: "9780306406157" });
+    assert.deepEqual(parseIdentifier("PMID 31452104"), { type: "pmid", value: "31452104" });
+  });
+
+  it("reads digits that are not an ISBN as a PMID", () => {
+    assert.deepEqual(parseIdentifier("306406152"), { type: "pmid", value: "306406152" });
+  });
+
+  it("rejects an ISBN with a bad checksum that cannot be a PMID", () => {
+    assert.equal(parseIdentifier("0306406153"), null);
+  });
+
+  it("only tries the requested type", () => {
+    assert.equal(parseIdentifier("10.1000/xyz123", "isbn"), null);
+    assert.equal(parseIdentifier("31452104", "doi"), null);
+    assert.deepEqual(parseIdentifier("31452104", "pmid"), { type: "pmid", value: "31452104" });
+  });
+
+  it("rejects empty, oversized and non-string input", () => {
+    assert.equal(parseIdentifier("   "), null);
+    assert.equal(parseIdentifier(`10.1000/${"x".repeat(600)}`), null);
+    assert.equal(parseIdentifier(12345), null);
+  });
+});
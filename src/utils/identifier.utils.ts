@@ -0,0 +1,92 @@
+import type { IdentifierType } from "../types/source.types.js";
+
+export interface ParsedIdentifier {
+  type: IdentifierType;
+  value: string;
+}
+
+const DOI_PATTERN = /^10\.\d{4,9}\/\S+$/;
+
+const isbn10Valid = (digits: string): boolean => {
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    const char = digits[i]!;
+    const value = char === "X" ? 10 : Number(char);
+    if (char === "X" && i !== 9) return false;
+    sum += value * (10 - i);
+  }
+  return sum % 11 === 0;
+};
+
+const isbn13Check = (first12: string): string => {
+  let sum = 0;
+  for (let i = 0; i < 12; i++) sum += Number(first12[i]) * (i % 2 === 0 ? 1 : 3);
+  return String((10 - (sum % 10)) % 10);
+};
+
+/**
+ * ISBN-10 or ISBN-13 (hyphens and spaces allowed) as a checked ISBN-13,
+ * or null
+ */
+export function normalizeIsbn(raw: string): string | null {
+  const digits = raw.replace(/^isbn(-1[03])?:?\s*/i, "").replace(/[\s-]/g, "").toUpperCase();
+
+  if (/^\d{9}[\dX]$/.test(digits)) {
+    if (!isbn10Valid(digits)) return null;
+    const first12 = "978" + digits.slice(0, 9);
+    return first12 + isbn13Check(first12);
+  }
+  if (/^97[89]\d{10}$/.test(digits)) {
+    return isbn13Check(digits.slice(0, 12)) === digits[12] ? digits : null;
+  }
+  return null;
+}
+
+/**
+ * DOI without its resolver prefix ("doi:", https://doi.org/...), or null
+ */
+export function normalizeDoi(raw: string): string | null {
+  let doi = raw.trim().replace(/^doi:\s*/i, "");
+  const url = /^https?:\/\/(dx\.)?doi\.org\/(.+)$/i.exec(doi);
+  if (url) {
+    try {
+      doi = decodeURIComponent(url[2]!);
+    } catch {
+      return null;
+    }
+  }
+  doi = doi.replace(/[.,;]+$/, "");
+  return DOI_PATTERN.test(doi) ? doi : null;
+}
+
+/**
+ * PubMed ID ("12345678" or "PMID: 12345678"), or null
+ */
+export function normalizePmid(raw: string): string | null {
+  const pmid = raw.trim().replace(/^pmid:?\s*/i, "");
+  return /^[1-9]\d{0,8}$/.test(pmid) ? pmid : null;
+}
+
+/**
+ * Work out which kind of identifier a student typed (unless type says)
+ * and normalize it. DOIs are tried first since they are unambiguous;
+ * bare digits are an ISBN when the checksum fits and a PMID otherwise.
+ */
+export function parseIdentifier(raw: unknown, type?: IdentifierType): ParsedIdentifier | null {
+  if (typeof raw !== "string" || raw.length > 512) return null;
+  const input = raw.trim();
+  if (!input) return null;
+
+  const normalizers: [IdentifierType, (value: string) => string | null][] = [
+    ["doi", normalizeDoi],
+    ["isbn", normalizeIsbn],
+    ["pmid", normalizePmid],
+  ];
+
+  for (const [candidate, normalize] of normalizers) {
+    if (type && type !== candidate) continue;
+    const value = normalize(input);
+    if (value) return { type: candidate, value };
+  }
+  return null;
+}
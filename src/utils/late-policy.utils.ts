@@ -0,0 +1,148 @@
+import type { LatePolicy } from "../models/assignment.model.js";
+import { zonedWallClockToUtc } from "./timezone.utils.js";
+
+export interface LateEvaluation {
+  isLate: boolean;
+  minutesLate: number;
+  penaltyPercent: number;
+  pastCutoff: boolean;
+}
+
+export interface LatePenaltyResult {
+  penaltyPoints: number;
+  finalScore: number;
+}
+
+const MINUTES_PER_INTERVAL = {
+  hour: 60,
+  day: 60 * 24,
+} as const;
+
+const roundTwo = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Validate a late policy payload from the assignment create/update endpoints
+ */
+export function validateLatePolicy(policy: any): {
+  valid: boolean;
+  message?: string;
+} {
+  if (policy === null || policy === undefined) return { valid: true };
+
+  if (typeof policy !== "object" || Array.isArray(policy)) {
+    return { valid: false, message: "late_policy must be an object" };
+  }
+
+  const nonNegative: (keyof LatePolicy)[] = [
+    "grace_period_minutes",
+    "deduction_percent",
+    "max_penalty_percent",
+    "cutoff_hours",
+  ];
+  for (const key of nonNegative) {
+    const value = policy[key];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== "number" || Number.isNaN(value) || value < 0) {
+      return {
+        valid: false,
+        message: `late_policy.${key} must be a non-negative number`,
+      };
+    }
+  }
+
+  if (policy.deduction_percent > 100 || policy.max_penalty_percent > 100) {
+    return {
+      valid: false,
+      message: "late_policy percentages cannot exceed 100",
+    };
+  }
+
+  if (
+    policy.deduction_interval !== undefined &&
+    policy.deduction_interval !== "hour" &&
+    policy.deduction_interval !== "day"
+  ) {
+    return {
+      valid: false,
+      message: 'late_policy.deduction_interval must be "hour" or "day"',
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Judge a submission time against an assignment due date.
+ * The due date is a wall-clock time in the school's timezone.
+ *
+ * - Within the grace period the submission is on time.
+ * - After it, deduction_percent is charged for every started hour/day late,
+ *   capped at max_penalty_percent.
+ * - When late submissions are not allowed, anything past the grace period
+ *   must be rejected. Otherwise it must be rejected past cutoff_hours after
+ *   the due date; without a cutoff late work is always accepted.
+ */
+export function evaluateLateness(
+  options: {
+    dueDate: Date | null | undefined;
+    allowLateSubmission: boolean;
+    latePolicy?: LatePolicy | null;
+    timezone: string;
+  },
+  submittedAt: Date = new Date()
+): LateEvaluation {
+  const onTime: LateEvaluation = {
+    isLate: false,
+    minutesLate: 0,
+    penaltyPercent: 0,
+    pastCutoff: false,
+  };
+
+  if (!options.dueDate) return onTime;
+
+  const policy = options.latePolicy || {};
+  const dueAt = zonedWallClockToUtc(new Date(options.dueDate), options.timezone);
+  const minutesLate = Math.max(
+    0,
+    Math.ceil((submittedAt.getTime() - dueAt.getTime()) / 60000)
+  );
+  const graceMinutes = policy.grace_period_minutes ?? 0;
+
+  if (minutesLate <= graceMinutes) return onTime;
+
+  const cutoffMinutes = !options.allowLateSubmission
+    ? graceMinutes
+    : policy.cutoff_hours !== undefined && policy.cutoff_hours !== null
+    ? policy.cutoff_hours * 60
+    : null;
+  const pastCutoff = cutoffMinutes !== null && minutesLate > cutoffMinutes;
+
+  const intervalMinutes = MINUTES_PER_INTERVAL[policy.deduction_interval ?? "day"];
+  const intervalsLate = Math.ceil((minutesLate - graceMinutes) / intervalMinutes);
+  let penaltyPercent = intervalsLate * (policy.deduction_percent ?? 0);
+  if (policy.max_penalty_percent !== undefined && policy.max_penalty_percent !== null) {
+    penaltyPercent = Math.min(penaltyPercent, policy.max_penalty_percent);
+  }
+  penaltyPercent = Math.min(roundTwo(penaltyPercent), 100);
+
+  return {
+    isLate: true,
+    minutesLate,
+    penaltyPercent,
+    pastCutoff,
+  };
+}
+
+/**
+ * Apply a late penalty percentage to a raw score
+ */
+export function applyLatePenalty(
+  rawScore: number,
+  penaltyPercent: number | null | undefined
+): LatePenaltyResult {
+  const penaltyPoints = roundTwo((rawScore * (penaltyPercent ?? 0)) / 100);
+  return {
+    penaltyPoints,
+    finalScore: roundTwo(Math.max(0, rawScore - penaltyPoints)),
+  };
+}
@@ -0,0 +1,126 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  OperationError,
+  TextOperation,
+  applyOperation,
+  baseLength,
+  isTextOperation,
+  normalize,
+  targetLength,
+  transform,
+  transformFormatting,
+  transformIndex,
+} from "./ot.utils.js";
+
+// Every pair of concurrent edits must converge on the same text
+const assertConverges = (doc: string, a: TextOperation, b: TextOperation): string => {
+  const [aPrime, bPrime] = transform(a, b);
+  const viaA = applyOperation(applyOperation(doc, a), bPrime);
+  const viaB = applyOperation(applyOperation(doc, b), aPrime);
+  assert.equal(viaA, viaB);
+  return viaA;
+};
+
+describe("isTextOperation", () => {
+  it("accepts retains, deletes and inserts", () => {
+    assert.ok(isTextOperation([3, "abc", -2, 5]));
+    assert.ok(isTextOperation([]));
+  });
+
+  it("rejects zero, fractional and empty components", () => {
+    assert.ok(!isTextOperation([0]));
+    assert.ok(!isTextOperation([1.5]));
+    assert.ok(!isTextOperation([""]));
+    assert.ok(!isTextOperation("abc"));
+  });
+});
+
+describe("applyOperation", () => {
+  it("retains, inserts and deletes", () => {
+    const operation = [3, "abc", -2, 5];
+    assert.equal(baseLength(operation), 10);
+    assert.equal(targetLength(operation), 11);
+    assert.equal(applyOperation("0123456789", operation), "012abc56789");
+  });
+
+  it("refuses an operation for a different document length", () => {
+    assert.throws(() => applyOperation("short", [10]), OperationError);
+  });
+});
+
+describe("normalize", () => {
+  it("merges neighbours and puts inserts before deletes", () => {
+    assert.deepEqual(normalize([2, 3, -1, "a", "b", -2]), [5, "ab", -3]);
+  });
+});
+
+describe("transform", () => {
+  it("puts a's text first when both insert at the same place", () => {
+    assert.equal(assertConverges("hello", [5, " world"], [5, " there"]), "hello world there");
+  });
+
+  it("converges inserts and deletes at different places", () => {
+    assert.equal(assertConverges("hello world", ["Oh, ", 11], [6, -5, "there"]), "Oh, hello there");
+  });
+
+  it("removes text deleted by both only once", () => {
+    assert.equal(assertConverges("abcdef", [1, -3, 2], [2, -3, 1]), "af");
+  });
+
+  it("keeps an insert made inside text the other side deleted", () => {
+    assert.equal(assertConverges("abcdef", [3, "X", 3], [1, -4, 1]), "aXf");
+  });
+
+  it("refuses operations on different document lengths", () => {
+    assert.throws(() => transform([3], [4]), OperationError);
+  });
+});
+
+describe("transformIndex", () => {
+  it("moves offsets past inserted text", () => {
+    assert.equal(transformIndex(4, [2, "xx", 4]), 6);
+  });
+
+  it("leaves an offset before an insert at that offset unless insertBefore is set", () => {
+    assert.equal(transformIndex(2, [2, "xx", 4], true), 4);
+    assert.equal(transformIndex(2, [2, "xx", 4], false), 2);
+  });
+
+  it("pulls offsets back over deleted text", () => {
+    assert.equal(transformIndex(5, [1, -3, 2]), 2);
+    assert.equal(transformIndex(2, [1, -3, 2]), 1);
+  });
+});
+
+describe("transformFormatting", () => {
+  it("keeps ranges on their text and drops ranges whose text was removed", () => {
+    const oldText = "bold and gone";
+    const operation: TextOperation = ["Now ", 9, -4];
+    const formatting = transformFormatting(
+      {
+        ranges: [
+          { startOffset: 0, endOffset: 4, attributes: { bold: true } },
+          { startOffset: 9, endOffset: 13, attributes: { italic: true } },
+        ],
+        paragraphs: {},
+      },
+      operation,
+      oldText,
+      applyOperation(oldText, operation)
+    );
+    assert.deepEqual(formatting.ranges, [{ startOffset: 4, endOffset: 8, attributes: { bold: true } }]);
+  });
+
+  it("moves paragraph attributes with their paragraphs", () => {
+    const oldText = "one\ntwo";
+    const operation: TextOperation = ["zero\n", 7];
+    const formatting = transformFormatting(
+      { ranges: [], paragraphs: { 1: { textAlign: "center" } } },
+      operation,
+      oldText,
+      applyOperation(oldText, operation)
+    );
+    assert.deepEqual(formatting.paragraphs, { 2: { textAlign: "center" } });
+  });
+});
@@ -0,0 +1,259 @@
+import type { DocumentFormatting, FormatRange, ParagraphAttributes } from "../models/document.model.js";
+
+/**
+ * Plain-text operational transformation, wire-compatible with ot.js.
+ *
+ * An operation is a list of components that walks the whole document:
+ * a positive integer retains that many characters, a negative integer
+ * deletes that many and a string inserts itself. [3, "abc", -2, 5]
+ * keeps 3 characters, inserts "abc", removes 2 and keeps the last 5.
+ */
+export type OperationComponent = number | string;
+export type TextOperation = OperationComponent[];
+
+export class OperationError extends Error {}
+
+const isRetain = (component: OperationComponent | undefined): component is number =>
+  typeof component === "number" && component > 0;
+
+const isDelete = (component: OperationComponent | undefined): component is number =>
+  typeof component === "number" && component < 0;
+
+const isInsert = (component: OperationComponent | undefined): component is string =>
+  typeof component === "string";
+
+/**
+ * Builds normalised operations: adjacent components of the same kind are
+ * merged and an insert directly after a delete is placed before it, so
+ * equal edits always have the same representation
+ */
+class OperationBuilder {
+  ops: TextOperation = [];
+
+  retain(length: number): this {
+    if (length <= 0) return this;
+    const last = this.ops[this.ops.length - 1];
+    if (isRetain(last)) this.ops[this.ops.length - 1] = last + length;
+    else this.ops.push(length);
+    return this;
+  }
+
+  insert(text: string): this {
+    if (text === "") return this;
+    const ops = this.ops;
+    const last = ops[ops.length - 1];
+    if (isInsert(last)) {
+      ops[ops.length - 1] = last + text;
+    } else if (isDelete(last)) {
+      const beforeDelete = ops[ops.length - 2];
+      if (isInsert(beforeDelete)) {
+        ops[ops.length - 2] = beforeDelete + text;
+      } else {
+        ops[ops.length] = last;
+        ops[ops.length - 2] = text;
+      }
+    } else {
+      ops.push(text);
+    }
+    return this;
+  }
+
+  delete(length: number): this {
+    if (length <= 0) return this;
+    const last = this.ops[this.ops.length - 1];
+    if (isDelete(last)) this.ops[this.ops.length - 1] = last - length;
+    else this.ops.push(-length);
+    return this;
+  }
+}
+
+/**
+ * Check that a value received from a client is a well-formed operation
+ */
+export function isTextOperation(value: unknown): value is TextOperation {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (component) =>
+        (typeof component === "string" && component.length > 0) ||
+        (typeof component === "number" && Number.isInteger(component) && component !== 0)
+    )
+  );
+}
+
+// Length of the document an operation applies to
+export function baseLength(operation: TextOperation): number {
+  return operation.reduce<number>(
+    (sum, component) =>
+      isInsert(component) ? sum : sum + Math.abs(component as number),
+    0
+  );
+}
+
+// Length of the document an operation produces
+export function targetLength(operation: TextOperation): number {
+  return operation.reduce<number>(
+    (sum, component) =>
+      isInsert(component) ? sum + component.length : isRetain(component) ? sum + component : sum,
+    0
+  );
+}
+
+export function normalize(operation: TextOperation): TextOperation {
+  const builder = new OperationBuilder();
+  for (const component of operation) {
+    if (isInsert(component)) builder.insert(component);
+    else if (isRetain(component)) builder.retain(component);
+    else builder.delete(-component);
+  }
+  return builder.ops;
+}
+
+export function applyOperation(text: string, operation: TextOperation): string {
+  if (baseLength(operation) !== text.length) {
+    throw new OperationError("Operation length does not match the document length");
+  }
+
+  const parts: string[] = [];
+  let index = 0;
+  for (const component of operation) {
+    if (isInsert(component)) {
+      parts.push(component);
+    } else if (isRetain(component)) {
+      parts.push(text.slice(index, index + component));
+      index += component;
+    } else {
+      index -= component as number;
+    }
+  }
+  return parts.join("");
+}
+
+/**
+ * Transform two operations made concurrently on the same document into
+ * a' and b' so that apply(apply(doc, a), b') equals apply(apply(doc, b), a').
+ * When both insert at the same position a's text goes first.
+ */
+export function transform(a: TextOperation, b: TextOperation): [TextOperation, TextOperation] {
+  if (baseLength(a) !== baseLength(b)) {
+    throw new OperationError("Both operations must apply to the same document length");
+  }
+
+  const aPrime = new OperationBuilder();
+  const bPrime = new OperationBuilder();
+  let i = 0;
+  let j = 0;
+  let opA: OperationComponent | undefined = a[i++];
+  let opB: OperationComponent | undefined = b[j++];
+
+  while (opA !== undefined || opB !== undefined) {
+    if (isInsert(opA)) {
+      aPrime.insert(opA);
+      bPrime.retain(opA.length);
+      opA = a[i++];
+      continue;
+    }
+    if (isInsert(opB)) {
+      aPrime.retain(opB.length);
+      bPrime.insert(opB);
+      opB = b[j++];
+      continue;
+    }
+    if (opA === undefined || opB === undefined) {
+      throw new OperationError("Operations are not compatible");
+    }
+
+    let length: number;
+    if (isRetain(opA) && isRetain(opB)) {
+      length = Math.min(opA, opB);
+      aPrime.retain(length);
+      bPrime.retain(length);
+    } else if (isDelete(opA) && isDelete(opB)) {
+      // Both removed the same text; nothing left to do for it
+      length = Math.min(-opA, -opB);
+    } else if (isDelete(opA)) {
+      length = Math.min(-opA, opB as number);
+      aPrime.delete(length);
+    } else {
+      length = Math.min(opA as number, -(opB as number));
+      bPrime.delete(length);
+    }
+
+    opA = shorten(opA, length) ?? a[i++];
+    opB = shorten(opB, length) ?? b[j++];
+  }
+
+  return [aPrime.ops, bPrime.ops];
+}
+
+// What is left of a retain or delete after consuming length characters
+const shorten = (component: number, length: number): number | undefined => {
+  const remaining = Math.abs(component) - length;
+  if (remaining === 0) return undefined;
+  return component > 0 ? remaining : -remaining;
+};
+
+/**
+ * Map a character offset through an operation. Text inserted exactly at
+ * the offset lands before it when insertBefore is set (the offset moves
+ * right), after it otherwise.
+ */
+export function transformIndex(index: number, operation: TextOperation, insertBefore = true): number {
+  let position = 0;
+  let result = index;
+
+  for (const component of operation) {
+    if (position > index || (position === index && !insertBefore && !isDelete(component))) break;
+
+    if (isRetain(component)) {
+      position += component;
+    } else if (isInsert(component)) {
+      result += component.length;
+    } else {
+      const length = -(component as number);
+      result -= Math.min(length, index - position);
+      position += length;
+    }
+  }
+
+  return Math.max(result, 0);
+}
+
+const paragraphIndexAt = (text: string, offset: number): number =>
+  (text.slice(0, offset).match(/\n/g) || []).length;
+
+/**
+ * Keep character ranges and paragraph attributes aligned with text after
+ * an operation. Text inserted at the start of a range stays outside it,
+ * as does text inserted at its end; ranges whose text was removed are
+ * dropped.
+ */
+export function transformFormatting(
+  formatting: DocumentFormatting | null | undefined,
+  operation: TextOperation,
+  oldText: string,
+  newText: string
+): DocumentFormatting {
+  const ranges: FormatRange[] = (formatting?.ranges || [])
+    .map((range) => ({
+      ...range,
+      startOffset: transformIndex(range.startOffset, operation, true),
+      endOffset: transformIndex(range.endOffset, operation, false),
+    }))
+    .filter((range) => range.endOffset > range.startOffset);
+
+  const oldStarts = [0];
+  for (let offset = 0; offset < oldText.length; offset++) {
+    if (oldText[offset] === "\n") oldStarts.push(offset + 1);
+  }
+
+  const paragraphs: Record<number, ParagraphAttributes> = {};
+  for (const [key, attributes] of Object.entries(formatting?.paragraphs || {})) {
+    const start = oldStarts[Number(key)];
+    if (start === undefined) continue;
+    const index = paragraphIndexAt(newText, transformIndex(start, operation, false));
+    if (paragraphs[index] === undefined) paragraphs[index] = attributes;
+  }
+
+  return { ranges, paragraphs };
+}
@@ -0,0 +1,311 @@
+import type { AnchorStatus, TextSelection } from "../types/teacher-feedback.types.js";
+
+export interface AnchorResult {
+  status: AnchorStatus;
+  confidence: number;
+  selection: TextSelection;
+}
+
+interface Word {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Minimum similarity for a fuzzy match to count as the same passage
+const FUZZY_THRESHOLD = 0.6;
+// Windows kept from the word overlap scan for the exact similarity pass
+const FUZZY_CANDIDATES = 5;
+// Paragraph diff is skipped above this many DP cells
+const MAX_DIFF_CELLS = 4_000_000;
+
+const normalizeWord = (word: string): string =>
+  word.toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, "");
+
+const splitWords = (text: string): Word[] =>
+  Array.from(text.matchAll(/\S+/g), (match) => ({
+    text: normalizeWord(match[0]),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+
+const paragraphStarts = (paragraphs: string[]): number[] => {
+  const starts: number[] = [];
+  let offset = 0;
+  for (const paragraph of paragraphs) {
+    starts.push(offset);
+    offset += paragraph.length + 1;
+  }
+  return starts;
+};
+
+const toPosition = (
+  starts: number[],
+  paragraphs: string[],
+  globalOffset: number
+): { paragraphIndex: number; offset: number } => {
+  let index = 0;
+  while (index + 1 < starts.length && starts[index + 1]! <= globalOffset) index++;
+  return {
+    paragraphIndex: index,
+    offset: Math.min(globalOffset - starts[index]!, paragraphs[index]!.length),
+  };
+};
+
+/**
+ * Old paragraph index -> new paragraph index for paragraphs left unchanged,
+ * from a longest common subsequence over the trimmed paragraph texts
+ */
+export function diffParagraphs(
+  oldParagraphs: string[],
+  newParagraphs: string[]
+): Map<number, number> {
+  const mapping = new Map<number, number>();
+  const rows = oldParagraphs.length;
+  const cols = newParagraphs.length;
+  if (rows * cols > MAX_DIFF_CELLS) return mapping;
+
+  const a = oldParagraphs.map((paragraph) => paragraph.trim());
+  const b = newParagraphs.map((paragraph) => paragraph.trim());
+  const lengths = Array.from({ length: rows + 1 }, () => new Uint32Array(cols + 1));
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i]![j] =
+        a[i] === b[j]
+          ? lengths[i + 1]![j + 1]! + 1
+          : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (a[i] === b[j]) {
+      mapping.set(i++, j++);
+    } else if (lengths[i + 1]![j]! >= lengths[i]![j + 1]!) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Where the selection is expected to start in the new text: the same
+ * offset inside the paragraph it was in, following that paragraph (or the
+ * closest unchanged paragraph before it) through the paragraph diff
+ */
+const expectedOffset = (
+  selection: TextSelection,
+  newParagraphs: string[],
+  newStarts: number[],
+  mapping: Map<number, number> | null
+): number => {
+  let paragraphIndex = selection.startParagraphIndex;
+
+  if (mapping) {
+    let previous = selection.startParagraphIndex;
+    while (previous >= 0 && !mapping.has(previous)) previous--;
+    paragraphIndex =
+      previous === selection.startParagraphIndex
+        ? mapping.get(previous)!
+        : previous >= 0
+        ? mapping.get(previous)! + (selection.startParagraphIndex - previous)
+        : selection.startParagraphIndex;
+  }
+
+  paragraphIndex = Math.max(0, Math.min(paragraphIndex, newParagraphs.length - 1));
+  return newStarts[paragraphIndex]! + Math.min(selection.startOffset, newParagraphs[paragraphIndex]!.length);
+};
+
+const wordSimilarity = (a: string[], b: string[]): number => {
+  if (a.length === 0 && b.length === 0) return 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length]! / Math.max(a.length, b.length);
+};
+
+/**
+ * Best approximate occurrence of the selected words in the new text.
+ * A sliding window scores word overlap first, then the best windows are
+ * compared by word edit distance with slightly shifted bounds.
+ */
+const fuzzyFind = (
+  selectedText: string,
+  words: Word[],
+  expected: number
+): { start: number; end: number; score: number } | null => {
+  const target = splitWords(selectedText).map((word) => word.text);
+  const size = target.length;
+  if (size === 0 || words.length === 0) return null;
+
+  const targetCounts = new Map<string, number>();
+  target.forEach((word) => targetCounts.set(word, (targetCounts.get(word) ?? 0) + 1));
+
+  const windowCounts = new Map<string, number>();
+  let overlap = 0;
+  const add = (word: string) => {
+    const count = windowCounts.get(word) ?? 0;
+    if (count < (targetCounts.get(word) ?? 0)) overlap++;
+    windowCounts.set(word, count + 1);
+  };
+  const remove = (word: string) => {
+    const count = (windowCounts.get(word) ?? 0) - 1;
+    windowCounts.set(word, count);
+    if (count < (targetCounts.get(word) ?? 0)) overlap--;
+  };
+
+  const candidates: { index: number; overlap: number; distance: number }[] = [];
+  const windowSize = Math.min(size, words.length);
+
+  for (let index = 0; index < words.length; index++) {
+    add(words[index]!.text);
+    if (index >= windowSize) remove(words[index - windowSize]!.text);
+    if (index < windowSize - 1) continue;
+
+    const start = index - windowSize + 1;
+    if (overlap / size < FUZZY_THRESHOLD) continue;
+
+    candidates.push({
+      index: start,
+      overlap,
+      distance: Math.abs(words[start]!.start - expected),
+    });
+    candidates.sort((a, b) => b.overlap - a.overlap || a.distance - b.distance);
+    if (candidates.length > FUZZY_CANDIDATES) candidates.pop();
+  }
+
+  let best: { start: number; end: number; score: number; distance: number } | null = null;
+  // Words the window bounds may shift by; kept small as every shift is an edit distance run
+  const slack = Math.min(3, Math.max(1, Math.round(size * 0.2)));
+
+  for (const candidate of candidates) {
+    for (let shift = -slack; shift <= slack; shift++) {
+      for (let extra = -slack; extra <= slack; extra++) {
+        const from = candidate.index + shift;
+        const to = from + size + extra;
+        if (from < 0 || to > words.length || to <= from) continue;
+
+        const score = wordSimilarity(
+          target,
+          words.slice(from, to).map((word) => word.text)
+        );
+        const distance = Math.abs(words[from]!.start - expected);
+        if (!best || score > best.score || (score === best.score && distance < best.distance)) {
+          best = { start: words[from]!.start, end: words[to - 1]!.end, score, distance };
+        }
+      }
+    }
+  }
+
+  return best && best.score >= FUZZY_THRESHOLD
+    ? { start: best.start, end: best.end, score: best.score }
+    : null;
+};
+
+/**
+ * Map a feedback text selection onto edited document paragraphs.
+ *
+ * - exact: the selected text is still at the same paragraph and offsets
+ * - moved: the text was found elsewhere, verbatim (confidence 1) or by fuzzy
+ *   matching (confidence is the word similarity)
+ * - orphaned: the text could not be found; the selection is left as it was
+ *
+ * oldParagraphs is the text the selection was made on, when known. It lets
+ * the paragraph diff predict where the selection should now be.
+ */
+export function reanchorSelection(
+  selection: TextSelection,
+  newParagraphs: string[],
+  oldParagraphs?: string[] | null
+): AnchorResult {
+  // selectedText is the current anchor; originalText what the teacher selected
+  const selectedText = selection.selectedText ?? "";
+  const originalText = selection.originalText ?? selectedText;
+  const newText = newParagraphs.join("\n");
+  const newStarts = paragraphStarts(newParagraphs);
+
+  const startParagraph = newParagraphs[selection.startParagraphIndex];
+  const endParagraph = newParagraphs[selection.endParagraphIndex];
+  if (startParagraph !== undefined && endParagraph !== undefined) {
+    const current = newText.slice(
+      newStarts[selection.startParagraphIndex]! + selection.startOffset,
+      newStarts[selection.endParagraphIndex]! + selection.endOffset
+    );
+    if (current === selectedText) {
+      return {
+        status: "exact",
+        confidence: 1,
+        selection: { ...selection, anchorStatus: "exact", anchorConfidence: 1 },
+      };
+    }
+  }
+
+  const orphaned: AnchorResult = {
+    status: "orphaned",
+    confidence: 0,
+    selection: { ...selection, anchorStatus: "orphaned", anchorConfidence: 0 },
+  };
+  if (!selectedText.trim()) return orphaned;
+
+  const mapping = oldParagraphs ? diffParagraphs(oldParagraphs, newParagraphs) : null;
+  const expected = expectedOffset(selection, newParagraphs, newStarts, mapping);
+
+  const moveTo = (start: number, end: number, confidence: number): AnchorResult => {
+    const from = toPosition(newStarts, newParagraphs, start);
+    const to = toPosition(newStarts, newParagraphs, end);
+    const text = newText.slice(start, end);
+    return {
+      status: "moved",
+      confidence,
+      selection: {
+        ...selection,
+        startParagraphIndex: from.paragraphIndex,
+        startOffset: from.offset,
+        endParagraphIndex: to.paragraphIndex,
+        endOffset: to.offset,
+        selectedText: text,
+        anchorStatus: "moved",
+        anchorConfidence: confidence,
+        originalText: text === originalText ? undefined : originalText,
+      },
+    };
+  };
+
+  // Verbatim occurrence closest to where the selection should be
+  let closest = -1;
+  for (
+    let index = newText.indexOf(selectedText);
+    index !== -1;
+    index = newText.indexOf(selectedText, index + 1)
+  ) {
+    if (closest === -1 || Math.abs(index - expected) < Math.abs(closest - expected)) {
+      closest = index;
+    }
+  }
+  if (closest !== -1) {
+    return moveTo(closest, closest + selectedText.length, 1);
+  }
+
+  const fuzzy = fuzzyFind(selectedText, splitWords(newText), expected);
+  if (fuzzy) {
+    return moveTo(fuzzy.start, fuzzy.end, Math.round(fuzzy.score * 100) / 100);
+  }
+
+  return orphaned;
+}
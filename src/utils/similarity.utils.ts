@@ -0,0 +1,186 @@
+import type { SimilarityPassage } from "../types/submission.types.js";
+
+export interface TextToken {
+  word: string;
+  start: number;
+  end: number;
+}
+
+export interface SharedText {
+  sharedShingles: Set<number>;
+  passages: SimilarityPassage[];
+}
+
+// Word n-gram size. 5 words is long enough to ignore common phrases
+export const SHINGLE_SIZE = 5;
+
+// 64 bands x 2 rows: submissions sharing roughly 12% of their shingles
+// already become comparison candidates
+const SIGNATURE_SIZE = 128;
+const BAND_ROWS = 2;
+
+const MAX_PASSAGES = 20;
+
+const fnv1a = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// murmur3 finalizer - spreads the bits of a 32-bit value
+const mix32 = (value: number): number => {
+  let hash = value;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+};
+
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, index) =>
+  mix32(Math.imul(index + 1, 0x9e3779b1))
+);
+
+/**
+ * Lower-cased words with their character offsets in the original text
+ */
+export function tokenize(text: string): TextToken[] {
+  const tokens: TextToken[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu)) {
+    const start = match.index ?? 0;
+    tokens.push({
+      word: match[0].toLowerCase().replace(/’/g, "'"),
+      start,
+      end: start + match[0].length,
+    });
+  }
+  return tokens;
+}
+
+/**
+ * Hash of every SHINGLE_SIZE word window, by starting token position
+ */
+export function shingleHashes(tokens: TextToken[]): number[] {
+  const hashes: number[] = [];
+  for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+    hashes.push(
+      fnv1a(
+        tokens
+          .slice(i, i + SHINGLE_SIZE)
+          .map((token) => token.word)
+          .join(" ")
+      )
+    );
+  }
+  return hashes;
+}
+
+/**
+ * MinHash signature of a shingle set. Values are stored as signed 32-bit
+ * integers to fit a Postgres integer[] column.
+ */
+export function minHashSignature(shingles: Iterable<number>): number[] {
+  const signature = new Array<number>(SIGNATURE_SIZE).fill(0xffffffff);
+  let empty = true;
+
+  for (const shingle of shingles) {
+    empty = false;
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const value = mix32(shingle ^ SEEDS[i]!);
+      if (value < signature[i]!) signature[i] = value;
+    }
+  }
+
+  return empty ? [] : signature.map((value) => value | 0);
+}
+
+/**
+ * Locality sensitive hashing bands of a signature. The band index is part
+ * of the hash so bands can be compared with a single array overlap.
+ */
+export function lshBands(signature: number[]): number[] {
+  const bands: number[] = [];
+  for (let i = 0; i + BAND_ROWS <= signature.length; i += BAND_ROWS) {
+    bands.push(
+      fnv1a(`${i / BAND_ROWS}:${signature.slice(i, i + BAND_ROWS).join(",")}`) | 0
+    );
+  }
+  return bands;
+}
+
+/**
+ * Estimated Jaccard similarity of two shingle sets from their signatures
+ */
+export function estimateSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / a.length;
+}
+
+/**
+ * Exact comparison of two texts: the source shingles also present in the
+ * matched text and the passages they form (consecutive shared shingles are
+ * merged into one passage, longest passages first).
+ */
+export function findSharedText(
+  sourceText: string,
+  sourceTokens: TextToken[],
+  sourceShingles: number[],
+  matchedTokens: TextToken[],
+  matchedShingles: number[]
+): SharedText {
+  const matchedPositions = new Map<number, number>();
+  matchedShingles.forEach((hash, position) => {
+    if (!matchedPositions.has(hash)) matchedPositions.set(hash, position);
+  });
+
+  const sharedShingles = new Set<number>();
+  const passages: SimilarityPassage[] = [];
+  let runStart = -1;
+  let runMatchedStart = -1;
+  let runMatchedEnd = -1;
+
+  const closeRun = (lastPosition: number) => {
+    const first = sourceTokens[runStart]!;
+    const last = sourceTokens[lastPosition + SHINGLE_SIZE - 1]!;
+    passages.push({
+      text: sourceText.slice(first.start, last.end),
+      source_start: first.start,
+      source_end: last.end,
+      matched_start: matchedTokens[runMatchedStart]!.start,
+      matched_end: matchedTokens[runMatchedEnd + SHINGLE_SIZE - 1]!.end,
+      word_count: lastPosition + SHINGLE_SIZE - runStart,
+    });
+    runStart = -1;
+  };
+
+  sourceShingles.forEach((hash, position) => {
+    const matchedPosition = matchedPositions.get(hash);
+
+    if (matchedPosition === undefined) {
+      if (runStart !== -1) closeRun(position - 1);
+      return;
+    }
+
+    sharedShingles.add(hash);
+    if (runStart === -1) {
+      runStart = position;
+      runMatchedStart = matchedPosition;
+      runMatchedEnd = matchedPosition;
+    }
+    runMatchedEnd = Math.max(runMatchedEnd, matchedPosition);
+  });
+
+  if (runStart !== -1) closeRun(sourceShingles.length - 1);
+
+  passages.sort((a, b) => b.word_count - a.word_count);
+
+  return { sharedShingles, passages: passages.slice(0, MAX_PASSAGES) };
+}
@@ -0,0 +1,378 @@
+import type {
+  ScrapeMetadata,
+  Source,
+  SourceContributor,
+  SourceInput,
+  SourceType,
+} from "../types/source.types.js";
+
+export const SOURCE_TYPES: SourceType[] = [
+  "book",
+  "book_chapter",
+  "journal_article",
+  "magazine_article",
+  "newspaper_article",
+  "website",
+  "video",
+  "report",
+  "other",
+];
+
+/**
+ * Fields a complete citation needs for each source type. Sources missing
+ * them are still saved; the gaps are reported for the student to fill in.
+ */
+export const REQUIRED_SOURCE_FIELDS: Record<SourceType, (keyof Source)[]> = {
+  book: ["title", "authors", "publisher", "published_date"],
+  book_chapter: ["title", "authors", "container_title", "publisher", "published_date", "pages"],
+  journal_article: ["title", "authors", "container_title", "published_date", "volume"],
+  magazine_article: ["title", "authors", "container_title", "published_date"],
+  newspaper_article: ["title", "container_title", "published_date"],
+  website: ["title", "container_title", "url"],
+  video: ["title", "authors", "container_title", "published_date", "url"],
+  report: ["title", "publisher", "published_date"],
+  other: ["title"],
+};
+
+const TEXT_FIELDS = [
+  "title",
+  "container_title",
+  "publisher",
+  "publisher_place",
+  "edition",
+  "volume",
+  "issue",
+  "pages",
+  "report_number",
+  "runtime",
+  "published_date",
+  "accessed_date",
+  "url",
+  "doi",
+  "isbn",
+] as const;
+
+const MAX_FIELD_LENGTH = 2000;
+const MAX_CONTRIBUTORS = 50;
+
+export interface SourceDate {
+  year: number;
+  month?: number;
+  day?: number;
+}
+
+const text = (value: unknown): string =>
+  typeof value === "string" ? value.trim() : typeof value === "number" ? String(value) : "";
+
+/**
+ * Parse an ISO date at year, month or day precision, or any date string
+ * Date understands
+ */
+export function parseSourceDate(value: unknown): SourceDate | null {
+  const raw = text(value);
+  if (!raw) return null;
+  if (/^\d{4}$/.test(raw)) return { year: Number(raw) };
+
+  const iso = /^(\d{4})-(\d{2})(?:-(\d{2}))?/.exec(raw);
+  if (iso) {
+    return { year: Number(iso[1]), month: Number(iso[2]), day: iso[3] ? Number(iso[3]) : undefined };
+  }
+
+  const date = new Date(raw);
+  if (Number.isNaN(date.getTime())) return null;
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+const isoDate = (date: SourceDate | null): string | undefined => {
+  if (!date) return undefined;
+  const pad = (value: number) => String(value).padStart(2, "0");
+  if (!date.month) return String(date.year);
+  return date.day ? `${date.year}-${pad(date.month)}-${pad(date.day)}` : `${date.year}-${pad(date.month)}`;
+};
+
+const stripDoi = (doi: string): string => doi.replace(/^(https?:\/\/(dx\.)?doi\.org\/|doi:\s*)/i, "");
+
+/**
+ * "Last, First", "First Last" or an object with first/last (or
+ * given/family) or name
+ */
+export function parseContributor(value: unknown): SourceContributor | null {
+  if (value && typeof value === "object") {
+    const raw = value as any;
+    const first = text(raw.first ?? raw.firstName ?? raw.given);
+    const last = text(raw.last ?? raw.lastName ?? raw.family);
+    if (last) return first ? { first, last } : { last };
+    if (first) return { last: first };
+    const name = text(raw.name ?? raw.literal);
+    return name ? { name } : null;
+  }
+
+  const name = text(value);
+  if (!name) return null;
+  if (name.includes(",")) {
+    const [last, ...rest] = name.split(",");
+    const first = rest.join(",").trim();
+    return first ? { first, last: last!.trim() } : { last: last!.trim() };
+  }
+  const parts = name.split(/\s+/);
+  if (parts.length === 1) return { last: parts[0]! };
+  return { first: parts.slice(0, -1).join(" "), last: parts[parts.length - 1]! };
+}
+
+const parseContributors = (raw: unknown): SourceContributor[] => {
+  const list = Array.isArray(raw)
+    ? raw
+    : typeof raw === "string"
+      ? raw.split(/\s+(?:and|&)\s+|;\s*/)
+      : raw
+        ? [raw]
+        : [];
+  return list.map(parseContributor).filter((person): person is SourceContributor => person !== null);
+};
+
+const firstText = (source: any, ...keys: string[]): string => {
+  for (const key of keys) {
+    const value = text(source?.[key]);
+    if (value) return value;
+  }
+  return "";
+};
+
+const legacyType = (source: any, url: string): SourceType => {
+  const type = text(source?.type ?? source?.source_type ?? source?.sourceType).toLowerCase();
+  if ((SOURCE_TYPES as string[]).includes(type)) return type as SourceType;
+  if (type === "journal" || type === "article") return "journal_article";
+  if (firstText(source, "journal", "journalTitle")) return "journal_article";
+  if (/(youtube\.com|youtu\.be|vimeo\.com)\//i.test(url)) return "video";
+  if (type === "website" || url) return "website";
+  return "book";
+};
+
+/**
+ * Read any stored entry as a typed source. Entries saved before sources
+ * were typed use loose field names from the scraper and the editor
+ * (author, siteName, date, accessed, ...); entries without an id get a
+ * positional one until they are next saved.
+ */
+export function normalizeSource(raw: any, index: number): Source {
+  const url = firstText(raw, "url", "link");
+  const source: Source = {
+    id: text(raw?.id) || `source-${index + 1}`,
+    type: legacyType(raw, url),
+    title: firstText(raw, "title", "name"),
+    authors: parseContributors(raw?.authors ?? raw?.author),
+  };
+
+  const editors = parseContributors(raw?.editors ?? raw?.editor);
+  if (editors.length > 0) source.editors = editors;
+
+  const fields: Partial<Record<(typeof TEXT_FIELDS)[number], string | undefined>> = {
+    container_title: firstText(raw, "container_title", "journal", "journalTitle", "container", "siteName", "site_name", "website"),
+    publisher: firstText(raw, "publisher"),
+    publisher_place: firstText(raw, "publisher_place", "city", "place", "publisherPlace"),
+    edition: firstText(raw, "edition"),
+    volume: firstText(raw, "volume"),
+    issue: firstText(raw, "issue", "number"),
+    pages: firstText(raw, "pages"),
+    report_number: firstText(raw, "report_number"),
+    runtime: firstText(raw, "runtime", "duration"),
+    published_date: isoDate(
+      parseSourceDate(raw?.published_date ?? raw?.date ?? raw?.published ?? raw?.publishedDate ?? raw?.year)
+    ),
+    accessed_date: isoDate(
+      parseSourceDate(raw?.accessed_date ?? raw?.accessed ?? raw?.accessDate ?? raw?.accessedAt ?? raw?.accessed_at)
+    ),
+    url,
+    doi: firstText(raw, "doi") ? stripDoi(firstText(raw, "doi")) : "",
+    isbn: firstText(raw, "isbn"),
+  };
+  for (const [key, value] of Object.entries(fields)) {
+    if (value) (source as any)[key] = value;
+  }
+
+  return source;
+}
+
+export const normalizeSources = (raw: any[] | null | undefined): Source[] =>
+  (raw || []).filter((entry) => entry && typeof entry === "object").map(normalizeSource);
+
+const VIDEO_HOSTS = /(^|\.)(youtube\.com|youtu\.be|vimeo\.com|dailymotion\.com|ted\.com)$/i;
+
+/**
+ * Turn scraped page metadata into a typed source: a website (or video)
+ * for URL scrapes, or the type an identifier lookup reported. Bylines
+ * such as "By Jane Doe and John Roe" become authors; a byline that just
+ * repeats the site name is dropped. accessed_date is YYYY-MM-DD.
+ */
+export function sourceFromMetadata(metadata: ScrapeMetadata, accessed_date: string): SourceInput {
+  const url = text(metadata.url);
+  let host = "";
+  try {
+    host = url ? new URL(url).hostname : "";
+  } catch {
+    host = "";
+  }
+
+  const site = text(metadata.publisher);
+  const listed = Array.isArray(metadata.authors) ? parseContributors(metadata.authors) : null;
+  const byline = text(metadata.author).replace(/^by\s+/i, "");
+  const authors = listed || (byline && byline.toLowerCase() !== site.toLowerCase() ? parseContributors(byline) : []);
+  const reportedType = text(metadata.type) as SourceType;
+
+  if ((SOURCE_TYPES as string[]).includes(reportedType)) {
+    // Registry records: the container is the journal, the publisher stays the publisher
+    const source: SourceInput = {
+      type: reportedType,
+      title: text(metadata.title) || undefined,
+      authors,
+      container_title: text(metadata.journal) || undefined,
+      publisher: site || undefined,
+      publisher_place: text(metadata.publisher_place) || undefined,
+      volume: text(metadata.volume) || undefined,
+      issue: text(metadata.issue) || undefined,
+      pages: text(metadata.pages) || undefined,
+      published_date: isoDate(parseSourceDate(metadata.date)),
+      url: text(metadata.doi) ? undefined : url || undefined,
+      doi: text(metadata.doi) ? stripDoi(text(metadata.doi)) : undefined,
+      isbn: text(metadata.isbn) || undefined,
+    };
+    for (const key of Object.keys(source) as (keyof SourceInput)[]) {
+      if (source[key] === undefined) delete source[key];
+    }
+    return source;
+  }
+
+  const source: SourceInput = {
+    type: VIDEO_HOSTS.test(host) ? "video" : "website",
+    title: text(metadata.title) || undefined,
+    authors,
+    container_title: site || host.replace(/^www\./, "") || undefined,
+    published_date: isoDate(parseSourceDate(metadata.date)),
+    accessed_date,
+    url: url || undefined,
+  };
+  for (const key of Object.keys(source) as (keyof SourceInput)[]) {
+    if (source[key] === undefined) delete source[key];
+  }
+  return source;
+}
+
+/**
+ * Required fields the source has no value for
+ */
+export function missingSourceFields(source: Source): (keyof Source)[] {
+  return REQUIRED_SOURCE_FIELDS[source.type].filter((field) => {
+    const value = source[field];
+    return Array.isArray(value) ? value.length === 0 : !value;
+  });
+}
+
+/**
+ * Check and clean a source submitted by a client. Fields that are absent
+ * are left out of the result so updates can merge; null or "" clears a
+ * field. Returns the problems that make the input unusable.
+ */
+export function validateSourceInput(
+  input: any,
+  options: { partial?: boolean } = {}
+): { source: SourceInput; errors: string[] } {
+  const errors: string[] = [];
+  const source: SourceInput = {};
+
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { source, errors: ["Source must be an object"] };
+  }
+
+  if (input.type !== undefined || !options.partial) {
+    if (!(SOURCE_TYPES as unknown[]).includes(input.type)) {
+      errors.push(`type must be one of: ${SOURCE_TYPES.join(", ")}`);
+    } else {
+      source.type = input.type;
+    }
+  }
+
+  for (const field of TEXT_FIELDS) {
+    const value = input[field];
+    if (value === undefined) continue;
+    if (value === null || value === "") {
+      (source as any)[field] = undefined;
+      continue;
+    }
+    if (typeof value !== "string" && typeof value !== "number") {
+      errors.push(`${field} must be a string`);
+      continue;
+    }
+    const cleaned = String(value).trim();
+    if (cleaned.length > MAX_FIELD_LENGTH) {
+      errors.push(`${field} must be at most ${MAX_FIELD_LENGTH} characters`);
+      continue;
+    }
+    (source as any)[field] = cleaned || undefined;
+  }
+
+  if (!options.partial || input.title !== undefined) {
+    if (!source.title) errors.push("title is required");
+  }
+
+  for (const field of ["published_date", "accessed_date"] as const) {
+    const value = source[field];
+    if (!value) continue;
+    const date = /^\d{4}(-\d{2}(-\d{2})?)?$/.test(value) ? parseSourceDate(value) : null;
+    if (!date || (date.month !== undefined && (date.month < 1 || date.month > 12))) {
+      errors.push(`${field} must be an ISO date (YYYY, YYYY-MM or YYYY-MM-DD)`);
+    }
+  }
+
+  if (source.url && !/^https?:\/\/\S+$/i.test(source.url)) {
+    errors.push("url must be an http(s) URL");
+  }
+
+  if (source.doi) {
+    source.doi = stripDoi(source.doi);
+    if (!/^10\.\d{4,9}\/\S+$/.test(source.doi)) errors.push("doi must look like 10.1234/abc");
+  }
+
+  if (source.isbn && !/^[\dXx-]{10,17}$/.test(source.isbn.replace(/\s/g, ""))) {
+    errors.push("isbn must be an ISBN-10 or ISBN-13");
+  }
+
+  for (const field of ["authors", "editors"] as const) {
+    const value = input[field];
+    if (value === undefined) {
+      if (field === "authors" && !options.partial) source.authors = [];
+      continue;
+    }
+    if (value === null) {
+      source[field] = field === "authors" ? [] : undefined;
+      continue;
+    }
+    if (!Array.isArray(value)) {
+      errors.push(`${field} must be an array`);
+      continue;
+    }
+    if (value.length > MAX_CONTRIBUTORS) {
+      errors.push(`${field} may list at most ${MAX_CONTRIBUTORS} people`);
+      continue;
+    }
+    const people = value.map(parseContributor);
+    if (people.some((person) => person === null)) {
+      errors.push(`each of ${field} needs a last name or an organisation name`);
+      continue;
+    }
+    source[field] = people as SourceContributor[];
+  }
+
+  return { source, errors };
+}
+
+/**
+ * Apply cleaned input to a source, dropping cleared fields
+ */
+export function mergeSource(source: Source, changes: SourceInput): Source {
+  const merged: any = { ...source, ...changes, id: source.id };
+  for (const key of Object.keys(merged)) {
+    if (merged[key] === undefined) delete merged[key];
+  }
+  if (!merged.authors) merged.authors = [];
+  return merged as Source;
+}
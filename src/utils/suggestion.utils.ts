@@ -0,0 +1,278 @@
+import type { DocumentFormatting, FormatRange, ParagraphAttributes } from "../models/document.model.js";
+import type { FeedbackType, InsertContext, TextSelection } from "../types/teacher-feedback.types.js";
+import { reanchorSelection } from "./reanchor.utils.js";
+
+export interface SuggestionEdit {
+  valid: boolean;
+  message?: string;
+  // The document changed so that the suggestion no longer fits it
+  stale?: boolean;
+  content?: string;
+  formatting?: DocumentFormatting;
+}
+
+interface Position {
+  paragraphIndex: number;
+  offset: number;
+}
+
+const paragraphStart = (paragraphs: string[], index: number): number =>
+  paragraphs.slice(0, index).reduce((sum, paragraph) => sum + paragraph.length + 1, 0);
+
+const toOffset = (paragraphs: string[], position: Position | null | undefined): number | null => {
+  if (!position) return null;
+  const paragraph = paragraphs[position.paragraphIndex];
+  if (paragraph === undefined || position.offset < 0 || position.offset > paragraph.length) {
+    return null;
+  }
+  return paragraphStart(paragraphs, position.paragraphIndex) + position.offset;
+};
+
+// Characters kept either side of an insert position
+const INSERT_CONTEXT_LENGTH = 30;
+
+/**
+ * The text either side of an insert position, or null when the position is
+ * outside the paragraphs
+ */
+export function insertContextAt(
+  paragraphs: string[],
+  position: Position | null | undefined
+): InsertContext | null {
+  const at = toOffset(paragraphs, position);
+  if (at === null) return null;
+  const content = paragraphs.join("\n");
+  return {
+    before: content.slice(Math.max(0, at - INSERT_CONTEXT_LENGTH), at),
+    after: content.slice(at, at + INSERT_CONTEXT_LENGTH),
+  };
+}
+
+/**
+ * Locate an insert position in the current content. With a stored context
+ * the surrounding text must still be there verbatim - at the stored position
+ * or, failing that, the occurrence closest to it - otherwise the suggestion
+ * no longer applies. Suggestions without a context use the stored position.
+ */
+const locateInsertPosition = (
+  paragraphs: string[],
+  position: Position | null | undefined,
+  context: InsertContext | null | undefined
+): number | null => {
+  const at = toOffset(paragraphs, position);
+  if (!context) return at;
+
+  const content = paragraphs.join("\n");
+  const fits = (offset: number) =>
+    content.slice(offset - context.before.length, offset) === context.before &&
+    content.slice(offset, offset + context.after.length) === context.after;
+  if (at !== null && at >= context.before.length && fits(at)) return at;
+
+  const needle = context.before + context.after;
+  if (!needle) return null;
+  const expected = at ?? paragraphStart(paragraphs, Math.min(position?.paragraphIndex ?? 0, paragraphs.length));
+  let closest: number | null = null;
+  for (let index = content.indexOf(needle); index !== -1; index = content.indexOf(needle, index + 1)) {
+    const offset = index + context.before.length;
+    if (closest === null || Math.abs(offset - expected) < Math.abs(closest - expected)) {
+      closest = offset;
+    }
+  }
+  return closest;
+};
+
+const countBreaks = (text: string): number => (text.match(/\n/g) || []).length;
+
+const paragraphIndexAt = (content: string, offset: number): number =>
+  countBreaks(content.slice(0, offset));
+
+/**
+ * Locate a suggestion's text selection in the current content. The text must
+ * still be there verbatim - at its original position or moved - otherwise the
+ * suggestion no longer applies.
+ */
+const locateSelection = (
+  paragraphs: string[],
+  selection: TextSelection | null | undefined
+): { start: number; end: number } | null => {
+  if (!selection || !selection.selectedText) return null;
+
+  const anchor = reanchorSelection(selection, paragraphs);
+  if (anchor.status === "orphaned" || anchor.confidence < 1) return null;
+
+  const start = toOffset(paragraphs, {
+    paragraphIndex: anchor.selection.startParagraphIndex,
+    offset: anchor.selection.startOffset,
+  });
+  const end = toOffset(paragraphs, {
+    paragraphIndex: anchor.selection.endParagraphIndex,
+    offset: anchor.selection.endOffset,
+  });
+  return start !== null && end !== null && end > start ? { start, end } : null;
+};
+
+// Paragraph attributes are keyed by index; keep them on the right paragraphs
+const shiftParagraphs = (
+  paragraphs: Record<number, ParagraphAttributes>,
+  fromIndex: number,
+  removed: number,
+  added: number
+): Record<number, ParagraphAttributes> => {
+  const shifted: Record<number, ParagraphAttributes> = {};
+  for (const [key, attributes] of Object.entries(paragraphs || {})) {
+    const index = Number(key);
+    if (index <= fromIndex) shifted[index] = attributes;
+    else if (index > fromIndex + removed) shifted[index - removed + added] = attributes;
+  }
+  return shifted;
+};
+
+const deleteFromFormatting = (
+  formatting: DocumentFormatting,
+  content: string,
+  start: number,
+  end: number
+): DocumentFormatting => {
+  const length = end - start;
+  const mapOffset = (offset: number) =>
+    offset <= start ? offset : offset >= end ? offset - length : start;
+
+  const ranges = (formatting.ranges || [])
+    .map((range) => ({
+      ...range,
+      startOffset: mapOffset(range.startOffset),
+      endOffset: mapOffset(range.endOffset),
+    }))
+    .filter((range) => range.endOffset > range.startOffset);
+
+  return {
+    ranges,
+    paragraphs: shiftParagraphs(
+      formatting.paragraphs,
+      paragraphIndexAt(content, start),
+      countBreaks(content.slice(start, end)),
+      0
+    ),
+  };
+};
+
+const insertIntoFormatting = (
+  formatting: DocumentFormatting,
+  content: string,
+  at: number,
+  text: string,
+  movedRanges: FormatRange[] = []
+): DocumentFormatting => {
+  const length = text.length;
+  const ranges = (formatting.ranges || []).map((range) => ({
+    ...range,
+    startOffset: range.startOffset >= at ? range.startOffset + length : range.startOffset,
+    endOffset: range.endOffset > at ? range.endOffset + length : range.endOffset,
+  }));
+
+  for (const range of movedRanges) {
+    ranges.push({
+      ...range,
+      startOffset: range.startOffset + at,
+      endOffset: range.endOffset + at,
+    });
+  }
+
+  return {
+    ranges,
+    paragraphs: shiftParagraphs(
+      formatting.paragraphs,
+      paragraphIndexAt(content, at),
+      0,
+      countBreaks(text)
+    ),
+  };
+};
+
+/**
+ * Apply a delete, insert or move suggestion to plain document content and
+ * keep its character and paragraph formatting aligned with the new text.
+ * Positions follow the editor model: paragraphs are the lines of content.
+ */
+export function applySuggestion(
+  type: FeedbackType,
+  feedbackData: any,
+  content: string,
+  formatting: DocumentFormatting | null | undefined
+): SuggestionEdit {
+  const paragraphs = content.split("\n");
+  const currentFormatting: DocumentFormatting = {
+    ranges: formatting?.ranges || [],
+    paragraphs: formatting?.paragraphs || {},
+  };
+
+  switch (type) {
+    case "delete": {
+      const range = locateSelection(paragraphs, feedbackData?.deleteSelection);
+      if (!range) {
+        return { valid: false, message: "The text to delete is no longer in the document" };
+      }
+      return {
+        valid: true,
+        content: content.slice(0, range.start) + content.slice(range.end),
+        formatting: deleteFromFormatting(currentFormatting, content, range.start, range.end),
+      };
+    }
+
+    case "insert": {
+      const text = feedbackData?.insertText;
+      if (!text) {
+        return { valid: false, message: "This suggestion has no text to insert" };
+      }
+      const at = locateInsertPosition(paragraphs, feedbackData?.insertPosition, feedbackData?.insertContext);
+      if (at === null) {
+        return feedbackData?.insertContext
+          ? { valid: false, stale: true, message: "The text around the insert position has changed" }
+          : { valid: false, message: "The insert position is outside the document" };
+      }
+      return {
+        valid: true,
+        content: content.slice(0, at) + text + content.slice(at),
+        formatting: insertIntoFormatting(currentFormatting, content, at, text),
+      };
+    }
+
+    case "move": {
+      const moveSelection = feedbackData?.moveSelection;
+      const range = locateSelection(paragraphs, moveSelection?.textSelection);
+      if (!range) {
+        return { valid: false, message: "The text to move is no longer in the document" };
+      }
+      const destination = toOffset(paragraphs, moveSelection?.destinationPosition);
+      if (destination === null) {
+        return { valid: false, message: "The move destination is outside the document" };
+      }
+      if (destination > range.start && destination < range.end) {
+        return { valid: false, message: "The move destination is inside the moved text" };
+      }
+
+      const text = content.slice(range.start, range.end);
+      const withoutText = content.slice(0, range.start) + content.slice(range.end);
+      const at = destination >= range.end ? destination - text.length : destination;
+
+      // Formatting inside the moved text travels with it
+      const movedRanges = currentFormatting.ranges
+        .filter((item) => item.startOffset >= range.start && item.endOffset <= range.end)
+        .map((item) => ({
+          ...item,
+          startOffset: item.startOffset - range.start,
+          endOffset: item.endOffset - range.start,
+        }));
+      const afterDelete = deleteFromFormatting(currentFormatting, content, range.start, range.end);
+
+      return {
+        valid: true,
+        content: withoutText.slice(0, at) + text + withoutText.slice(at),
+        formatting: insertIntoFormatting(afterDelete, withoutText, at, text, movedRanges),
+      };
+    }
+
+    default:
+      return { valid: false, message: `${type} feedback is not an edit suggestion` };
+  }
+}
@@ -142,3 +142,64 @@ export function normalizeTimezone(timezone: string): string {
   // Default to UTC if invalid
   return 'UTC';
 }
+
+/**
+ * Offset (in minutes) of a timezone from UTC at a given instant
+ */
+function getTimezoneOffsetMinutes(instant: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+
+  const get = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+
+  const asUtc = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second')
+  );
+
+  return Math.round((asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Interpret a wall-clock time (e.g. a `timestamp` column such as assignment due_date)
+ * as local time in the given timezone and return the matching instant.
+ *
+ * node-postgres parses `timestamp without time zone` values using the server's local
+ * time, so the local getters of the Date hold the stored wall-clock values.
+ */
+export function zonedWallClockToUtc(wallClock: Date, timezone: string): Date {
+  const tz = normalizeTimezone(timezone);
+  const guess = Date.UTC(
+    wallClock.getFullYear(),
+    wallClock.getMonth(),
+    wallClock.getDate(),
+    wallClock.getHours(),
+    wallClock.getMinutes(),
+    wallClock.getSeconds(),
+    wallClock.getMilliseconds()
+  );
+
+  const offset = getTimezoneOffsetMinutes(new Date(guess), tz);
+  let result = guess - offset * 60000;
+
+  // Re-check around DST transitions where the first guess lands on the other side
+  const correctedOffset = getTimezoneOffsetMinutes(new Date(result), tz);
+  if (correctedOffset !== offset) {
+    result = guess - correctedOffset * 60000;
+  }
+
+  return new Date(result);
+}
@@ -0,0 +1,85 @@
+import { BlockList, isIP } from "net";
+
+/**
+ * Address ranges a server-side fetch must never reach: loopback, private
+ * networks, link-local (cloud metadata endpoints), carrier-grade NAT,
+ * documentation, benchmarking, multicast and reserved space
+ */
+const BLOCKED_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.88.99.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["100::", 64],
+  ["2001:db8::", 32],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, "ipv6");
+}
+
+export function isBlockedAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) return BLOCKED_RANGES.check(address, "ipv4");
+  if (version !== 6) return true;
+
+  // IPv4-mapped and IPv4-compatible addresses reach the IPv4 host
+  const mapped = /^::(ffff:)?(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return BLOCKED_RANGES.check(mapped[2]!, "ipv4");
+  const mappedHex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i.exec(address);
+  if (mappedHex) {
+    const high = parseInt(mappedHex[1]!, 16);
+    const low = parseInt(mappedHex[2]!, 16);
+    return BLOCKED_RANGES.check(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`, "ipv4");
+  }
+  return BLOCKED_RANGES.check(address, "ipv6");
+}
+
+const TRACKING_PARAMS = /^(utm_[a-z]+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|_ga)$/i;
+
+/**
+ * Parse a user-supplied web address into the form used as a cache key:
+ * http(s) only, no credentials, no fragment, tracking parameters removed
+ * and the rest sorted. Returns null for anything else.
+ */
+export function normalizeWebUrl(raw: unknown): URL | null {
+  if (typeof raw !== "string" || raw.length > 2048) return null;
+
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    return null;
+  }
+
+  if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+  if (url.username || url.password || !url.hostname) return null;
+
+  url.hash = "";
+  url.hostname = url.hostname.replace(/\.$/, "");
+  for (const key of [...url.searchParams.keys()]) {
+    if (TRACKING_PARAMS.test(key)) url.searchParams.delete(key);
+  }
+  url.searchParams.sort();
+  return url;
+}
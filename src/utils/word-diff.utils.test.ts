@@ -0,0 +1,64 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { DiffChange, diffWords } from "./word-diff.utils.js";
+
+const rebuild = (changes: DiffChange[], side: "old" | "new"): string =>
+  changes
+    .filter((change) => change.type === "equal" || change.type === (side === "old" ? "delete" : "insert"))
+    .map((change) => change.text)
+    .join("");
+
+describe("diffWords", () => {
+  it("reports a replaced word", () => {
+    const diff = diffWords("the quick fox", "the slow fox");
+    assert.deepEqual(diff.changes, [
+      { type: "equal", text: "the " },
+      { type: "delete", text: "quick" },
+      { type: "insert", text: "slow" },
+      { type: "equal", text: " fox" },
+    ]);
+    assert.deepEqual(diff.stats, { wordsAdded: 1, wordsRemoved: 1, wordsUnchanged: 2 });
+  });
+
+  it("rebuilds both texts from its chunks", () => {
+    const oldText = "One line.\nAnother  line with   spaces.\n";
+    const newText = "One new line.\nAnother line with spaces and more.";
+    const { changes } = diffWords(oldText, newText);
+    assert.equal(rebuild(changes, "old"), oldText);
+    assert.equal(rebuild(changes, "new"), newText);
+  });
+
+  it("treats identical and empty texts as unchanged", () => {
+    assert.deepEqual(diffWords("same words", "same words").stats, {
+      wordsAdded: 0,
+      wordsRemoved: 0,
+      wordsUnchanged: 2,
+    });
+    assert.deepEqual(diffWords("", ""), {
+      changes: [],
+      stats: { wordsAdded: 0, wordsRemoved: 0, wordsUnchanged: 0 },
+    });
+  });
+
+  it("counts words added to and removed from empty text", () => {
+    assert.deepEqual(diffWords("", "brand new text").stats, {
+      wordsAdded: 3,
+      wordsRemoved: 0,
+      wordsUnchanged: 0,
+    });
+    assert.deepEqual(diffWords("all gone", "").stats, {
+      wordsAdded: 0,
+      wordsRemoved: 2,
+      wordsUnchanged: 0,
+    });
+  });
+
+  it("falls back to one replacement for unrelated long texts", () => {
+    const oldText = Array.from({ length: 3000 }, (_, index) => `old${index}`).join(" ");
+    const newText = Array.from({ length: 3000 }, (_, index) => `new${index}`).join(" ");
+    const diff = diffWords(oldText, newText);
+    assert.equal(rebuild(diff.changes, "old"), oldText);
+    assert.equal(rebuild(diff.changes, "new"), newText);
+    assert.deepEqual(diff.stats, { wordsAdded: 3000, wordsRemoved: 3000, wordsUnchanged: 0 });
+  });
+});
@@ -0,0 +1,152 @@
+export type DiffChangeType = "equal" | "insert" | "delete";
+
+export interface DiffChange {
+  type: DiffChangeType;
+  text: string;
+}
+
+export interface WordDiff {
+  changes: DiffChange[];
+  stats: {
+    wordsAdded: number;
+    wordsRemoved: number;
+    wordsUnchanged: number;
+  };
+}
+
+/**
+ * Beyond this many edits the middle of the texts is reported as one
+ * replacement; keeps diffs of unrelated revisions cheap
+ */
+const MAX_EDIT_DISTANCE = 4000;
+
+// Words and the whitespace between them, so joining tokens gives the text back
+const tokenize = (text: string): string[] => text.match(/\s+|[^\s]+/g) || [];
+
+const isWord = (token: string): boolean => /\S/.test(token);
+
+/**
+ * Myers' O((N+M)D) shortest edit script over two token lists. Returns
+ * null when the edit distance exceeds MAX_EDIT_DISTANCE.
+ */
+const shortestEditScript = (a: string[], b: string[]): DiffChange[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v for diagonals -d-1..d+1 as it was before step d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1]! < v[offset + k + 1]!)
+          ? v[offset + k + 1]!
+          : v[offset + k - 1]! + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, a, b);
+      }
+    }
+  }
+
+  return null;
+};
+
+const backtrack = (trace: Int32Array[], a: string[], b: string[]): DiffChange[] => {
+  const changes: DiffChange[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const snapshot = trace[d]!;
+    const at = (k: number) => snapshot[k + d + 1]!;
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      changes.push({ type: "equal", text: a[--x]! });
+      y--;
+    }
+    if (x === prevX) {
+      changes.push({ type: "insert", text: b[--y]! });
+    } else {
+      changes.push({ type: "delete", text: a[--x]! });
+    }
+  }
+
+  while (x > 0 && y > 0) {
+    changes.push({ type: "equal", text: a[--x]! });
+    y--;
+  }
+
+  return changes.reverse();
+};
+
+// Join runs of the same change type into single chunks
+const mergeChanges = (changes: DiffChange[]): DiffChange[] => {
+  const merged: DiffChange[] = [];
+  for (const change of changes) {
+    const last = merged[merged.length - 1];
+    if (last && last.type === change.type) {
+      last.text += change.text;
+    } else {
+      merged.push({ ...change });
+    }
+  }
+  return merged;
+};
+
+/**
+ * Word-level diff between two texts. Whitespace is kept as its own tokens
+ * so the equal and insert chunks rebuild the new text and the equal and
+ * delete chunks rebuild the old one.
+ */
+export function diffWords(oldText: string, newText: string): WordDiff {
+  const a = tokenize(oldText || "");
+  const b = tokenize(newText || "");
+
+  // Common prefix and suffix do not need the edit script
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const middle = shortestEditScript(middleA, middleB) ?? [
+    ...middleA.map((text): DiffChange => ({ type: "delete", text })),
+    ...middleB.map((text): DiffChange => ({ type: "insert", text })),
+  ];
+
+  const tokens: DiffChange[] = [
+    ...a.slice(0, start).map((text): DiffChange => ({ type: "equal", text })),
+    ...middle,
+    ...a.slice(endA).map((text): DiffChange => ({ type: "equal", text })),
+  ];
+
+  const stats = { wordsAdded: 0, wordsRemoved: 0, wordsUnchanged: 0 };
+  for (const token of tokens) {
+    if (!isWord(token.text)) continue;
+    if (token.type === "insert") stats.wordsAdded++;
+    else if (token.type === "delete") stats.wordsRemoved++;
+    else stats.wordsUnchanged++;
+  }
+
+  return { changes: mergeChanges(tokens), stats };
+}
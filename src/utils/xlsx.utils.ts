@@ -0,0 +1,31 @@
+import ExcelJS from "exceljs";
+
+export type XLSXCell = string | number | boolean | null | undefined;
+
+export async function buildXLSX(
+  sheetName: string,
+  headers: string[],
+  rows: XLSXCell[][]
+): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  // Sheet names are limited to 31 characters and cannot contain []:*?/\
+  const worksheet = workbook.addWorksheet(
+    sheetName.replace(/[[\]:*?/\\]/g, " ").slice(0, 31) || "Sheet1"
+  );
+
+  worksheet.addRow(headers);
+  worksheet.getRow(1).font = { bold: true };
+  worksheet.views = [{ state: "frozen", ySplit: 1 }];
+
+  for (const row of rows) {
+    worksheet.addRow(row.map((cell) => (cell === undefined ? null : cell)));
+  }
+
+  worksheet.columns.forEach((column, index) => {
+    const headerLength = headers[index]?.length ?? 10;
+    column.width = Math.min(Math.max(headerLength + 2, 12), 40);
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer as ArrayBuffer);
+}
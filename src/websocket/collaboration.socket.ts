@@ -0,0 +1,192 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { randomUUID } from "crypto";
+import { WebSocketServer, WebSocket } from "ws";
+import { verifyAccessToken } from "../utils/jwt.utils.js";
+import { UserModel, User } from "../models/user.model.js";
+import { SchoolModel } from "../models/school.model.js";
+import { DocumentModel } from "../models/document.model.js";
+import {
+  CollaborationError,
+  handleClientMessage,
+  joinSession,
+  leaveSession,
+  resolveCollaborationRole,
+} from "../services/collaboration.service.js";
+import type { ClientMessage, CollaborationRole } from "../types/collaboration.types.js";
+
+/**
+ * WebSocket endpoint for live document editing:
+ *   ws(s)://<host>/api/v1/documents/:id/live
+ *
+ * Authenticated like the REST API - the access_token cookie in production,
+ * otherwise a Bearer header or ?token= (browsers cannot set headers on
+ * WebSocket requests). Messages are JSON; see collaboration.types.ts.
+ */
+const LIVE_PATH = /^\/api\/v1\/documents\/([0-9a-f-]{36})\/live\/?$/i;
+
+const MAX_MESSAGE_BYTES = 1024 * 1024;
+const HEARTBEAT_MS = 30000;
+
+const readCookie = (header: string | undefined, name: string): string | undefined => {
+  for (const part of (header || "").split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
+  }
+  return undefined;
+};
+
+const readToken = (req: IncomingMessage, url: URL): string | undefined => {
+  if (process.env.NODE_ENV === "production") {
+    return readCookie(req.headers.cookie, "access_token");
+  }
+  const authHeader = req.headers.authorization;
+  if (authHeader && authHeader.startsWith("Bearer ")) return authHeader.split(" ")[1];
+  return url.searchParams.get("token") || readCookie(req.headers.cookie, "access_token");
+};
+
+const reject = (socket: Duplex, status: number, message: string) => {
+  socket.write(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+};
+
+// Same user and school resolution as the authenticate middleware
+const authenticateUpgrade = async (
+  req: IncomingMessage,
+  url: URL
+): Promise<{ user: User; schoolId: string | null } | null> => {
+  const token = readToken(req, url);
+  if (!token) return null;
+
+  let userId: string;
+  try {
+    userId = verifyAccessToken(token).userId;
+  } catch {
+    return null;
+  }
+
+  const user = userId ? await UserModel.findById(userId) : null;
+  if (!user || !user.is_active) return null;
+
+  if (user.user_type === "admin") {
+    const school = await SchoolModel.findByAdmin(user.id);
+    return { user, schoolId: school?.id || null };
+  }
+  return { user, schoolId: user.school_id || null };
+};
+
+const handleConnection = (
+  ws: WebSocket & { isAlive?: boolean },
+  documentId: string,
+  user: User,
+  schoolId: string | null,
+  role: CollaborationRole
+) => {
+  const clientId = randomUUID();
+  const send = (message: unknown) => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+  };
+
+  ws.isAlive = true;
+  ws.on("pong", () => {
+    ws.isAlive = true;
+  });
+
+  // Messages that arrive before the session is joined wait for it
+  const joined = joinSession(documentId, {
+    clientId,
+    userId: user.id,
+    userType: user.user_type,
+    schoolId,
+    name: [user.first_name, user.last_name].filter(Boolean).join(" ") || user.username,
+    role,
+    send,
+    close: (code, reason) => ws.close(code, reason),
+  });
+
+  joined.catch((error) => {
+    if (error instanceof CollaborationError) {
+      send({ type: "error", code: error.code, message: error.message });
+      ws.close(1008, error.code);
+      return;
+    }
+    console.error("Error joining live document:", error);
+    ws.close(1011, "join_failed");
+  });
+
+  ws.on("message", async (data) => {
+    let message: ClientMessage;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      send({ type: "error", code: "invalid_message", message: "Messages must be JSON" });
+      return;
+    }
+
+    try {
+      await joined;
+      handleClientMessage(documentId, clientId, message);
+    } catch (error) {
+      if (!(error instanceof CollaborationError)) {
+        console.error("Error handling live document message:", error);
+      }
+    }
+  });
+
+  ws.on("close", () => {
+    joined
+      .then(() => leaveSession(documentId, clientId))
+      .catch((error) => {
+        if (!(error instanceof CollaborationError)) {
+          console.error("Error leaving live document:", error);
+        }
+      });
+  });
+};
+
+/**
+ * Accept live editing connections on the HTTP server. Other upgrade
+ * requests are refused.
+ */
+export const attachCollaborationServer = (server: Server): WebSocketServer => {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+
+  server.on("upgrade", async (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    try {
+      const url = new URL(req.url || "/", "http://localhost");
+      const match = LIVE_PATH.exec(url.pathname);
+      if (!match) return reject(socket, 404, "Not Found");
+
+      const auth = await authenticateUpgrade(req, url);
+      if (!auth) return reject(socket, 401, "Unauthorized");
+
+      const document = await DocumentModel.findById(match[1]!);
+      if (!document) return reject(socket, 404, "Not Found");
+
+      const role = await resolveCollaborationRole(document, auth.user, auth.schoolId);
+      if (!role) return reject(socket, 403, "Forbidden");
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        handleConnection(ws, document.id, auth.user, auth.schoolId, role);
+      });
+    } catch (error) {
+      console.error("Error upgrading live document connection:", error);
+      reject(socket, 500, "Internal Server Error");
+    }
+  });
+
+  // Drop connections that stop answering pings
+  const heartbeat = setInterval(() => {
+    for (const client of wss.clients as Set<WebSocket & { isAlive?: boolean }>) {
+      if (client.isAlive === false) {
+        client.terminate();
+        continue;
+      }
+      client.isAlive = false;
+      client.ping();
+    }
+  }, HEARTBEAT_MS);
+  wss.on("close", () => clearInterval(heartbeat));
+
+  return wss;
+};